@@ -3,6 +3,8 @@ import { Toaster } from '@/components/ui/sonner';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { CartProvider } from '@/contexts/CartContext';
+import { CompareProvider } from '@/contexts/CompareContext';
+import { FavoritesProvider } from '@/contexts/FavoritesContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useEffect, useState, Suspense } from 'react';
 import { AlertCircle } from 'lucide-react';
@@ -22,6 +24,7 @@ import LoginPage from '@/pages/LoginPage';
 import RegisterPage from '@/pages/RegisterPage';
 import CorretorPage from '@/pages/CorretorPage';
 import ProductDetailsPage from '@/pages/ProductDetailsPage';
+import ComparePage from '@/pages/ComparePage';
 import HelpCenterPage from '@/pages/HelpCenterPage';
 import HelpCategoryPage from '@/pages/HelpCategoryPage';
 import HelpArticlePage from '@/pages/HelpArticlePage';
@@ -31,10 +34,16 @@ import DashboardPage from '@/pages/dashboard/DashboardPage';
 import SettingsPage from '@/pages/dashboard/SettingsPage';
 import ListingsPage from '@/pages/dashboard/ListingsPage';
 import CreateProductPage from '@/pages/dashboard/CreateProductPage';
+import ImportProductsPage from '@/pages/dashboard/ImportProductsPage';
 import EditProductPage from '@/pages/dashboard/EditProductPage';
 import TrackingSettingsPage from '@/pages/dashboard/TrackingSettingsPage';
 import CategoriesPage from '@/pages/dashboard/CategoriesPage';
 import ReferralPage from '@/pages/dashboard/ReferralPage';
+import OrdersPage from '@/pages/dashboard/OrdersPage';
+import AbandonedCartsPage from '@/pages/dashboard/AbandonedCartsPage';
+import ProductPerformancePage from '@/pages/dashboard/ProductPerformancePage';
+import CouponsPage from '@/pages/dashboard/CouponsPage';
+import PromotionsPage from '@/pages/dashboard/PromotionsPage';
 
 // Admin Pages
 import AdminDashboardPage from '@/pages/admin/AdminDashboardPage';
@@ -153,6 +162,7 @@ function AppContent() {
           {/* Corretor Public Profile Routes */}
           <Route path="/:slug" element={<CorretorPage />} />
           <Route path="/:slug/produtos/:productId" element={<ProductDetailsPage />} />
+          <Route path="/:slug/comparar" element={<ComparePage />} />
         </Route>
 
         {/* Protected Dashboard Routes */}
@@ -161,7 +171,13 @@ function AppContent() {
             <Route path="/dashboard" element={<DashboardPage />} />
             <Route path="/dashboard/settings" element={<SettingsPage />} />
             <Route path="/dashboard/listings" element={<ListingsPage />} />
+            <Route path="/dashboard/performance" element={<ProductPerformancePage />} />
+            <Route path="/dashboard/orders" element={<OrdersPage />} />
+            <Route path="/dashboard/abandoned-carts" element={<AbandonedCartsPage />} />
+            <Route path="/dashboard/coupons" element={<CouponsPage />} />
+            <Route path="/dashboard/promotions" element={<PromotionsPage />} />
             <Route path="/dashboard/products/new" element={<CreateProductPage />} />
+            <Route path="/dashboard/products/import" element={<ImportProductsPage />} />
             <Route path="/dashboard/products/:id/edit" element={<EditProductPage />} />
             <Route path="/dashboard/categories" element={<CategoriesPage />} />
             <Route path="/dashboard/referral" element={<ReferralPage />} />
@@ -192,9 +208,13 @@ export default function App() {
       <ThemeProvider>
         <AuthProvider>
           <CartProvider>
-            <AppContent />
-            <Toaster />
-            <FloatingWhatsAppButton />
+            <CompareProvider>
+              <FavoritesProvider>
+                <AppContent />
+                <Toaster />
+                <FloatingWhatsAppButton />
+              </FavoritesProvider>
+            </CompareProvider>
           </CartProvider>
         </AuthProvider>
       </ThemeProvider>
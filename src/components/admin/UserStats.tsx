@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Building2, Users, TrendingUp, Loader2 } from 'lucide-react';
+import { Package, Eye, Users, TrendingUp, Loader2 } from 'lucide-react';
 import {
   LineChart,
   Line,
@@ -13,45 +13,46 @@ import {
   Bar,
   Legend,
 } from 'recharts';
-import { format, subDays, startOfDay, endOfDay } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { supabase } from '@/lib/supabase';
-import { formatCurrency as formatCurrencyUtil } from '@/lib/utils';
-
-// Helper function to format currency with BRL default for admin pages
-const formatCurrency = (value: number) => formatCurrencyUtil(value, 'BRL', 'pt-BR');
+import {
+  CONTACT_EVENT_TYPES,
+  VIEW_EVENT_TYPES,
+  countStorefrontEvents,
+  getDailyEventCounts,
+  getInteractionCounts,
+  loadRecentStorefrontEvents,
+  type DailyEventCounts,
+} from '@/lib/storefrontEventUtils';
 
 interface UserStatsProps {
   userId: string;
 }
 
 interface DashboardStats {
-  totalProperties: number;
+  totalProducts: number;
   totalViews: number;
   totalLeads: number;
   conversionRate: number;
 }
 
-interface ChartData {
-  date: string;
-  views: number;
-  leads: number;
-}
-
-interface LeadsBySource {
-  source: string;
+interface InteractionCount {
+  event: string;
   count: number;
 }
 
+// Period of the stats cards and of the interactions chart
+const STATS_DAYS = 30;
+const CHART_DAYS = 7;
+
 export function UserStats({ userId }: UserStatsProps) {
   const [stats, setStats] = useState<DashboardStats>({
-    totalProperties: 0,
+    totalProducts: 0,
     totalViews: 0,
     totalLeads: 0,
     conversionRate: 0,
   });
-  const [chartData, setChartData] = useState<ChartData[]>([]);
-  const [leadsBySource, setLeadsBySource] = useState<LeadsBySource[]>([]);
+  const [chartData, setChartData] = useState<DailyEventCounts[]>([]);
+  const [interactions, setInteractions] = useState<InteractionCount[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -62,83 +63,25 @@ export function UserStats({ userId }: UserStatsProps) {
 
   const fetchDashboardData = async () => {
     try {
-      // Fetch products (changed from properties to products)
-      const { data: propertiesData } = await supabase
-        .from('products')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      // Fetch total views
-      const { count: totalViews } = await supabase
-        .from('property_views')
-        .select('*', { count: 'exact', head: true })
-        .in('property_id', propertiesData?.map(p => p.id) || []);
+      const [{ count: totalProducts }, summary] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId),
+        loadRecentStorefrontEvents(userId, STATS_DAYS),
+      ]);
 
-      // Fetch total leads
-      const { count: totalLeads } = await supabase
-        .from('leads')
-        .select('*', { count: 'exact', head: true })
-        .in('property_id', propertiesData?.map(p => p.id) || []);
-
-      // Calculate conversion rate
-      const conversionRate = totalViews ? (totalLeads / totalViews) * 100 : 0;
+      const totalViews = countStorefrontEvents(summary, VIEW_EVENT_TYPES);
+      const totalLeads = countStorefrontEvents(summary, CONTACT_EVENT_TYPES);
 
       setStats({
-        totalProperties: propertiesData?.length || 0,
-        totalViews: totalViews || 0,
-        totalLeads: totalLeads || 0,
-        conversionRate,
+        totalProducts: totalProducts || 0,
+        totalViews,
+        totalLeads,
+        conversionRate: totalViews > 0 ? (totalLeads / totalViews) * 100 : 0,
       });
-
-      // Fetch chart data for the last 7 days
-      const chartData = await Promise.all(
-        Array.from({ length: 7 }).map(async (_, i) => {
-          const date = subDays(new Date(), i);
-          const start = startOfDay(date);
-          const end = endOfDay(date);
-
-          const { count: views } = await supabase
-            .from('property_views')
-            .select('*', { count: 'exact', head: true })
-            .in('property_id', propertiesData?.map(p => p.id) || [])
-            .gte('viewed_at', start.toISOString())
-            .lte('viewed_at', end.toISOString());
-
-          const { count: leads } = await supabase
-            .from('leads')
-            .select('*', { count: 'exact', head: true })
-            .in('property_id', propertiesData?.map(p => p.id) || [])
-            .gte('created_at', start.toISOString())
-            .lte('created_at', end.toISOString());
-
-          return {
-            date: format(date, 'dd/MM', { locale: ptBR }),
-            views: views || 0,
-            leads: leads || 0,
-          };
-        })
-      );
-
-      setChartData(chartData.reverse());
-
-      // Fetch leads by source
-      const { data: leadSourceData } = await supabase
-        .from('leads')
-        .select('source')
-        .in('property_id', propertiesData?.map(p => p.id) || []);
-
-      const sourceCount = leadSourceData?.reduce((acc, curr) => {
-        acc[curr.source] = (acc[curr.source] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-      setLeadsBySource(
-        Object.entries(sourceCount || {}).map(([source, count]) => ({
-          source,
-          count,
-        }))
-      );
+      setChartData(getDailyEventCounts(summary, CHART_DAYS));
+      setInteractions(getInteractionCounts(summary));
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
     } finally {
@@ -160,23 +103,23 @@ export function UserStats({ userId }: UserStatsProps) {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
-            <CardTitle className="text-sm font-medium">Total de Imóveis</CardTitle>
-            <Building2 className="h-4 w-4 text-muted-foreground" />
+            <CardTitle className="text-sm font-medium">Total de Produtos</CardTitle>
+            <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalProperties}</div>
-            <p className="text-xs text-muted-foreground">Imóveis cadastrados</p>
+            <div className="text-2xl font-bold">{stats.totalProducts}</div>
+            <p className="text-xs text-muted-foreground">Produtos cadastrados</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Visualizações</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
+            <Eye className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalViews}</div>
-            <p className="text-xs text-muted-foreground">Total de visualizações</p>
+            <p className="text-xs text-muted-foreground">Vitrine e produtos nos últimos {STATS_DAYS} dias</p>
           </CardContent>
         </Card>
 
@@ -187,7 +130,7 @@ export function UserStats({ userId }: UserStatsProps) {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalLeads}</div>
-            <p className="text-xs text-muted-foreground">Contatos recebidos</p>
+            <p className="text-xs text-muted-foreground">WhatsApp e pedidos nos últimos {STATS_DAYS} dias</p>
           </CardContent>
         </Card>
 
@@ -211,7 +154,7 @@ export function UserStats({ userId }: UserStatsProps) {
           <CardHeader>
             <CardTitle>Visualizações e Leads</CardTitle>
             <p className="text-sm text-muted-foreground">
-              Últimos 7 dias
+              Últimos {CHART_DAYS} dias
             </p>
           </CardHeader>
           <CardContent>
@@ -243,20 +186,20 @@ export function UserStats({ userId }: UserStatsProps) {
 
         <Card>
           <CardHeader>
-            <CardTitle>Leads por Origem</CardTitle>
+            <CardTitle>Interações na Vitrine</CardTitle>
             <p className="text-sm text-muted-foreground">
-              Distribuição dos contatos
+              Últimos {STATS_DAYS} dias
             </p>
           </CardHeader>
           <CardContent>
             <div className="h-[300px]">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={leadsBySource}>
+                <BarChart data={interactions}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="source" />
+                  <XAxis dataKey="event" />
                   <YAxis />
                   <Tooltip />
-                  <Bar dataKey="count" fill="#8884d8" name="Leads" />
+                  <Bar dataKey="count" fill="#8884d8" name="Eventos" />
                 </BarChart>
               </ResponsiveContainer>
             </div>
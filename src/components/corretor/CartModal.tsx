@@ -1,10 +1,13 @@
-import { useState } from 'react';
-import { X, Plus, Minus, Trash2, ShoppingCart, MessageCircle, Edit3, Palette, Ruler } from 'lucide-react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { X, Plus, Minus, Trash2, ShoppingCart, MessageCircle, Edit3, Palette, Ruler, Loader2, ArrowRight, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -22,9 +25,38 @@ import {
 import { useCart } from '@/contexts/CartContext';
 import { formatCurrencyI18n, generateWhatsAppMessage, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { generateWhatsAppUrl } from '@/lib/utils';
-import { trackWhatsAppClick } from '@/lib/tracking';
-import type { User } from '@/types';
-import { generateCartOrderMessage } from '@/lib/cartUtils';
+import { createEventId, trackMetaEvent, trackStorefrontEvent } from '@/lib/tracking';
+import type {
+  CartItemChangeReason,
+  CheckoutData,
+  CheckoutSettings,
+  DeliveryMethod,
+  PaymentConditionOption,
+  PaymentConditionsSettings,
+  ShippingDestination,
+  ShippingSettings,
+  User,
+} from '@/types';
+import { generateCartOrderMessage, getCartItemUnitPrice } from '@/lib/cartUtils';
+import { createOrder, type CreatedOrder } from '@/lib/orderUtils';
+import { isUnavailableChange } from '@/lib/cartSyncUtils';
+import { isOptionAvailable } from '@/lib/variantUtils';
+import { loadCheckoutSettings } from '@/lib/checkoutUtils';
+import { calculateShipping, loadShippingSettings } from '@/lib/shippingUtils';
+import { formatPaymentCondition, getPaymentOptions, loadPaymentConditions } from '@/lib/paymentConditionsUtils';
+import { CheckoutForm } from './CheckoutForm';
+import { ShippingCalculator } from './ShippingCalculator';
+import { CouponField } from './CouponField';
+
+const getPaymentOptionKey = (option: PaymentConditionOption) => `${option.method}-${option.installments}`;
+
+const CHANGE_LABELS: Record<CartItemChangeReason, string> = {
+  sold: 'Vendido',
+  hidden: 'Indisponível na vitrine',
+  unavailable: 'Indisponível',
+  price_changed: 'Preço alterado',
+  quantity_reduced: 'Quantidade ajustada ao estoque',
+};
 
 interface CartModalProps {
   open: boolean;
@@ -41,44 +73,256 @@ export default function CartModal({
   currency = 'BRL',
   language = 'pt-BR'
 }: CartModalProps) {
-  const { cart, updateVariantQuantity, removeCartVariant, clearCart, updateVariantNotes, updateVariantOptions } = useCart();
+  const {
+    cart,
+    cartChanges,
+    revalidateCart,
+    acknowledgeCartChanges,
+    updateVariantQuantity,
+    removeCartVariant,
+    clearCart,
+    updateVariantNotes,
+    updateVariantOptions,
+    setShippingFee,
+    setRecoveryContact,
+  } = useCart();
   const { t } = useTranslation(language);
   const [sendingOrder, setSendingOrder] = useState(false);
   const [editingNotes, setEditingNotes] = useState<string | null>(null);
   const [editingVariant, setEditingVariant] = useState<string | null>(null);
+  const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [checkoutSettings, setCheckoutSettings] = useState<CheckoutSettings | null>(null);
+  const [step, setStep] = useState<'cart' | 'checkout'>('cart');
+  const [shippingSettings, setShippingSettings] = useState<ShippingSettings | null>(null);
+  const [deliveryMethod, setDeliveryMethod] = useState<DeliveryMethod | undefined>();
+  const [destination, setDestination] = useState<ShippingDestination>({});
+  const [paymentConditions, setPaymentConditions] = useState<PaymentConditionsSettings | null>(null);
+  const [paymentOptionKey, setPaymentOptionKey] = useState<string | undefined>();
+  const openedRef = useRef(false);
+
+  // Runs once each time the modal opens, not when the cart changes while it's open
+  useEffect(() => {
+    if (!open) {
+      openedRef.current = false;
+      return;
+    }
+    if (openedRef.current) return;
+
+    openedRef.current = true;
+
+    // Prices and availability may have changed since the items were added
+    revalidateCart();
+
+    if (cart.recoveryContact) {
+      setCustomerName(cart.recoveryContact.name || '');
+      setCustomerPhone(cart.recoveryContact.phone);
+    }
+  }, [open, revalidateCart, cart.recoveryContact]);
+
+  useEffect(() => {
+    if (open && corretor.id) {
+      loadCheckoutSettings(corretor.id)
+        .then(setCheckoutSettings)
+        .catch(error => console.error('Error loading checkout settings:', error));
+
+      loadShippingSettings(corretor.id)
+        .then(setShippingSettings)
+        .catch(error => console.error('Error loading shipping settings:', error));
+
+      loadPaymentConditions(corretor.id)
+        .then(setPaymentConditions)
+        .catch(error => console.error('Error loading payment conditions:', error));
+    }
+
+    if (!open) {
+      setStep('cart');
+    }
+  }, [open, corretor.id]);
+
+  const checkoutEnabled = !!checkoutSettings?.enabled;
+  const shippingEnabled = !!shippingSettings?.enabled;
+
+  // Pickup is only offered when the shipping settings allow it
+  const deliveryMethods = useMemo<DeliveryMethod[]>(() => {
+    const methods: DeliveryMethod[] = checkoutEnabled && checkoutSettings
+      ? checkoutSettings.deliveryMethods
+      : ['pickup', 'delivery'];
+
+    if (!shippingEnabled || shippingSettings?.pickupEnabled) return methods;
+
+    return ['delivery'];
+  }, [checkoutEnabled, checkoutSettings, shippingEnabled, shippingSettings?.pickupEnabled]);
+
+  const effectiveCheckoutSettings = useMemo(() => (
+    checkoutSettings ? { ...checkoutSettings, deliveryMethods } : null
+  ), [checkoutSettings, deliveryMethods]);
+
+  // Default to the only delivery option available
+  useEffect(() => {
+    if (shippingEnabled && deliveryMethods.length === 1) {
+      setDeliveryMethod(deliveryMethods[0]);
+    }
+  }, [shippingEnabled, deliveryMethods]);
+
+  const shippingQuote = useMemo(() => {
+    if (!shippingSettings?.enabled || deliveryMethod !== 'delivery') return null;
+    return calculateShipping(shippingSettings, cart.subtotal, destination);
+  }, [shippingSettings, deliveryMethod, cart.subtotal, destination]);
+
+  // Keep the cart total in sync with the shipping fee
+  useEffect(() => {
+    setShippingFee(shippingQuote?.available ? shippingQuote.fee : 0);
+  }, [shippingQuote?.available, shippingQuote?.fee, setShippingFee]);
+
+  const hasCartChanges = cartChanges.length > 0;
+
+  // Installments follow the cart total, so the chosen option is recalculated with it
+  const paymentOptions = useMemo(
+    () => (paymentConditions ? getPaymentOptions(cart.total, paymentConditions) : []),
+    [paymentConditions, cart.total]
+  );
+  const selectedPaymentOption = paymentOptions.find(option => getPaymentOptionKey(option) === paymentOptionKey);
+
+  // Carts are only saved for the seller with a phone to follow up
+  const canSaveForRecovery = customerPhone.replace(/\D/g, '').length >= 10;
+
+  const handleCustomerChange = (name: string, phone: string) => {
+    setCustomerName(name);
+    setCustomerPhone(phone);
+
+    if (cart.recoveryContact) {
+      setRecoveryContact(phone.replace(/\D/g, '').length >= 10 ? { name, phone } : null);
+    }
+  };
+
+  const shippingPending = shippingEnabled && (
+    !deliveryMethod || (deliveryMethod === 'delivery' && !shippingQuote?.available)
+  );
+
+  // Stable, since the checkout form calls it from an effect
+  const handleDeliveryChange = useCallback((method: DeliveryMethod | undefined, address: ShippingDestination) => {
+    setDeliveryMethod(method);
+    setDestination(prev => ({ ...prev, cep: address.cep, neighborhood: address.neighborhood }));
+  }, []);
+
+  // The message shows the totals saved with the order
+  const generateOrderMessage = (checkout: CheckoutData, order: CreatedOrder) => {
+    const shippingDetails = shippingQuote?.available && checkout.deliveryMethod === 'delivery'
+      ? { shippingFee: order.shipping_fee, shippingZone: shippingQuote.zone?.name }
+      : {};
+    const couponDetails = order.coupon_code && order.discount
+      ? { couponCode: order.coupon_code, discount: order.discount }
+      : {};
+    const paymentCondition = selectedPaymentOption && paymentConditions
+      ? formatPaymentCondition(selectedPaymentOption, paymentConditions, currency, language)
+      : undefined;
 
-  const generateOrderMessage = () => {
     return generateCartOrderMessage(
       cart.items,
-      cart.total,
+      order.total,
       corretor.name,
       corretor.slug || '',
       currency,
-      language
+      language,
+      { orderNumber: order.order_number, ...checkout, ...shippingDetails, ...couponDetails, paymentCondition }
     );
   };
 
-  const handleSendOrder = async () => {
+  const handleSendOrder = async (
+    checkout: CheckoutData = {
+      customerName,
+      customerPhone,
+      deliveryMethod: shippingEnabled ? deliveryMethod : undefined,
+    }
+  ) => {
     if (cart.items.length === 0) return;
-    
+
+    if (shippingPending) {
+      toast.error(deliveryMethod === 'delivery'
+        ? 'Não entregamos neste endereço'
+        : 'Selecione a forma de entrega');
+      return;
+    }
+
+    // Open the window right away so the browser doesn't block it as a popup
+    const whatsappWindow = window.open('', '_blank');
+
     try {
       setSendingOrder(true);
+
+      // The order is only sent with the current prices of available products
+      const changes = await revalidateCart();
+      if (changes.length > 0) {
+        whatsappWindow?.close();
+        setStep('cart');
+        toast.error('Alguns itens do carrinho mudaram. Revise antes de enviar o pedido.');
+        return;
+      }
+
+      // The order is checked against the current stock when saved, so it is only
+      // sent to WhatsApp once saved
+      let order: CreatedOrder;
+      try {
+        order = await createOrder({
+          sellerId: corretor.id,
+          items: cart.items,
+          currency,
+          language,
+          ...checkout,
+          shippingDestination: destination,
+          couponCode: cart.discount > 0 ? cart.coupon?.code : undefined,
+        });
+      } catch (error) {
+        console.error('Error saving order:', error);
+        whatsappWindow?.close();
+        await revalidateCart();
+        setStep('cart');
+        toast.error('Não foi possível enviar o pedido. Confira a disponibilidade dos itens e tente novamente.');
+        return;
+      }
       
-      const orderMessage = generateOrderMessage();
+      const orderMessage = generateOrderMessage(checkout, order);
       const whatsappUrl = generateWhatsAppUrl(corretor.whatsapp || '', orderMessage);
       
-      // Track the order as a WhatsApp lead
-      await trackWhatsAppClick('storefront', 'product', 'cart_checkout');
+      // Track the order; the pixel and the server-side event share the event id
+      const productIds = [...new Set(cart.items.map(item => item.id))];
+      const purchaseEventId = createEventId();
+
+      trackMetaEvent('Purchase', {
+        content_ids: productIds,
+        content_type: 'product',
+        num_items: cart.itemCount,
+        value: order.total,
+        currency,
+      }, purchaseEventId);
+
+      await trackStorefrontEvent(corretor.id, 'order_sent', {
+        eventId: purchaseEventId,
+        metadata: {
+          order_number: order.order_number,
+          item_count: cart.itemCount,
+          total: order.total,
+          product_ids: productIds,
+        },
+      });
       
       // Open WhatsApp
-      window.open(whatsappUrl, '_blank');
+      if (whatsappWindow) {
+        whatsappWindow.location.href = whatsappUrl;
+      } else {
+        window.location.href = whatsappUrl;
+      }
       
       // Clear cart after sending
       clearCart();
+      setStep('cart');
+      setDestination({});
       onOpenChange(false);
       
     } catch (error) {
       console.error('Error sending order:', error);
+      whatsappWindow?.close();
     } finally {
       setSendingOrder(false);
     }
@@ -113,6 +357,43 @@ export default function CartModal({
     return colorMap[normalizedColor] || '#6B7280';
   };
 
+  const renderTotals = () => (
+    <div className="space-y-1">
+      {(shippingEnabled || cart.discount > 0) && (
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-muted-foreground">Subtotal:</span>
+          <span>{formatCurrencyI18n(cart.subtotal, currency, language)}</span>
+        </div>
+      )}
+      {cart.discount > 0 && (
+        <div className="flex justify-between items-center text-sm text-green-600">
+          <span>Desconto ({cart.coupon?.code}):</span>
+          <span>-{formatCurrencyI18n(cart.discount, currency, language)}</span>
+        </div>
+      )}
+      {shippingEnabled && (
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-muted-foreground">
+            Frete{shippingQuote?.zone ? ` (${shippingQuote.zone.name})` : ''}:
+          </span>
+          <span>
+            {deliveryMethod === 'pickup'
+              ? 'Retirada'
+              : shippingQuote?.available
+                ? (shippingQuote.isFree ? 'Grátis' : formatCurrencyI18n(shippingQuote.fee, currency, language))
+                : '—'}
+          </span>
+        </div>
+      )}
+      <div className="flex justify-between items-center">
+        <span className="text-lg font-semibold">Total:</span>
+        <span className="text-xl font-bold text-primary">
+          {formatCurrencyI18n(cart.total, currency, language)}
+        </span>
+      </div>
+    </div>
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-md max-h-[80vh] flex flex-col">
@@ -124,7 +405,9 @@ export default function CartModal({
           <DialogDescription>
             {cart.items.length === 0 
               ? 'Seu carrinho está vazio'
-              : `${cart.itemCount} ${cart.itemCount === 1 ? 'item' : 'itens'} no carrinho`
+              : step === 'checkout'
+                ? 'Informe seus dados para finalizar o pedido'
+                : `${cart.itemCount} ${cart.itemCount === 1 ? 'item' : 'itens'} no carrinho`
             }
           </DialogDescription>
         </DialogHeader>
@@ -136,16 +419,81 @@ export default function CartModal({
               Adicione produtos ao carrinho para fazer um pedido
             </p>
           </div>
+        ) : step === 'checkout' && effectiveCheckoutSettings ? (
+          <>
+            {renderTotals()}
+
+            <Separator />
+
+            <CheckoutForm
+              settings={effectiveCheckoutSettings}
+              language={language}
+              sending={sendingOrder}
+              onBack={() => setStep('cart')}
+              onSubmit={handleSendOrder}
+              onDeliveryChange={shippingEnabled ? handleDeliveryChange : undefined}
+              deliveryExtra={shippingEnabled && shippingSettings && (
+                <ShippingCalculator
+                  settings={shippingSettings}
+                  deliveryMethods={deliveryMethods}
+                  method={deliveryMethod}
+                  destination={destination}
+                  quote={shippingQuote}
+                  language={language}
+                  showInputs={false}
+                  onMethodChange={setDeliveryMethod}
+                  onDestinationChange={setDestination}
+                />
+              )}
+            />
+          </>
         ) : (
           <>
+            {/* Changes since the items were added */}
+            {hasCartChanges && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Alguns itens mudaram desde que foram adicionados</AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <ul className="space-y-1 text-xs">
+                    {cartChanges.map(change => (
+                      <li key={change.variantId}>
+                        <span className="font-medium">{change.title}</span>
+                        {': '}
+                        {isUnavailableChange(change) && `${CHANGE_LABELS[change.reason]} (será removido)`}
+                        {change.currentPrice !== undefined && (
+                          <>
+                            <span className="line-through">{formatCurrencyI18n(change.previousPrice, currency, language)}</span>
+                            {' → '}
+                            <span className="font-semibold">{formatCurrencyI18n(change.currentPrice, currency, language)}</span>
+                          </>
+                        )}
+                        {change.currentQuantity !== undefined && (
+                          <>
+                            {change.currentPrice !== undefined && ', '}
+                            {`quantidade ${change.previousQuantity} → ${change.currentQuantity}, o restante do estoque`}
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <Button size="sm" variant="outline" className="w-full" onClick={acknowledgeCartChanges}>
+                    Entendi, atualizar carrinho
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Cart Items */}
             <div className="flex-1 overflow-y-auto space-y-3 max-h-[400px]">
               {cart.items.map((item) => {
-                const price = item.discounted_price || item.price;
+                const price = getCartItemUnitPrice(item);
                 const itemTotal = price * item.quantity;
+                const change = cartChanges.find(change => change.variantId === item.variantId);
+                const isUnavailable = !!change && isUnavailableChange(change);
 
                 return (
-                  <div key={item.id} className="flex gap-3 p-3 border rounded-lg">
+                  <div key={item.id} className={`flex gap-3 p-3 border rounded-lg ${isUnavailable ? 'opacity-60' : ''}`}>
                     {/* Product Image */}
                     <div className="w-16 h-16 bg-white rounded-lg overflow-hidden border border-gray-200 shadow-sm flex-shrink-0">
                       <img
@@ -160,8 +508,19 @@ export default function CartModal({
                       <h4 className="font-medium text-sm line-clamp-2 mb-1">
                         {item.title}
                       </h4>
+
+                      {change && (
+                        <Badge variant={isUnavailable ? 'destructive' : 'secondary'} className="text-xs mb-1">
+                          {CHANGE_LABELS[change.reason]}
+                        </Badge>
+                      )}
                       
                       <div className="text-sm text-primary font-semibold mb-2">
+                        {change?.currentPrice !== undefined && (
+                          <span className="text-xs text-muted-foreground line-through font-normal mr-1">
+                            {formatCurrencyI18n(change.previousPrice, currency, language)}
+                          </span>
+                        )}
                         {item.is_starting_price ? t('product.starting_from') + ' ' : ''}
                         {formatCurrencyI18n(price, currency, language)}
                       </div>
@@ -197,7 +556,11 @@ export default function CartModal({
                                     </SelectTrigger>
                                     <SelectContent>
                                       {item.availableColors.map((color) => (
-                                        <SelectItem key={color} value={color}>
+                                        <SelectItem
+                                          key={color}
+                                          value={color}
+                                          disabled={!isOptionAvailable(item.availableVariants, { color, size: item.selectedSize || '' })}
+                                        >
                                           <div className="flex items-center gap-2">
                                             <div 
                                               className="w-3 h-3 rounded-full border border-gray-300"
@@ -249,7 +612,11 @@ export default function CartModal({
                                         const isApparelSize = ['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(size);
                                         
                                         return (
-                                        <SelectItem key={size} value={size}>
+                                        <SelectItem
+                                          key={size}
+                                          value={size}
+                                          disabled={!isOptionAvailable(item.availableVariants, { color: item.selectedColor || '', size })}
+                                        >
                                           <div className="flex items-center gap-2">
                                             <span className="font-medium">{size}</span>
                                             {isShoeSize && (
@@ -353,6 +720,7 @@ export default function CartModal({
                             variant="outline"
                             className="h-8 w-8 p-0"
                             onClick={() => updateVariantQuantity(item.variantId!, item.quantity + 1)}
+                            disabled={item.maxQuantity !== undefined && item.quantity >= item.maxQuantity}
                           >
                             <Plus className="h-3 w-3" />
                           </Button>
@@ -382,12 +750,89 @@ export default function CartModal({
 
             {/* Cart Summary */}
             <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <span className="text-lg font-semibold">Total:</span>
-                <span className="text-xl font-bold text-primary">
-                  {formatCurrencyI18n(cart.total, currency, language)}
-                </span>
-              </div>
+              {/* Shipping */}
+              {corretor.whatsapp && shippingEnabled && shippingSettings && !checkoutEnabled && (
+                <ShippingCalculator
+                  settings={shippingSettings}
+                  deliveryMethods={deliveryMethods}
+                  method={deliveryMethod}
+                  destination={destination}
+                  quote={shippingQuote}
+                  cepProvider={checkoutSettings?.cepProvider}
+                  language={language}
+                  onMethodChange={setDeliveryMethod}
+                  onDestinationChange={setDestination}
+                />
+              )}
+
+              {/* Coupon */}
+              {corretor.whatsapp && (
+                <CouponField sellerId={corretor.id} currency={currency} language={language} />
+              )}
+
+              {renderTotals()}
+
+              {/* Payment Condition */}
+              {corretor.whatsapp && paymentConditions && paymentOptions.length > 0 && (
+                <div className="space-y-1">
+                  <Label className="text-xs">{t('payment.condition')}</Label>
+                  <Select value={paymentOptionKey} onValueChange={setPaymentOptionKey}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder={t('payment.conditions')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paymentOptions.map(option => (
+                        <SelectItem key={getPaymentOptionKey(option)} value={getPaymentOptionKey(option)}>
+                          {formatPaymentCondition(option, paymentConditions, currency, language)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Customer Info */}
+              {corretor.whatsapp && !checkoutEnabled && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="customer-name" className="text-xs">Seu nome (opcional)</Label>
+                    <Input
+                      id="customer-name"
+                      value={customerName}
+                      onChange={(e) => handleCustomerChange(e.target.value, customerPhone)}
+                      placeholder="Como podemos te chamar?"
+                      className="h-9"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="customer-phone" className="text-xs">Seu telefone (opcional)</Label>
+                    <Input
+                      id="customer-phone"
+                      type="tel"
+                      value={customerPhone}
+                      onChange={(e) => handleCustomerChange(customerName, e.target.value)}
+                      placeholder="(00) 00000-0000"
+                      className="h-9"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Abandoned cart recovery opt-in */}
+              {corretor.whatsapp && !checkoutEnabled && canSaveForRecovery && (
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="cart-recovery"
+                    checked={!!cart.recoveryContact}
+                    onCheckedChange={(checked) => setRecoveryContact(
+                      checked ? { name: customerName, phone: customerPhone } : null
+                    )}
+                  />
+                  <Label htmlFor="cart-recovery" className="text-xs font-normal text-muted-foreground leading-snug">
+                    Salvar meu carrinho para {corretor.name} me chamar no WhatsApp caso eu não finalize o pedido
+                  </Label>
+                </div>
+              )}
 
               {/* Action Buttons */}
               <div className="flex gap-2">
@@ -399,35 +844,39 @@ export default function CartModal({
                   Limpar Carrinho
                 </Button>
                 
-                {corretor.whatsapp && (
+                {corretor.whatsapp && checkoutEnabled && (
                   <Button
-                    onClick={handleSendOrder}
-                    disabled={sendingOrder}
+                    onClick={() => setStep('checkout')}
+                    disabled={hasCartChanges}
                     className="flex-1"
-                   asChild
                   >
-                    <a
-                      href={generateWhatsAppUrl(corretor.whatsapp || '', generateOrderMessage())}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      onClick={async (e) => {
-                        // Track the order as a WhatsApp lead
-                        await trackWhatsAppClick('storefront', 'product', 'cart_checkout');
-                        
-                        // Clear cart after sending
-                        setTimeout(() => {
-                          clearCart();
-                          onOpenChange(false);
-                        }, 100);
-                      }}
-                    >
+                    Continuar
+                    <ArrowRight className="h-4 w-4 ml-2" />
+                  </Button>
+                )}
+
+                {corretor.whatsapp && !checkoutEnabled && (
+                  <Button
+                    onClick={() => handleSendOrder()}
+                    disabled={sendingOrder || shippingPending || hasCartChanges}
+                    className="flex-1"
+                  >
+                    {sendingOrder ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
                       <MessageCircle className="h-4 w-4 mr-2" />
-                      Enviar Pedido
-                    </a>
+                    )}
+                    Enviar Pedido
                   </Button>
                 )}
               </div>
 
+              {hasCartChanges && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Confirme as alterações do carrinho para enviar o pedido
+                </p>
+              )}
+
               {!corretor.whatsapp && (
                 <p className="text-xs text-muted-foreground text-center">
                   WhatsApp não configurado para este vendedor
@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ProductCard } from '@/components/product/ProductCard';
+import ShareCategoryButton from '@/components/corretor/ShareCategoryButton';
+import { useCategoryProducts } from '@/hooks/useCategoryProducts';
+import { useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+import type { CategorySection } from '@/utils/productDisplayUtils';
+import type { PaymentConditionsSettings, Promotion } from '@/types';
+
+// How far from the viewport a section starts loading, and the next page is prefetched
+const PREFETCH_MARGIN = '800px';
+
+interface CategoryProductSectionProps {
+  section: CategorySection;
+  userId: string;
+  corretorSlug: string;
+  pageSize: number;
+  promotions: Promotion[];
+  now: Date;
+  currency: SupportedCurrency;
+  language: SupportedLanguage;
+  paymentConditions?: PaymentConditionsSettings | null;
+}
+
+export function CategoryProductSection({
+  section,
+  userId,
+  corretorSlug,
+  pageSize,
+  promotions,
+  now,
+  currency,
+  language,
+  paymentConditions,
+}: CategoryProductSectionProps) {
+  const { t } = useTranslation(language);
+  const sectionRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [isNearViewport, setIsNearViewport] = useState(false);
+  const [isNearEnd, setIsNearEnd] = useState(false);
+
+  const { products, loading, error, hasMore, loadMore } = useCategoryProducts({
+    userId,
+    category: section.category,
+    total: section.count,
+    pageSize,
+    enabled: isNearViewport,
+    promotions,
+    now,
+  });
+
+  // Start loading once the section gets close to the screen
+  useEffect(() => {
+    const element = sectionRef.current;
+    if (!element || isNearViewport) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          setIsNearViewport(true);
+        }
+      },
+      { rootMargin: PREFETCH_MARGIN }
+    );
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isNearViewport]);
+
+  // Track the end of the grid to load the next page before the shopper reaches it
+  useEffect(() => {
+    const element = sentinelRef.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsNearEnd(entry.isIntersecting),
+      { rootMargin: PREFETCH_MARGIN }
+    );
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keeps loading while the end of the grid is still close, e.g. on tall screens
+  useEffect(() => {
+    if (isNearEnd && products.length > 0 && hasMore && !loading && !error) {
+      loadMore();
+    }
+  }, [isNearEnd, products.length, hasMore, loading, error, loadMore]);
+
+  const placeholderCount = Math.max(Math.min(section.count - products.length, hasMore ? 4 : 0), 0);
+
+  return (
+    <motion.div
+      ref={sectionRef}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      {/* Category Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl md:text-2xl font-bold text-foreground">{section.name}</h2>
+        <div className="flex items-center gap-2">
+          {section.category !== null && (
+            <ShareCategoryButton
+              corretorId={userId}
+              corretorSlug={corretorSlug}
+              categoryName={section.name}
+              language={language}
+              className="opacity-60 hover:opacity-100 transition-opacity"
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Products Grid */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 lg:gap-6">
+        {products.map((product) => (
+          <ProductCard
+            key={product.id}
+            product={product}
+            corretorSlug={corretorSlug}
+            currency={currency}
+            language={language}
+            paymentConditions={paymentConditions}
+          />
+        ))}
+
+        {/* Placeholders keep the page height while the next products load */}
+        {!error && Array.from({ length: placeholderCount }).map((_, index) => (
+          <div key={`placeholder-${index}`} className="animate-pulse">
+            <div className="aspect-square bg-muted rounded-lg mb-3" />
+            <div className="h-3 bg-muted rounded w-3/4 mb-2" />
+            <div className="h-3 bg-muted rounded w-1/2" />
+          </div>
+        ))}
+      </div>
+
+      <div ref={sentinelRef} />
+
+      {error && (
+        <div className="flex justify-center mt-6">
+          <Button variant="outline" onClick={() => loadMore()} disabled={loading}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('messages.load_more')}
+          </Button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,409 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { ArrowLeft, Loader2, MessageCircle, Search } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PhoneInput } from '@/components/ui/phone-input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { cn } from '@/lib/utils';
+import { formatCep, isValidCep, lookupCep, normalizeCep } from '@/lib/cepUtils';
+import { getDeliveryMethodLabel, getPaymentMethodLabel } from '@/lib/checkoutUtils';
+import type { SupportedLanguage } from '@/lib/i18n';
+import type { CheckoutData, CheckoutSettings, DeliveryMethod, ShippingDestination } from '@/types';
+
+interface CheckoutFormProps {
+  settings: CheckoutSettings;
+  language?: SupportedLanguage;
+  sending?: boolean;
+  onBack: () => void;
+  onSubmit: (data: CheckoutData) => void;
+  onDeliveryChange?: (method: DeliveryMethod | undefined, destination: ShippingDestination) => void;
+  deliveryExtra?: ReactNode; // Rendered below the delivery options (e.g. shipping quote)
+}
+
+const buildSchema = (settings: CheckoutSettings) => z.object({
+  customerName: z.string().trim().min(2, 'Informe seu nome'),
+  customerPhone: settings.requirePhone
+    ? z.string().min(10, 'Informe um telefone válido')
+    : z.string().optional().default(''),
+  deliveryMethod: z.enum(['pickup', 'delivery'], { required_error: 'Selecione a forma de entrega' }),
+  paymentMethod: z.enum(['pix', 'cartao', 'dinheiro'], { required_error: 'Selecione a forma de pagamento' }),
+  address: z.object({
+    cep: z.string().default(''),
+    street: z.string().default(''),
+    number: z.string().default(''),
+    complement: z.string().optional(),
+    neighborhood: z.string().default(''),
+    city: z.string().default(''),
+    state: z.string().default(''),
+  }),
+}).superRefine((values, ctx) => {
+  if (values.deliveryMethod !== 'delivery') return;
+
+  const requiredFields: { field: 'cep' | 'street' | 'number' | 'neighborhood' | 'city' | 'state'; message: string }[] = [
+    { field: 'cep', message: 'Informe um CEP válido' },
+    { field: 'street', message: 'Informe a rua' },
+    { field: 'number', message: 'Informe o número' },
+    { field: 'neighborhood', message: 'Informe o bairro' },
+    { field: 'city', message: 'Informe a cidade' },
+    { field: 'state', message: 'Informe o estado' },
+  ];
+
+  requiredFields.forEach(({ field, message }) => {
+    const value = values.address[field]?.trim();
+    const invalid = field === 'cep' ? !isValidCep(value) : !value;
+
+    if (invalid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['address', field], message });
+    }
+  });
+});
+
+type CheckoutFormValues = z.infer<ReturnType<typeof buildSchema>>;
+
+interface OptionButtonsProps {
+  value?: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+}
+
+function OptionButtons({ value, onChange, options }: OptionButtonsProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <Button
+          key={option.value}
+          type="button"
+          size="sm"
+          variant={value === option.value ? 'default' : 'outline'}
+          className={cn('min-w-[90px]', value === option.value && 'shadow-sm')}
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export function CheckoutForm({
+  settings,
+  language = 'pt-BR',
+  sending = false,
+  onBack,
+  onSubmit,
+  onDeliveryChange,
+  deliveryExtra,
+}: CheckoutFormProps) {
+  const [lookingUpCep, setLookingUpCep] = useState(false);
+  const [cepNotFound, setCepNotFound] = useState(false);
+
+  const schema = useMemo(() => buildSchema(settings), [settings]);
+
+  const form = useForm<CheckoutFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      customerName: '',
+      customerPhone: '',
+      // Skip the question when there is only one option
+      deliveryMethod: settings.deliveryMethods.length === 1 ? settings.deliveryMethods[0] : undefined,
+      paymentMethod: settings.paymentMethods.length === 1 ? settings.paymentMethods[0] : undefined,
+      address: {
+        cep: '',
+        street: '',
+        number: '',
+        complement: '',
+        neighborhood: '',
+        city: '',
+        state: '',
+      },
+    },
+  });
+
+  const deliveryMethod = form.watch('deliveryMethod');
+  const cep = form.watch('address.cep');
+  const neighborhood = form.watch('address.neighborhood');
+
+  // Let the cart recalculate shipping as the address is filled in
+  useEffect(() => {
+    onDeliveryChange?.(deliveryMethod, { cep, neighborhood });
+  }, [deliveryMethod, cep, neighborhood, onDeliveryChange]);
+
+  const handleCepLookup = async (cep: string) => {
+    if (!isValidCep(cep)) return;
+
+    try {
+      setLookingUpCep(true);
+      setCepNotFound(false);
+
+      const result = await lookupCep(cep, settings.cepProvider);
+
+      if (!result) {
+        setCepNotFound(true);
+        return;
+      }
+
+      const options = { shouldValidate: true };
+      form.setValue('address.street', result.street, options);
+      form.setValue('address.neighborhood', result.neighborhood, options);
+      form.setValue('address.city', result.city, options);
+      form.setValue('address.state', result.state, options);
+    } finally {
+      setLookingUpCep(false);
+    }
+  };
+
+  const handleSubmit = (values: CheckoutFormValues) => {
+    onSubmit({
+      customerName: values.customerName.trim(),
+      customerPhone: values.customerPhone?.trim() || '',
+      deliveryMethod: values.deliveryMethod,
+      paymentMethod: values.paymentMethod,
+      address: values.deliveryMethod === 'delivery'
+        ? {
+            ...values.address,
+            cep: normalizeCep(values.address.cep),
+            complement: values.address.complement?.trim() || undefined,
+          }
+        : undefined,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="flex-1 flex flex-col min-h-0">
+        <div className="flex-1 overflow-y-auto space-y-4 max-h-[400px] pr-1">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <FormField
+              control={form.control}
+              name="customerName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Seu nome" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="customerPhone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Telefone{!settings.requirePhone && ' (opcional)'}</FormLabel>
+                  <FormControl>
+                    <PhoneInput {...field} placeholder="(00) 00000-0000" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="deliveryMethod"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Entrega</FormLabel>
+                <OptionButtons
+                  value={field.value}
+                  onChange={field.onChange}
+                  options={settings.deliveryMethods.map(method => ({
+                    value: method,
+                    label: getDeliveryMethodLabel(method, language),
+                  }))}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {deliveryExtra}
+
+          {deliveryMethod === 'delivery' && (
+            <div className="space-y-3 rounded-lg border p-3">
+              <FormField
+                control={form.control}
+                name="address.cep"
+                render={({ field }) => (
+                  <FormItem className="max-w-[200px]">
+                    <FormLabel>CEP</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <Input
+                          inputMode="numeric"
+                          placeholder="00000-000"
+                          {...field}
+                          value={formatCep(field.value)}
+                          onChange={(e) => {
+                            const cep = normalizeCep(e.target.value);
+                            field.onChange(cep);
+                            if (cep.length === 8) {
+                              handleCepLookup(cep);
+                            }
+                          }}
+                        />
+                        <div className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                          {lookingUpCep ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Search className="h-4 w-4" />
+                          )}
+                        </div>
+                      </div>
+                    </FormControl>
+                    {cepNotFound && (
+                      <p className="text-xs text-muted-foreground">
+                        CEP não encontrado. Preencha o endereço manualmente.
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-3 gap-3">
+                <FormField
+                  control={form.control}
+                  name="address.street"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Rua</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="address.number"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Número</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="address.complement"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Complemento</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Apto, bloco..." {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="address.neighborhood"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bairro</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <FormField
+                  control={form.control}
+                  name="address.city"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Cidade</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="address.state"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>UF</FormLabel>
+                      <FormControl>
+                        <Input
+                          maxLength={2}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+          )}
+
+          <FormField
+            control={form.control}
+            name="paymentMethod"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pagamento</FormLabel>
+                <OptionButtons
+                  value={field.value}
+                  onChange={field.onChange}
+                  options={settings.paymentMethods.map(method => ({
+                    value: method,
+                    label: getPaymentMethodLabel(method, language),
+                  }))}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={onBack} className="flex-1">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </Button>
+          <Button type="submit" disabled={sending} className="flex-1">
+            {sending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <MessageCircle className="h-4 w-4 mr-2" />
+            )}
+            Enviar Pedido
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
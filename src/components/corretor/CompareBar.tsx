@@ -0,0 +1,68 @@
+import { Link } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { GitCompareArrows, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { COMPARE_LIMIT, useCompare } from '@/hooks/useCompare';
+import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
+
+interface CompareBarProps {
+  corretorSlug: string;
+  language?: SupportedLanguage;
+}
+
+/**
+ * Floating bar with the products selected for comparison on the storefront
+ */
+export default function CompareBar({ corretorSlug, language = 'pt-BR' }: CompareBarProps) {
+  const { t } = useTranslation(language);
+  const { getCompareIds, clearCompare } = useCompare();
+
+  const compareIds = getCompareIds(corretorSlug);
+  const canCompare = compareIds.length >= 2;
+
+  return (
+    <AnimatePresence>
+      {compareIds.length > 0 && (
+        <motion.div
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          transition={{ duration: 0.2 }}
+        >
+          <div className="flex items-center gap-2 rounded-xl border bg-card text-card-foreground shadow-lg p-3">
+            <GitCompareArrows className="h-5 w-5 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium">
+                {compareIds.length}/{COMPARE_LIMIT} {t('compare.selected_count')}
+              </p>
+              {!canCompare && (
+                <p className="text-xs text-muted-foreground truncate">{t('compare.not_enough')}</p>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0"
+              onClick={() => clearCompare(corretorSlug)}
+              aria-label={t('compare.clear')}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+            {canCompare ? (
+              <Button size="sm" asChild>
+                <Link to={`/${corretorSlug}/comparar?ids=${compareIds.join(',')}`}>
+                  {t('compare.open')}
+                </Link>
+              </Button>
+            ) : (
+              <Button size="sm" disabled>
+                {t('compare.open')}
+              </Button>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,16 +1,18 @@
 import { motion } from 'framer-motion';
-import { Phone, MapPin, ShoppingCart } from 'lucide-react';
+import { Heart, Phone, MapPin, ShoppingCart } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { getInitials, generateWhatsAppUrl, formatWhatsAppForDisplay } from '@/lib/utils';
 import type { User } from '@/types';
-import { trackWhatsAppClick, STOREFRONT_UUID } from '@/lib/tracking';
+import { createEventId, trackMetaEvent, trackStorefrontEvent } from '@/lib/tracking';
 import { useTranslation, generateWhatsAppMessage, type SupportedLanguage } from '@/lib/i18n';
 import { useCart } from '@/contexts/CartContext';
+import { useFavorites } from '@/hooks/useFavorites';
 import { useState } from 'react';
 import CartModal from './CartModal';
+import FavoritesDrawer from './FavoritesDrawer';
 import type { SupportedCurrency } from '@/types';
 
 interface CorretorHeaderProps {
@@ -23,6 +25,9 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
   const { t } = useTranslation(language);
   const { cart } = useCart();
   const [showCart, setShowCart] = useState(false);
+  const { getFavorites } = useFavorites();
+  const [showFavorites, setShowFavorites] = useState(false);
+  const favoriteCount = getFavorites(corretor.slug || '').length;
   
   // Generate WhatsApp URL using the centralized function
   const whatsappMessage = generateWhatsAppMessage(language, corretor.name);
@@ -34,8 +39,13 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
   console.log('CorretorHeader - whatsapp message:', whatsappMessage);
 
   const handleWhatsAppClick = async () => {
-    // Track the WhatsApp click as a lead for the general storefront
-    await trackWhatsAppClick(STOREFRONT_UUID, 'product', 'header_social');
+    const eventId = createEventId();
+
+    trackMetaEvent('Contact', {}, eventId);
+    await trackStorefrontEvent(corretor.id, 'whatsapp_click', {
+      eventId,
+      metadata: { source: 'header_social' },
+    });
   };
 
   const getRoleLabel = () => {
@@ -115,6 +125,24 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
               )}
             </Button>
 
+            {/* Favorites Button */}
+            <Button
+              size="icon"
+              variant="outline"
+              className="h-14 w-14 md:h-12 md:w-12 rounded-full relative"
+              onClick={() => setShowFavorites(true)}
+              aria-label={t('favorites.title')}
+            >
+              <Heart className="h-6 w-6 md:h-5 md:w-5" />
+              {favoriteCount > 0 && (
+                <Badge 
+                  className="absolute -top-2 -right-2 h-6 w-6 rounded-full p-0 flex items-center justify-center text-xs bg-primary"
+                >
+                  {favoriteCount}
+                </Badge>
+              )}
+            </Button>
+
             {corretor.phone && (
               <Button 
                 size="icon" 
@@ -198,6 +226,15 @@ export default function CorretorHeader({ corretor, language = 'pt-BR', currency
         currency={currency}
         language={language}
       />
+
+      {/* Favorites Drawer */}
+      <FavoritesDrawer
+        open={showFavorites}
+        onOpenChange={setShowFavorites}
+        corretorSlug={corretor.slug || ''}
+        currency={currency}
+        language={language}
+      />
     </div>
   );
 }
\ No newline at end of file
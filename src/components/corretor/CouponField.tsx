@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Loader2, Ticket, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useCart } from '@/contexts/CartContext';
+import { normalizeCouponCode, validateCoupon } from '@/lib/couponUtils';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+
+interface CouponFieldProps {
+  sellerId: string;
+  currency?: SupportedCurrency;
+  language?: SupportedLanguage;
+}
+
+export function CouponField({ sellerId, currency = 'BRL', language = 'pt-BR' }: CouponFieldProps) {
+  const { cart, applyCoupon, removeCoupon } = useCart();
+  const [code, setCode] = useState('');
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+
+    try {
+      setApplying(true);
+      setError(null);
+
+      const coupon = await validateCoupon(sellerId, code);
+      applyCoupon(coupon);
+      setCode('');
+    } catch (err) {
+      console.error('Error applying coupon:', err);
+      setError(err instanceof Object && 'message' in err && typeof err.message === 'string' && err.message
+        ? err.message
+        : 'Cupom inválido');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (cart.coupon) {
+    const belowMinimum = cart.subtotal < Number(cart.coupon.min_cart_value || 0);
+
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between rounded-md border border-dashed px-3 py-2">
+          <div className="flex items-center gap-2 text-sm">
+            <Ticket className="h-4 w-4 text-primary" />
+            <span className="font-medium">{cart.coupon.code}</span>
+            {cart.discount > 0 && (
+              <span className="text-green-600">
+                -{formatCurrencyI18n(cart.discount, currency, language)}
+              </span>
+            )}
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            onClick={removeCoupon}
+            aria-label="Remover cupom"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+        {belowMinimum ? (
+          <p className="text-xs text-muted-foreground">
+            Válido para compras a partir de {formatCurrencyI18n(Number(cart.coupon.min_cart_value), currency, language)}
+          </p>
+        ) : cart.discount === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Nenhum item do carrinho participa deste cupom
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="coupon-code" className="text-xs">Cupom de desconto</Label>
+      <div className="flex gap-2">
+        <Input
+          id="coupon-code"
+          value={code}
+          onChange={(e) => {
+            setCode(normalizeCouponCode(e.target.value));
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          placeholder="Digite o código"
+          className="h-9 uppercase"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-9"
+          onClick={handleApply}
+          disabled={applying || !code.trim()}
+        >
+          {applying && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          Aplicar
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
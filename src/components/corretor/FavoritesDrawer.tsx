@@ -0,0 +1,118 @@
+import { Link } from 'react-router-dom';
+import { Heart, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { useFavorites } from '@/hooks/useFavorites';
+import { generateFavoritesShareMessage, getFavoriteItemPrice } from '@/lib/favoriteUtils';
+import { formatCurrencyI18n, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+
+interface FavoritesDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  corretorSlug: string;
+  currency?: SupportedCurrency;
+  language?: SupportedLanguage;
+}
+
+export default function FavoritesDrawer({
+  open,
+  onOpenChange,
+  corretorSlug,
+  currency = 'BRL',
+  language = 'pt-BR',
+}: FavoritesDrawerProps) {
+  const { t } = useTranslation(language);
+  const { getFavorites, removeFavorite } = useFavorites();
+
+  const favorites = getFavorites(corretorSlug);
+
+  // The list goes to any contact the shopper picks, not to the seller
+  const shareUrl = `https://wa.me/?text=${encodeURIComponent(
+    generateFavoritesShareMessage(favorites, `${window.location.origin}/${corretorSlug}`, currency, language)
+  )}`;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Heart className="h-5 w-5" />
+            {t('favorites.title')}
+          </SheetTitle>
+          <SheetDescription>
+            {favorites.length} {t('favorites.saved_count')}
+          </SheetDescription>
+        </SheetHeader>
+
+        {favorites.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center gap-2 py-12">
+            <Heart className="h-10 w-10 text-muted-foreground" />
+            <p className="font-medium">{t('favorites.empty')}</p>
+            <p className="text-sm text-muted-foreground">{t('favorites.empty_hint')}</p>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto py-4 space-y-3">
+            {favorites.map(item => {
+              const price = getFavoriteItemPrice(item);
+
+              return (
+                <div key={item.id} className="flex items-center gap-3 rounded-lg border p-2">
+                  <Link
+                    to={`/${corretorSlug}/produtos/${item.id}`}
+                    className="flex items-center gap-3 flex-1 min-w-0"
+                    onClick={() => onOpenChange(false)}
+                  >
+                    {item.featured_image_url ? (
+                      <img
+                        src={item.featured_image_url}
+                        alt={item.title}
+                        className="h-14 w-14 rounded object-cover flex-shrink-0"
+                      />
+                    ) : (
+                      <div className="h-14 w-14 rounded bg-muted flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium line-clamp-2">{item.title}</p>
+                      {price ? (
+                        <p className="text-sm text-primary font-semibold">
+                          {item.is_starting_price ? t('product.starting_from') + ' ' : ''}
+                          {formatCurrencyI18n(price, currency, language)}
+                        </p>
+                      ) : null}
+                    </div>
+                  </Link>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="flex-shrink-0"
+                    onClick={() => removeFavorite(corretorSlug, item.id)}
+                    aria-label={t('favorites.remove')}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {favorites.length > 0 && (
+          <SheetFooter>
+            <Button className="w-full" asChild>
+              <a href={shareUrl} target="_blank" rel="noopener noreferrer">
+                {t('favorites.share_whatsapp')}
+              </a>
+            </Button>
+          </SheetFooter>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
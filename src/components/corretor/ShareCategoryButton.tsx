@@ -3,6 +3,7 @@ import { Share2, Copy, Link } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
+import { trackStorefrontEvent } from '@/lib/tracking';
 import {
   Tooltip,
   TooltipContent,
@@ -11,6 +12,7 @@ import {
 } from '@/components/ui/tooltip';
 
 interface ShareCategoryButtonProps {
+  corretorId: string;
   corretorSlug: string;
   categoryName: string;
   language?: SupportedLanguage;
@@ -18,6 +20,7 @@ interface ShareCategoryButtonProps {
 }
 
 export default function ShareCategoryButton({ 
+  corretorId,
   corretorSlug, 
   categoryName, 
   language = 'pt-BR',
@@ -56,11 +59,15 @@ export default function ShareCategoryButton({
 
     console.log('Tentando compartilhar URL:', shareUrl);
 
+    const trackShare = (method: string) =>
+      trackStorefrontEvent(corretorId, 'share', { metadata: { category: categoryName, method } });
+
     // Try Clipboard API first (preferred for desktop)
     try {
       console.log('Usando clipboard.writeText');
       await navigator.clipboard.writeText(shareUrl);
       toast.success(t('messages.link_copied'));
+      trackShare('clipboard');
       return;
     } catch (clipboardError: any) {
       console.log('Erro no clipboard:', clipboardError.message);
@@ -76,6 +83,7 @@ export default function ShareCategoryButton({
           url: shareUrl,
         });
         toast.success(t('messages.shared_successfully'));
+        trackShare('native');
         return;
       } catch (shareError: any) {
         console.log('Erro no navigator.share:', shareError.message);
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Loader2, LocateFixed, Search, Truck } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { formatCep, lookupCep, normalizeCep } from '@/lib/cepUtils';
+import { getDeliveryMethodLabel } from '@/lib/checkoutUtils';
+import { getCurrentPosition, requiresCustomerLocation } from '@/lib/shippingUtils';
+import type { SupportedLanguage } from '@/lib/i18n';
+import type {
+  CepProviderName,
+  DeliveryMethod,
+  ShippingDestination,
+  ShippingQuote,
+  ShippingSettings,
+} from '@/types';
+
+interface ShippingCalculatorProps {
+  settings: ShippingSettings;
+  deliveryMethods: DeliveryMethod[];
+  method?: DeliveryMethod;
+  destination: ShippingDestination;
+  quote: ShippingQuote | null;
+  cepProvider?: CepProviderName;
+  language?: SupportedLanguage;
+  showInputs?: boolean; // False when the checkout form already asks for method and address
+  onMethodChange: (method: DeliveryMethod) => void;
+  onDestinationChange: (destination: ShippingDestination) => void;
+}
+
+export function ShippingCalculator({
+  settings,
+  deliveryMethods,
+  method,
+  destination,
+  quote,
+  cepProvider = 'viacep',
+  language = 'pt-BR',
+  showInputs = true,
+  onMethodChange,
+  onDestinationChange,
+}: ShippingCalculatorProps) {
+  const [lookingUpCep, setLookingUpCep] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState(false);
+
+  const handleCepChange = async (value: string) => {
+    const cep = normalizeCep(value);
+    onDestinationChange({ ...destination, cep, neighborhood: undefined });
+
+    if (cep.length !== 8) return;
+
+    try {
+      setLookingUpCep(true);
+      const result = await lookupCep(cep, cepProvider);
+      onDestinationChange({ ...destination, cep, neighborhood: result?.neighborhood });
+    } finally {
+      setLookingUpCep(false);
+    }
+  };
+
+  const handleUseLocation = async () => {
+    try {
+      setLocating(true);
+      setLocationError(false);
+      const position = await getCurrentPosition();
+      onDestinationChange({ ...destination, ...position });
+    } catch (error) {
+      console.error('Error getting customer location:', error);
+      setLocationError(true);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const hasDestination = normalizeCep(destination.cep || '').length === 8 || destination.latitude !== undefined;
+
+  return (
+    <div className="space-y-2">
+      {showInputs && deliveryMethods.length > 1 && (
+        <div className="flex gap-2">
+          {deliveryMethods.map(option => (
+            <Button
+              key={option}
+              type="button"
+              size="sm"
+              variant={method === option ? 'default' : 'outline'}
+              className="flex-1"
+              onClick={() => onMethodChange(option)}
+            >
+              {getDeliveryMethodLabel(option, language)}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {method === 'delivery' && (
+        <>
+          {showInputs && (
+            <div className="space-y-1">
+              <Label htmlFor="shipping-cep" className="text-xs">Calcular frete</Label>
+              <div className="relative">
+                <Input
+                  id="shipping-cep"
+                  inputMode="numeric"
+                  placeholder="Digite seu CEP"
+                  value={formatCep(destination.cep || '')}
+                  onChange={(e) => handleCepChange(e.target.value)}
+                  className="h-9 pr-9"
+                />
+                <div className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                  {lookingUpCep ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Search className="h-4 w-4" />
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {requiresCustomerLocation(settings) && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-8 px-2 text-xs"
+              onClick={handleUseLocation}
+              disabled={locating}
+            >
+              {locating ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <LocateFixed className="h-3 w-3 mr-1" />
+              )}
+              {destination.latitude !== undefined ? 'Localização informada' : 'Usar minha localização'}
+            </Button>
+          )}
+
+          {locationError && (
+            <p className="text-xs text-muted-foreground">
+              Não foi possível obter sua localização
+            </p>
+          )}
+
+          {hasDestination && quote && !quote.available && !lookingUpCep && (
+            <p className="text-xs text-destructive flex items-center gap-1">
+              <Truck className="h-3 w-3" />
+              Não entregamos neste endereço
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
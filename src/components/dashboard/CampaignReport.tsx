@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Megaphone } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatCurrencyI18n, type SupportedCurrency } from '@/lib/i18n';
+import { getRecentPeriod, getStepRate, loadCampaignReport } from '@/lib/storefrontEventUtils';
+import type { CampaignReportRow } from '@/types';
+
+const formatPercent = (value: number) => `${value.toFixed(1).replace('.', ',')}%`;
+
+/**
+ * Sessions, orders and revenue of each campaign link (UTM params or ad click id),
+ * so the seller sees which posts and ads brought sales
+ */
+export function CampaignReport() {
+  const { user } = useAuth();
+  const [days, setDays] = useState('30');
+  const [rows, setRows] = useState<CampaignReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const currency = (user?.currency || 'BRL') as SupportedCurrency;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const report = await loadCampaignReport(getRecentPeriod(Number(days)));
+
+        if (!cancelled) {
+          setRows(report);
+        }
+      } catch (error) {
+        console.error('Error loading campaign report:', error);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchReport();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between space-y-0">
+        <div>
+          <CardTitle>Campanhas</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1.5">
+            Posts e anúncios que trouxeram visitas e pedidos para a vitrine
+          </p>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Últimos 7 dias</SelectItem>
+            <SelectItem value="30">Últimos 30 dias</SelectItem>
+            <SelectItem value="90">Últimos 90 dias</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-6">
+            <Megaphone className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+            <p className="text-sm text-muted-foreground">
+              Nenhuma visita de campanha no período. Adicione parâmetros UTM aos links dos seus posts e
+              anúncios, por exemplo{' '}
+              <code className="text-xs">?utm_source=instagram&amp;utm_campaign=promo&amp;utm_content=post1</code>
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Origem / mídia</TableHead>
+                  <TableHead>Campanha</TableHead>
+                  <TableHead>Conteúdo</TableHead>
+                  <TableHead className="text-right">Sessões</TableHead>
+                  <TableHead className="text-right">Produto visto</TableHead>
+                  <TableHead className="text-right">Carrinho</TableHead>
+                  <TableHead className="text-right">Pedidos</TableHead>
+                  <TableHead className="text-right">Receita</TableHead>
+                  <TableHead className="text-right">Conversão</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={[row.utm_source, row.utm_medium, row.utm_campaign, row.utm_content].join('|')}>
+                    <TableCell className="font-medium">
+                      {row.utm_source}
+                      {row.utm_medium && <span className="text-muted-foreground"> / {row.utm_medium}</span>}
+                    </TableCell>
+                    <TableCell>{row.utm_campaign || '—'}</TableCell>
+                    <TableCell className="max-w-[200px] truncate">{row.utm_content || '—'}</TableCell>
+                    <TableCell className="text-right">{row.sessions}</TableCell>
+                    <TableCell className="text-right">{row.product_views}</TableCell>
+                    <TableCell className="text-right">{row.cart_adds}</TableCell>
+                    <TableCell className="text-right">{row.orders}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrencyI18n(row.revenue, currency, 'pt-BR')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatPercent(getStepRate(row.orders, row.sessions))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
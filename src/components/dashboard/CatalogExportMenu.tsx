@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Copy, Download, FileJson, FileSpreadsheet, Loader2, Rss } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  PRODUCT_FEED_FORMATS,
+  buildCatalogCsv,
+  buildCatalogJson,
+  downloadTextFile,
+  getProductFeedUrl,
+  loadCatalogForExport,
+} from '@/lib/catalogExportUtils';
+
+export function CatalogExportMenu() {
+  const { user } = useAuth();
+  const [exporting, setExporting] = useState(false);
+  const [feedDialogOpen, setFeedDialogOpen] = useState(false);
+
+  const handleExport = async (type: 'csv' | 'json') => {
+    if (!user?.id) return;
+
+    try {
+      setExporting(true);
+      const products = await loadCatalogForExport(user.id);
+
+      if (products.length === 0) {
+        toast.error('Nenhum produto para exportar');
+        return;
+      }
+
+      const fileName = `produtos-${user.slug || 'catalogo'}-${format(new Date(), 'yyyy-MM-dd')}`;
+
+      if (type === 'csv') {
+        downloadTextFile(buildCatalogCsv(products), `${fileName}.csv`, 'text/csv;charset=utf-8');
+      } else {
+        downloadTextFile(buildCatalogJson(products), `${fileName}.json`, 'application/json');
+      }
+
+      toast.success(`${products.length} produto(s) exportado(s)`);
+    } catch (error) {
+      console.error('Error exporting catalog:', error);
+      toast.error('Erro ao exportar produtos');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link copiado!');
+    } catch {
+      toast.error('Não foi possível copiar o link');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full sm:w-auto" disabled={exporting}>
+            {exporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Exportar
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => handleExport('csv')}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Planilha CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('json')}>
+            <FileJson className="w-4 h-4 mr-2" />
+            Arquivo JSON
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setFeedDialogOpen(true)} disabled={!user?.slug}>
+            <Rss className="w-4 h-4 mr-2" />
+            Feed de produtos
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={feedDialogOpen} onOpenChange={setFeedDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Feed de produtos</DialogTitle>
+            <DialogDescription>
+              Cadastre estes links como fonte de dados do catálogo. O feed é atualizado automaticamente
+              com os produtos visíveis na vitrine, e o Pixel da Meta configurado em Rastreamento
+              passa a identificar os produtos para anúncios dinâmicos.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {user?.slug && PRODUCT_FEED_FORMATS.map(feed => {
+              const url = getProductFeedUrl(user.slug!, feed.value);
+
+              return (
+                <div key={feed.value} className="space-y-1">
+                  <Label>{feed.label}</Label>
+                  <div className="flex gap-2">
+                    <Input value={url} readOnly className="text-xs" onFocus={(e) => e.target.select()} />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleCopy(url)}
+                      aria-label="Copiar link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{feed.description}</p>
+                </div>
+              );
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Loader2, Save, ClipboardList } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormDescription,
+  FormMessage,
+} from '@/components/ui/form';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_CHECKOUT_SETTINGS,
+  DELIVERY_METHOD_LABELS,
+  PAYMENT_METHOD_LABELS,
+} from '@/lib/checkoutUtils';
+import type { DeliveryMethod, PaymentPreference } from '@/types';
+
+const DELIVERY_METHODS: DeliveryMethod[] = ['pickup', 'delivery'];
+const PAYMENT_METHODS: PaymentPreference[] = ['pix', 'cartao', 'dinheiro'];
+
+const formSchema = z.object({
+  enabled: z.boolean().default(false),
+  requirePhone: z.boolean().default(true),
+  deliveryMethods: z.array(z.enum(['pickup', 'delivery']))
+    .min(1, 'Selecione pelo menos uma forma de entrega'),
+  paymentMethods: z.array(z.enum(['pix', 'cartao', 'dinheiro']))
+    .min(1, 'Selecione pelo menos uma forma de pagamento'),
+  cepProvider: z.enum(['viacep', 'local']),
+});
+
+export default function CheckoutSettingsManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: DEFAULT_CHECKOUT_SETTINGS,
+  });
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('user_storefront_settings')
+        .select('settings')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+
+      if (error && error.code !== 'PGRST116') throw error;
+
+      form.reset({
+        ...DEFAULT_CHECKOUT_SETTINGS,
+        ...data?.settings?.checkout,
+      });
+    } catch (error) {
+      console.error('Error loading checkout settings:', error);
+      toast.error('Erro ao carregar configurações de checkout');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, form]);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadSettings();
+    }
+  }, [user?.id, loadSettings]);
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    try {
+      setSaving(true);
+
+      // Get current settings to preserve other data
+      const { data: currentSettings } = await supabase
+        .from('user_storefront_settings')
+        .select('id, settings')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+
+      const settingsData = {
+        ...currentSettings?.settings,
+        checkout: values,
+      };
+
+      if (currentSettings) {
+        const { error } = await supabase
+          .from('user_storefront_settings')
+          .update({ settings: settingsData })
+          .eq('id', currentSettings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('user_storefront_settings')
+          .insert({
+            user_id: user?.id,
+            settings: settingsData,
+          });
+
+        if (error) throw error;
+      }
+
+      toast.success('Configurações de checkout salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving checkout settings:', error);
+      toast.error('Erro ao salvar configurações de checkout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleValue = <T extends string>(values: T[], value: T, checked: boolean): T[] => {
+    return checked ? [...values, value] : values.filter(v => v !== value);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const enabled = form.watch('enabled');
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <Alert>
+          <ClipboardList className="h-4 w-4" />
+          <AlertDescription>
+            Com o checkout ativado, o cliente informa seus dados, a forma de entrega e a forma de pagamento
+            antes de enviar o pedido. Tudo é incluído na mensagem do WhatsApp e salvo no pedido.
+          </AlertDescription>
+        </Alert>
+
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">
+                  Ativar etapa de checkout
+                </FormLabel>
+                <FormDescription>
+                  Solicita os dados do cliente antes de enviar o pedido do carrinho
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {enabled && (
+          <>
+            <FormField
+              control={form.control}
+              name="requirePhone"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">
+                      Telefone obrigatório
+                    </FormLabel>
+                    <FormDescription>
+                      O nome do cliente é sempre obrigatório no checkout
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="deliveryMethods"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Formas de entrega</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {DELIVERY_METHODS.map(method => (
+                      <label key={method} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(method)}
+                          onCheckedChange={(checked) => field.onChange(toggleValue(field.value, method, !!checked))}
+                        />
+                        {DELIVERY_METHOD_LABELS['pt-BR'][method]}
+                      </label>
+                    ))}
+                  </div>
+                  <FormDescription>
+                    Para entrega, o cliente informa o endereço com busca automática pelo CEP
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="paymentMethods"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Formas de pagamento</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {PAYMENT_METHODS.map(method => (
+                      <label key={method} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(method)}
+                          onCheckedChange={(checked) => field.onChange(toggleValue(field.value, method, !!checked))}
+                        />
+                        {PAYMENT_METHOD_LABELS['pt-BR'][method]}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.watch('deliveryMethods').includes('delivery') && (
+              <FormField
+                control={form.control}
+                name="cepProvider"
+                render={({ field }) => (
+                  <FormItem className="max-w-xs">
+                    <FormLabel>Consulta de CEP</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="viacep">ViaCEP</SelectItem>
+                        <SelectItem value="local">Base local de CEPs</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Serviço usado para preencher o endereço a partir do CEP
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            <Save className="h-4 w-4 mr-2" />
+            Salvar Configurações
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format, parseISO, startOfDay, subDays } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowDownRight, ArrowUpRight, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  FUNNEL_STEPS,
+  getPeriodChange,
+  getPreviousPeriod,
+  getRecentPeriod,
+  getStepRate,
+  loadStorefrontFunnel,
+  type ReportPeriod,
+} from '@/lib/storefrontEventUtils';
+import type { StorefrontFunnelRow } from '@/types';
+
+type PeriodPreset = '7' | '30' | '90' | 'custom';
+type Breakdown = 'category' | 'source';
+
+const EMPTY_FUNNEL: StorefrontFunnelRow = {
+  group_key: null,
+  visits: 0,
+  product_views: 0,
+  cart_adds: 0,
+  orders: 0,
+};
+
+const formatPercent = (value: number) => `${value.toFixed(1).replace('.', ',')}%`;
+
+/**
+ * Storefront sessions through visit, product view, cart and order, with the
+ * drop-off of each step, the change from the previous period and a breakdown
+ */
+export function ConversionFunnel() {
+  const [preset, setPreset] = useState<PeriodPreset>('30');
+  const [customStart, setCustomStart] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [customEnd, setCustomEnd] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [breakdown, setBreakdown] = useState<Breakdown>('source');
+  const [funnel, setFunnel] = useState<StorefrontFunnelRow>(EMPTY_FUNNEL);
+  const [previousFunnel, setPreviousFunnel] = useState<StorefrontFunnelRow>(EMPTY_FUNNEL);
+  const [breakdownRows, setBreakdownRows] = useState<StorefrontFunnelRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Custom periods include the end date; invalid ranges keep the last loaded data
+  const period = useMemo<ReportPeriod | null>(() => {
+    if (preset !== 'custom') return getRecentPeriod(Number(preset));
+    if (!customStart || !customEnd) return null;
+
+    const start = startOfDay(parseISO(customStart));
+    const end = addDays(startOfDay(parseISO(customEnd)), 1);
+
+    return start < end ? { start, end } : null;
+  }, [preset, customStart, customEnd]);
+
+  useEffect(() => {
+    if (!period) return;
+
+    let cancelled = false;
+
+    const fetchFunnel = async () => {
+      try {
+        setLoading(true);
+
+        const [current, previous, rows] = await Promise.all([
+          loadStorefrontFunnel(period),
+          loadStorefrontFunnel(getPreviousPeriod(period)),
+          loadStorefrontFunnel(period, breakdown),
+        ]);
+
+        if (cancelled) return;
+
+        setFunnel(current[0] || EMPTY_FUNNEL);
+        setPreviousFunnel(previous[0] || EMPTY_FUNNEL);
+        setBreakdownRows(rows);
+      } catch (error) {
+        console.error('Error loading conversion funnel:', error);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchFunnel();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [period, breakdown]);
+
+  const getGroupLabel = (groupKey: string | null) => {
+    if (breakdown === 'category') return groupKey || 'Sem categoria';
+    return !groupKey || groupKey === 'direct' ? 'Direto' : groupKey;
+  };
+
+  const renderChange = (current: number, previous: number) => {
+    const change = getPeriodChange(current, previous);
+
+    if (change === null) {
+      return <span className="text-xs text-muted-foreground">sem dados no período anterior</span>;
+    }
+
+    const Icon = change >= 0 ? ArrowUpRight : ArrowDownRight;
+
+    return (
+      <span className={`flex items-center gap-0.5 text-xs ${change >= 0 ? 'text-green-600' : 'text-destructive'}`}>
+        <Icon className="h-3 w-3" />
+        {formatPercent(Math.abs(change))} vs. período anterior
+      </span>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between space-y-0">
+        <div>
+          <CardTitle>Funil de Conversão</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1.5">
+            Sessões da vitrine em cada etapa da compra e onde os clientes desistem
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={preset} onValueChange={(value) => setPreset(value as PeriodPreset)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Últimos 7 dias</SelectItem>
+              <SelectItem value="30">Últimos 30 dias</SelectItem>
+              <SelectItem value="90">Últimos 90 dias</SelectItem>
+              <SelectItem value="custom">Personalizado</SelectItem>
+            </SelectContent>
+          </Select>
+          {preset === 'custom' && (
+            <>
+              <Input
+                type="date"
+                className="w-[150px]"
+                value={customStart}
+                max={customEnd}
+                onChange={(e) => setCustomStart(e.target.value)}
+                aria-label="Data inicial"
+              />
+              <Input
+                type="date"
+                className="w-[150px]"
+                value={customEnd}
+                min={customStart}
+                onChange={(e) => setCustomEnd(e.target.value)}
+                aria-label="Data final"
+              />
+            </>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : funnel.visits === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Nenhuma visita à vitrine no período
+          </p>
+        ) : (
+          <>
+            <div className="space-y-4">
+              {FUNNEL_STEPS.map((step, index) => {
+                const value = funnel[step.key];
+                const previousStep = index > 0 ? funnel[FUNNEL_STEPS[index - 1].key] : null;
+
+                return (
+                  <div key={step.key} className="space-y-1.5">
+                    <div className="flex flex-wrap items-baseline justify-between gap-2">
+                      <span className="text-sm font-medium">{step.label}</span>
+                      <div className="flex items-baseline gap-3">
+                        {renderChange(value, previousFunnel[step.key])}
+                        <span className="text-lg font-bold">{value}</span>
+                      </div>
+                    </div>
+                    <Progress value={getStepRate(value, funnel.visits)} />
+                    {previousStep !== null && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatPercent(getStepRate(value, previousStep))} da etapa anterior
+                        {previousStep > value && (
+                          <span className="text-destructive">
+                            {' '}· {formatPercent(getStepRate(previousStep - value, previousStep))} desistiram
+                          </span>
+                        )}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+              <p className="text-sm text-muted-foreground">
+                Conversão de visitas em pedidos:{' '}
+                <span className="font-semibold text-foreground">
+                  {formatPercent(getStepRate(funnel.orders, funnel.visits))}
+                </span>
+                {period && (
+                  <>
+                    {' '}· comparado a{' '}
+                    {format(getPreviousPeriod(period).start, 'dd/MM', { locale: ptBR })} a{' '}
+                    {format(subDays(period.start, 1), 'dd/MM', { locale: ptBR })}
+                  </>
+                )}
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <Tabs value={breakdown} onValueChange={(value) => setBreakdown(value as Breakdown)}>
+                <TabsList>
+                  <TabsTrigger value="source">Por origem</TabsTrigger>
+                  <TabsTrigger value="category">Por categoria</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{breakdown === 'category' ? 'Categoria' : 'Origem'}</TableHead>
+                      {FUNNEL_STEPS.map(step => (
+                        <TableHead key={step.key} className="text-right">{step.label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Conversão</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {breakdownRows.map(row => (
+                      <TableRow key={row.group_key ?? ''}>
+                        <TableCell className="font-medium">{getGroupLabel(row.group_key)}</TableCell>
+                        {FUNNEL_STEPS.map(step => (
+                          <TableCell key={step.key} className="text-right">{row[step.key]}</TableCell>
+                        ))}
+                        <TableCell className="text-right">
+                          {formatPercent(getStepRate(row.orders, row.visits))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {breakdown === 'category' && (
+                <p className="text-xs text-muted-foreground">
+                  Na categoria, as visitas contam as sessões que interagiram com algum produto dela
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
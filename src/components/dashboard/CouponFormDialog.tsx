@@ -0,0 +1,357 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { NumericFormat } from 'react-number-format';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormDescription,
+  FormMessage,
+} from '@/components/ui/form';
+import { DISCOUNT_TYPES, normalizeCouponCode, type CouponInput } from '@/lib/couponUtils';
+import { getCurrencySymbol, getLocaleConfig, type SupportedCurrency } from '@/lib/i18n';
+import type { Coupon } from '@/types';
+
+const formSchema = z.object({
+  code: z.string()
+    .min(3, 'O código deve ter pelo menos 3 caracteres')
+    .max(30, 'O código deve ter no máximo 30 caracteres')
+    .regex(/^[A-Z0-9_-]+$/, 'Use apenas letras, números, hífen e sublinhado'),
+  description: z.string().optional(),
+  discount_type: z.enum(['percentage', 'fixed']),
+  discount_value: z.number({ invalid_type_error: 'Informe o valor do desconto' })
+    .positive('O desconto deve ser maior que zero'),
+  min_cart_value: z.number().min(0).default(0),
+  expires_at: z.string().optional(), // yyyy-MM-dd
+  usage_limit: z.number().int('Informe um número inteiro').positive('O limite deve ser maior que zero').nullable().optional(),
+  categories: z.array(z.string()).default([]),
+  is_active: z.boolean().default(true),
+}).refine(values => values.discount_type !== 'percentage' || values.discount_value <= 100, {
+  message: 'A porcentagem deve ser no máximo 100%',
+  path: ['discount_value'],
+});
+
+type CouponFormValues = z.infer<typeof formSchema>;
+
+interface CouponFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  coupon?: Coupon | null;
+  categories: string[];
+  currency?: SupportedCurrency;
+  saving?: boolean;
+  onSubmit: (values: CouponInput) => void;
+}
+
+const numericInputClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const emptyValues: CouponFormValues = {
+  code: '',
+  description: '',
+  discount_type: 'percentage',
+  discount_value: 10,
+  min_cart_value: 0,
+  expires_at: '',
+  usage_limit: null,
+  categories: [],
+  is_active: true,
+};
+
+export function CouponFormDialog({
+  open,
+  onOpenChange,
+  coupon,
+  categories,
+  currency = 'BRL',
+  saving = false,
+  onSubmit,
+}: CouponFormDialogProps) {
+  const localeConfig = getLocaleConfig('pt-BR');
+  const currencySymbol = getCurrencySymbol(currency, 'pt-BR');
+
+  const form = useForm<CouponFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(coupon
+      ? {
+          code: coupon.code,
+          description: coupon.description || '',
+          discount_type: coupon.discount_type,
+          discount_value: Number(coupon.discount_value),
+          min_cart_value: Number(coupon.min_cart_value),
+          expires_at: coupon.expires_at ? format(new Date(coupon.expires_at), 'yyyy-MM-dd') : '',
+          usage_limit: coupon.usage_limit ?? null,
+          categories: coupon.categories || [],
+          is_active: coupon.is_active,
+        }
+      : emptyValues);
+  }, [open, coupon, form]);
+
+  const handleSubmit = (values: CouponFormValues) => {
+    onSubmit({
+      code: values.code,
+      description: values.description?.trim() || null,
+      discount_type: values.discount_type,
+      discount_value: values.discount_value,
+      min_cart_value: values.min_cart_value || 0,
+      // Coupons stay valid until the end of the chosen day
+      expires_at: values.expires_at ? new Date(`${values.expires_at}T23:59:59`).toISOString() : null,
+      usage_limit: values.usage_limit || null,
+      categories: values.categories,
+      is_active: values.is_active,
+    });
+  };
+
+  const discountType = form.watch('discount_type');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{coupon ? 'Editar Cupom' : 'Novo Cupom'}</DialogTitle>
+          <DialogDescription>
+            Os clientes aplicam o código no carrinho da sua vitrine
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Código</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Ex: BEMVINDO10"
+                      className="uppercase"
+                      {...field}
+                      onChange={(e) => field.onChange(normalizeCouponCode(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descrição (opcional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Uso interno, não aparece para o cliente" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discount_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de desconto</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DISCOUNT_TYPES.map(type => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discount_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Desconto</FormLabel>
+                    <FormControl>
+                      <NumericFormat
+                        thousandSeparator={localeConfig.thousandsSeparator}
+                        decimalSeparator={localeConfig.decimalSeparator}
+                        prefix={discountType === 'fixed' ? currencySymbol + ' ' : undefined}
+                        suffix={discountType === 'percentage' ? '%' : undefined}
+                        decimalScale={2}
+                        allowNegative={false}
+                        value={field.value ?? ''}
+                        onValueChange={({ floatValue }) => field.onChange(floatValue)}
+                        className={numericInputClassName}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="min_cart_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valor mínimo do carrinho</FormLabel>
+                    <FormControl>
+                      <NumericFormat
+                        thousandSeparator={localeConfig.thousandsSeparator}
+                        decimalSeparator={localeConfig.decimalSeparator}
+                        prefix={currencySymbol + ' '}
+                        decimalScale={2}
+                        allowNegative={false}
+                        value={field.value || ''}
+                        onValueChange={({ floatValue }) => field.onChange(floatValue ?? 0)}
+                        placeholder="Sem mínimo"
+                        className={numericInputClassName}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="usage_limit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Limite de usos</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        placeholder="Ilimitado"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(Number.isNaN(e.target.valueAsNumber) ? null : e.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="expires_at"
+              render={({ field }) => (
+                <FormItem className="max-w-[220px]">
+                  <FormLabel>Válido até</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>Deixe em branco para não expirar</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {categories.length > 0 && (
+              <FormField
+                control={form.control}
+                name="categories"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categorias</FormLabel>
+                    <FormDescription>
+                      Restrinja o desconto a algumas categorias. Sem seleção, vale para todos os produtos.
+                    </FormDescription>
+                    <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto rounded-md border p-3">
+                      {categories.map(category => (
+                        <label key={category} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(category)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked
+                                ? [...field.value, category]
+                                : field.value.filter(c => c !== category)
+                            )}
+                          />
+                          <span className="truncate">{category}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <FormLabel>Cupom ativo</FormLabel>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {coupon ? 'Salvar Alterações' : 'Criar Cupom'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
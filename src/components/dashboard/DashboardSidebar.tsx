@@ -12,7 +12,11 @@ import {
   Settings,
   FolderTree,
   Gift,
-  HelpCircle
+  HelpCircle,
+  ShoppingBag,
+  ShoppingCart,
+  Ticket,
+  CalendarClock
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -34,6 +38,11 @@ export default function DashboardSidebar() {
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
     { name: 'Categorias', href: '/dashboard/categories', icon: FolderTree },
     { name: 'Produtos', href: '/dashboard/listings', icon: Package },
+    { name: 'Desempenho', href: '/dashboard/performance', icon: LineChart },
+    { name: 'Pedidos', href: '/dashboard/orders', icon: ShoppingBag },
+    { name: 'Carrinhos abandonados', href: '/dashboard/abandoned-carts', icon: ShoppingCart },
+    { name: 'Cupons', href: '/dashboard/coupons', icon: Ticket },
+    { name: 'Promoções', href: '/dashboard/promotions', icon: CalendarClock },
     { name: 'Indique e Ganhe', href: '/dashboard/referral', icon: Gift },
     { name: 'Configurações', href: '/dashboard/settings', icon: Settings },
     { name: 'Central de Ajuda', href: '/help', icon: HelpCircle },
@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Loader2, Save, PackageCheck } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormDescription,
+  FormMessage,
+} from '@/components/ui/form';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_INVENTORY_SETTINGS } from '@/lib/productStatusUtils';
+
+const formSchema = z.object({
+  reserveOnOrder: z.boolean().default(false),
+  reservationHours: z.number({ invalid_type_error: 'Informe a duração da reserva' })
+    .int('Informe um número inteiro de horas')
+    .min(1, 'A reserva deve durar pelo menos 1 hora')
+    .max(168, 'A reserva pode durar no máximo 7 dias (168 horas)'),
+});
+
+export default function InventorySettingsManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: DEFAULT_INVENTORY_SETTINGS,
+  });
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('user_storefront_settings')
+        .select('settings')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+
+      if (error && error.code !== 'PGRST116') throw error;
+
+      form.reset({
+        ...DEFAULT_INVENTORY_SETTINGS,
+        ...data?.settings?.inventory,
+      });
+    } catch (error) {
+      console.error('Error loading inventory settings:', error);
+      toast.error('Erro ao carregar configurações de estoque');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, form]);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadSettings();
+    }
+  }, [user?.id, loadSettings]);
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    try {
+      setSaving(true);
+
+      // Get current settings to preserve other data
+      const { data: currentSettings } = await supabase
+        .from('user_storefront_settings')
+        .select('id, settings')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+
+      const settingsData = {
+        ...currentSettings?.settings,
+        inventory: values,
+      };
+
+      if (currentSettings) {
+        const { error } = await supabase
+          .from('user_storefront_settings')
+          .update({ settings: settingsData })
+          .eq('id', currentSettings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('user_storefront_settings')
+          .insert({
+            user_id: user?.id,
+            settings: settingsData,
+          });
+
+        if (error) throw error;
+      }
+
+      toast.success('Configurações de estoque salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving inventory settings:', error);
+      toast.error('Erro ao salvar configurações de estoque');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <Alert>
+          <PackageCheck className="h-4 w-4" />
+          <AlertDescription>
+            Cada pedido da vitrine dá baixa no estoque das variações pedidas, e o cancelamento do pedido
+            devolve as unidades. Produtos com controle de estoque são marcados como <strong>vendidos</strong> automaticamente
+            quando todas as variações zeram, e voltam a ficar <strong>disponíveis</strong> quando você repõe o estoque.
+          </AlertDescription>
+        </Alert>
+
+        <FormField
+          control={form.control}
+          name="reserveOnOrder"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">
+                  Reservar produtos após pedido
+                </FormLabel>
+                <FormDescription>
+                  Marca os produtos como reservados quando um cliente envia um pedido pelo carrinho.
+                  Vale para produtos sem controle de estoque; nos demais, o pedido já dá baixa nas unidades.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {form.watch('reserveOnOrder') && (
+          <FormField
+            control={form.control}
+            name="reservationHours"
+            render={({ field }) => (
+              <FormItem className="max-w-xs">
+                <FormLabel>Duração da reserva (horas)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="168"
+                    step="1"
+                    {...field}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Após esse período, o produto volta a ficar disponível automaticamente
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            <Save className="h-4 w-4 mr-2" />
+            Salvar Configurações
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -1,7 +1,8 @@
 import { Link } from 'react-router-dom';
-import { Plus, ArrowUpDown, CheckSquare, Square } from 'lucide-react';
+import { Plus, ArrowUpDown, CheckSquare, Square, FileSpreadsheet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
+import { CatalogExportMenu } from './CatalogExportMenu';
 
 interface ListingsHeaderProps {
   canReorder: boolean;
@@ -53,6 +54,15 @@ export function ListingsHeader({
           </Button>
         )}
         
+        <CatalogExportMenu />
+
+        <Link to="/dashboard/products/import" className="w-full sm:w-auto">
+          <Button variant="outline" className="w-full sm:w-auto">
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Importar
+          </Button>
+        </Link>
+
         <Link to="/dashboard/products/new" className="w-full sm:w-auto">
           <Button className="w-full sm:w-auto">
             <Plus className="w-4 h-4 mr-2" />
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Heart, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { loadProductFavoriteCounts } from '@/lib/favoriteUtils';
+import type { ProductFavoriteCount } from '@/types';
+
+/**
+ * Products most saved as favorite by the storefront shoppers
+ */
+export function MostFavoritedProducts() {
+  const [products, setProducts] = useState<ProductFavoriteCount[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchFavorites = async () => {
+      try {
+        setProducts(await loadProductFavoriteCounts(5));
+      } catch (error) {
+        console.error('Error loading favorite counts:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFavorites();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Produtos Mais Favoritados</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Quantos clientes salvaram cada produto nos favoritos da vitrine
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Nenhum produto foi favoritado ainda
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {products.map(product => (
+              <Link
+                key={product.product_id}
+                to={`/dashboard/products/${product.product_id}/edit`}
+                className="flex items-center gap-3 rounded-lg p-2 hover:bg-muted"
+              >
+                {product.featured_image_url ? (
+                  <img
+                    src={product.featured_image_url}
+                    alt={product.title}
+                    className="h-10 w-10 rounded object-cover flex-shrink-0"
+                  />
+                ) : (
+                  <div className="h-10 w-10 rounded bg-muted flex-shrink-0" />
+                )}
+                <span className="flex-1 min-w-0 text-sm font-medium truncate">{product.title}</span>
+                <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <Heart className="h-4 w-4" />
+                  {product.favorite_count}
+                </span>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,338 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Loader2, Save, CreditCard } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormDescription,
+  FormMessage,
+} from '@/components/ui/form';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatCurrencyI18n } from '@/lib/i18n';
+import {
+  DEFAULT_PAYMENT_CONDITIONS,
+  MAX_INSTALLMENTS,
+  formatPaymentCondition,
+  getPaymentOptions,
+} from '@/lib/paymentConditionsUtils';
+
+// Price used in the preview of the installment table
+const PREVIEW_PRICE = 100;
+
+const INSTALLMENT_COUNTS = Array.from({ length: MAX_INSTALLMENTS }, (_, index) => index + 1);
+
+const formSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxInstallments: z.number().int().min(1).max(MAX_INSTALLMENTS),
+  interestFreeInstallments: z.number().int().min(1).max(MAX_INSTALLMENTS),
+  interestRates: z.array(z.object({
+    installments: z.number().int().min(2).max(MAX_INSTALLMENTS),
+    rate: z.number().min(0, 'Informe uma taxa válida').max(20, 'Taxa máxima de 20% ao mês'),
+  })),
+  pixDiscount: z.number().min(0, 'Informe um desconto válido').max(50, 'Desconto máximo de 50%'),
+}).refine(values => values.interestFreeInstallments <= values.maxInstallments, {
+  path: ['interestFreeInstallments'],
+  message: 'Não pode ser maior que o número máximo de parcelas',
+});
+
+type PaymentConditionsFormValues = z.infer<typeof formSchema>;
+
+export default function PaymentConditionsManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  const form = useForm<PaymentConditionsFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: DEFAULT_PAYMENT_CONDITIONS,
+  });
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('user_storefront_settings')
+        .select('settings')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+
+      if (error && error.code !== 'PGRST116') throw error;
+
+      form.reset({
+        ...DEFAULT_PAYMENT_CONDITIONS,
+        ...data?.settings?.paymentConditions,
+      });
+    } catch (error) {
+      console.error('Error loading payment conditions:', error);
+      toast.error('Erro ao carregar condições de pagamento');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, form]);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadSettings();
+    }
+  }, [user?.id, loadSettings]);
+
+  const onSubmit = async (values: PaymentConditionsFormValues) => {
+    try {
+      setSaving(true);
+
+      // Rates of installment counts no longer offered or interest-free are dropped
+      const paymentConditions = {
+        ...values,
+        interestRates: values.interestRates.filter(rate =>
+          rate.installments > values.interestFreeInstallments &&
+          rate.installments <= values.maxInstallments &&
+          rate.rate > 0
+        ),
+      };
+
+      // Get current settings to preserve other data
+      const { data: currentSettings } = await supabase
+        .from('user_storefront_settings')
+        .select('id, settings')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+
+      const settingsData = {
+        ...currentSettings?.settings,
+        paymentConditions,
+      };
+
+      if (currentSettings) {
+        const { error } = await supabase
+          .from('user_storefront_settings')
+          .update({ settings: settingsData })
+          .eq('id', currentSettings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('user_storefront_settings')
+          .insert({
+            user_id: user?.id,
+            settings: settingsData,
+          });
+
+        if (error) throw error;
+      }
+
+      form.reset(paymentConditions);
+      toast.success('Condições de pagamento salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving payment conditions:', error);
+      toast.error('Erro ao salvar condições de pagamento');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const values = form.watch();
+  const rateCounts = INSTALLMENT_COUNTS.filter(count =>
+    count > values.interestFreeInstallments && count <= values.maxInstallments
+  );
+
+  const getRate = (installments: number) =>
+    values.interestRates.find(rate => rate.installments === installments)?.rate ?? 0;
+
+  const setRate = (installments: number, rate: number) => {
+    const otherRates = values.interestRates.filter(r => r.installments !== installments);
+    form.setValue('interestRates', [...otherRates, { installments, rate }], { shouldDirty: true });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <Alert>
+          <CreditCard className="h-4 w-4" />
+          <AlertDescription>
+            Com as condições de pagamento ativadas, a vitrine mostra o parcelamento e o preço no PIX
+            de cada produto, e o cliente escolhe a condição desejada no carrinho.
+          </AlertDescription>
+        </Alert>
+
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">
+                  Mostrar condições de pagamento
+                </FormLabel>
+                <FormDescription>
+                  Exibe o parcelamento nos cards e na página de cada produto
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {values.enabled && (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="maxInstallments"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Máximo de parcelas</FormLabel>
+                    <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {INSTALLMENT_COUNTS.map(count => (
+                          <SelectItem key={count} value={String(count)}>{count}x</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="interestFreeInstallments"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sem juros até</FormLabel>
+                    <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {INSTALLMENT_COUNTS.filter(count => count <= values.maxInstallments).map(count => (
+                          <SelectItem key={count} value={String(count)}>{count}x</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="pixDiscount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Desconto no PIX (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="50"
+                        step="0.5"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(Number.isNaN(e.target.valueAsNumber) ? 0 : e.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {rateCounts.length > 0 && (
+              <div className="space-y-3">
+                <div>
+                  <h4 className="text-sm font-medium">Juros por número de parcelas</h4>
+                  <p className="text-sm text-muted-foreground">
+                    Taxa ao mês aplicada com juros compostos. Parcelas sem taxa ficam sem juros.
+                  </p>
+                </div>
+                <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+                  {rateCounts.map(count => (
+                    <div key={count} className="space-y-1">
+                      <label className="text-xs text-muted-foreground" htmlFor={`rate-${count}`}>
+                        {count}x (% ao mês)
+                      </label>
+                      <Input
+                        id={`rate-${count}`}
+                        type="number"
+                        min="0"
+                        max="20"
+                        step="0.01"
+                        value={getRate(count)}
+                        onChange={(e) => setRate(count, Number.isNaN(e.target.valueAsNumber) ? 0 : e.target.valueAsNumber)}
+                      />
+                    </div>
+                  ))}
+                </div>
+                {form.formState.errors.interestRates && (
+                  <p className="text-sm font-medium text-destructive">
+                    Revise as taxas de juros: use valores entre 0% e 20% ao mês
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="rounded-lg border p-4 space-y-2">
+              <h4 className="text-sm font-medium">
+                Exemplo para um produto de {formatCurrencyI18n(PREVIEW_PRICE, 'BRL', 'pt-BR')}
+              </h4>
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {getPaymentOptions(PREVIEW_PRICE, values).map(option => (
+                  <li key={`${option.method}-${option.installments}`}>
+                    {formatPaymentCondition(option, values)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            <Save className="h-4 w-4 mr-2" />
+            Salvar Configurações
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
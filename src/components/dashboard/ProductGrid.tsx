@@ -1,6 +1,6 @@
 import { Link } from 'react-router-dom';
 import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
-import { Loader2, GripVertical, ArrowUpDown, CheckSquare, Square, Move } from 'lucide-react';
+import { Loader2, GripVertical, ArrowUpDown, CheckSquare, Square, Move, Copy } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -18,9 +18,11 @@ interface ProductGridProps {
   bulkActionLoading: boolean;
   selectedProducts: Set<string>;
   updatingProductId: string | null;
+  duplicatingProductId?: string | null;
   user: any;
   onSelectProduct: (productId: string, checked: boolean) => void;
   onToggleVisibility: (productId: string, currentVisibility: boolean) => Promise<void>;
+  onDuplicate?: (productId: string) => Promise<void>;
   onDragEnd: (result: any) => Promise<void>;
   onSaveOrder?: () => Promise<void>;
   onCancelReorder?: () => void;
@@ -33,9 +35,11 @@ export function ProductGrid({
   bulkActionLoading,
   selectedProducts,
   updatingProductId,
+  duplicatingProductId,
   user,
   onSelectProduct,
   onToggleVisibility,
+  onDuplicate,
   onDragEnd,
   onSaveOrder,
   onCancelReorder,
@@ -184,11 +188,31 @@ export function ProductGrid({
             </div>
           </Link>
 
-          {/* Quick Visibility Toggle */}
+          {/* Quick Visibility Toggle and Duplicate */}
           <div className={`flex items-center justify-between pt-1.5 md:pt-2 border-t ${isDragMode ? 'pointer-events-none opacity-50' : ''}`}>
-            <span className="text-[10px] md:text-xs text-muted-foreground">
-              Vitrine
-            </span>
+            <div className="flex items-center gap-1">
+              {onDuplicate && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 md:h-7 md:w-7"
+                  onClick={() => onDuplicate(product.id)}
+                  disabled={!!duplicatingProductId || isDragMode}
+                  title="Duplicar produto"
+                  aria-label="Duplicar produto"
+                >
+                  {duplicatingProductId === product.id ? (
+                    <Loader2 className="h-3 w-3 md:h-3.5 md:w-3.5 animate-spin" />
+                  ) : (
+                    <Copy className="h-3 w-3 md:h-3.5 md:w-3.5" />
+                  )}
+                </Button>
+              )}
+              <span className="text-[10px] md:text-xs text-muted-foreground">
+                Vitrine
+              </span>
+            </div>
             <Switch
               checked={product.is_visible_on_storefront ?? true}
               onCheckedChange={() => onToggleVisibility(
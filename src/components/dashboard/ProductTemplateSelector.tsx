@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { LayoutTemplate, Loader2, Save, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { ProductFormValues } from '@/lib/productSchema';
+import {
+  deleteProductTemplate,
+  getTemplateFromFormValues,
+  loadProductTemplates,
+  saveProductTemplate,
+} from '@/lib/productTemplateUtils';
+import type { ProductTemplate } from '@/types';
+
+interface ProductTemplateSelectorProps {
+  userId?: string;
+  getValues: () => ProductFormValues;
+  onApply: (template: ProductTemplate) => void;
+}
+
+export function ProductTemplateSelector({ userId, getValues, onApply }: ProductTemplateSelectorProps) {
+  const [templates, setTemplates] = useState<ProductTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [deletingTemplate, setDeletingTemplate] = useState<ProductTemplate | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setTemplates(await loadProductTemplates(userId));
+    } catch (error) {
+      console.error('Error loading product templates:', error);
+      toast.error('Erro ao carregar modelos de produto');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const selectedTemplate = templates.find(template => template.id === selectedId) || null;
+
+  const handleSelect = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    setSelectedId(templateId);
+    onApply(template);
+    toast.success(`Modelo "${template.name}" aplicado`);
+  };
+
+  const handleOpenSaveDialog = () => {
+    setTemplateName(selectedTemplate?.name || '');
+    setSaveDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!userId || !templateName.trim()) return;
+
+    try {
+      setSaving(true);
+
+      // Saving with the name of an existing template updates it
+      const existing = templates.find(
+        template => template.name.toLowerCase() === templateName.trim().toLowerCase()
+      );
+
+      await saveProductTemplate(userId, getTemplateFromFormValues(templateName, getValues()), existing?.id);
+      await fetchTemplates();
+
+      setSaveDialogOpen(false);
+      toast.success(existing ? 'Modelo atualizado' : 'Modelo salvo');
+    } catch (error) {
+      console.error('Error saving product template:', error);
+      toast.error('Erro ao salvar modelo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingTemplate) return;
+
+    try {
+      await deleteProductTemplate(deletingTemplate.id);
+      setTemplates(prev => prev.filter(template => template.id !== deletingTemplate.id));
+      if (selectedId === deletingTemplate.id) {
+        setSelectedId('');
+      }
+      toast.success('Modelo excluído');
+    } catch (error) {
+      console.error('Error deleting product template:', error);
+      toast.error('Erro ao excluir modelo');
+    } finally {
+      setDeletingTemplate(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-muted/40 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <LayoutTemplate className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Modelo de produto</span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Preencha marca, categorias, gênero, cores, tamanhos e descrição a partir de um modelo salvo.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={selectedId} onValueChange={handleSelect} disabled={templates.length === 0}>
+          <SelectTrigger className="sm:flex-1">
+            <SelectValue placeholder={templates.length === 0 ? 'Nenhum modelo salvo' : 'Escolher modelo...'} />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map(template => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={handleOpenSaveDialog} className="flex-1 sm:flex-none">
+            <Save className="h-4 w-4 mr-2" />
+            Salvar como modelo
+          </Button>
+          {selectedTemplate && (
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => setDeletingTemplate(selectedTemplate)}
+              aria-label="Excluir modelo"
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Salvar como modelo</DialogTitle>
+            <DialogDescription>
+              A marca, as categorias, o gênero, as cores, os tamanhos e as descrições preenchidos
+              agora ficam disponíveis para os próximos cadastros. Nome, preço e imagens não são salvos.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="product-template-name">Nome do modelo</Label>
+            <Input
+              id="product-template-name"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Ex: Camisetas básicas"
+              maxLength={60}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving || !templateName.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingTemplate} onOpenChange={(open) => !open && setDeletingTemplate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir modelo</AlertDialogTitle>
+            <AlertDialogDescription>
+              O modelo {deletingTemplate?.name} será excluído. Os produtos cadastrados a partir dele
+              não são alterados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
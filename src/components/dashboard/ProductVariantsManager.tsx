@@ -0,0 +1,143 @@
+import { useEffect } from 'react';
+import { NumericFormat } from 'react-number-format';
+import { Package } from 'lucide-react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { buildVariantCombinations, type ProductVariantInput } from '@/lib/variantUtils';
+import { getCurrencySymbol, getLocaleConfig, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+
+interface ProductVariantsManagerProps {
+  colors: string[];
+  sizes: string[];
+  value: ProductVariantInput[];
+  onChange: (variants: ProductVariantInput[]) => void;
+  currency?: SupportedCurrency;
+  locale?: SupportedLanguage;
+}
+
+export function ProductVariantsManager({
+  colors,
+  sizes,
+  value,
+  onChange,
+  currency = 'BRL',
+  locale = 'pt-BR'
+}: ProductVariantsManagerProps) {
+  const enabled = value.length > 0;
+  const localeConfig = getLocaleConfig(locale);
+  const currencySymbol = getCurrencySymbol(currency, locale);
+
+  // Keep one row per color × size combination while stock control is enabled;
+  // existing rows are reused, so nothing changes once the rows match
+  useEffect(() => {
+    if (!enabled) return;
+
+    const combinations = buildVariantCombinations(colors, sizes, value);
+    const changed = combinations.length !== value.length ||
+      combinations.some((row, index) => row !== value[index]);
+
+    if (changed) {
+      onChange(combinations);
+    }
+  }, [colors, sizes, value, enabled, onChange]);
+
+  const handleToggle = (checked: boolean) => {
+    onChange(checked ? buildVariantCombinations(colors, sizes, []) : []);
+  };
+
+  const updateRow = (index: number, changes: Partial<ProductVariantInput>) => {
+    onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const totalStock = value.reduce((sum, row) => sum + row.stock_quantity, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between rounded-lg border p-4">
+        <div className="space-y-0.5">
+          <Label htmlFor="track-inventory" className="text-base">Controlar estoque</Label>
+          <p className="text-sm text-muted-foreground">
+            Informe a quantidade disponível de cada combinação de cor e tamanho.
+            Variações sem estoque não poderão ser adicionadas ao carrinho.
+          </p>
+        </div>
+        <Switch id="track-inventory" checked={enabled} onCheckedChange={handleToggle} />
+      </div>
+
+      {enabled && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variação</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead className="w-28">Estoque</TableHead>
+                <TableHead className="w-36">Preço específico</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.map((row, index) => (
+                <TableRow key={`${row.color}-${row.size}`}>
+                  <TableCell className="font-medium">
+                    {[row.color, row.size].filter(Boolean).join(' / ') || 'Padrão'}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={row.sku || ''}
+                      onChange={(e) => updateRow(index, { sku: e.target.value })}
+                      placeholder="Opcional"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={row.stock_quantity}
+                      onChange={(e) => updateRow(index, {
+                        stock_quantity: Math.max(0, Math.floor(e.target.valueAsNumber || 0))
+                      })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <NumericFormat
+                      thousandSeparator={localeConfig.thousandsSeparator}
+                      decimalSeparator={localeConfig.decimalSeparator}
+                      prefix={currencySymbol + ' '}
+                      decimalScale={2}
+                      allowNegative={false}
+                      value={row.price ?? ''}
+                      onValueChange={({ floatValue }) => updateRow(index, {
+                        price: floatValue && floatValue > 0 ? floatValue : null
+                      })}
+                      placeholder="Preço do produto"
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Package className="h-4 w-4" />
+            <span>
+              {totalStock} {totalStock === 1 ? 'unidade' : 'unidades'} em estoque
+              {totalStock === 0 && ' — o produto aparecerá como esgotado na vitrine'}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,435 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { NumericFormat } from 'react-number-format';
+import { format } from 'date-fns';
+import { Loader2, Search } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormDescription,
+  FormMessage,
+} from '@/components/ui/form';
+import { DISCOUNT_TYPES } from '@/lib/couponUtils';
+import { isProductInPromotion, PROMOTION_TARGET_TYPES, type PromotionInput } from '@/lib/promotionUtils';
+import { getCurrencySymbol, getLocaleConfig, type SupportedCurrency } from '@/lib/i18n';
+import type { Promotion } from '@/types';
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Informe o nome da promoção'),
+  discount_type: z.enum(['percentage', 'fixed']),
+  discount_value: z.number({ invalid_type_error: 'Informe o valor do desconto' })
+    .positive('O desconto deve ser maior que zero'),
+  starts_at: z.string().min(1, 'Informe o início'), // yyyy-MM-ddTHH:mm
+  ends_at: z.string().min(1, 'Informe o término'),
+  target_type: z.enum(['all', 'products', 'categories']),
+  product_ids: z.array(z.string()).default([]),
+  categories: z.array(z.string()).default([]),
+  is_active: z.boolean().default(true),
+}).superRefine((values, ctx) => {
+  if (values.discount_type === 'percentage' && values.discount_value >= 100) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'A porcentagem deve ser menor que 100%',
+      path: ['discount_value'],
+    });
+  }
+
+  if (values.starts_at && values.ends_at && new Date(values.ends_at) <= new Date(values.starts_at)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'O término deve ser depois do início',
+      path: ['ends_at'],
+    });
+  }
+
+  if (values.target_type === 'products' && values.product_ids.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Selecione pelo menos um produto',
+      path: ['product_ids'],
+    });
+  }
+
+  if (values.target_type === 'categories' && values.categories.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Selecione pelo menos uma categoria',
+      path: ['categories'],
+    });
+  }
+});
+
+type PromotionFormValues = z.infer<typeof formSchema>;
+
+export interface PromotionProductOption {
+  id: string;
+  title: string;
+  price?: number;
+  category: string[];
+}
+
+interface PromotionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  promotion?: Promotion | null;
+  products: PromotionProductOption[];
+  categories: string[];
+  currency?: SupportedCurrency;
+  saving?: boolean;
+  onSubmit: (values: PromotionInput) => void;
+}
+
+const numericInputClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const DATETIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const getEmptyValues = (): PromotionFormValues => ({
+  name: '',
+  discount_type: 'percentage',
+  discount_value: 10,
+  starts_at: format(new Date(), DATETIME_FORMAT),
+  ends_at: '',
+  target_type: 'all',
+  product_ids: [],
+  categories: [],
+  is_active: true,
+});
+
+export function PromotionFormDialog({
+  open,
+  onOpenChange,
+  promotion,
+  products,
+  categories,
+  currency = 'BRL',
+  saving = false,
+  onSubmit,
+}: PromotionFormDialogProps) {
+  const localeConfig = getLocaleConfig('pt-BR');
+  const currencySymbol = getCurrencySymbol(currency, 'pt-BR');
+  const [productSearch, setProductSearch] = useState('');
+
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: getEmptyValues(),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    setProductSearch('');
+    form.reset(promotion
+      ? {
+          name: promotion.name,
+          discount_type: promotion.discount_type,
+          discount_value: Number(promotion.discount_value),
+          starts_at: format(new Date(promotion.starts_at), DATETIME_FORMAT),
+          ends_at: format(new Date(promotion.ends_at), DATETIME_FORMAT),
+          target_type: promotion.target_type,
+          product_ids: promotion.product_ids || [],
+          categories: promotion.categories || [],
+          is_active: promotion.is_active,
+        }
+      : getEmptyValues());
+  }, [open, promotion, form]);
+
+  const handleSubmit = (values: PromotionFormValues) => {
+    // A fixed discount must leave every product of the promotion with a price
+    const zeroedProduct = values.discount_type === 'fixed' && values.is_active
+      ? products.find(product =>
+          (product.price || 0) > 0 &&
+          product.price! <= values.discount_value &&
+          isProductInPromotion(product, values)
+        )
+      : undefined;
+
+    if (zeroedProduct) {
+      form.setError('discount_value', {
+        message: `O desconto deve ser menor que o preço de ${zeroedProduct.title}`,
+      });
+      return;
+    }
+
+    onSubmit({
+      name: values.name,
+      discount_type: values.discount_type,
+      discount_value: values.discount_value,
+      // datetime-local values are in the seller's timezone
+      starts_at: new Date(values.starts_at).toISOString(),
+      ends_at: new Date(values.ends_at).toISOString(),
+      target_type: values.target_type,
+      product_ids: values.product_ids,
+      categories: values.categories,
+      is_active: values.is_active,
+    });
+  };
+
+  const discountType = form.watch('discount_type');
+  const targetType = form.watch('target_type');
+
+  const filteredProducts = products.filter(product =>
+    product.title.toLowerCase().includes(productSearch.trim().toLowerCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{promotion ? 'Editar Promoção' : 'Nova Promoção'}</DialogTitle>
+          <DialogDescription>
+            O desconto entra e sai da vitrine automaticamente nas datas escolhidas
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Black Friday" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discount_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de desconto</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DISCOUNT_TYPES.map(type => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discount_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Desconto</FormLabel>
+                    <FormControl>
+                      <NumericFormat
+                        thousandSeparator={localeConfig.thousandsSeparator}
+                        decimalSeparator={localeConfig.decimalSeparator}
+                        prefix={discountType === 'fixed' ? currencySymbol + ' ' : undefined}
+                        suffix={discountType === 'percentage' ? '%' : undefined}
+                        decimalScale={2}
+                        allowNegative={false}
+                        value={field.value ?? ''}
+                        onValueChange={({ floatValue }) => field.onChange(floatValue)}
+                        className={numericInputClassName}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      {discountType === 'fixed' ? 'Abatido do preço de cada produto' : 'Sobre o preço de cada produto'}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="starts_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Início</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="ends_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Término</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="target_type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Aplicar em</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PROMOTION_TARGET_TYPES.map(type => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {targetType === 'products' && (
+              <FormField
+                control={form.control}
+                name="product_ids"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Produtos ({field.value.length} selecionados)</FormLabel>
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        value={productSearch}
+                        onChange={(e) => setProductSearch(e.target.value)}
+                        placeholder="Buscar produto..."
+                        className="pl-9"
+                      />
+                    </div>
+                    <div className="space-y-2 max-h-48 overflow-y-auto rounded-md border p-3">
+                      {filteredProducts.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nenhum produto encontrado</p>
+                      ) : filteredProducts.map(product => (
+                        <label key={product.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(product.id)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked
+                                ? [...field.value, product.id]
+                                : field.value.filter(id => id !== product.id)
+                            )}
+                          />
+                          <span className="truncate">{product.title}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {targetType === 'categories' && (
+              <FormField
+                control={form.control}
+                name="categories"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categorias</FormLabel>
+                    {categories.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Nenhuma categoria cadastrada</p>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto rounded-md border p-3">
+                        {categories.map(category => (
+                          <label key={category} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(category)}
+                              onCheckedChange={(checked) => field.onChange(
+                                checked
+                                  ? [...field.value, category]
+                                  : field.value.filter(c => c !== category)
+                              )}
+                            />
+                            <span className="truncate">{category}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <FormLabel>Promoção ativa</FormLabel>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {promotion ? 'Salvar Alterações' : 'Criar Promoção'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,566 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { NumericFormat } from 'react-number-format';
+import { Loader2, Save, Truck, Plus, Trash2, LocateFixed } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { TagInput } from '@/components/ui/tag-input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormDescription,
+  FormMessage,
+} from '@/components/ui/form';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatCep, isValidCep, normalizeCep } from '@/lib/cepUtils';
+import { getCurrencySymbol, getLocaleConfig, type SupportedCurrency } from '@/lib/i18n';
+import {
+  DEFAULT_SHIPPING_SETTINGS,
+  DELIVERY_ZONE_TYPES,
+  getCurrentPosition,
+} from '@/lib/shippingUtils';
+
+const zoneSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, 'Informe o nome da zona'),
+  type: z.enum(['neighborhood', 'cep_range', 'radius']),
+  neighborhoods: z.array(z.string()).optional(),
+  cepStart: z.string().optional(),
+  cepEnd: z.string().optional(),
+  radiusKm: z.number().positive('Informe um raio maior que zero').optional(),
+  fee: z.number({ invalid_type_error: 'Informe o valor do frete' }).min(0, 'O frete não pode ser negativo'),
+  freeShippingThreshold: z.number().positive().nullable().optional(),
+}).superRefine((zone, ctx) => {
+  if (zone.type === 'neighborhood' && !zone.neighborhoods?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['neighborhoods'], message: 'Adicione pelo menos um bairro' });
+  }
+
+  if (zone.type === 'cep_range') {
+    if (!isValidCep(zone.cepStart || '')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cepStart'], message: 'CEP inicial inválido' });
+    }
+    if (!isValidCep(zone.cepEnd || '')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cepEnd'], message: 'CEP final inválido' });
+    } else if (Number(normalizeCep(zone.cepEnd || '')) < Number(normalizeCep(zone.cepStart || ''))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cepEnd'], message: 'O CEP final deve ser maior que o inicial' });
+    }
+  }
+
+  if (zone.type === 'radius' && !zone.radiusKm) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['radiusKm'], message: 'Informe o raio em km' });
+  }
+});
+
+const formSchema = z.object({
+  enabled: z.boolean().default(false),
+  pickupEnabled: z.boolean().default(true),
+  freeShippingThreshold: z.number().positive().nullable().optional(),
+  origin: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+  }).nullable().optional(),
+  zones: z.array(zoneSchema),
+}).superRefine((values, ctx) => {
+  if (values.zones.some(zone => zone.type === 'radius') && !values.origin) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['origin'], message: 'Informe a localização da loja para usar zonas por raio' });
+  }
+});
+
+type ShippingFormValues = z.infer<typeof formSchema>;
+
+const numericInputClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+export default function ShippingSettingsManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const { user } = useAuth();
+
+  const currency = (user?.currency || 'BRL') as SupportedCurrency;
+  const localeConfig = getLocaleConfig('pt-BR');
+  const currencySymbol = getCurrencySymbol(currency, 'pt-BR');
+
+  const form = useForm<ShippingFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: DEFAULT_SHIPPING_SETTINGS,
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'zones',
+  });
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('user_storefront_settings')
+        .select('settings')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+
+      if (error && error.code !== 'PGRST116') throw error;
+
+      form.reset({
+        ...DEFAULT_SHIPPING_SETTINGS,
+        ...data?.settings?.shipping,
+      });
+    } catch (error) {
+      console.error('Error loading shipping settings:', error);
+      toast.error('Erro ao carregar configurações de frete');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, form]);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadSettings();
+    }
+  }, [user?.id, loadSettings]);
+
+  const onSubmit = async (values: ShippingFormValues) => {
+    try {
+      setSaving(true);
+
+      // Get current settings to preserve other data
+      const { data: currentSettings } = await supabase
+        .from('user_storefront_settings')
+        .select('id, settings')
+        .eq('user_id', user?.id)
+        .maybeSingle();
+
+      const settingsData = {
+        ...currentSettings?.settings,
+        shipping: {
+          ...values,
+          zones: values.zones.map(zone => ({
+            ...zone,
+            cepStart: zone.cepStart ? normalizeCep(zone.cepStart) : undefined,
+            cepEnd: zone.cepEnd ? normalizeCep(zone.cepEnd) : undefined,
+          })),
+        },
+      };
+
+      if (currentSettings) {
+        const { error } = await supabase
+          .from('user_storefront_settings')
+          .update({ settings: settingsData })
+          .eq('id', currentSettings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('user_storefront_settings')
+          .insert({
+            user_id: user?.id,
+            settings: settingsData,
+          });
+
+        if (error) throw error;
+      }
+
+      toast.success('Configurações de frete salvas com sucesso');
+    } catch (error) {
+      console.error('Error saving shipping settings:', error);
+      toast.error('Erro ao salvar configurações de frete');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUseCurrentLocation = async () => {
+    try {
+      setLocating(true);
+      const position = await getCurrentPosition();
+      form.setValue('origin', position, { shouldValidate: true, shouldDirty: true });
+    } catch (error) {
+      console.error('Error getting current location:', error);
+      toast.error('Não foi possível obter sua localização');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleAddZone = () => {
+    append({
+      id: crypto.randomUUID(),
+      name: '',
+      type: 'neighborhood',
+      neighborhoods: [],
+      fee: 0,
+      freeShippingThreshold: null,
+    });
+  };
+
+  const renderMoneyInput = (
+    value: number | null | undefined,
+    onChange: (value: number | null) => void,
+    placeholder?: string
+  ) => (
+    <NumericFormat
+      thousandSeparator={localeConfig.thousandsSeparator}
+      decimalSeparator={localeConfig.decimalSeparator}
+      prefix={currencySymbol + ' '}
+      decimalScale={2}
+      allowNegative={false}
+      value={value ?? ''}
+      onValueChange={({ floatValue }) => onChange(floatValue ?? null)}
+      placeholder={placeholder}
+      className={numericInputClassName}
+    />
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const enabled = form.watch('enabled');
+  const zones = form.watch('zones');
+  const origin = form.watch('origin');
+  const hasRadiusZone = zones.some(zone => zone.type === 'radius');
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <Alert>
+          <Truck className="h-4 w-4" />
+          <AlertDescription>
+            Defina zonas de entrega por bairro, faixa de CEP ou raio de distância. O carrinho mostra
+            subtotal, frete e total, e o frete é incluído na mensagem do pedido.
+          </AlertDescription>
+        </Alert>
+
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+              <div className="space-y-0.5">
+                <FormLabel className="text-base">
+                  Calcular frete no carrinho
+                </FormLabel>
+                <FormDescription>
+                  O cliente informa o CEP para ver o valor da entrega antes de enviar o pedido
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {enabled && (
+          <>
+            <FormField
+              control={form.control}
+              name="pickupEnabled"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">
+                      Permitir retirada
+                    </FormLabel>
+                    <FormDescription>
+                      O cliente pode retirar o pedido sem pagar frete
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="freeShippingThreshold"
+              render={({ field }) => (
+                <FormItem className="max-w-xs">
+                  <FormLabel>Frete grátis a partir de</FormLabel>
+                  <FormControl>
+                    {renderMoneyInput(field.value, field.onChange, 'Sem frete grátis')}
+                  </FormControl>
+                  <FormDescription>
+                    Vale para todas as zonas, exceto as que tiverem um valor próprio
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-base font-medium">Zonas de entrega</h3>
+                  <p className="text-sm text-muted-foreground">
+                    A primeira zona que atender o endereço do cliente é usada
+                  </p>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={handleAddZone}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Adicionar zona
+                </Button>
+              </div>
+
+              {fields.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6 border rounded-lg">
+                  Nenhuma zona de entrega cadastrada
+                </p>
+              )}
+
+              {fields.map((zoneField, index) => {
+                const zoneType = zones[index]?.type;
+
+                return (
+                  <div key={zoneField.id} className="rounded-lg border p-4 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-[1fr_200px_auto] gap-4 items-start">
+                      <FormField
+                        control={form.control}
+                        name={`zones.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Nome</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Ex: Centro" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name={`zones.${index}.type`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Tipo</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {DELIVERY_ZONE_TYPES.map(type => (
+                                  <SelectItem key={type.value} value={type.value}>
+                                    {type.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="md:mt-8 text-destructive hover:text-destructive"
+                        onClick={() => remove(index)}
+                        aria-label="Remover zona"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    {zoneType === 'neighborhood' && (
+                      <FormField
+                        control={form.control}
+                        name={`zones.${index}.neighborhoods`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Bairros</FormLabel>
+                            <FormControl>
+                              <TagInput
+                                value={field.value || []}
+                                onChange={field.onChange}
+                                placeholder="Digite o bairro e pressione Enter"
+                                maxTags={100}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {zoneType === 'cep_range' && (
+                      <div className="grid grid-cols-2 gap-4 max-w-md">
+                        <FormField
+                          control={form.control}
+                          name={`zones.${index}.cepStart`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>CEP inicial</FormLabel>
+                              <FormControl>
+                                <Input
+                                  inputMode="numeric"
+                                  placeholder="00000-000"
+                                  {...field}
+                                  value={formatCep(field.value || '')}
+                                  onChange={(e) => field.onChange(normalizeCep(e.target.value))}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`zones.${index}.cepEnd`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>CEP final</FormLabel>
+                              <FormControl>
+                                <Input
+                                  inputMode="numeric"
+                                  placeholder="99999-999"
+                                  {...field}
+                                  value={formatCep(field.value || '')}
+                                  onChange={(e) => field.onChange(normalizeCep(e.target.value))}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
+
+                    {zoneType === 'radius' && (
+                      <FormField
+                        control={form.control}
+                        name={`zones.${index}.radiusKm`}
+                        render={({ field }) => (
+                          <FormItem className="max-w-[200px]">
+                            <FormLabel>Raio (km)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={field.value ?? ''}
+                                onChange={(e) => field.onChange(Number.isNaN(e.target.valueAsNumber) ? undefined : e.target.valueAsNumber)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-md">
+                      <FormField
+                        control={form.control}
+                        name={`zones.${index}.fee`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Valor do frete</FormLabel>
+                            <FormControl>
+                              {renderMoneyInput(field.value, (value) => field.onChange(value ?? 0))}
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`zones.${index}.freeShippingThreshold`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Grátis a partir de</FormLabel>
+                            <FormControl>
+                              {renderMoneyInput(field.value, field.onChange, 'Padrão da loja')}
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {hasRadiusZone && (
+              <FormField
+                control={form.control}
+                name="origin"
+                render={() => (
+                  <FormItem className="rounded-lg border p-4">
+                    <FormLabel className="text-base">Localização da loja</FormLabel>
+                    <FormDescription>
+                      Ponto de partida usado para medir a distância nas zonas por raio
+                    </FormDescription>
+                    <div className="flex flex-wrap items-center gap-4">
+                      <span className="text-sm">
+                        {origin
+                          ? `${origin.latitude.toFixed(5)}, ${origin.longitude.toFixed(5)}`
+                          : 'Localização não definida'}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={handleUseCurrentLocation}
+                        disabled={locating}
+                      >
+                        {locating ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <LocateFixed className="h-4 w-4 mr-2" />
+                        )}
+                        Usar minha localização
+                      </Button>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            <Save className="h-4 w-4 mr-2" />
+            Salvar Configurações
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
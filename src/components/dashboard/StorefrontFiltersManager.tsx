@@ -9,6 +9,13 @@ import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Form,
   FormControl,
@@ -24,6 +31,19 @@ import { useAuth } from '@/contexts/AuthContext';
 import type { User } from '@/types';
 import type { CategoryDisplaySetting } from '@/types';
 import { normalizeCategoryNameForComparison } from '@/lib/categoryUtils';
+import { SORT_OPTIONS, type SortOption } from '@/utils/productDisplayUtils';
+
+const SORT_OPTION_LABELS: Record<SortOption, string> = {
+  'display-order': 'Destaques (ordem da vitrine)',
+  'price-asc': 'Menor preço',
+  'price-desc': 'Maior preço',
+  'name-asc': 'Nome (A-Z)',
+  'name-desc': 'Nome (Z-A)',
+  'newest': 'Mais recentes',
+  'oldest': 'Mais antigos',
+  'most-viewed': 'Mais vistos',
+  'most-ordered': 'Mais pedidos',
+};
 
 const formSchema = z.object({
   filters: z.object({
@@ -43,6 +63,10 @@ const formSchema = z.object({
     message: 'Preço máximo deve ser maior que o preço mínimo',
     path: ['maxPrice'],
   }),
+  sorting: z.object({
+    defaultSort: z.enum(SORT_OPTIONS as [SortOption, ...SortOption[]]),
+    hiddenOptions: z.array(z.enum(SORT_OPTIONS as [SortOption, ...SortOption[]])),
+  }),
 });
 
 interface StorefrontSettings {
@@ -62,6 +86,10 @@ interface StorefrontSettings {
       minPrice?: number;
       maxPrice?: number;
     };
+    sorting?: {
+      defaultSort?: SortOption;
+      hiddenOptions?: SortOption[];
+    };
     itemsPerPage?: number;
   };
 }
@@ -89,6 +117,10 @@ export default function StorefrontFiltersManager() {
         minPrice: 10,
         maxPrice: 5000,
       },
+      sorting: {
+        defaultSort: 'display-order',
+        hiddenOptions: [],
+      },
     },
   });
 
@@ -128,9 +160,15 @@ export default function StorefrontFiltersManager() {
           maxPrice: 5000,
         };
 
+        const sortingSettings = {
+          defaultSort: data.settings.sorting?.defaultSort || 'display-order',
+          hiddenOptions: data.settings.sorting?.hiddenOptions || [],
+        };
+
         form.reset({
           filters,
           priceRange: priceRangeSettings,
+          sorting: sortingSettings,
         });
 
         setPriceRange([priceRangeSettings.minPrice, priceRangeSettings.maxPrice]);
@@ -171,6 +209,11 @@ export default function StorefrontFiltersManager() {
           minPrice: 10,
           maxPrice: 5000,
         },
+        sorting: {
+          defaultSort: values.sorting.defaultSort,
+          // The default option is always offered on the storefront
+          hiddenOptions: values.sorting.hiddenOptions.filter(option => option !== values.sorting.defaultSort),
+        },
         // Keep existing itemsPerPage if it exists, otherwise default to 12
         itemsPerPage: currentSettings?.settings?.itemsPerPage || 12,
       };
@@ -511,6 +554,74 @@ export default function StorefrontFiltersManager() {
           </CardContent>
         </Card>
 
+        {/* Ordenação da Vitrine */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Ordenação da Vitrine</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <FormField
+              control={form.control}
+              name="sorting.defaultSort"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ordenação padrão</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="md:w-80">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SORT_OPTIONS.map(option => (
+                        <SelectItem key={option} value={option}>
+                          {SORT_OPTION_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Ordem dos produtos quando o cliente não escolhe outra
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="sorting.hiddenOptions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Opções disponíveis para o cliente</FormLabel>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {SORT_OPTIONS.map(option => {
+                      const isDefault = option === form.watch('sorting.defaultSort');
+
+                      return (
+                        <div key={option} className="flex items-center justify-between rounded-lg border p-3">
+                          <span className="text-sm">{SORT_OPTION_LABELS[option]}</span>
+                          <Switch
+                            checked={isDefault || !field.value.includes(option)}
+                            disabled={isDefault}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked
+                                ? field.value.filter(hidden => hidden !== option)
+                                : [...field.value, option]
+                            )}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <FormDescription>
+                    Com apenas uma opção disponível, o seletor de ordenação não aparece na vitrine
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
         <div className="flex justify-end">
           <Button type="submit" disabled={saving}>
             {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -4,6 +4,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import StorefrontFiltersManager from '@/components/dashboard/StorefrontFiltersManager';
 import CategoryDisplaySettings from '@/components/dashboard/CategoryDisplaySettings';
 import TrackingSettingsContent from '@/components/dashboard/TrackingSettingsContent';
+import InventorySettingsManager from '@/components/dashboard/InventorySettingsManager';
+import CheckoutSettingsManager from '@/components/dashboard/CheckoutSettingsManager';
+import ShippingSettingsManager from '@/components/dashboard/ShippingSettingsManager';
+import PaymentConditionsManager from '@/components/dashboard/PaymentConditionsManager';
 import { useAuth } from '@/contexts/AuthContext';
 
 export function StorefrontSettings() {
@@ -13,9 +17,13 @@ export function StorefrontSettings() {
   return (
     <div className="space-y-6">
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="filters">Filtros</TabsTrigger>
           <TabsTrigger value="organization">Organização</TabsTrigger>
+          <TabsTrigger value="inventory">Estoque</TabsTrigger>
+          <TabsTrigger value="checkout">Checkout</TabsTrigger>
+          <TabsTrigger value="shipping">Frete</TabsTrigger>
+          <TabsTrigger value="payment">Pagamento</TabsTrigger>
           <TabsTrigger value="tracking">Rastreamento</TabsTrigger>
         </TabsList>
         
@@ -27,6 +35,22 @@ export function StorefrontSettings() {
           <CategoryDisplaySettings />
         </TabsContent>
         
+        <TabsContent value="inventory" className="mt-6">
+          <InventorySettingsManager />
+        </TabsContent>
+        
+        <TabsContent value="checkout" className="mt-6">
+          <CheckoutSettingsManager />
+        </TabsContent>
+        
+        <TabsContent value="shipping" className="mt-6">
+          <ShippingSettingsManager />
+        </TabsContent>
+
+        <TabsContent value="payment" className="mt-6">
+          <PaymentConditionsManager />
+        </TabsContent>
+        
         <TabsContent value="tracking" className="mt-6">
           <TrackingSettingsContent />
         </TabsContent>
@@ -31,6 +31,7 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -54,7 +55,14 @@ const formSchema = z.object({
     .transform(val => val ? JSON.parse(val) : null)
     .refine(val => !val || typeof val === 'object', 'Formato JSON inválido')
     .or(z.literal('')),
-});
+  server_side_enabled: z.boolean(),
+  meta_access_token: z.string().trim().optional(),
+  meta_test_event_code: z.string().trim().optional(),
+  ga_api_secret: z.string().trim().optional(),
+}).refine(
+  values => !values.server_side_enabled || !!values.meta_access_token || !!values.ga_api_secret,
+  { message: 'Informe o token do Meta ou a chave secreta do Google Analytics', path: ['server_side_enabled'] }
+);
 
 type FormValues = z.infer<typeof formSchema>;
 
@@ -70,6 +78,10 @@ export default function TrackingSettingsContent() {
       meta_events: '',
       ga_measurement_id: '',
       ga_events: '',
+      server_side_enabled: false,
+      meta_access_token: '',
+      meta_test_event_code: '',
+      ga_api_secret: '',
     },
   });
 
@@ -81,23 +93,42 @@ export default function TrackingSettingsContent() {
 
   const loadSettings = async () => {
     try {
-      const { data, error } = await supabase
-        .from('tracking_settings')
-        .select('*')
-        .eq('user_id', user?.id)
-        .eq('is_active', true)
-        .maybeSingle();
+      // The server-side credentials live in their own table, which the storefront can't read
+      const [settingsResult, credentialsResult] = await Promise.all([
+        supabase
+          .from('tracking_settings')
+          .select('*')
+          .eq('user_id', user?.id)
+          .eq('is_active', true)
+          .maybeSingle(),
+        supabase
+          .from('tracking_credentials')
+          .select('*')
+          .eq('user_id', user?.id)
+          .maybeSingle(),
+      ]);
 
-      if (error) {
-        throw error;
+      if (settingsResult.error) {
+        throw settingsResult.error;
       }
 
-      if (data) {
+      if (credentialsResult.error) {
+        throw credentialsResult.error;
+      }
+
+      const data = settingsResult.data;
+      const credentials = credentialsResult.data;
+
+      if (data || credentials) {
         form.reset({
-          meta_pixel_id: data.meta_pixel_id || '',
-          meta_events: data.meta_events ? JSON.stringify(data.meta_events, null, 2) : '',
-          ga_measurement_id: data.ga_measurement_id || '',
-          ga_events: data.ga_events ? JSON.stringify(data.ga_events, null, 2) : '',
+          meta_pixel_id: data?.meta_pixel_id || '',
+          meta_events: data?.meta_events ? JSON.stringify(data.meta_events, null, 2) : '',
+          ga_measurement_id: data?.ga_measurement_id || '',
+          ga_events: data?.ga_events ? JSON.stringify(data.ga_events, null, 2) : '',
+          server_side_enabled: credentials?.server_side_enabled ?? false,
+          meta_access_token: credentials?.meta_access_token || '',
+          meta_test_event_code: credentials?.meta_test_event_code || '',
+          ga_api_secret: credentials?.ga_api_secret || '',
         });
       }
     } catch (error) {
@@ -149,6 +180,19 @@ export default function TrackingSettingsContent() {
         if (error) throw error;
       }
 
+      const { error: credentialsError } = await supabase
+        .from('tracking_credentials')
+        .upsert({
+          user_id: user?.id,
+          server_side_enabled: values.server_side_enabled,
+          meta_access_token: values.meta_access_token || null,
+          meta_test_event_code: values.meta_test_event_code || null,
+          ga_api_secret: values.ga_api_secret || null,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' });
+
+      if (credentialsError) throw credentialsError;
+
       toast.success('Configurações salvas com sucesso');
     } catch (error) {
       console.error('Error saving tracking settings:', error);
@@ -317,6 +361,95 @@ export default function TrackingSettingsContent() {
             </CardContent>
           </Card>
 
+          {/* Server-side Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Envio pelo servidor</CardTitle>
+              <CardDescription>
+                Envia visitas, carrinhos, contatos e pedidos da vitrine direto para a API de Conversões
+                do Meta e para o GA4, mesmo quando o navegador bloqueia o pixel
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="server_side_enabled"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Ativar envio pelo servidor
+                      </FormLabel>
+                      <FormDescription>
+                        Os eventos usam o mesmo ID do pixel, então não são contados em dobro
+                      </FormDescription>
+                      <FormMessage />
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="meta_access_token"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Token de acesso da API de Conversões (Meta)</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Gere o token em Events Manager → Configurações do Pixel → API de Conversões
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="meta_test_event_code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Código de evento de teste (Meta)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="TEST12345" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Opcional. Use para conferir os eventos em Eventos de teste e apague depois
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Separator />
+
+              <FormField
+                control={form.control}
+                name="ga_api_secret"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chave secreta do Measurement Protocol (GA4)</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Crie a chave em Administrador → Fluxos de dados → Chaves secretas da API Measurement Protocol
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
           <div className="flex justify-end">
             <Button type="submit" disabled={saving}>
               {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
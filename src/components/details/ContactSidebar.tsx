@@ -6,7 +6,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { formatPhone, generateWhatsAppUrl, getInitials, formatWhatsAppForDisplay } from '@/lib/utils';
 import { toast } from 'sonner';
 import type { User } from '@/types';
-import { trackWhatsAppClick } from '@/lib/tracking';
+import { createEventId, trackMetaEvent, trackStorefrontEvent } from '@/lib/tracking';
 import { useTranslation, generateWhatsAppMessage, type SupportedLanguage } from '@/lib/i18n';
 
 interface ContactSidebarProps {
@@ -45,8 +45,14 @@ export default function ContactSidebar({
   console.log('ContactSidebar - whatsapp message:', whatsappMessage);
 
   const handleWhatsAppClick = async () => {
-    // Track the WhatsApp click as a lead
-    await trackWhatsAppClick(itemId, 'product', 'contact_sidebar');
+    const eventId = createEventId();
+
+    trackMetaEvent('Contact', { content_ids: [itemId], content_type: 'product' }, eventId);
+    await trackStorefrontEvent(corretor.id, 'whatsapp_click', {
+      eventId,
+      productId: itemId,
+      metadata: { source: 'contact_sidebar' },
+    });
   };
 
   const copyToClipboard = async (text: string) => {
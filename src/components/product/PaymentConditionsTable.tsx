@@ -0,0 +1,74 @@
+import { ChevronDown, CreditCard } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { formatCurrencyI18n, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+import { getHighlightedInstallment, getInstallmentOptions, getPixOption } from '@/lib/paymentConditionsUtils';
+import type { PaymentConditionsSettings } from '@/types';
+
+interface PaymentConditionsTableProps {
+  price: number;
+  conditions: PaymentConditionsSettings;
+  currency?: SupportedCurrency;
+  language?: SupportedLanguage;
+}
+
+/**
+ * PIX price and installment table of a product, calculated from the seller's payment conditions
+ */
+export function PaymentConditionsTable({
+  price,
+  conditions,
+  currency = 'BRL',
+  language = 'pt-BR',
+}: PaymentConditionsTableProps) {
+  const { t } = useTranslation(language);
+
+  const pixOption = getPixOption(price, conditions);
+  const highlighted = getHighlightedInstallment(price, conditions);
+  const options = getInstallmentOptions(price, conditions);
+
+  const format = (value: number) => formatCurrencyI18n(value, currency, language);
+
+  return (
+    <div className="mt-4 space-y-2">
+      {pixOption && (
+        <p className="text-lg font-semibold text-green-600">
+          {format(pixOption.total)} {t('payment.on_pix')}{' '}
+          <span className="text-sm font-normal">({conditions.pixDiscount}% {t('payment.off')})</span>
+        </p>
+      )}
+
+      {highlighted && (
+        <p className="text-muted-foreground">
+          {t('payment.up_to')} {highlighted.installments}x {t('payment.of')} {format(highlighted.installmentValue)}
+          {highlighted.interestFree ? ` ${t('payment.interest_free')}` : ''}
+        </p>
+      )}
+
+      {options.length > 1 && (
+        <Collapsible>
+          <CollapsibleTrigger className="group flex items-center gap-2 text-sm font-medium text-primary hover:underline">
+            <CreditCard className="h-4 w-4" />
+            {t('payment.conditions')}
+            <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 rounded-lg border p-3 text-sm">
+              {options.map(option => (
+                <div key={option.installments} className="flex justify-between gap-2">
+                  <span>
+                    {option.installments}x {format(option.installmentValue)}
+                  </span>
+                  <span className="text-muted-foreground text-right">
+                    {option.interestFree
+                      ? t('payment.interest_free')
+                      : `${t('payment.total')} ${format(option.total)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+}
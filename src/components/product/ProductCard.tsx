@@ -1,13 +1,19 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { ShoppingCart } from 'lucide-react';
+import { GitCompareArrows, Heart, ShoppingCart } from 'lucide-react';
+import { toast } from 'sonner';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { formatCurrencyI18n, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { useCart } from '@/contexts/CartContext';
+import { useCompare } from '@/hooks/useCompare';
+import { useFavorites } from '@/hooks/useFavorites';
+import { cn } from '@/lib/utils';
+import { getHighlightedInstallment, getPixOption } from '@/lib/paymentConditionsUtils';
 import ProductVariantModal from './ProductVariantModal';
-import type { Product } from '@/types';
+import { PromotionCountdown } from './PromotionCountdown';
+import type { PaymentConditionsSettings, Product } from '@/types';
 import { useState } from 'react';
 
 interface ProductCardProps {
@@ -15,17 +21,23 @@ interface ProductCardProps {
   corretorSlug: string;
   currency?: SupportedCurrency;
   language?: SupportedLanguage;
+  paymentConditions?: PaymentConditionsSettings | null;
 }
 
 export function ProductCard({
   product,
   corretorSlug,
   currency = 'BRL',
-  language = 'pt-BR'
+  language = 'pt-BR',
+  paymentConditions
 }: ProductCardProps) {
   const { t } = useTranslation(language);
   const { addToCart, isInCart, getItemQuantity } = useCart();
+  const { isComparing, toggleCompare } = useCompare();
   const [showVariantModal, setShowVariantModal] = useState(false);
+  const isInComparison = isComparing(corretorSlug, product.id);
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const isFavorited = isFavorite(corretorSlug, product.id);
 
   // Calculate discount information
   const hasDiscount = product.discounted_price && product.discounted_price < product.price;
@@ -35,6 +47,12 @@ export function ProductCard({
     ? Math.round(((product.price - product.discounted_price!) / product.price) * 100)
     : null;
 
+  // Installments and PIX price of the price shown on the card
+  const highlightedInstallment = paymentConditions && displayPrice
+    ? getHighlightedInstallment(displayPrice, paymentConditions)
+    : null;
+  const pixOption = paymentConditions && displayPrice ? getPixOption(displayPrice, paymentConditions) : null;
+
   const isAvailable = product.status === 'disponivel';
   const hasPrice = product.price && product.price > 0;
   
@@ -92,6 +110,21 @@ export function ProductCard({
     }
   };
 
+  const handleToggleCompare = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!toggleCompare(corretorSlug, product.id)) {
+      toast.error(t('compare.limit_reached'));
+    }
+  };
+
+  const handleToggleFavorite = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    toggleFavorite(corretorSlug, product);
+  };
+
   return (
     <motion.div 
       className="h-full"
@@ -119,6 +152,21 @@ export function ProductCard({
               />
             </div>
             
+            {/* Compare Toggle - Top Left */}
+            <div className="absolute top-3 left-3 md:top-5 md:left-5">
+              <Button
+                type="button"
+                size="sm"
+                variant={isInComparison ? 'default' : 'secondary'}
+                className="h-6 md:h-7 px-1.5 md:px-2 text-[10px] md:text-xs shadow-sm"
+                onClick={handleToggleCompare}
+                aria-pressed={isInComparison}
+              >
+                <GitCompareArrows className="h-3 w-3 md:h-3.5 md:w-3.5 mr-1" />
+                {isInComparison ? t('compare.selected') : t('compare.toggle')}
+              </Button>
+            </div>
+
             {/* Discount Badge - Top Right */}
             {hasDiscount && discountPercentage && (
               <div className="absolute top-3 right-3 md:top-5 md:right-5">
@@ -127,6 +175,32 @@ export function ProductCard({
                 </Badge>
               </div>
             )}
+
+            {/* Favorite Toggle - Bottom Right */}
+            <div className="absolute bottom-3 right-3 md:bottom-5 md:right-5">
+              <Button
+                type="button"
+                size="icon"
+                variant="secondary"
+                className="h-7 w-7 md:h-8 md:w-8 rounded-full shadow-sm"
+                onClick={handleToggleFavorite}
+                aria-pressed={isFavorited}
+                aria-label={isFavorited ? t('favorites.remove') : t('favorites.add')}
+              >
+                <Heart className={cn('h-3.5 w-3.5 md:h-4 md:w-4', isFavorited && 'fill-red-500 text-red-500')} />
+              </Button>
+            </div>
+
+            {/* Promotion Countdown - Bottom Left */}
+            {product.active_promotion && (
+              <div className="absolute bottom-3 left-3 md:bottom-5 md:left-5">
+                <PromotionCountdown
+                  endsAt={product.active_promotion.ends_at}
+                  language={language}
+                  className="text-[10px] md:text-xs px-1.5 md:px-2 py-0.5 md:py-1"
+                />
+              </div>
+            )}
           </div>
 
           {/* Product Info */}
@@ -154,6 +228,20 @@ export function ProductCard({
                 </div>
               )}
 
+              {/* Payment Conditions */}
+              {highlightedInstallment && (
+                <div className="text-[10px] md:text-xs text-muted-foreground">
+                  {t('payment.or')} {highlightedInstallment.installments}x {t('payment.of')}{' '}
+                  {formatCurrencyI18n(highlightedInstallment.installmentValue, currency, language)}
+                  {highlightedInstallment.interestFree ? ` ${t('payment.interest_free')}` : ''}
+                </div>
+              )}
+              {pixOption && (
+                <div className="text-[10px] md:text-xs font-medium text-green-600">
+                  {formatCurrencyI18n(pixOption.total, currency, language)} {t('payment.on_pix')}
+                </div>
+              )}
+
               {/* Short Description */}
               {product.short_description && (
                 <p className="text-xs text-muted-foreground mt-2 line-clamp-1 md:line-clamp-2">
@@ -1,6 +1,6 @@
-import { useState } from 'react';
-import { useEffect } from 'react';
-import { Search, SlidersHorizontal } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowUpDown, Search, SlidersHorizontal } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import {
@@ -12,6 +12,7 @@ import {
   SheetTrigger,
   SheetFooter,
 } from '@/components/ui/sheet';
+import { Label } from '@/components/ui/label';
 import {
   Select,
   SelectContent,
@@ -19,47 +20,97 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
-import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { formatCurrency } from '@/lib/utils';
-import type { Product } from '@/types';
-import { sanitizeCategoryName, categoriesEqual, normalizeCategoryNameForComparison, logCategoryOperation } from '@/lib/categoryUtils';
+import type { Product, StorefrontDisplaySettings } from '@/types';
 import { useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+import {
+  filterProducts,
+  getFilterOptions,
+  type FacetOption,
+  type FilterFacet,
+  type ProductFilters,
+  type SortOption,
+} from '@/utils/productDisplayUtils';
 
 interface ProductSearchProps {
   onFiltersChange?: (filters: ProductFilters) => void;
+  filters?: ProductFilters; // Filters applied by the storefront, e.g. from a shared URL
   products: Product[];
+  suggestions?: Product[];
+  corretorSlug?: string;
+  onActivate?: () => void; // Called when the shopper opens the filters
+  onSearchSubmit?: () => void; // Called when the shopper presses enter or picks a suggestion
+  sort?: SortOption;
+  sortOptions?: SortOption[]; // Options offered by the seller
+  onSortChange?: (sort: SortOption) => void;
   currency?: SupportedCurrency;
   language?: SupportedLanguage;
-  settings?: {
-    showSearch?: boolean;
-    showPriceRange?: boolean;
-    showCategories?: boolean;
-    showBrands?: boolean;
-    showGender?: boolean;
-    showFilters?: boolean;
-    showStatus?: boolean;
-    showCondition?: boolean;
-    priceRange?: {
-      minPrice?: number;
-      maxPrice?: number;
-    };
-  };
+  settings?: StorefrontDisplaySettings;
+}
+
+interface FacetFilterProps {
+  label: string;
+  options: FacetOption[];
+  selected: string[];
+  getOptionLabel?: (value: string) => string;
+  onChange: (selected: string[]) => void;
 }
 
-export interface ProductFilters {
-  query: string;
-  status: string;
-  minPrice: number;
-  maxPrice: number;
-  category: string;
-  brand: string;
-  gender: string;
-  condition: string;
+/**
+ * Multi-select list of a facet, with the number of products of each option
+ */
+function FacetFilter({ label, options, selected, getOptionLabel = value => value, onChange }: FacetFilterProps) {
+  if (options.length === 0) return null;
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value)
+      ? selected.filter(item => item !== value)
+      : [...selected, value]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => {
+          const isSelected = selected.includes(option.value);
+
+          return (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={isSelected ? 'default' : 'outline'}
+              className="h-8"
+              disabled={!isSelected && option.count === 0}
+              onClick={() => toggle(option.value)}
+              aria-pressed={isSelected}
+            >
+              {getOptionLabel(option.value)}
+              <span className="ml-1 text-xs opacity-70">({option.count})</span>
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  );
 }
 
-export default function ProductSearch({ onFiltersChange, products, currency = 'BRL', language = 'pt-BR', settings = {} }: ProductSearchProps) {
+const getInitialFilters = (minPrice: number, maxPrice: number): ProductFilters => ({
+  query: '',
+  status: [],
+  minPrice,
+  maxPrice,
+  category: [],
+  brand: [],
+  gender: [],
+  condition: [],
+  size: [],
+  color: []
+});
+
+export default function ProductSearch({ onFiltersChange, filters: appliedFilters, products, suggestions = [], corretorSlug, onActivate, onSearchSubmit, sort = 'display-order', sortOptions = [], onSortChange, currency = 'BRL', language = 'pt-BR', settings = {} }: ProductSearchProps) {
   const { t } = useTranslation(language);
   
   console.log('🔍 PRODUCT SEARCH CURRENCY/LANGUAGE:', {
@@ -75,20 +126,26 @@ export default function ProductSearch({ onFiltersChange, products, currency = 'B
   const configuredMinPrice = settings.priceRange?.minPrice || 10;
   const configuredMaxPrice = settings.priceRange?.maxPrice || 5000;
 
-  const initialFilters: ProductFilters = {
-    query: '',
-    status: 'todos',
-    minPrice: configuredMinPrice,
-    maxPrice: configuredMaxPrice,
-    category: 'todos',
-    brand: 'todos',
-    gender: 'todos',
-    condition: 'todos'
-  };
+  const initialFilters = useMemo(
+    () => getInitialFilters(configuredMinPrice, configuredMaxPrice),
+    [configuredMinPrice, configuredMaxPrice]
+  );
 
   const [filters, setFilters] = useState<ProductFilters>(initialFilters);
   const [priceRange, setPriceRange] = useState<[number, number]>([configuredMinPrice, configuredMaxPrice]);
   const [isOpen, setIsOpen] = useState(false);
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
+
+  // Follow the filters applied outside the component, e.g. when the page opens from a shared URL
+  useEffect(() => {
+    if (!appliedFilters) return;
+
+    setFilters({ ...initialFilters, ...appliedFilters });
+    setPriceRange([
+      appliedFilters.minPrice ?? configuredMinPrice,
+      appliedFilters.maxPrice ?? configuredMaxPrice
+    ]);
+  }, [appliedFilters, initialFilters, configuredMinPrice, configuredMaxPrice]);
 
   // Default settings if not provided
   const {
@@ -102,55 +159,51 @@ export default function ProductSearch({ onFiltersChange, products, currency = 'B
     showCondition = true
   } = settings;
 
-  // Get unique categories from products
-  const categoriesMap = new Map<string, string>(); // normalized -> original
-  products
-    .map(product => product.category)
-    .filter(Boolean)
-    .flat()
-    .forEach(cat => {
-      const sanitized = sanitizeCategoryName(cat);
-      if (sanitized) {
-        const normalized = normalizeCategoryNameForComparison(sanitized);
-        if (!categoriesMap.has(normalized)) {
-          categoriesMap.set(normalized, sanitized);
-        }
-      }
-    });
-  
-  const categories = Array.from(categoriesMap.values()).sort();
+  // Counts follow the selection in progress, before it is applied
+  const draftFilters = useMemo<ProductFilters>(
+    () => ({ ...filters, minPrice: priceRange[0], maxPrice: priceRange[1] }),
+    [filters, priceRange]
+  );
+  const facetOptions = useMemo(
+    () => getFilterOptions(products, draftFilters),
+    [products, draftFilters]
+  );
+  const draftResultCount = useMemo(
+    () => filterProducts(products, draftFilters, settings).filteredProducts.length,
+    [products, draftFilters, settings]
+  );
+
+  const setFacet = (facet: FilterFacet, selected: string[]) => {
+    setFilters(prev => ({ ...prev, [facet]: selected }));
+  };
 
-  // Get unique brands from products
-  const brands = [...new Set(products
-    .map(product => product.brand)
-    .filter(Boolean)
-  )].sort();
+  const statusLabels: Record<string, string> = {
+    disponivel: t('status.available'),
+    vendido: t('status.sold'),
+    reservado: t('status.reserved')
+  };
+
+  const genderLabels: Record<string, string> = {
+    masculino: t('gender.masculine'),
+    feminino: t('gender.feminine'),
+    unissex: t('gender.unisex')
+  };
 
-  // Get unique genders from products
-  const genders = [...new Set(products
-    .map(product => product.gender)
-    .filter(Boolean)
-  )].sort();
+  const conditionLabels: Record<string, string> = {
+    novo: t('condition.new'),
+    seminovo: t('condition.semi_new'),
+    usado: t('condition.used')
+  };
 
   const handleSearch = () => {
-    const updatedFilters = {
-      ...filters,
-      minPrice: priceRange[0],
-      maxPrice: priceRange[1]
-    };
-    handleFiltersChange(updatedFilters);
+    handleFiltersChange(draftFilters);
     setIsOpen(false);
   };
 
   const handleReset = () => {
-    const resetFilters = {
-      ...initialFilters,
-      minPrice: configuredMinPrice,
-      maxPrice: configuredMaxPrice
-    };
-    setFilters(resetFilters);
+    setFilters(initialFilters);
     setPriceRange([configuredMinPrice, configuredMaxPrice]);
-    handleFiltersChange(resetFilters);
+    handleFiltersChange(initialFilters);
     setIsOpen(false);
   };
 
@@ -172,13 +225,16 @@ export default function ProductSearch({ onFiltersChange, products, currency = 'B
     handleFiltersChange(searchFilters);
   };
 
-  // If filters are disabled, don't render the component
-  if (!showFilters) return null;
+  // The sort control is only useful with more than one option
+  const showSort = !!onSortChange && sortOptions.length > 1;
+
+  // If filters and sorting are disabled, don't render the component
+  if (!showFilters && !showSort) return null;
 
   return (
     <div className="w-full max-w-3xl mx-auto space-y-4">
       <div className="flex gap-2">
-        {showSearch && (
+        {showFilters && showSearch && (
           <div className="relative flex-1">
             <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
             <Input
@@ -188,168 +244,202 @@ export default function ProductSearch({ onFiltersChange, products, currency = 'B
                 setFilters(prev => ({ ...prev, query: e.target.value }));
                 onSearch({ ...filters, query: e.target.value, minPrice: priceRange[0], maxPrice: priceRange[1] });
               }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') onSearchSubmit?.();
+              }}
+              onFocus={() => setIsSearchFocused(true)}
+              onBlur={() => setIsSearchFocused(false)}
               className="pl-9"
             />
+
+            {/* Suggestions while typing */}
+            {isSearchFocused && corretorSlug && filters.query?.trim() && suggestions.length > 0 && (
+              <div
+                className="absolute left-0 right-0 top-full mt-1 z-50 rounded-md border bg-popover text-popover-foreground shadow-md overflow-hidden"
+                // Keep the input focused so the click reaches the link
+                onMouseDown={(e) => e.preventDefault()}
+              >
+                <p className="px-3 pt-2 pb-1 text-xs text-muted-foreground">{t('search.suggestions')}</p>
+                {suggestions.map(product => (
+                  <Link
+                    key={product.id}
+                    to={`/${corretorSlug}/produtos/${product.id}`}
+                    className="flex items-center gap-3 px-3 py-2 hover:bg-accent hover:text-accent-foreground"
+                    onClick={() => {
+                      setIsSearchFocused(false);
+                      onSearchSubmit?.();
+                    }}
+                  >
+                    {product.featured_image_url ? (
+                      <img
+                        src={product.featured_image_url}
+                        alt={product.title}
+                        className="h-10 w-10 rounded object-cover flex-shrink-0"
+                      />
+                    ) : (
+                      <div className="h-10 w-10 rounded bg-muted flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{product.title}</p>
+                      {(product.discounted_price || product.price) ? (
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency((product.discounted_price || product.price)!, currency, language)}
+                        </p>
+                      ) : null}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
           </div>
         )}
-        <Sheet open={isOpen} onOpenChange={setIsOpen}>
-          <SheetTrigger asChild>
-            <Button variant="outline">
-              <SlidersHorizontal className="h-4 w-4 mr-2" />
-              {t('header.filters')}
-            </Button>
-          </SheetTrigger>
-          <SheetContent className="w-full sm:max-w-md">
-            <SheetHeader>
-              <SheetTitle>{t('header.filters')}</SheetTitle>
-              <SheetDescription>
-                {t('filters.refine_search')}
-              </SheetDescription>
-            </SheetHeader>
+        {showFilters && (
+          <Sheet
+            open={isOpen}
+            onOpenChange={(open) => {
+              setIsOpen(open);
+              if (open) onActivate?.();
+            }}
+          >
+            <SheetTrigger asChild>
+              <Button variant="outline">
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                {t('header.filters')}
+              </Button>
+            </SheetTrigger>
+            <SheetContent className="w-full sm:max-w-md">
+              <SheetHeader>
+                <SheetTitle>{t('header.filters')}</SheetTitle>
+                <SheetDescription>
+                  {t('filters.refine_search')}
+                </SheetDescription>
+              </SheetHeader>
             
-            <div className="py-6 space-y-6">
-              {showStatus && (
-                <Tabs 
-                  value={filters.status} 
-                  onValueChange={(value) => {
-                    setFilters(prev => ({ ...prev, status: value }));
-                    handleFiltersChange({ ...filters, status: value, minPrice: priceRange[0], maxPrice: priceRange[1] });
-                  }}
-                  className="w-full"
-                >
-                  <TabsList className="w-full">
-                    <TabsTrigger value="todos" className="flex-1">{t('filters.all_status')}</TabsTrigger>
-                    <TabsTrigger value="disponivel" className="flex-1">{t('status.available')}</TabsTrigger>
-                    <TabsTrigger value="vendido" className="flex-1">{t('status.sold')}</TabsTrigger>
-                    <TabsTrigger value="reservado" className="flex-1">{t('status.reserved')}</TabsTrigger>
-                  </TabsList>
-                </Tabs>
-              )}
-
-              {showGender && genders.length > 0 && (
-                <div className="space-y-2">
-                  <Label>{t('filters.gender')}</Label>
-                  <Select
-                    value={filters.gender}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, gender: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t('filters.gender')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todos">{t('filters.all_genders')}</SelectItem>
-                      {genders.map(gender => (
-                        <SelectItem key={gender} value={gender}>
-                          {gender === 'masculino' ? t('gender.masculine') : 
-                           gender === 'feminino' ? t('gender.feminine') : t('gender.unisex')}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-
-              {showCategories && categories.length > 0 && (
-                <div className="space-y-2">
-                  <Label>{t('filters.category')}</Label>
-                  <Select
-                    value={filters.category}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, category: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t('filters.category')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todos">{t('filters.all_categories')}</SelectItem>
-                      {categories.map(category => (
-                        <SelectItem key={category} value={category}>{category}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-
-              {showBrands && brands.length > 0 && (
-                <div className="space-y-2">
-                  <Label>{t('filters.brand')}</Label>
-                  <Select
-                    value={filters.brand}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, brand: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t('filters.brand')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todos">{t('filters.all_brands')}</SelectItem>
-                      {brands.map(brand => (
-                        <SelectItem key={brand} value={brand}>{brand}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-
-              {showCondition && (
-                <div className="space-y-2">
-                  <Label>{t('filters.condition')}</Label>
-                  <Select
-                    value={filters.condition}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, condition: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder={t('filters.condition')} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="todos">{t('filters.all_conditions')}</SelectItem>
-                      <SelectItem value="novo">{t('condition.new')}</SelectItem>
-                      <SelectItem value="seminovo">{t('condition.semi_new')}</SelectItem>
-                      <SelectItem value="usado">{t('condition.used')}</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-
-              {/* Faixa de Preço - Movido para o final */}
-              {showPriceRange && (
-                <div className="space-y-4">
-                  <Label>{t('filters.price_range')}</Label>
-                  <div className="px-2">
-                    <Slider
-                      min={configuredMinPrice}
-                      max={configuredMaxPrice}
-                      step={10}
-                      value={priceRange}
-                      onValueChange={handlePriceRangeChange}
-                    />
-                    <div className="flex justify-between mt-3 text-sm">
-                      <div className="text-center">
-                        <div className="font-medium text-primary">
-                          {formatCurrency(priceRange[0], currency, language)}
+              <div className="py-6 space-y-6 overflow-y-auto max-h-[calc(100vh-12rem)]">
+                {showStatus && (
+                  <FacetFilter
+                    label={t('filters.status')}
+                    options={facetOptions.status}
+                    selected={filters.status || []}
+                    getOptionLabel={value => statusLabels[value] || value}
+                    onChange={(selected) => {
+                      // Status is applied right away, like the price range
+                      setFacet('status', selected);
+                      handleFiltersChange({ ...draftFilters, status: selected });
+                    }}
+                  />
+                )}
+
+                {showGender && (
+                  <FacetFilter
+                    label={t('filters.gender')}
+                    options={facetOptions.gender}
+                    selected={filters.gender || []}
+                    getOptionLabel={value => genderLabels[value] || value}
+                    onChange={(selected) => setFacet('gender', selected)}
+                  />
+                )}
+
+                {showCategories && (
+                  <FacetFilter
+                    label={t('filters.category')}
+                    options={facetOptions.category}
+                    selected={filters.category || []}
+                    onChange={(selected) => setFacet('category', selected)}
+                  />
+                )}
+
+                {showBrands && (
+                  <FacetFilter
+                    label={t('filters.brand')}
+                    options={facetOptions.brand}
+                    selected={filters.brand || []}
+                    onChange={(selected) => setFacet('brand', selected)}
+                  />
+                )}
+
+                <FacetFilter
+                  label={t('filters.size')}
+                  options={facetOptions.size}
+                  selected={filters.size || []}
+                  onChange={(selected) => setFacet('size', selected)}
+                />
+
+                <FacetFilter
+                  label={t('filters.color')}
+                  options={facetOptions.color}
+                  selected={filters.color || []}
+                  onChange={(selected) => setFacet('color', selected)}
+                />
+
+                {showCondition && (
+                  <FacetFilter
+                    label={t('filters.condition')}
+                    options={facetOptions.condition}
+                    selected={filters.condition || []}
+                    getOptionLabel={value => conditionLabels[value] || value}
+                    onChange={(selected) => setFacet('condition', selected)}
+                  />
+                )}
+
+                {/* Faixa de Preço - Movido para o final */}
+                {showPriceRange && (
+                  <div className="space-y-4">
+                    <Label>{t('filters.price_range')}</Label>
+                    <div className="px-2">
+                      <Slider
+                        min={configuredMinPrice}
+                        max={configuredMaxPrice}
+                        step={10}
+                        value={priceRange}
+                        onValueChange={handlePriceRangeChange}
+                      />
+                      <div className="flex justify-between mt-3 text-sm">
+                        <div className="text-center">
+                          <div className="font-medium text-primary">
+                            {formatCurrency(priceRange[0], currency, language)}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{t('filters.minimum')}</div>
                         </div>
-                        <div className="text-xs text-muted-foreground">{t('filters.minimum')}</div>
-                      </div>
-                      <div className="text-center">
-                        <div className="font-medium text-primary">
-                          {formatCurrency(priceRange[1], currency, language)}
+                        <div className="text-center">
+                          <div className="font-medium text-primary">
+                            {formatCurrency(priceRange[1], currency, language)}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{t('filters.maximum')}</div>
                         </div>
-                        <div className="text-xs text-muted-foreground">{t('filters.maximum')}</div>
                       </div>
                     </div>
                   </div>
-                </div>
-              )}
-            </div>
+                )}
+              </div>
 
-            <SheetFooter>
-              <Button variant="outline" onClick={handleReset}>
-                {t('filters.clear_filters')}
-              </Button>
-              <Button onClick={handleSearch}>
-                {t('filters.apply_filters')}
-              </Button>
-            </SheetFooter>
-          </SheetContent>
-        </Sheet>
+              <SheetFooter>
+                <Button variant="outline" onClick={handleReset}>
+                  {t('filters.clear_filters')}
+                </Button>
+                <Button onClick={handleSearch}>
+                  {t('filters.apply_filters')} ({draftResultCount})
+                </Button>
+              </SheetFooter>
+            </SheetContent>
+          </Sheet>
+        )}
+
+        {showSort && (
+          <Select value={sort} onValueChange={(value) => onSortChange?.(value as SortOption)}>
+            <SelectTrigger className="w-auto gap-2" aria-label={t('sort.label')}>
+              <ArrowUpDown className="h-4 w-4 flex-shrink-0" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sortOptions.map(option => (
+                <SelectItem key={option} value={option}>
+                  {t(`sort.${option.replace(/-/g, '_')}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
     </div>
   );
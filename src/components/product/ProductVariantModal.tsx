@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { toast } from 'sonner';
 import { ShoppingCart, Plus, Minus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -20,6 +21,7 @@ import {
 import { useCart } from '@/contexts/CartContext';
 import { formatCurrencyI18n, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { getColorValue } from '@/lib/utils';
+import { getVariantPrice, getVariantStock, isOptionAvailable } from '@/lib/variantUtils';
 import type { Product } from '@/types';
 
 interface ProductVariantModalProps {
@@ -110,9 +112,7 @@ export default function ProductVariantModal({
   const handleAddToCart = () => {
     // For products without options, allow direct add to cart
     if (!hasOptions) {
-      for (let i = 0; i < quantity; i++) {
-        addToCart(product, selectedColor, selectedSize);
-      }
+      addToCart(product, selectedColor, selectedSize, quantity);
       
       // Reset form and close modal
       setSelectedColor(undefined);
@@ -133,9 +133,7 @@ export default function ProductVariantModal({
     }
 
     // Add the specified quantity
-    for (let i = 0; i < quantity; i++) {
-      addToCart(product, selectedColor, selectedSize);
-    }
+    addToCart(product, selectedColor, selectedSize, quantity);
 
     // Reset form and close modal
     setSelectedColor(undefined);
@@ -149,8 +147,23 @@ export default function ProductVariantModal({
   // For products without options, always allow add to cart
   const canAddToCartFinal = !hasOptions || canAddToCart;
 
+  // Stock left for the selected combination (null when stock is not tracked)
+  const stock = canAddToCartFinal ? getVariantStock(product, selectedColor, selectedSize) : null;
+  const remainingStock = stock !== null ? Math.max(0, stock - currentVariantQuantity) : null;
+  const isSoldOut = remainingStock === 0;
+
+  const handleColorChange = (value: string) => {
+    setSelectedColor(value || undefined);
+    setQuantity(1);
+  };
+
+  const handleSizeChange = (value: string) => {
+    setSelectedSize(value || undefined);
+    setQuantity(1);
+  };
+
   // Calculate price
-  const price = product.discounted_price || product.price;
+  const price = getVariantPrice(product, selectedColor, selectedSize) || product.discounted_price || product.price;
   const totalPrice = price * quantity;
 
   return (
@@ -196,7 +209,7 @@ export default function ProductVariantModal({
               <Label className="text-sm font-medium">
                 Cor <span className="text-destructive">*</span>
               </Label>
-              <Select value={selectedColor || ''} onValueChange={(value) => setSelectedColor(value || undefined)}>
+              <Select value={selectedColor || ''} onValueChange={handleColorChange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Selecione uma cor">
                     {selectedColor && (
@@ -213,14 +226,18 @@ export default function ProductVariantModal({
                 <SelectContent>
                   {product.colors!.map((color: string) => {
                     const colorValue = getColorValue(color);
+                    const available = isOptionAvailable(product.product_variants, { color, size: selectedSize });
                     return (
-                      <SelectItem key={color} value={color}>
+                      <SelectItem key={color} value={color} disabled={!available}>
                         <div className="flex items-center gap-2">
                           <div 
                             className="w-4 h-4 rounded-full border border-gray-300 shadow-sm"
                             style={{ backgroundColor: colorValue }}
                           />
                           <span className="capitalize">{color}</span>
+                          {!available && (
+                            <span className="text-xs text-muted-foreground">(esgotado)</span>
+                          )}
                         </div>
                       </SelectItem>
                     );
@@ -239,7 +256,7 @@ export default function ProductVariantModal({
               <Label className="text-sm font-medium">
                 Tamanho <span className="text-destructive">*</span>
               </Label>
-              <Select value={selectedSize || ''} onValueChange={(value) => setSelectedSize(value || undefined)}>
+              <Select value={selectedSize || ''} onValueChange={handleSizeChange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Selecione um tamanho">
                     {selectedSize && (
@@ -270,9 +287,10 @@ export default function ProductVariantModal({
                       const numericSize = parseInt(size);
                       const isShoeSize = !isNaN(numericSize) && numericSize >= 17 && numericSize <= 43;
                       const isApparelSize = ['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(size);
+                      const available = isOptionAvailable(product.product_variants, { color: selectedColor, size });
                       
                       return (
-                        <SelectItem key={size} value={size}>
+                        <SelectItem key={size} value={size} disabled={!available}>
                           <div className="flex items-center gap-2">
                             <span className="font-medium">{size}</span>
                             {isShoeSize && (
@@ -284,6 +302,9 @@ export default function ProductVariantModal({
                             {!isShoeSize && !isApparelSize && (
                               <Badge variant="outline" className="text-xs">Personalizado</Badge>
                             )}
+                            {!available && (
+                              <span className="text-xs text-muted-foreground">(esgotado)</span>
+                            )}
                           </div>
                         </SelectItem>
                       );
@@ -313,12 +334,29 @@ export default function ProductVariantModal({
                 size="sm"
                 variant="outline"
                 onClick={() => setQuantity(quantity + 1)}
+                disabled={remainingStock !== null && quantity >= remainingStock}
               >
                 <Plus className="h-4 w-4" />
               </Button>
+              {remainingStock !== null && remainingStock > 0 && (
+                <span className="text-sm text-muted-foreground">
+                  {remainingStock === 1 ? 'Resta 1 unidade' : `Restam ${remainingStock} unidades`}
+                </span>
+              )}
             </div>
           </div>
 
+          {/* Sold out message */}
+          {isSoldOut && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <p className="text-sm text-destructive">
+                {currentVariantQuantity > 0
+                  ? 'Todo o estoque desta variação já está no seu carrinho'
+                  : 'Esta variação está esgotada'}
+              </p>
+            </div>
+          )}
+
           {/* Validation message */}
           {hasOptions && ((!selectedColor && hasColors) || (!selectedSize && hasSizes)) && (
             <div className="p-3 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 rounded-lg">
@@ -361,7 +399,7 @@ export default function ProductVariantModal({
             </Button>
             <Button
               onClick={handleAddToCart}
-              disabled={hasOptions && ((!selectedColor && hasColors) || (!selectedSize && hasSizes))}
+              disabled={isSoldOut || (hasOptions && ((!selectedColor && hasColors) || (!selectedSize && hasSizes)))}
               className="flex-1"
             >
               <ShoppingCart className="h-4 w-4 mr-2" />
@@ -8,6 +8,7 @@ import { Separator } from '@/components/ui/separator';
 import { useCart } from '@/contexts/CartContext';
 import { formatCurrencyI18n, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { getColorValue } from '@/lib/utils';
+import { isOptionAvailable } from '@/lib/variantUtils';
 import type { Product } from '@/types';
 
 interface ProductVariantSelectorProps {
@@ -100,13 +101,16 @@ export default function ProductVariantSelector({
                 const colorValue = getColorValue(color);
                 const isLightColor = ['branco', 'amarelo', 'bege', 'off-white', 'creme'].includes(color.toLowerCase());
                 const isSelected = selectedColor === color;
+                const available = isOptionAvailable(product.product_variants, { color, size: selectedSize });
 
                 return (
                   <button
                     key={color}
                     type="button"
                     onClick={() => setSelectedColor(isSelected ? undefined : color)}
-                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all ${
+                    disabled={!available && !isSelected}
+                    title={!available ? 'Esgotado' : undefined}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all disabled:cursor-not-allowed disabled:opacity-40 disabled:line-through ${
                       isSelected 
                         ? 'border-primary bg-primary/10 text-primary' 
                         : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
@@ -146,12 +150,15 @@ export default function ProductVariantSelector({
                       <div className="flex flex-wrap gap-2">
                         {sortedApparelSizes.map((size: string) => {
                           const isSelected = selectedSize === size;
+                          const available = isOptionAvailable(product.product_variants, { color: selectedColor, size });
                           return (
                             <button
                               key={size}
                               type="button"
                               onClick={() => setSelectedSize(isSelected ? undefined : size)}
-                              className={`flex items-center justify-center w-12 h-10 border rounded-lg transition-all text-sm font-medium ${
+                              disabled={!available && !isSelected}
+                              title={!available ? 'Esgotado' : undefined}
+                              className={`flex items-center justify-center w-12 h-10 border rounded-lg transition-all text-sm font-medium disabled:cursor-not-allowed disabled:opacity-40 disabled:line-through ${
                                 isSelected 
                                   ? 'border-primary bg-primary text-primary-foreground' 
                                   : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
@@ -172,12 +179,15 @@ export default function ProductVariantSelector({
                       <div className="flex flex-wrap gap-2">
                         {sortedShoeSizes.map((size: string) => {
                           const isSelected = selectedSize === size;
+                          const available = isOptionAvailable(product.product_variants, { color: selectedColor, size });
                           return (
                             <button
                               key={size}
                               type="button"
                               onClick={() => setSelectedSize(isSelected ? undefined : size)}
-                              className={`flex items-center justify-center w-12 h-10 border rounded-lg transition-all text-sm font-medium ${
+                              disabled={!available && !isSelected}
+                              title={!available ? 'Esgotado' : undefined}
+                              className={`flex items-center justify-center w-12 h-10 border rounded-lg transition-all text-sm font-medium disabled:cursor-not-allowed disabled:opacity-40 disabled:line-through ${
                                 isSelected 
                                   ? 'border-primary bg-primary text-primary-foreground' 
                                   : 'border-gray-300 hover:border-primary/50 hover:bg-accent'
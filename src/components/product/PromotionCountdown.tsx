@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
+
+interface PromotionCountdownProps {
+  endsAt: string;
+  language?: SupportedLanguage;
+  className?: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatRemaining(milliseconds: number): string {
+  const totalSeconds = Math.max(Math.floor(milliseconds / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${pad(hours)}h`;
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+export function PromotionCountdown({ endsAt, language = 'pt-BR', className }: PromotionCountdownProps) {
+  const { t } = useTranslation(language);
+  const endTime = new Date(endsAt).getTime();
+  const [remaining, setRemaining] = useState(() => endTime - Date.now());
+  const isLastDay = remaining <= 86400000;
+
+  useEffect(() => {
+    setRemaining(endTime - Date.now());
+
+    // Seconds only matter on the last day
+    const interval = setInterval(
+      () => setRemaining(endTime - Date.now()),
+      isLastDay ? 1000 : 60000
+    );
+
+    return () => clearInterval(interval);
+  }, [endTime, isLastDay]);
+
+  if (remaining <= 0) return null;
+
+  return (
+    <Badge className={cn('bg-red-600 hover:bg-red-700 text-white border-transparent gap-1 tabular-nums', className)}>
+      <Clock className="h-3 w-3" />
+      {t('product.promotion_ends_in')} {formatRemaining(remaining)}
+    </Badge>
+  );
+}
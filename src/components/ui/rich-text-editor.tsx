@@ -10,7 +10,7 @@ import {
   Heading2,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useCallback } from 'react';
+import { useCallback, useEffect } from 'react';
 
 interface RichTextEditorProps {
   value: string;
@@ -54,6 +54,13 @@ export function RichTextEditor({
     },
   });
 
+  // Keep the editor in sync when the value is replaced from outside (e.g. a product template)
+  useEffect(() => {
+    if (editor && value !== editor.getHTML()) {
+      editor.commands.setContent(value || '', false);
+    }
+  }, [editor, value]);
+
   if (!editor) {
     return null;
   }
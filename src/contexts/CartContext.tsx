@@ -1,10 +1,20 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
 import { toast } from 'sonner';
-import type { CartItem, CartState, Product } from '@/types';
+import type { AppliedCoupon, CartItem, CartItemChange, CartRecoveryContact, CartState, Product } from '@/types';
+import { findProductVariant, getVariantStock, getVariantPrice } from '@/lib/variantUtils';
+import { calculateCartStats, getCartItemUnitPrice } from '@/lib/cartUtils';
+import { calculateCouponDiscount, validateCoupon } from '@/lib/couponUtils';
+import { groupCartItemsBySeller, isUnavailableChange, mergeCartItemChanges, validateCartItems } from '@/lib/cartSyncUtils';
+import { discardAbandonedCart, saveAbandonedCart } from '@/lib/abandonedCartUtils';
+import { createEventId, trackMetaEvent, trackStorefrontEvent } from '@/lib/tracking';
 
 interface CartContextType {
-  cart: CartState;
-  addToCart: (product: Product, selectedColor?: string, selectedSize?: string) => void;
+  cart: CartState; // Cart of the active seller
+  setActiveSeller: (sellerId: string | null) => void;
+  cartChanges: CartItemChange[]; // Changes of the active cart waiting for acknowledgement
+  revalidateCart: () => Promise<CartItemChange[]>;
+  acknowledgeCartChanges: () => void;
+  addToCart: (product: Product, selectedColor?: string, selectedSize?: string, quantity?: number) => void;
   removeFromCart: (productId: string) => void;
   removeCartVariant: (variantId: string) => void;
   updateQuantity: (productId: string, quantity: number) => void;
@@ -17,140 +27,390 @@ interface CartContextType {
   updateItemNotes: (productId: string, notes: string) => void;
   updateVariantNotes: (variantId: string, notes: string) => void;
   updateVariantOptions: (variantId: string, color?: string, size?: string) => void;
+  setShippingFee: (fee: number) => void;
+  applyCoupon: (coupon: AppliedCoupon) => void;
+  removeCoupon: () => void;
+  setRecoveryContact: (contact: CartRecoveryContact | null) => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
-const STORAGE_KEY = 'vitrineturbo_cart';
+const STORAGE_KEY = 'vitrineturbo_carts';
 
+// Single cart shared by every storefront, stored by older versions
+const LEGACY_STORAGE_KEY = 'vitrineturbo_cart';
+
+const EMPTY_CART: CartState = {
+  items: [],
+  subtotal: 0,
+  discount: 0,
+  shippingFee: 0,
+  total: 0,
+  itemCount: 0,
+  coupon: null,
+};
+
+/**
+ * Shopping carts kept separately for each seller
+ * The storefront being visited selects the active cart with `setActiveSeller`
+ */
 export function CartProvider({ children }: { children: ReactNode }) {
-  const [cart, setCart] = useState<CartState>({
-    items: [],
-    total: 0,
-    itemCount: 0,
-  });
+  const [carts, setCarts] = useState<Record<string, CartState>>({});
+  const [activeSellerId, setActiveSeller] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<Record<string, CartItemChange[]>>({});
+  const revalidatedSellers = useRef(new Set<string>());
+
+  const cart = (activeSellerId && carts[activeSellerId]) || EMPTY_CART;
+
+  // Changes of items the shopper removed in the meantime don't need acknowledgement
+  const cartChanges = useMemo(
+    () => ((activeSellerId && pendingChanges[activeSellerId]) || [])
+      .filter(change => cart.items.some(item => item.variantId === change.variantId)),
+    [activeSellerId, pendingChanges, cart.items]
+  );
+
+  // Apply an update to the cart of the active seller
+  const setCart = useCallback((update: CartState | ((prev: CartState) => CartState)) => {
+    if (!activeSellerId) {
+      console.warn('Cart update ignored: no storefront is active');
+      return;
+    }
+
+    setCarts(prev => {
+      const current = prev[activeSellerId] || EMPTY_CART;
+      const next = typeof update === 'function' ? update(current) : update;
+      return next === current ? prev : { ...prev, [activeSellerId]: next };
+    });
+  }, [activeSellerId]);
+
+  /**
+   * Refresh the items of a seller with the current catalog and flag what changed
+   * Unavailable items stay in the cart until the shopper acknowledges the changes
+   */
+  const checkCart = useCallback(async (sellerId: string, items: CartItem[]): Promise<CartItemChange[]> => {
+    const isInItems = (change: CartItemChange) => items.some(item => item.variantId === change.variantId);
 
-  // Load cart from localStorage on mount
+    try {
+      const { items: validatedItems, changes } = await validateCartItems(sellerId, items);
+      const validatedByVariantId = new Map(validatedItems.map(item => [item.variantId, item]));
+
+      setCarts(prev => {
+        const current = prev[sellerId];
+        if (!current) return prev;
+
+        const updatedItems = current.items.map(item => validatedByVariantId.get(item.variantId) || item);
+        return { ...prev, [sellerId]: { ...current, items: updatedItems } };
+      });
+
+      const pending = mergeCartItemChanges(pendingChanges[sellerId] || [], changes);
+      setPendingChanges(prev => ({ ...prev, [sellerId]: pending }));
+
+      return pending.filter(isInItems);
+    } catch (error) {
+      console.error('Error revalidating cart:', error);
+      return (pendingChanges[sellerId] || []).filter(isInItems);
+    }
+  }, [pendingChanges]);
+
+  // Load carts from localStorage on mount
   useEffect(() => {
     try {
-      const savedCart = localStorage.getItem(STORAGE_KEY);
-      if (savedCart) {
-        const parsedCart = JSON.parse(savedCart);
-        setCart(parsedCart);
+      const savedCarts = localStorage.getItem(STORAGE_KEY);
+      if (savedCarts) {
+        setCarts(JSON.parse(savedCarts));
       }
     } catch (error) {
       console.error('Error loading cart from localStorage:', error);
       localStorage.removeItem(STORAGE_KEY);
     }
+
+    migrateLegacyCart().finally(() => setLoaded(true));
   }, []);
 
-  // Save cart to localStorage whenever it changes
+  // Save carts to localStorage whenever they change
   useEffect(() => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(cart));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(carts));
     } catch (error) {
       console.error('Error saving cart to localStorage:', error);
     }
-  }, [cart]);
+  }, [carts]);
 
-  // Calculate totals whenever items change
+  // Check prices and availability the first time a stored cart is reopened
   useEffect(() => {
-    const itemCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
-    const total = cart.items.reduce((sum, item) => {
-      const price = item.discounted_price || item.price;
-      return sum + (price * item.quantity);
-    }, 0);
+    if (!loaded || !activeSellerId || revalidatedSellers.current.has(activeSellerId)) return;
+
+    revalidatedSellers.current.add(activeSellerId);
+    if (cart.items.length > 0) {
+      checkCart(activeSellerId, cart.items).then(changes => {
+        if (changes.length > 0) {
+          toast.warning('Alguns itens do seu carrinho mudaram. Abra o carrinho para revisar.');
+        }
+      });
+    }
+  }, [loaded, activeSellerId, cart.items, checkCart]);
+
+  // Forget the changes of items removed from the cart
+  useEffect(() => {
+    if (!activeSellerId) return;
+
+    const pending = pendingChanges[activeSellerId] || [];
+    if (pending.length !== cartChanges.length) {
+      setPendingChanges(prev => ({ ...prev, [activeSellerId]: cartChanges }));
+    }
+  }, [activeSellerId, pendingChanges, cartChanges]);
+
+  // Keep the server copy of the cart in sync while the shopper agrees to be contacted
+  useEffect(() => {
+    if (!activeSellerId || !cart.recoveryContact) return;
+
+    const sellerId = activeSellerId;
+    const contact = cart.recoveryContact;
+    const timeout = setTimeout(() => {
+      const sync = cart.items.length > 0
+        ? saveAbandonedCart(sellerId, contact, cart.items, cart.total)
+        : discardAbandonedCart(sellerId);
+
+      sync.catch(error => console.error('Error saving abandoned cart:', error));
+    }, 1500);
+
+    return () => clearTimeout(timeout);
+  }, [activeSellerId, cart.items, cart.total, cart.recoveryContact]);
+
+  // Calculate totals whenever items, the coupon or the shipping fee change
+  useEffect(() => {
+    const { itemCount, subtotal, discount, shippingFee, total } = calculateCartStats(
+      cart.items,
+      cart.shippingFee,
+      calculateCouponDiscount(cart.items, cart.coupon)
+    );
 
     // Only update if values actually changed to prevent infinite loops
-    if (cart.total !== total || cart.itemCount !== itemCount) {
+    if (
+      cart.total !== total ||
+      cart.subtotal !== subtotal ||
+      cart.discount !== discount ||
+      cart.shippingFee !== shippingFee ||
+      cart.itemCount !== itemCount
+    ) {
       setCart(prev => ({
         ...prev,
+        subtotal,
+        discount,
+        shippingFee,
         total,
         itemCount,
       }));
     }
-  }, [cart.items]);
+  }, [cart, setCart]);
+
+  /**
+   * Split the single cart of older versions into the carts of each seller
+   * The legacy cart is kept for a later attempt when the sellers can't be loaded
+   */
+  const migrateLegacyCart = async () => {
+    try {
+      const savedCart = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!savedCart) return;
+
+      const legacyItems: CartItem[] = JSON.parse(savedCart).items || [];
+      const itemsBySeller = await groupCartItemsBySeller(legacyItems);
+
+      setCarts(prev => {
+        const next = { ...prev };
+
+        Object.entries(itemsBySeller).forEach(([sellerId, items]) => {
+          const current = next[sellerId] || EMPTY_CART;
+          const newItems = items.filter(item => !current.items.some(existing => existing.variantId === item.variantId));
+          next[sellerId] = { ...current, items: [...current.items, ...newItems] };
+        });
+
+        return next;
+      });
+
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error migrating legacy cart:', error);
+    }
+  };
+
+  /**
+   * Refresh the applied coupon, removing it when it can no longer be used
+   * (expired, exhausted or deactivated since it was applied)
+   */
+  const checkCoupon = async (sellerId: string, coupon: AppliedCoupon) => {
+    try {
+      const current = await validateCoupon(sellerId, coupon.code);
+
+      setCarts(prev => {
+        const sellerCart = prev[sellerId];
+        if (!sellerCart?.coupon) return prev;
+        return { ...prev, [sellerId]: { ...sellerCart, coupon: current } };
+      });
+    } catch (error) {
+      console.error('Error revalidating coupon:', error);
+
+      setCarts(prev => {
+        const sellerCart = prev[sellerId];
+        if (!sellerCart?.coupon) return prev;
+        return { ...prev, [sellerId]: { ...sellerCart, coupon: null } };
+      });
+      toast.warning(`O cupom ${coupon.code} não é mais válido e foi removido do carrinho.`);
+    }
+  };
+
+  const revalidateCart = async (): Promise<CartItemChange[]> => {
+    if (!activeSellerId || cart.items.length === 0) return [];
+
+    if (cart.coupon) {
+      await checkCoupon(activeSellerId, cart.coupon);
+    }
+
+    return checkCart(activeSellerId, cart.items);
+  };
+
+  const acknowledgeCartChanges = () => {
+    if (!activeSellerId) return;
+
+    const unavailableVariantIds = new Set(
+      cartChanges.filter(isUnavailableChange).map(change => change.variantId)
+    );
+
+    setCart(prev => ({
+      ...prev,
+      items: prev.items.filter(item => !unavailableVariantIds.has(item.variantId!)),
+    }));
+    setPendingChanges(prev => ({ ...prev, [activeSellerId]: [] }));
+  };
 
   const generateVariantId = (productId: string, color?: string, size?: string) => {
     return `${productId}-${color || 'no-color'}-${size || 'no-size'}`;
   };
 
-  const addToCart = (product: Product, selectedColor?: string, selectedSize?: string) => {
+  // Cart changes are recorded on the active seller's storefront; additions also go to
+  // the Meta pixel with the event id of the server-side event, so Meta counts them once
+  const trackCartEvent = (eventType: 'add_to_cart' | 'remove_from_cart', item: CartItem, quantity: number) => {
+    if (!activeSellerId) return;
+
+    const eventId = createEventId();
+
+    if (eventType === 'add_to_cart') {
+      // The value is sent from the server, which knows the seller currency
+      trackMetaEvent('AddToCart', {
+        content_ids: [item.id],
+        content_type: 'product',
+        content_name: item.title,
+        contents: [{ id: item.id, quantity }],
+      }, eventId);
+    }
+
+    trackStorefrontEvent(activeSellerId, eventType, {
+      eventId,
+      productId: item.id,
+      metadata: {
+        variant_id: item.productVariantId,
+        quantity,
+        price: getCartItemUnitPrice(item),
+      },
+    });
+  };
+
+  const addToCart = (product: Product, selectedColor?: string, selectedSize?: string, quantity: number = 1) => {
+    const variantPrice = getVariantPrice(product, selectedColor, selectedSize);
+
     // Check if product has a price
-    if (!product.price || product.price <= 0) {
+    if (!variantPrice && (!product.price || product.price <= 0)) {
       toast.error('Este produto não pode ser adicionado ao carrinho pois não possui preço definido.');
       return;
     }
 
+    // Check stock when the product tracks inventory
+    const stock = getVariantStock(product, selectedColor, selectedSize);
+    if (stock !== null && stock <= 0) {
+      toast.error('Esta variação está esgotada.');
+      return;
+    }
+
     const variantId = generateVariantId(product.id, selectedColor, selectedSize);
+    const existingItem = cart.items.find(item => item.variantId === variantId);
+
+    if (stock !== null && (existingItem?.quantity || 0) + quantity > stock) {
+      toast.error(`Estoque insuficiente: restam apenas ${stock} unidade(s) de ${product.title}.`);
+      return;
+    }
+
+    const newItem: CartItem = {
+      id: product.id,
+      variantId,
+      title: product.title,
+      price: product.price,
+      discounted_price: product.discounted_price,
+      quantity,
+      featured_image_url: product.featured_image_url,
+      short_description: product.short_description,
+      is_starting_price: product.is_starting_price,
+      notes: '',
+      selectedColor,
+      selectedSize,
+      availableColors: product.colors,
+      availableSizes: product.sizes,
+      productVariantId: findProductVariant(product.product_variants, selectedColor, selectedSize)?.id,
+      maxQuantity: stock ?? undefined,
+      variantPrice,
+      availableVariants: product.product_variants,
+      category: product.category,
+    };
 
     setCart(prev => {
-      const existingItem = prev.items.find(item => item.variantId === variantId);
-      
-      if (existingItem) {
+      if (prev.items.some(item => item.variantId === variantId)) {
         // Update quantity if item already exists
-        const updatedItems = prev.items.map(item =>
-          item.variantId === variantId
-            ? { ...item, quantity: item.quantity + 1 }
-            : item
-        );
-        
-        const variantText = [selectedColor, selectedSize].filter(Boolean).join(', ');
-        toast.success(`Quantidade atualizada: ${product.title}${variantText ? ` (${variantText})` : ''}`);
-        return { ...prev, items: updatedItems };
-      } else {
-        // Add new item to cart
-        const newItem: CartItem = {
-          id: product.id,
-          variantId,
-          title: product.title,
-          price: product.price,
-          discounted_price: product.discounted_price,
-          quantity: 1,
-          featured_image_url: product.featured_image_url,
-          short_description: product.short_description,
-          is_starting_price: product.is_starting_price,
-          notes: '',
-          selectedColor,
-          selectedSize,
-          availableColors: product.colors,
-          availableSizes: product.sizes,
+        return {
+          ...prev,
+          items: prev.items.map(item =>
+            item.variantId === variantId
+              ? { ...item, quantity: item.quantity + quantity, maxQuantity: stock ?? undefined }
+              : item
+          ),
         };
-        
-        const variantText = [selectedColor, selectedSize].filter(Boolean).join(', ');
-        toast.success(`Adicionado ao carrinho: ${product.title}${variantText ? ` (${variantText})` : ''}`);
-        return { ...prev, items: [...prev.items, newItem] };
       }
+
+      // Add new item to cart
+      return { ...prev, items: [...prev.items, newItem] };
     });
+
+    const variantText = [selectedColor, selectedSize].filter(Boolean).join(', ');
+    toast.success(`${existingItem ? 'Quantidade atualizada' : 'Adicionado ao carrinho'}: ${product.title}${variantText ? ` (${variantText})` : ''}`);
+    trackCartEvent('add_to_cart', existingItem || newItem, quantity);
   };
 
   const removeFromCart = (productId: string) => {
-    setCart(prev => {
-      const item = prev.items.find(item => item.id === productId);
-      if (item) {
-        toast.success(`Removido do carrinho: ${item.title}`);
-      }
-      
-      return {
-        ...prev,
-        items: prev.items.filter(item => item.id !== productId)
-      };
-    });
+    const item = cart.items.find(item => item.id === productId);
+
+    setCart(prev => ({
+      ...prev,
+      items: prev.items.filter(item => item.id !== productId)
+    }));
+
+    if (item) {
+      toast.success(`Removido do carrinho: ${item.title}`);
+      trackCartEvent('remove_from_cart', item, item.quantity);
+    }
   };
 
   const removeCartVariant = (variantId: string) => {
-    setCart(prev => {
-      const item = prev.items.find(item => item.variantId === variantId);
-      if (item) {
-        const variantText = [item.selectedColor, item.selectedSize].filter(Boolean).join(', ');
-        toast.success(`Removido do carrinho: ${item.title}${variantText ? ` (${variantText})` : ''}`);
-      }
-      
-      return {
-        ...prev,
-        items: prev.items.filter(item => item.variantId !== variantId)
-      };
-    });
+    const item = cart.items.find(item => item.variantId === variantId);
+
+    setCart(prev => ({
+      ...prev,
+      items: prev.items.filter(item => item.variantId !== variantId)
+    }));
+
+    if (item) {
+      const variantText = [item.selectedColor, item.selectedSize].filter(Boolean).join(', ');
+      toast.success(`Removido do carrinho: ${item.title}${variantText ? ` (${variantText})` : ''}`);
+      trackCartEvent('remove_from_cart', item, item.quantity);
+    }
   };
   const updateQuantity = (productId: string, quantity: number) => {
     if (quantity <= 0) {
@@ -158,6 +418,15 @@ export function CartProvider({ children }: { children: ReactNode }) {
       return;
     }
 
+    const limitedItem = cart.items.find(item =>
+      item.id === productId && item.maxQuantity !== undefined && quantity > item.maxQuantity
+    );
+
+    if (limitedItem) {
+      toast.error(`Estoque insuficiente: restam apenas ${limitedItem.maxQuantity} unidade(s) de ${limitedItem.title}.`);
+      return;
+    }
+
     setCart(prev => ({
       ...prev,
       items: prev.items.map(item =>
@@ -174,6 +443,13 @@ export function CartProvider({ children }: { children: ReactNode }) {
       return;
     }
 
+    const item = cart.items.find(item => item.variantId === variantId);
+
+    if (item?.maxQuantity !== undefined && quantity > item.maxQuantity) {
+      toast.error(`Estoque insuficiente: restam apenas ${item.maxQuantity} unidade(s) de ${item.title}.`);
+      return;
+    }
+
     setCart(prev => ({
       ...prev,
       items: prev.items.map(item =>
@@ -184,14 +460,39 @@ export function CartProvider({ children }: { children: ReactNode }) {
     }));
   };
   const clearCart = () => {
-    setCart({
-      items: [],
-      total: 0,
-      itemCount: 0,
-    });
+    if (activeSellerId && cart.recoveryContact) {
+      discardAbandonedCart(activeSellerId)
+        .catch(error => console.error('Error discarding abandoned cart:', error));
+    }
+
+    setCart(EMPTY_CART);
     toast.success('Carrinho limpo');
   };
 
+  const setShippingFee = useCallback((fee: number) => {
+    setCart(prev => (prev.shippingFee === fee ? prev : { ...prev, shippingFee: fee }));
+  }, [setCart]);
+
+  const applyCoupon = (coupon: AppliedCoupon) => {
+    setCart(prev => ({ ...prev, coupon }));
+  };
+
+  const removeCoupon = () => {
+    setCart(prev => ({ ...prev, coupon: null }));
+  };
+
+  /**
+   * Agree to be contacted about the cart, or withdraw it with `null`
+   */
+  const setRecoveryContact = (contact: CartRecoveryContact | null) => {
+    if (!contact && activeSellerId && cart.recoveryContact) {
+      discardAbandonedCart(activeSellerId)
+        .catch(error => console.error('Error discarding abandoned cart:', error));
+    }
+
+    setCart(prev => ({ ...prev, recoveryContact: contact }));
+  };
+
   const isInCart = (productId: string): boolean => {
     return cart.items.some(item => item.id === productId);
   };
@@ -236,46 +537,68 @@ export function CartProvider({ children }: { children: ReactNode }) {
   };
 
   const updateVariantOptions = (variantId: string, color?: string, size?: string) => {
-    setCart(prev => {
-      const item = prev.items.find(item => item.variantId === variantId);
-      if (!item) return prev;
-
-      const newVariantId = generateVariantId(item.id, color, size);
-      
-      // Check if this new variant already exists
-      const existingVariant = prev.items.find(item => item.variantId === newVariantId);
-      
-      if (existingVariant && newVariantId !== variantId) {
-        // Merge quantities if variant already exists
-        const updatedItems = prev.items
-          .filter(item => item.variantId !== variantId) // Remove old variant
-          .map(item => 
-            item.variantId === newVariantId
-              ? { ...item, quantity: item.quantity + item.quantity }
-              : item
-          );
-        
-        toast.success('Variações combinadas no carrinho');
-        return { ...prev, items: updatedItems };
-      } else {
-        // Update the variant options
-        const updatedItems = prev.items.map(item =>
-          item.variantId === variantId
-            ? { 
-                ...item, 
-                variantId: newVariantId,
-                selectedColor: color,
-                selectedSize: size
-              }
-            : item
-        );
-        
-        return { ...prev, items: updatedItems };
-      }
-    });
+    const item = cart.items.find(item => item.variantId === variantId);
+    if (!item) return;
+
+    const newVariantId = generateVariantId(item.id, color, size);
+
+    // Check if this new variant already exists
+    const existingVariant = cart.items.find(item => item.variantId === newVariantId);
+    const mergesVariants = !!existingVariant && newVariantId !== variantId;
+
+    // Stock and price of the new combination, when the product tracks inventory
+    const productVariant = findProductVariant(item.availableVariants, color, size);
+    const stock = item.availableVariants?.length ? productVariant?.stock_quantity ?? 0 : undefined;
+    const requestedQuantity = item.quantity + (mergesVariants ? existingVariant?.quantity || 0 : 0);
+
+    if (stock !== undefined && requestedQuantity > stock) {
+      toast.error(stock > 0
+        ? `Estoque insuficiente: restam apenas ${stock} unidade(s) desta variação.`
+        : 'Esta variação está esgotada.');
+      return;
+    }
+
+    if (mergesVariants) {
+      // Merge quantities if variant already exists
+      setCart(prev => ({
+        ...prev,
+        items: prev.items
+          .filter(cartItem => cartItem.variantId !== variantId) // Remove old variant
+          .map(cartItem =>
+            cartItem.variantId === newVariantId
+              ? { ...cartItem, quantity: cartItem.quantity + item.quantity }
+              : cartItem
+          ),
+      }));
+
+      toast.success('Variações combinadas no carrinho');
+      return;
+    }
+
+    // Update the variant options
+    setCart(prev => ({
+      ...prev,
+      items: prev.items.map(item =>
+        item.variantId === variantId
+          ? {
+              ...item,
+              variantId: newVariantId,
+              selectedColor: color,
+              selectedSize: size,
+              productVariantId: productVariant?.id,
+              maxQuantity: stock,
+              variantPrice: productVariant?.price ? Number(productVariant.price) : undefined
+            }
+          : item
+      ),
+    }));
   };
-  const value = {
+  const value: CartContextType = {
     cart,
+    setActiveSeller,
+    cartChanges,
+    revalidateCart,
+    acknowledgeCartChanges,
     addToCart,
     removeFromCart,
     removeCartVariant,
@@ -289,6 +612,10 @@ export function CartProvider({ children }: { children: ReactNode }) {
     updateItemNotes,
     updateVariantNotes,
     updateVariantOptions,
+    setShippingFee,
+    applyCoupon,
+    removeCoupon,
+    setRecoveryContact,
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
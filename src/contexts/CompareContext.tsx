@@ -0,0 +1,82 @@
+import { useEffect, useState, ReactNode } from 'react';
+import { COMPARE_LIMIT, CompareContext, type CompareContextType } from '@/hooks/useCompare';
+
+const STORAGE_KEY = 'vitrineturbo_compare';
+
+/**
+ * Products selected for comparison, kept separately for each storefront
+ */
+export function CompareProvider({ children }: { children: ReactNode }) {
+  const [selections, setSelections] = useState<Record<string, string[]>>({});
+
+  // Load selections from localStorage on mount
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        setSelections(JSON.parse(saved));
+      }
+    } catch (error) {
+      console.error('Error loading comparison from localStorage:', error);
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  // Save selections to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(selections));
+    } catch (error) {
+      console.error('Error saving comparison to localStorage:', error);
+    }
+  }, [selections]);
+
+  const getCompareIds = (corretorSlug: string) => selections[corretorSlug] || [];
+
+  const isComparing = (corretorSlug: string, productId: string) =>
+    getCompareIds(corretorSlug).includes(productId);
+
+  const setCompareIds = (corretorSlug: string, productIds: string[]) => {
+    setSelections(prev => ({
+      ...prev,
+      [corretorSlug]: Array.from(new Set(productIds)).slice(0, COMPARE_LIMIT),
+    }));
+  };
+
+  /**
+   * Adds or removes a product; returns false when the limit is already reached
+   */
+  const toggleCompare = (corretorSlug: string, productId: string) => {
+    const current = getCompareIds(corretorSlug);
+
+    if (current.includes(productId)) {
+      setCompareIds(corretorSlug, current.filter(id => id !== productId));
+      return true;
+    }
+
+    if (current.length >= COMPARE_LIMIT) {
+      return false;
+    }
+
+    setCompareIds(corretorSlug, [...current, productId]);
+    return true;
+  };
+
+  const clearCompare = (corretorSlug: string) => {
+    setSelections(prev => {
+      const rest = { ...prev };
+      delete rest[corretorSlug];
+      return rest;
+    });
+  };
+
+  const value: CompareContextType = {
+    getCompareIds,
+    isComparing,
+    toggleCompare,
+    setCompareIds,
+    clearCompare,
+  };
+
+  return <CompareContext.Provider value={value}>{children}</CompareContext.Provider>;
+}
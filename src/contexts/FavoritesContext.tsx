@@ -0,0 +1,77 @@
+import { useEffect, useState, ReactNode } from 'react';
+import { setProductFavorite, toFavoriteItem } from '@/lib/favoriteUtils';
+import { FavoritesContext, type FavoritesContextType } from '@/hooks/useFavorites';
+import type { FavoriteItem, Product } from '@/types';
+
+const STORAGE_KEY = 'vitrineturbo_favorites';
+
+/**
+ * Favorites of the shopper, kept separately for each storefront
+ */
+export function FavoritesProvider({ children }: { children: ReactNode }) {
+  const [favorites, setFavorites] = useState<Record<string, FavoriteItem[]>>({});
+
+  // Load favorites from localStorage on mount
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        setFavorites(JSON.parse(saved));
+      }
+    } catch (error) {
+      console.error('Error loading favorites from localStorage:', error);
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  // Save favorites to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites));
+    } catch (error) {
+      console.error('Error saving favorites to localStorage:', error);
+    }
+  }, [favorites]);
+
+  // The aggregate counts are best effort; the list itself lives in the browser
+  const syncFavorite = (productId: string, favorited: boolean) => {
+    setProductFavorite(productId, favorited).catch(error => {
+      console.error('Error syncing favorite:', error);
+    });
+  };
+
+  const getFavorites = (corretorSlug: string) => favorites[corretorSlug] || [];
+
+  const isFavorite = (corretorSlug: string, productId: string) =>
+    getFavorites(corretorSlug).some(item => item.id === productId);
+
+  const removeFavorite = (corretorSlug: string, productId: string) => {
+    setFavorites(prev => ({
+      ...prev,
+      [corretorSlug]: (prev[corretorSlug] || []).filter(item => item.id !== productId),
+    }));
+    syncFavorite(productId, false);
+  };
+
+  const toggleFavorite = (corretorSlug: string, product: Product) => {
+    if (isFavorite(corretorSlug, product.id)) {
+      removeFavorite(corretorSlug, product.id);
+      return;
+    }
+
+    setFavorites(prev => ({
+      ...prev,
+      [corretorSlug]: [toFavoriteItem(product), ...(prev[corretorSlug] || [])],
+    }));
+    syncFavorite(product.id, true);
+  };
+
+  const value: FavoritesContextType = {
+    getFavorites,
+    isFavorite,
+    toggleFavorite,
+    removeFavorite,
+  };
+
+  return <FavoritesContext.Provider value={value}>{children}</FavoritesContext.Provider>;
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { applyPromotions } from '@/lib/promotionUtils';
+import { loadStorefrontProductsPage, type ProductPageCursor } from '@/lib/storefrontCatalogUtils';
+import type { Product, Promotion } from '@/types';
+
+interface UseCategoryProductsProps {
+  userId: string;
+  category: string | null; // null loads the products without category
+  total: number;
+  pageSize: number;
+  enabled: boolean; // The first page is only loaded once the section is about to be shown
+  promotions: Promotion[];
+  now: Date;
+}
+
+interface UseCategoryProductsReturn {
+  products: Product[];
+  loading: boolean;
+  error: boolean;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * Custom hook for loading the products of a storefront category page by page
+ */
+export function useCategoryProducts({
+  userId,
+  category,
+  total,
+  pageSize,
+  enabled,
+  promotions,
+  now
+}: UseCategoryProductsProps): UseCategoryProductsReturn {
+  const [baseProducts, setBaseProducts] = useState<Product[]>([]);
+  const [cursor, setCursor] = useState<ProductPageCursor | null>(null);
+  const [hasMore, setHasMore] = useState(total > 0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+  const loadingRef = useRef(false);
+
+  // Prices are recalculated whenever a promotion starts or ends
+  const products = useMemo(
+    () => applyPromotions(baseProducts, promotions, now),
+    [baseProducts, promotions, now]
+  );
+
+  const loadMore = useCallback(async () => {
+    if (!userId || loadingRef.current || !hasMore) return;
+
+    try {
+      loadingRef.current = true;
+      setLoading(true);
+      setError(false);
+
+      const page = await loadStorefrontProductsPage(userId, category, cursor, pageSize);
+
+      setBaseProducts(prev => {
+        const loadedIds = new Set(prev.map(product => product.id));
+        return [...prev, ...page.products.filter(product => !loadedIds.has(product.id))];
+      });
+      setCursor(page.nextCursor);
+      setHasMore(!!page.nextCursor);
+    } catch (err) {
+      console.error('Error loading category products:', err);
+      setError(true);
+    } finally {
+      loadingRef.current = false;
+      setLoading(false);
+    }
+  }, [userId, category, cursor, pageSize, hasMore]);
+
+  useEffect(() => {
+    if (enabled && baseProducts.length === 0 && !error) {
+      loadMore();
+    }
+  }, [enabled, baseProducts.length, error, loadMore]);
+
+  return {
+    products,
+    loading,
+    error,
+    hasMore,
+    loadMore
+  };
+}
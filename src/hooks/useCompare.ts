@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+
+// Maximum number of products compared side by side
+export const COMPARE_LIMIT = 4;
+
+export interface CompareContextType {
+  getCompareIds: (corretorSlug: string) => string[];
+  isComparing: (corretorSlug: string, productId: string) => boolean;
+  toggleCompare: (corretorSlug: string, productId: string) => boolean;
+  setCompareIds: (corretorSlug: string, productIds: string[]) => void;
+  clearCompare: (corretorSlug: string) => void;
+}
+
+// Provided by CompareProvider in src/contexts/CompareContext.tsx
+export const CompareContext = createContext<CompareContextType | undefined>(undefined);
+
+export const useCompare = () => {
+  const context = useContext(CompareContext);
+  if (context === undefined) {
+    throw new Error('useCompare deve ser usado dentro de um CompareProvider');
+  }
+  return context;
+};
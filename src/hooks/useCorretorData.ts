@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
-import { loadTrackingSettings, injectMetaPixel, injectGoogleAnalytics } from '@/lib/tracking';
+import { loadTrackingSettings, injectMetaPixel, injectGoogleAnalytics, createEventId, trackStorefrontEvent } from '@/lib/tracking';
 import { logCategoryOperation, sanitizeCategoryName } from '@/lib/categoryUtils';
 import { updateMetaTags, updateFavicon, getCorretorMetaTags, resetMetaTags } from '@/utils/metaTags';
 import { validateSession } from '@/lib/auth/simpleAuth';
@@ -146,12 +146,15 @@ export function useCorretorData({ slug }: UseCorretorDataProps): UseCorretorData
         // Don't fail the page load for global pixel errors
       }
 
+      // The pixel PageView and the server-side page_view share the same event id
+      const pageViewEventId = createEventId();
+
       // Handle tracking settings result (non-blocking)
       if (trackingResult.status === 'fulfilled') {
         const trackingSettings = trackingResult.value;
         
         if (trackingSettings?.meta_pixel_id) {
-          injectMetaPixel(trackingSettings.meta_pixel_id);
+          injectMetaPixel(trackingSettings.meta_pixel_id, pageViewEventId);
         }
         
         if (trackingSettings?.ga_measurement_id) {
@@ -162,6 +165,12 @@ export function useCorretorData({ slug }: UseCorretorDataProps): UseCorretorData
         // Don't fail the entire page load for tracking errors
       }
 
+      // Record the storefront visit (non-blocking)
+      trackStorefrontEvent(corretorData.id, 'page_view', {
+        eventId: pageViewEventId,
+        metadata: { path: window.location.pathname },
+      });
+
     } catch (err: any) {
       logCategoryOperation('FETCH_CORRETOR_ERROR', err);
       console.error('Error fetching corretor data:', err);
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import type { FavoriteItem, Product } from '@/types';
+
+export interface FavoritesContextType {
+  getFavorites: (corretorSlug: string) => FavoriteItem[];
+  isFavorite: (corretorSlug: string, productId: string) => boolean;
+  toggleFavorite: (corretorSlug: string, product: Product) => void;
+  removeFavorite: (corretorSlug: string, productId: string) => void;
+}
+
+// Provided by FavoritesProvider in src/contexts/FavoritesContext.tsx
+export const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export const useFavorites = () => {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites deve ser usado dentro de um FavoritesProvider');
+  }
+  return context;
+};
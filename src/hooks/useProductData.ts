@@ -1,8 +1,16 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
 import { db } from '@/lib/db';
-import type { Product, CategoryDisplaySetting } from '@/types';
+import type { Product, CategoryDisplaySetting, Promotion, StorefrontDisplaySettings } from '@/types';
 import { logCategoryOperation, sanitizeCategoryName } from '@/lib/categoryUtils';
+import { applyPromotions } from '@/lib/promotionUtils';
+import {
+  loadAllStorefrontProducts,
+  loadStorefrontCategoryCounts,
+  type StorefrontCategoryCount,
+} from '@/lib/storefrontCatalogUtils';
+import { getCategorySections, type CategorySection } from '@/utils/productDisplayUtils';
+import { usePromotions } from './usePromotions';
 import { type SupportedLanguage } from '@/lib/i18n';
 
 interface UseProductDataProps {
@@ -11,26 +19,93 @@ interface UseProductDataProps {
 }
 
 interface UseProductDataReturn {
-  allProducts: Product[];
+  allProducts: Product[]; // Empty until `loadAllProducts` is called
+  allProductsLoaded: boolean;
+  loadAllProducts: () => Promise<void>;
+  categorySections: CategorySection[];
+  promotions: Promotion[];
+  now: Date;
   categorySettings: CategoryDisplaySetting[];
-  settings: any;
+  settings: StorefrontDisplaySettings | null;
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
 }
 
+/**
+ * Load the whole visible catalog of a storefront, logging how it splits by status and category
+ */
+async function fetchAllProducts(userId: string): Promise<Product[]> {
+  try {
+    logCategoryOperation('LOADING_ALL_PRODUCTS', { userId });
+
+    const products = await loadAllStorefrontProducts(userId);
+    
+    // Detailed analysis of loaded products
+    const productAnalysis = {
+      totalLoaded: products.length,
+      withCategories: products.filter(p => p.category && Array.isArray(p.category) && p.category.length > 0).length,
+      withoutCategories: products.filter(p => !p.category || !Array.isArray(p.category) || p.category.length === 0).length,
+      byStatus: {
+        disponivel: products.filter(p => p.status === 'disponivel').length,
+        vendido: products.filter(p => p.status === 'vendido').length,
+        reservado: products.filter(p => p.status === 'reservado').length
+      },
+      categoryBreakdown: {} as Record<string, number>
+    };
+
+    // Analysis by category
+    products.forEach(product => {
+      if (product.category && Array.isArray(product.category)) {
+        product.category.forEach(cat => {
+          const sanitized = sanitizeCategoryName(cat);
+          if (sanitized) {
+            productAnalysis.categoryBreakdown[sanitized] = 
+              (productAnalysis.categoryBreakdown[sanitized] || 0) + 1;
+          }
+        });
+      }
+    });
+
+    logCategoryOperation('ALL_PRODUCTS_LOADED', productAnalysis);
+
+    return products;
+
+  } catch (error) {
+    logCategoryOperation('LOAD_ALL_PRODUCTS_ERROR', error);
+    throw error;
+  }
+}
+
 /**
  * Custom hook for managing product data and storefront settings
+ * The first paint only needs the settings and the category counts; each category loads its
+ * own pages, and the whole catalog is loaded on demand for search, filters and sorting
  */
 export function useProductData({ 
   userId, 
   language = 'pt-BR'
 }: UseProductDataProps): UseProductDataReturn {
-  const [allProducts, setAllProducts] = useState<Product[]>([]);
+  const [baseProducts, setBaseProducts] = useState<Product[]>([]);
+  const [allProductsLoaded, setAllProductsLoaded] = useState(false);
+  const allProductsRequest = useRef<Promise<void> | null>(null);
+  const [categoryCounts, setCategoryCounts] = useState<StorefrontCategoryCount[]>([]);
   const [categorySettings, setCategorySettings] = useState<CategoryDisplaySetting[]>([]);
-  const [settings, setSettings] = useState<any>(null);
+  const [settings, setSettings] = useState<StorefrontDisplaySettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { promotions, now } = usePromotions(userId);
+
+  // Prices are recalculated whenever a promotion starts or ends
+  const allProducts = useMemo(
+    () => applyPromotions(baseProducts, promotions, now),
+    [baseProducts, promotions, now]
+  );
+
+  const categorySections = useMemo(
+    () => getCategorySections(categoryCounts, categorySettings, language),
+    [categoryCounts, categorySettings, language]
+  );
 
   const loadStorefrontSettings = async (userId: string) => {
     try {
@@ -48,7 +123,7 @@ export function useProductData({
       }
 
       // Default settings
-      const effectiveSettings = {
+      const effectiveSettings: StorefrontDisplaySettings = {
         showFilters: true,
         showSearch: true,
         showPriceRange: true,
@@ -73,7 +148,9 @@ export function useProductData({
             ...effectiveSettings,
             ...storefrontSettings.settings.filters,
             itemsPerPage: storefrontSettings.settings.itemsPerPage || 24,
-            priceRange: storefrontSettings.settings.priceRange || effectiveSettings.priceRange
+            priceRange: storefrontSettings.settings.priceRange || effectiveSettings.priceRange,
+            sorting: storefrontSettings.settings.sorting,
+            paymentConditions: storefrontSettings.settings.paymentConditions
           });
         } else {
           Object.assign(effectiveSettings, {
@@ -105,90 +182,19 @@ export function useProductData({
     }
   };
 
-  const loadAllProducts = async (userId: string) => {
-    try {
-      logCategoryOperation('LOADING_ALL_PRODUCTS', { userId });
-
-      // Load all products at once
-      const { data: productsData, error: productsError } = await supabase
-        .from('products')
-        .select(`
-          id,
-          title,
-          price,
-          discounted_price,
-          is_starting_price,
-          short_description,
-          status,
-          category,
-          brand,
-          gender,
-          condition,
-          featured_image_url,
-          colors,
-          sizes,
-          display_order,
-          external_checkout_url
-        `)
-        .eq('user_id', userId)
-        .eq('is_visible_on_storefront', true)
-        .order('display_order', { ascending: true, nullsLast: true })
-        .order('id', { ascending: false });
-        
-      if (productsError) {
-        throw productsError;
-      }
-
-      const products = productsData || [];
-      
-      // Detailed analysis of loaded products
-      const productAnalysis = {
-        totalLoaded: products.length,
-        withCategories: products.filter(p => p.category && Array.isArray(p.category) && p.category.length > 0).length,
-        withoutCategories: products.filter(p => !p.category || !Array.isArray(p.category) || p.category.length === 0).length,
-        byStatus: {
-          disponivel: products.filter(p => p.status === 'disponivel').length,
-          vendido: products.filter(p => p.status === 'vendido').length,
-          reservado: products.filter(p => p.status === 'reservado').length
-        },
-        categoryBreakdown: {} as Record<string, number>
-      };
-
-      // Analysis by category
-      products.forEach(product => {
-        if (product.category && Array.isArray(product.category)) {
-          product.category.forEach(cat => {
-            const sanitized = sanitizeCategoryName(cat);
-            if (sanitized) {
-              productAnalysis.categoryBreakdown[sanitized] = 
-                (productAnalysis.categoryBreakdown[sanitized] || 0) + 1;
-            }
-          });
-        }
-      });
-
-      logCategoryOperation('ALL_PRODUCTS_LOADED', productAnalysis);
-
-      return products;
-
-    } catch (error) {
-      logCategoryOperation('LOAD_ALL_PRODUCTS_ERROR', error);
-      throw error;
-    }
-  };
   const fetchData = async () => {
     try {
       setLoading(true);
       setError(null);
       
       // Load data in parallel for better performance
-      const [products, settingsData] = await Promise.all([
-        loadAllProducts(userId),
+      const [counts, settingsData] = await Promise.all([
+        loadStorefrontCategoryCounts(userId),
         loadStorefrontSettings(userId)
       ]);
       
       // Update states after both requests complete
-      setAllProducts(products);
+      setCategoryCounts(counts);
       setSettings(settingsData.effectiveSettings);
       setCategorySettings(settingsData.categoryDisplaySettings);
       
@@ -200,8 +206,29 @@ export function useProductData({
     }
   };
 
+  // Load the whole catalog once, the first time search, filters or sorting need it
+  const loadAllProducts = useCallback(() => {
+    if (!userId) return Promise.resolve();
+
+    if (!allProductsRequest.current) {
+      allProductsRequest.current = fetchAllProducts(userId)
+        .then(products => {
+          setBaseProducts(products);
+          setAllProductsLoaded(true);
+        })
+        .catch(() => {
+          // Already logged by fetchAllProducts; the next search tries again
+          allProductsRequest.current = null;
+        });
+    }
+
+    return allProductsRequest.current;
+  }, [userId]);
+
   const refetch = async () => {
-    setAllProducts([]);
+    setBaseProducts([]);
+    setAllProductsLoaded(false);
+    allProductsRequest.current = null;
     await fetchData();
   };
 
@@ -213,6 +240,11 @@ export function useProductData({
 
   return {
     allProducts,
+    allProductsLoaded,
+    loadAllProducts,
+    categorySections,
+    promotions,
+    now,
     categorySettings,
     settings,
     loading,
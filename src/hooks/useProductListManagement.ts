@@ -2,12 +2,16 @@ import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase';
 import { syncUserCategoriesWithStorefrontSettings } from '@/lib/utils';
+import { releaseExpiredReservations } from '@/lib/productStatusUtils';
+import { duplicateProduct } from '@/lib/productDuplicationUtils';
+import { getRemainingListings } from '@/lib/productImportUtils';
 import { db } from '@/lib/db';
 import type { Product } from '@/types';
 import { getCroppedImg } from '@/lib/image';
 
 interface UseProductListManagementProps {
   userId?: string;
+  listingLimit?: number | null;
 }
 
 interface UseProductListManagementReturn {
@@ -19,6 +23,7 @@ interface UseProductListManagementReturn {
   categoryFilter: string;
   availableCategories: string[];
   updatingProductId: string | null;
+  duplicatingProductId: string | null;
   reordering: boolean;
   isReorderModeActive: boolean;
   selectedProducts: Set<string>;
@@ -32,6 +37,7 @@ interface UseProductListManagementReturn {
   setIsReorderModeActive: (active: boolean) => void;
   setSelectedProducts: (products: Set<string>) => void;
   toggleProductVisibility: (productId: string, currentVisibility: boolean) => Promise<void>;
+  handleDuplicateProduct: (productId: string) => Promise<void>;
   handleSelectProduct: (productId: string, checked: boolean) => void;
   handleSelectAll: (checked: boolean) => void;
   handleBulkVisibilityToggle: (visible: boolean) => Promise<void>;
@@ -43,7 +49,7 @@ interface UseProductListManagementReturn {
   refreshProducts: () => Promise<void>;
 }
 
-export function useProductListManagement({ userId }: UseProductListManagementProps): UseProductListManagementReturn {
+export function useProductListManagement({ userId, listingLimit }: UseProductListManagementProps): UseProductListManagementReturn {
   const [products, setProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
@@ -52,6 +58,7 @@ export function useProductListManagement({ userId }: UseProductListManagementPro
   const [categoryFilter, setCategoryFilter] = useState('todas');
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
   const [updatingProductId, setUpdatingProductId] = useState<string | null>(null);
+  const [duplicatingProductId, setDuplicatingProductId] = useState<string | null>(null);
   const [reordering, setReordering] = useState(false);
   const [isReorderModeActive, setIsReorderModeActive] = useState(false);
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set());
@@ -67,6 +74,9 @@ export function useProductListManagement({ userId }: UseProductListManagementPro
     if (!userId) return;
 
     try {
+      // Expired automatic reservations go back to 'disponivel' before listing
+      await releaseExpiredReservations();
+
       const { data, error } = await db.fetch(
         supabase
           .from('products')
@@ -178,6 +188,31 @@ export function useProductListManagement({ userId }: UseProductListManagementPro
     }
   };
 
+  // Duplicate a product with its images and variants
+  const handleDuplicateProduct = async (productId: string) => {
+    if (!userId) return;
+
+    try {
+      setDuplicatingProductId(productId);
+
+      const remaining = await getRemainingListings(userId, listingLimit);
+      if (remaining === 0) {
+        toast.error('Limite de produtos do seu plano atingido');
+        return;
+      }
+
+      await duplicateProduct(productId);
+      await fetchProducts();
+
+      toast.success('Produto duplicado! A cópia foi criada oculta na vitrine');
+    } catch (error) {
+      console.error('Error duplicating product:', error);
+      toast.error('Erro ao duplicar produto');
+    } finally {
+      setDuplicatingProductId(null);
+    }
+  };
+
   // Handle product selection
   const handleSelectProduct = (productId: string, checked: boolean) => {
     setSelectedProducts(prev => {
@@ -667,6 +702,7 @@ export function useProductListManagement({ userId }: UseProductListManagementPro
     categoryFilter,
     availableCategories,
     updatingProductId,
+    duplicatingProductId,
     reordering,
     isReorderModeActive,
     selectedProducts,
@@ -680,6 +716,7 @@ export function useProductListManagement({ userId }: UseProductListManagementPro
     setIsReorderModeActive,
     setSelectedProducts,
     toggleProductVisibility,
+    handleDuplicateProduct,
     handleSelectProduct,
     handleSelectAll,
     handleBulkVisibilityToggle,
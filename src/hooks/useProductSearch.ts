@@ -1,84 +1,338 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { filterProducts, parseUrlFilters, type ProductFilters } from '@/utils/productDisplayUtils';
-import { logCategoryOperation, sanitizeCategoryName } from '@/lib/categoryUtils';
-import type { Product } from '@/types';
+import {
+  buildFilterSearchParams,
+  filterProducts,
+  hasActiveFilters,
+  getSortSettings,
+  parseUrlFilters,
+  parseUrlSort,
+  sortProducts,
+  POPULARITY_SORT_OPTIONS,
+  type ProductFilters,
+  type SortOption,
+} from '@/utils/productDisplayUtils';
+import { logCategoryOperation } from '@/lib/categoryUtils';
+import { applyPromotions } from '@/lib/promotionUtils';
+import {
+  searchStorefrontProducts,
+  SEARCH_DEBOUNCE_MS,
+  SEARCH_MIN_QUERY_LENGTH,
+  SEARCH_TRACKING_DELAY_MS,
+  type ProductSearchPage,
+} from '@/lib/productSearchUtils';
+import { loadStorefrontProductPopularity, type ProductPopularity } from '@/lib/storefrontCatalogUtils';
+import { createEventId, trackMetaEvent, trackStorefrontEvent } from '@/lib/tracking';
+import type { Product, Promotion, StorefrontDisplaySettings } from '@/types';
+
+// Number of products suggested while the customer types
+const SUGGESTIONS_LIMIT = 5;
+
+/**
+ * Track a search on the pixel and in the storefront events, with a shared event id
+ */
+function trackSearchEvent(sellerId: string, page: ProductSearchPage) {
+  const eventId = createEventId();
+
+  trackMetaEvent('Search', { search_string: page.query }, eventId);
+  trackStorefrontEvent(sellerId, 'search', {
+    eventId,
+    searchQuery: page.query,
+    metadata: { result_count: page.total },
+  });
+}
 
 interface UseProductSearchProps {
+  sellerId?: string;
   allProducts: Product[];
-  settings: any;
+  settings: StorefrontDisplaySettings | null;
+  promotions: Promotion[];
+  now: Date;
 }
 
 interface UseProductSearchReturn {
   filteredProducts: Product[];
+  suggestions: Product[];
   isSearchActive: boolean;
+  isTextSearch: boolean; // Products come from the server search instead of the catalog
+  isSearchPending: boolean; // The first page of the current query is still loading
+  searchLoading: boolean;
+  searchError: boolean;
+  hasMoreResults: boolean;
+  loadMoreResults: () => Promise<void>;
+  isSortActive: boolean; // Products follow another order than the seller display order
   filters: ProductFilters;
+  sort: SortOption;
+  sortOptions: SortOption[];
   handleSearch: (newFilters: ProductFilters) => void;
+  handleSortChange: (sort: SortOption) => void;
+  trackSearch: () => void; // Tracks the current query when the customer settles on it
   setFilters: (filters: ProductFilters) => void;
 }
 
 /**
  * Custom hook for managing product search and filtering
+ * The text search runs on the server (`search_storefront_products`) and loads its results
+ * page by page; the other filters and the sort apply to the loaded results
+ * The sort option comes from the `sort` URL parameter, or the seller default
  */
 export function useProductSearch({
+  sellerId,
   allProducts,
-  settings
+  settings,
+  promotions,
+  now
 }: UseProductSearchProps): UseProductSearchReturn {
-  const [searchParams] = useSearchParams();
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [isSearchActive, setIsSearchActive] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [appliedFilters, setAppliedFilters] = useState<ProductFilters | null>(null);
+  const [searchResults, setSearchResults] = useState<ProductSearchPage | null>(null);
+  const [searchLoading, setSearchLoading] = useState(false);
+  const [searchError, setSearchError] = useState(false);
+  const searchLoadingRef = useRef(false);
+  // Last query tracked, so each search is tracked once
+  const trackedQueryRef = useRef<string | null>(null);
+  const [popularityCache, setPopularityCache] = useState<{
+    sellerId: string;
+    counts: Map<string, ProductPopularity>;
+  } | null>(null);
   const [filters, setFilters] = useState<ProductFilters>({
     query: '',
-    status: 'todos',
     minPrice: 10,
-    maxPrice: 5000,
-    category: 'todos',
-    brand: 'todos',
-    gender: 'todos',
-    condition: 'todos'
+    maxPrice: 5000
   });
+  // Filters currently written in the URL, to tell shared links apart from our own updates
+  const lastUrlKey = useRef<string | null>(null);
 
-  // Initialize filtered products
+  const getUrlKey = (urlFilters: ProductFilters) =>
+    buildFilterSearchParams(new URLSearchParams(), urlFilters, settings).toString();
+
+  // Apply URL filters when settings are loaded, and whenever the URL changes (e.g. back button)
   useEffect(() => {
-    setFilteredProducts(allProducts);
-  }, [allProducts]);
+    if (!settings) return;
+
+    const urlFilters = parseUrlFilters(searchParams, settings);
+    const urlKey = getUrlKey(urlFilters);
+
+    if (urlKey === lastUrlKey.current) return;
+    lastUrlKey.current = urlKey;
+
+    if (urlKey || appliedFilters) {
+      logCategoryOperation('APPLYING_URL_FILTERS', {
+        urlKey,
+        productsLoaded: allProducts.length,
+        settingsLoaded: !!settings
+      });
+
+      setFilters(urlFilters);
+      setAppliedFilters(urlFilters);
+    }
+  }, [settings, searchParams]);
+
+  // Search on the server while the customer types
+  // Shorter queries are ignored, like in `search_storefront_products`
+  const rawQuery = appliedFilters?.query?.trim() || '';
+  const query = rawQuery.length >= SEARCH_MIN_QUERY_LENGTH ? rawQuery : '';
+  const isTextSearch = !!sellerId && !!query;
 
-  // Apply URL filters when products and settings are loaded
   useEffect(() => {
-    if (allProducts.length > 0 && settings) {
-      const urlCategory = searchParams.get('category');
-      const urlQuery = searchParams.get('query');
-      
-      if (urlCategory || urlQuery) {
-        logCategoryOperation('APPLYING_URL_FILTERS', { 
-          urlCategory, 
-          urlQuery,
-          productsLoaded: allProducts.length,
-          settingsLoaded: !!settings
-        });
-        
-        const urlFilters = parseUrlFilters(searchParams, settings);
-        
-        handleSearch(urlFilters);
+    setSearchResults(null);
+    setSearchError(false);
+
+    if (!sellerId || !query) return;
+
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      try {
+        searchLoadingRef.current = true;
+        setSearchLoading(true);
+
+        const page = await searchStorefrontProducts(sellerId, query);
+        if (!cancelled) {
+          setSearchResults(page);
+        }
+      } catch (error) {
+        console.error('Error searching products:', error);
+        if (!cancelled) {
+          setSearchResults({ query, products: [], total: 0, nextOffset: 0 });
+          setSearchError(true);
+        }
+      } finally {
+        if (!cancelled) {
+          searchLoadingRef.current = false;
+          setSearchLoading(false);
+        }
       }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      searchLoadingRef.current = false;
+      setSearchLoading(false);
+    };
+  }, [sellerId, query]);
+
+  // A search is tracked once the customer settles on it: pressing enter, picking a suggestion
+  // or keeping the results on screen for a while, not on every keystroke
+  const trackSearch = () => {
+    if (!sellerId || !searchResults || searchResults.query !== query) return;
+    if (trackedQueryRef.current === query) return;
+
+    trackedQueryRef.current = query;
+    trackSearchEvent(sellerId, searchResults);
+  };
+
+  useEffect(() => {
+    if (!sellerId || !searchResults || searchResults.query !== query) return;
+
+    const timeout = setTimeout(() => {
+      if (trackedQueryRef.current === query) return;
+
+      trackedQueryRef.current = query;
+      trackSearchEvent(sellerId, searchResults);
+    }, SEARCH_TRACKING_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [sellerId, searchResults, query]);
+
+  const loadMoreResults = async () => {
+    if (!sellerId || !searchResults || searchLoadingRef.current) return;
+    if (!searchError && searchResults.nextOffset >= searchResults.total) return;
+
+    const { query: pageQuery, nextOffset } = searchResults;
+
+    try {
+      searchLoadingRef.current = true;
+      setSearchLoading(true);
+      setSearchError(false);
+
+      const page = await searchStorefrontProducts(sellerId, pageQuery, nextOffset);
+
+      // Ignore the page when the customer searched something else meanwhile
+      setSearchResults(prev => {
+        if (!prev || prev.query !== pageQuery) return prev;
+
+        const loadedIds = new Set(prev.products.map(product => product.id));
+        return {
+          ...page,
+          products: [...prev.products, ...page.products.filter(product => !loadedIds.has(product.id))],
+        };
+      });
+    } catch (error) {
+      console.error('Error loading more search results:', error);
+      setSearchError(true);
+    } finally {
+      searchLoadingRef.current = false;
+      setSearchLoading(false);
     }
-  }, [allProducts, settings, searchParams]);
+  };
+
+  const sort = parseUrlSort(searchParams, settings);
+  const sortOptions = useMemo(() => getSortSettings(settings).options, [settings]);
+  const needsPopularity = POPULARITY_SORT_OPTIONS.includes(sort);
+  // Counts loaded for another seller are discarded
+  const popularity = popularityCache && popularityCache.sellerId === sellerId ? popularityCache.counts : null;
+
+  // View and order counts are only loaded when a popularity sort is used
+  useEffect(() => {
+    if (!sellerId || !needsPopularity || popularity) return;
+
+    let cancelled = false;
+
+    loadStorefrontProductPopularity(sellerId)
+      .then(result => {
+        if (!cancelled) {
+          setPopularityCache({ sellerId, counts: result });
+        }
+      })
+      .catch(error => {
+        // Products keep the seller order without the counts
+        console.error('Error loading product popularity:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sellerId, needsPopularity, popularity]);
+
+  // Prices are recalculated whenever a promotion starts or ends
+  const searchProducts = useMemo(
+    () => searchResults && searchResults.query === query
+      ? applyPromotions(searchResults.products, promotions, now)
+      : [],
+    [searchResults, query, promotions, now]
+  );
+
+  // The server already matched the text, the other filters apply to its results
+  const matchingProducts = useMemo(
+    () => appliedFilters
+      ? filterProducts(isTextSearch ? searchProducts : allProducts, { ...appliedFilters, query: '' }, settings).filteredProducts
+      : allProducts,
+    [allProducts, searchProducts, isTextSearch, appliedFilters, settings]
+  );
+
+  const isSearchActive = !!appliedFilters && hasActiveFilters({ ...appliedFilters, query }, settings);
+
+  // Text search results stay ordered by relevance unless the shopper picks a sort
+  const keepsRelevance = isTextSearch && !searchParams.has('sort');
+
+  const filteredProducts = useMemo(
+    () => keepsRelevance
+      ? matchingProducts
+      : sortProducts(matchingProducts, sort, popularity || undefined),
+    [matchingProducts, keepsRelevance, sort, popularity]
+  );
+
+  const suggestions = useMemo(
+    () => searchProducts.slice(0, SUGGESTIONS_LIMIT),
+    [searchProducts]
+  );
 
   const handleSearch = (newFilters: ProductFilters) => {
-    // Update filters state
     setFilters(newFilters);
-    
-    // Use the extracted filter function
-    const result = filterProducts(allProducts, newFilters, settings);
-    setFilteredProducts(result.filteredProducts);
-    setIsSearchActive(result.isSearchActive);
+    setAppliedFilters(newFilters);
+
+    // Keep the filters in the URL so the filtered view can be shared
+    if (settings) {
+      const urlKey = getUrlKey(newFilters);
+
+      if (urlKey !== lastUrlKey.current) {
+        lastUrlKey.current = urlKey;
+        setSearchParams(buildFilterSearchParams(searchParams, newFilters, settings), { replace: true });
+      }
+    }
+  };
+
+  const handleSortChange = (newSort: SortOption) => {
+    const params = new URLSearchParams(searchParams);
+
+    if (newSort === getSortSettings(settings).defaultSort) {
+      params.delete('sort');
+    } else {
+      params.set('sort', newSort);
+    }
+
+    setSearchParams(params, { replace: true });
   };
 
   return {
     filteredProducts,
+    suggestions,
     isSearchActive,
+    isTextSearch,
+    isSearchPending: isTextSearch && searchResults?.query !== query,
+    searchLoading,
+    searchError,
+    hasMoreResults: !!searchResults && (searchError || searchResults.nextOffset < searchResults.total),
+    loadMoreResults,
+    isSortActive: sort !== 'display-order',
     filters,
+    sort,
+    sortOptions,
     handleSearch,
+    handleSortChange,
+    trackSearch,
     setFilters
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { getNextPromotionChange, loadStorefrontPromotions } from '@/lib/promotionUtils';
+import type { Promotion } from '@/types';
+
+// setTimeout can't wait longer than ~24.8 days
+const MAX_TIMEOUT = 2147483647;
+
+// Scheduled promotions are only readable once they start, so the list is reloaded regularly
+const RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+
+interface UsePromotionsReturn {
+  promotions: Promotion[];
+  now: Date; // Updated whenever the promotions are reloaded or one ends
+}
+
+/**
+ * Load the running promotions of a storefront and keep track of when they end
+ */
+export function usePromotions(sellerId?: string): UsePromotionsReturn {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!sellerId) return;
+
+    let cancelled = false;
+
+    const load = () => {
+      loadStorefrontPromotions(sellerId)
+        .then(data => {
+          if (!cancelled) {
+            setPromotions(data);
+            setNow(new Date());
+          }
+        })
+        .catch(error => console.error('Error loading promotions:', error));
+    };
+
+    load();
+    const interval = setInterval(load, RELOAD_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [sellerId]);
+
+  useEffect(() => {
+    const nextChange = getNextPromotionChange(promotions, now);
+    if (!nextChange) return;
+
+    const timeout = setTimeout(
+      () => setNow(new Date()),
+      Math.min(nextChange.getTime() - Date.now() + 50, MAX_TIMEOUT)
+    );
+
+    return () => clearTimeout(timeout);
+  }, [promotions, now]);
+
+  return { promotions, now };
+}
@@ -0,0 +1,110 @@
+import { supabase } from './supabase';
+import { getViewerId } from './tracking';
+import type { AbandonedCart, CartItem, CartRecoveryContact } from '@/types';
+
+/**
+ * Utility functions for abandoned cart recovery
+ */
+
+// Time without changes before a saved cart is listed as abandoned
+export const ABANDONED_CART_DELAY_MINUTES = 60;
+
+/**
+ * Cart item fields kept in the saved snapshot
+ * Stock and option lists are left out, they are only used while shopping
+ */
+function toCartSnapshotItem(item: CartItem): CartItem {
+  return {
+    id: item.id,
+    variantId: item.variantId,
+    title: item.title,
+    price: item.price,
+    discounted_price: item.discounted_price,
+    variantPrice: item.variantPrice,
+    is_starting_price: item.is_starting_price,
+    quantity: item.quantity,
+    featured_image_url: item.featured_image_url,
+    selectedColor: item.selectedColor,
+    selectedSize: item.selectedSize,
+    notes: item.notes,
+  };
+}
+
+/**
+ * Save the cart of this browser for the seller to follow up
+ */
+export async function saveAbandonedCart(
+  sellerId: string,
+  contact: CartRecoveryContact,
+  items: CartItem[],
+  total: number
+): Promise<void> {
+  const { error } = await supabase.rpc('save_abandoned_cart', {
+    p_seller_id: sellerId,
+    p_viewer_id: getViewerId(),
+    p_customer_name: contact.name || null,
+    p_customer_phone: contact.phone,
+    p_items: items.map(toCartSnapshotItem),
+    p_total: total,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Remove the saved cart of this browser
+ */
+export async function discardAbandonedCart(sellerId: string): Promise<void> {
+  const { error } = await supabase.rpc('discard_abandoned_cart', {
+    p_seller_id: sellerId,
+    p_viewer_id: getViewerId(),
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Load the carts of a seller left without changes for a while, newest first
+ */
+export async function loadAbandonedCarts(userId: string): Promise<AbandonedCart[]> {
+  const cutoff = new Date(Date.now() - ABANDONED_CART_DELAY_MINUTES * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('abandoned_carts')
+    .select('*')
+    .eq('user_id', userId)
+    .lt('updated_at', cutoff.toISOString())
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Record that the seller contacted the shopper
+ */
+export async function markAbandonedCartContacted(cartId: string): Promise<string> {
+  const contactedAt = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('abandoned_carts')
+    .update({ contacted_at: contactedAt })
+    .eq('id', cartId);
+
+  if (error) throw error;
+
+  return contactedAt;
+}
+
+/**
+ * Delete a saved cart
+ */
+export async function deleteAbandonedCart(cartId: string): Promise<void> {
+  const { error } = await supabase
+    .from('abandoned_carts')
+    .delete()
+    .eq('id', cartId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,208 @@
+import { supabase } from './supabase';
+import { applyPromotions, loadStorefrontPromotions } from './promotionUtils';
+import { getEffectiveStatus } from './productStatusUtils';
+import { findProductVariant, hasTrackedInventory } from './variantUtils';
+import { getCartItemUnitPrice } from './cartUtils';
+import type { CartItem, CartItemChange, CartItemChangeReason, Product } from '@/types';
+
+/**
+ * Utility functions for keeping stored carts in sync with the catalog
+ */
+
+// Fields needed to refresh the cart items
+const CART_PRODUCT_SELECT = `
+  id,
+  title,
+  price,
+  discounted_price,
+  is_starting_price,
+  status,
+  reserved_until,
+  is_visible_on_storefront,
+  featured_image_url,
+  category,
+  colors,
+  sizes,
+  product_variants (
+    id,
+    color,
+    size,
+    sku,
+    stock_quantity,
+    price
+  )
+`;
+
+export interface CartValidationResult {
+  items: CartItem[]; // Available items refreshed; unavailable ones are kept until acknowledged
+  changes: CartItemChange[];
+}
+
+/**
+ * Group cart items by the seller of their products
+ * Used to split the single cart stored by older versions; items of deleted products are dropped
+ */
+export async function groupCartItemsBySeller(items: CartItem[]): Promise<Record<string, CartItem[]>> {
+  const productIds = Array.from(new Set(items.map(item => item.id)));
+  if (productIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('id, user_id')
+    .in('id', productIds);
+
+  if (error) throw error;
+
+  const sellerByProductId = new Map(
+    (data || []).map((row: { id: string; user_id: string }) => [row.id, row.user_id])
+  );
+
+  return items.reduce((groups, item) => {
+    const sellerId = sellerByProductId.get(item.id);
+    if (sellerId) {
+      groups[sellerId] = [...(groups[sellerId] || []), item];
+    }
+    return groups;
+  }, {} as Record<string, CartItem[]>);
+}
+
+/**
+ * Current catalog rows of the cart products, with the running promotions applied
+ * Products that were deleted or can't be read anymore are missing from the map
+ */
+export async function loadCartProducts(sellerId: string, productIds: string[]): Promise<Map<string, Product>> {
+  if (productIds.length === 0) return new Map();
+
+  const [productsResponse, promotions] = await Promise.all([
+    supabase
+      .from('products')
+      .select(CART_PRODUCT_SELECT)
+      .eq('user_id', sellerId)
+      .in('id', productIds),
+    loadStorefrontPromotions(sellerId),
+  ]);
+
+  if (productsResponse.error) throw productsResponse.error;
+
+  const products = applyPromotions((productsResponse.data || []) as Product[], promotions);
+
+  return new Map(products.map(product => [product.id, product]));
+}
+
+/**
+ * Why the product can't be ordered anymore with the options of the cart item, if it can't
+ */
+function getUnavailableReason(item: CartItem, product: Product | undefined): CartItemChangeReason | null {
+  if (!product) return 'unavailable';
+  if (!product.is_visible_on_storefront) return 'hidden';
+
+  const status = getEffectiveStatus(product);
+  if (status === 'vendido') return 'sold';
+  if (status !== 'disponivel' || !product.price) return 'unavailable';
+
+  if (hasTrackedInventory(product)) {
+    const variant = findProductVariant(product.product_variants, item.selectedColor, item.selectedSize);
+    if ((variant?.stock_quantity ?? 0) <= 0) return 'sold';
+  }
+
+  return null;
+}
+
+/**
+ * Cart item with the current price, stock and options of its product
+ */
+function refreshCartItem(item: CartItem, product: Product): CartItem {
+  const variant = findProductVariant(product.product_variants, item.selectedColor, item.selectedSize);
+  const maxQuantity = hasTrackedInventory(product) ? variant?.stock_quantity ?? 0 : undefined;
+
+  return {
+    ...item,
+    title: product.title,
+    price: product.price!,
+    discounted_price: product.discounted_price,
+    is_starting_price: product.is_starting_price,
+    featured_image_url: product.featured_image_url,
+    quantity: maxQuantity !== undefined ? Math.min(item.quantity, maxQuantity) : item.quantity,
+    availableColors: product.colors,
+    availableSizes: product.sizes,
+    availableVariants: product.product_variants,
+    productVariantId: variant?.id,
+    maxQuantity,
+    variantPrice: variant?.price ? Number(variant.price) : undefined,
+    category: product.category,
+  };
+}
+
+/**
+ * Compare the cart items with the current catalog
+ */
+export async function validateCartItems(sellerId: string, items: CartItem[]): Promise<CartValidationResult> {
+  const products = await loadCartProducts(sellerId, Array.from(new Set(items.map(item => item.id))));
+  const result: CartValidationResult = { items: [], changes: [] };
+
+  items.forEach(item => {
+    const product = products.get(item.id);
+    const previousPrice = getCartItemUnitPrice(item);
+    const unavailableReason = getUnavailableReason(item, product);
+
+    if (unavailableReason || !product) {
+      result.items.push(item);
+      result.changes.push({
+        variantId: item.variantId!,
+        title: item.title,
+        reason: unavailableReason || 'unavailable',
+        previousPrice,
+      });
+      return;
+    }
+
+    const refreshed = refreshCartItem(item, product);
+    const currentPrice = getCartItemUnitPrice(refreshed);
+    const priceChanged = currentPrice !== previousPrice;
+    const quantityReduced = refreshed.quantity < item.quantity;
+    result.items.push(refreshed);
+
+    if (priceChanged || quantityReduced) {
+      result.changes.push({
+        variantId: item.variantId!,
+        title: item.title,
+        reason: priceChanged ? 'price_changed' : 'quantity_reduced',
+        previousPrice,
+        ...(priceChanged && { currentPrice }),
+        ...(quantityReduced && { previousQuantity: item.quantity, currentQuantity: refreshed.quantity }),
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Whether the change makes the item unorderable, so it's removed once acknowledged
+ * Price changes and quantities reduced to the stock keep the item in the cart
+ */
+export function isUnavailableChange(change: CartItemChange): boolean {
+  return change.reason !== 'price_changed' && change.reason !== 'quantity_reduced';
+}
+
+/**
+ * Add new changes to the ones still waiting for acknowledgement
+ * A price or quantity that changes again keeps the one the shopper originally saw
+ */
+export function mergeCartItemChanges(pending: CartItemChange[], changes: CartItemChange[]): CartItemChange[] {
+  const merged = new Map(pending.map(change => [change.variantId, change]));
+
+  changes.forEach(change => {
+    const previous = merged.get(change.variantId);
+    merged.set(change.variantId, previous
+      ? {
+          ...previous,
+          ...change,
+          previousPrice: previous.previousPrice,
+          previousQuantity: previous.previousQuantity ?? change.previousQuantity,
+        }
+      : change);
+  });
+
+  return Array.from(merged.values());
+}
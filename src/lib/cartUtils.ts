@@ -1,45 +1,52 @@
-import type { CartItem } from '@/types';
+import type { CartItem, DeliveryAddress, DeliveryMethod, PaymentPreference } from '@/types';
 import { formatCurrencyI18n, generateWhatsAppMessage, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+import { formatOrderNumber } from '@/lib/orderUtils';
+import { formatDeliveryAddress, getDeliveryMethodLabel, getPaymentMethodLabel } from '@/lib/checkoutUtils';
+
+export interface CartOrderDetails {
+  orderNumber?: number;
+  customerName?: string;
+  customerPhone?: string;
+  deliveryMethod?: DeliveryMethod;
+  address?: DeliveryAddress;
+  paymentMethod?: PaymentPreference;
+  paymentCondition?: string; // Installment or PIX condition chosen in the cart, already formatted
+  shippingFee?: number; // Included in the total; set when shipping is calculated
+  shippingZone?: string;
+  couponCode?: string;
+  discount?: number; // Coupon discount, already subtracted from the total
+}
 
 /**
- * Generate a formatted WhatsApp message for a cart order
+ * Unit price charged for a cart item
+ * A variant price override takes precedence over the product discount; a zero price
+ * counts as unset, like in `create_storefront_order`
  */
-export function generateCartOrderMessage(
+export function getCartItemUnitPrice(item: CartItem): number {
+  return item.variantPrice || item.discounted_price || item.price;
+}
+
+/**
+ * Numbered item lines shared by the order and the recovery messages
+ */
+function formatCartItemLines(
   cartItems: CartItem[],
-  total: number,
-  sellerName: string,
   corretorSlug: string,
-  currency: SupportedCurrency = 'BRL',
-  language: SupportedLanguage = 'pt-BR'
+  currency: SupportedCurrency,
+  language: SupportedLanguage
 ): string {
-  if (cartItems.length === 0) return '';
-
-  // Simplified greeting for cart orders
-  const greeting = `Olá ${sellerName}, gostaria de realizar um pedido com os itens abaixo.`;
-  
-  let orderMessage = `${greeting}\n\n`;
-  
-  // Order header
-  const orderTitles = {
-    'pt-BR': 'PEDIDO DE COMPRA',
-    'en-US': 'PURCHASE ORDER', 
-    'es-ES': 'ORDEN DE COMPRA',
-  };
-  
-  orderMessage += `*${orderTitles[language] || orderTitles['pt-BR']}*\n`;
-  orderMessage += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+  let message = '';
 
-  // Add each item
   cartItems.forEach((item, index) => {
-    const price = item.discounted_price || item.price;
+    const price = getCartItemUnitPrice(item);
     const itemTotal = price * item.quantity;
     
-    orderMessage += `${index + 1}. *${item.title.trim()}*\n`;
+    message += `${index + 1}. *${item.title.trim()}*\n`;
     
     // Add variant information if available
     if (item.selectedColor || item.selectedSize) {
       const variantInfo = [item.selectedColor, item.selectedSize].filter(Boolean).join(' • ');
-      orderMessage += `   Variação: ${variantInfo}\n`;
+      message += `   Variação: ${variantInfo}\n`;
     }
     
     // Add product link for easy access to full details
@@ -53,10 +60,10 @@ export function generateCartOrderMessage(
         const baseUrl = isProduction ? 'https://vitrineturbo.com' : 
           (typeof window !== 'undefined' ? window.location.origin : 'https://vitrineturbo.com');
         const productUrl = `${baseUrl}/${corretorSlug}/produtos/${item.id}`;
-        orderMessage += `${productUrl}\n`;
+        message += `${productUrl}\n`;
       } catch {
         // Fallback if URL generation fails
-        orderMessage += `Ver produto\n`;
+        message += `Ver produto\n`;
       }
     }
     
@@ -78,9 +85,9 @@ export function generateCartOrderMessage(
       'es-ES': 'Subtotal',
     };
     
-    orderMessage += `   ${quantityLabels[language] || quantityLabels['pt-BR']}: ${item.quantity}\n`;
-    orderMessage += `   ${unitPriceLabels[language] || unitPriceLabels['pt-BR']}: ${formatCurrencyI18n(price, currency, language)}\n`;
-    orderMessage += `   ${subtotalLabels[language] || subtotalLabels['pt-BR']}: ${formatCurrencyI18n(itemTotal, currency, language)}\n`;
+    message += `   ${quantityLabels[language] || quantityLabels['pt-BR']}: ${item.quantity}\n`;
+    message += `   ${unitPriceLabels[language] || unitPriceLabels['pt-BR']}: ${formatCurrencyI18n(price, currency, language)}\n`;
+    message += `   ${subtotalLabels[language] || subtotalLabels['pt-BR']}: ${formatCurrencyI18n(itemTotal, currency, language)}\n`;
     
     // Add notes if they exist
     if (item.notes && item.notes.trim()) {
@@ -89,12 +96,77 @@ export function generateCartOrderMessage(
         'en-US': 'Notes',
         'es-ES': 'Observación',
       };
-      orderMessage += `   ${notesLabels[language] || notesLabels['pt-BR']}: ${item.notes}\n`;
+      message += `   ${notesLabels[language] || notesLabels['pt-BR']}: ${item.notes}\n`;
     }
     
-    orderMessage += `\n`;
+    message += `\n`;
   });
 
+  return message;
+}
+
+/**
+ * Generate a formatted WhatsApp message for a cart order
+ */
+export function generateCartOrderMessage(
+  cartItems: CartItem[],
+  total: number,
+  sellerName: string,
+  corretorSlug: string,
+  currency: SupportedCurrency = 'BRL',
+  language: SupportedLanguage = 'pt-BR',
+  details: CartOrderDetails = {}
+): string {
+  if (cartItems.length === 0) return '';
+
+  // Simplified greeting for cart orders
+  const greeting = `Olá ${sellerName}, gostaria de realizar um pedido com os itens abaixo.`;
+  
+  let orderMessage = `${greeting}\n\n`;
+  
+  // Order header
+  const orderTitles = {
+    'pt-BR': 'PEDIDO DE COMPRA',
+    'en-US': 'PURCHASE ORDER', 
+    'es-ES': 'ORDEN DE COMPRA',
+  };
+  
+  const orderNumber = details.orderNumber ? ` ${formatOrderNumber(details.orderNumber)}` : '';
+  orderMessage += `*${orderTitles[language] || orderTitles['pt-BR']}${orderNumber}*\n`;
+  orderMessage += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+  // Customer information
+  if (details.customerName || details.customerPhone || details.deliveryMethod || details.paymentMethod || details.paymentCondition) {
+    const customerLabels = {
+      'pt-BR': { name: 'Cliente', phone: 'Telefone', delivery: 'Entrega', address: 'Endereço', payment: 'Pagamento', condition: 'Condição' },
+      'en-US': { name: 'Customer', phone: 'Phone', delivery: 'Delivery', address: 'Address', payment: 'Payment', condition: 'Condition' },
+      'es-ES': { name: 'Cliente', phone: 'Teléfono', delivery: 'Entrega', address: 'Dirección', payment: 'Pago', condition: 'Condición' },
+    };
+    const labels = customerLabels[language] || customerLabels['pt-BR'];
+
+    if (details.customerName) {
+      orderMessage += `${labels.name}: ${details.customerName.trim()}\n`;
+    }
+    if (details.customerPhone) {
+      orderMessage += `${labels.phone}: ${details.customerPhone.trim()}\n`;
+    }
+    if (details.deliveryMethod) {
+      orderMessage += `${labels.delivery}: ${getDeliveryMethodLabel(details.deliveryMethod, language)}\n`;
+    }
+    if (details.deliveryMethod === 'delivery' && details.address) {
+      orderMessage += `${labels.address}: ${formatDeliveryAddress(details.address)}\n`;
+    }
+    if (details.paymentMethod) {
+      orderMessage += `${labels.payment}: ${getPaymentMethodLabel(details.paymentMethod, language)}\n`;
+    }
+    if (details.paymentCondition) {
+      orderMessage += `${labels.condition}: ${details.paymentCondition}\n`;
+    }
+    orderMessage += `\n`;
+  }
+
+  orderMessage += formatCartItemLines(cartItems, corretorSlug, currency, language);
+
   // Order footer
   orderMessage += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
   
@@ -104,6 +176,34 @@ export function generateCartOrderMessage(
     'es-ES': 'TOTAL',
   };
   
+  // Subtotal, discount and shipping lines
+  const discount = details.discount || 0;
+
+  if (details.shippingFee !== undefined || discount > 0) {
+    const summaryLabels = {
+      'pt-BR': { subtotal: 'Subtotal', discount: 'Desconto', shipping: 'Frete', free: 'Grátis' },
+      'en-US': { subtotal: 'Subtotal', discount: 'Discount', shipping: 'Shipping', free: 'Free' },
+      'es-ES': { subtotal: 'Subtotal', discount: 'Descuento', shipping: 'Envío', free: 'Gratis' },
+    };
+    const labels = summaryLabels[language] || summaryLabels['pt-BR'];
+    const shippingFee = details.shippingFee || 0;
+
+    orderMessage += `${labels.subtotal}: ${formatCurrencyI18n(total + discount - shippingFee, currency, language)}\n`;
+
+    if (discount > 0) {
+      const couponCode = details.couponCode ? ` (${details.couponCode})` : '';
+      orderMessage += `${labels.discount}${couponCode}: -${formatCurrencyI18n(discount, currency, language)}\n`;
+    }
+
+    if (details.shippingFee !== undefined) {
+      const shippingZone = details.shippingZone ? ` (${details.shippingZone})` : '';
+      const shippingValue = shippingFee > 0
+        ? formatCurrencyI18n(shippingFee, currency, language)
+        : labels.free;
+      orderMessage += `${labels.shipping}${shippingZone}: ${shippingValue}\n`;
+    }
+  }
+  
   orderMessage += `*${totalLabels[language] || totalLabels['pt-BR']}: ${formatCurrencyI18n(total, currency, language)}*\n\n`;
   
   const footerMessages = {
@@ -117,17 +217,64 @@ export function generateCartOrderMessage(
   return orderMessage;
 }
 
+/**
+ * Generate the WhatsApp message a seller sends to follow up an abandoned cart
+ * Items are listed with the same formatting as the order message
+ */
+export function generateCartRecoveryMessage(
+  cartItems: CartItem[],
+  total: number,
+  customerName: string | undefined,
+  corretorSlug: string,
+  currency: SupportedCurrency = 'BRL',
+  language: SupportedLanguage = 'pt-BR'
+): string {
+  if (cartItems.length === 0) return '';
+
+  const name = customerName?.trim().split(' ')[0];
+  const greetings = {
+    'pt-BR': `Olá${name ? ` ${name}` : ''}! Vi que você deixou estes itens no carrinho da minha vitrine:`,
+    'en-US': `Hi${name ? ` ${name}` : ''}! I noticed you left these items in the cart of my store:`,
+    'es-ES': `¡Hola${name ? ` ${name}` : ''}! Vi que dejaste estos artículos en el carrito de mi tienda:`,
+  };
+
+  let message = `${greetings[language] || greetings['pt-BR']}\n\n`;
+  message += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+  message += formatCartItemLines(cartItems, corretorSlug, currency, language);
+  message += `━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+  message += `*TOTAL: ${formatCurrencyI18n(total, currency, language)}*\n\n`;
+
+  const footerMessages = {
+    'pt-BR': 'Posso ajudar você a finalizar o pedido?',
+    'en-US': 'Can I help you complete your order?',
+    'es-ES': '¿Puedo ayudarte a finalizar tu pedido?',
+  };
+
+  message += footerMessages[language] || footerMessages['pt-BR'];
+
+  return message;
+}
+
 /**
  * Calculate cart statistics
+ * The total is the items subtotal minus the coupon discount plus the shipping fee
  */
-export function calculateCartStats(cartItems: CartItem[]) {
+export function calculateCartStats(cartItems: CartItem[], shippingFee: number = 0, discount: number = 0) {
   const itemCount = cartItems.reduce((sum, item) => sum + item.quantity, 0);
-  const total = cartItems.reduce((sum, item) => {
-    const price = item.discounted_price || item.price;
+  const subtotal = cartItems.reduce((sum, item) => {
+    const price = getCartItemUnitPrice(item);
     return sum + (price * item.quantity);
   }, 0);
+  const fee = cartItems.length > 0 ? Math.max(0, shippingFee || 0) : 0;
+  const appliedDiscount = Math.min(Math.max(0, discount || 0), subtotal);
 
-  return { itemCount, total };
+  return {
+    itemCount,
+    subtotal,
+    discount: appliedDiscount,
+    shippingFee: fee,
+    total: subtotal - appliedDiscount + fee,
+  };
 }
 
 /**
@@ -0,0 +1,132 @@
+import { supabase } from './supabase';
+import { toCsv, type SpreadsheetRows } from './spreadsheetUtils';
+import type { Product } from '@/types';
+
+/**
+ * Utility functions for exporting the catalog and building product feed URLs
+ */
+
+export type ProductFeedFormat = 'meta' | 'google';
+
+export const PRODUCT_FEED_FORMATS: { value: ProductFeedFormat; label: string; description: string }[] = [
+  {
+    value: 'meta',
+    label: 'Meta (Facebook e Instagram)',
+    description: 'Use em Commerce Manager > Catálogo > Fontes de dados > Feed de dados',
+  },
+  {
+    value: 'google',
+    label: 'Google Merchant Center',
+    description: 'Use em Produtos > Feeds > Adicionar feed principal > Busca programada',
+  },
+];
+
+/**
+ * Load every product of the seller with images and variants, in the storefront order
+ */
+export async function loadCatalogForExport(userId: string): Promise<Product[]> {
+  const { data, error } = await supabase
+    .from('products')
+    .select(`
+      *,
+      product_images (
+        url,
+        is_featured
+      ),
+      product_variants (
+        color,
+        size,
+        sku,
+        stock_quantity,
+        price
+      )
+    `)
+    .eq('user_id', userId)
+    .order('display_order', { ascending: true, nullsFirst: false })
+    .order('id', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Image URLs of a product, featured image first
+ */
+function getProductImageUrls(product: Product): string[] {
+  const images = [...(product.product_images || [])]
+    .sort((a, b) => Number(b.is_featured) - Number(a.is_featured))
+    .map(image => image.url);
+
+  if (product.featured_image_url && !images.includes(product.featured_image_url)) {
+    images.unshift(product.featured_image_url);
+  }
+
+  return images;
+}
+
+/**
+ * Build the CSV export
+ * The columns follow the import template so the file can be imported again
+ */
+export function buildCatalogCsv(products: Product[]): string {
+  const rows: SpreadsheetRows = [
+    ['id', 'nome', 'descricao', 'descricao_breve', 'preco', 'preco_com_desconto', 'categorias', 'marca', 'genero', 'condicao', 'cores', 'tamanhos', 'status', 'visivel_na_vitrine', 'imagens'],
+    ...products.map(product => [
+      product.id,
+      product.title,
+      product.description || '',
+      product.short_description || '',
+      product.price ? String(product.price) : '',
+      product.discounted_price ? String(product.discounted_price) : '',
+      (product.category || []).join('; '),
+      product.brand || '',
+      product.gender || '',
+      product.condition || '',
+      (product.colors || []).join('; '),
+      (product.sizes || []).join('; '),
+      product.status,
+      product.is_visible_on_storefront === false ? 'nao' : 'sim',
+      getProductImageUrls(product).join('; '),
+    ]),
+  ];
+
+  // BOM so Excel opens the accents correctly
+  return '\uFEFF' + toCsv(rows);
+}
+
+/**
+ * Build the JSON export
+ */
+export function buildCatalogJson(products: Product[]): string {
+  return JSON.stringify(
+    products.map(({ product_images, ...product }) => ({
+      ...product,
+      images: getProductImageUrls({ ...product, product_images } as Product),
+    })),
+    null,
+    2
+  );
+}
+
+/**
+ * Trigger the download of a generated file
+ */
+export function downloadTextFile(content: string, fileName: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Public URL of the product feed served by the `product-feed` edge function
+ * Catalog platforms fetch it periodically, so it always reflects the current products
+ */
+export function getProductFeedUrl(slug: string, format: ProductFeedFormat): string {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL?.trim().replace(/\/$/, '');
+  return `${supabaseUrl}/functions/v1/product-feed?slug=${encodeURIComponent(slug)}&format=${format}`;
+}
@@ -0,0 +1,106 @@
+import { supabase } from './supabase';
+import type { CepProviderName, DeliveryAddress } from '@/types';
+
+/**
+ * Utility functions for Brazilian CEP (postal code) lookup
+ * Providers are pluggable: register a new one with `registerCepProvider`
+ */
+
+export type CepLookupResult = Pick<DeliveryAddress, 'cep' | 'street' | 'neighborhood' | 'city' | 'state'>;
+
+export interface CepProvider {
+  lookup: (cep: string) => Promise<CepLookupResult | null>;
+}
+
+/**
+ * Removes everything but digits from a CEP
+ */
+export function normalizeCep(cep: string): string {
+  return (cep || '').replace(/\D/g, '').slice(0, 8);
+}
+
+/**
+ * Formats a CEP as 00000-000
+ */
+export function formatCep(cep: string): string {
+  const digits = normalizeCep(cep);
+  return digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+}
+
+/**
+ * Checks whether a CEP has the 8 required digits
+ */
+export function isValidCep(cep: string): boolean {
+  return normalizeCep(cep).length === 8;
+}
+
+// Public ViaCEP API
+const viaCepProvider: CepProvider = {
+  lookup: async (cep) => {
+    const response = await fetch(`https://viacep.com.br/ws/${cep}/json/`);
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    if (data.erro) return null;
+
+    return {
+      cep,
+      street: data.logradouro || '',
+      neighborhood: data.bairro || '',
+      city: data.localidade || '',
+      state: data.uf || '',
+    };
+  },
+};
+
+// Local `cep_addresses` table
+const localCepProvider: CepProvider = {
+  lookup: async (cep) => {
+    const { data, error } = await supabase
+      .from('cep_addresses')
+      .select('cep, street, neighborhood, city, state')
+      .eq('cep', cep)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      cep,
+      street: data.street || '',
+      neighborhood: data.neighborhood || '',
+      city: data.city,
+      state: data.state,
+    };
+  },
+};
+
+const providers: Record<string, CepProvider> = {
+  viacep: viaCepProvider,
+  local: localCepProvider,
+};
+
+/**
+ * Register (or replace) a CEP provider
+ */
+export function registerCepProvider(name: CepProviderName | string, provider: CepProvider) {
+  providers[name] = provider;
+}
+
+/**
+ * Look up the address of a CEP using the given provider
+ * Returns null when the CEP is invalid or not found
+ */
+export async function lookupCep(cep: string, providerName: CepProviderName | string = 'viacep'): Promise<CepLookupResult | null> {
+  const digits = normalizeCep(cep);
+  if (digits.length !== 8) return null;
+
+  const provider = providers[providerName] || providers.viacep;
+
+  try {
+    return await provider.lookup(digits);
+  } catch (error) {
+    console.error(`Error looking up CEP with provider "${providerName}":`, error);
+    return null;
+  }
+}
@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import { formatCep } from './cepUtils';
+import type { CheckoutSettings, DeliveryAddress, DeliveryMethod, PaymentPreference } from '@/types';
+import type { SupportedLanguage } from './i18n';
+
+/**
+ * Utility functions for the storefront checkout step
+ */
+
+export const DEFAULT_CHECKOUT_SETTINGS: CheckoutSettings = {
+  enabled: false,
+  requirePhone: true,
+  deliveryMethods: ['pickup', 'delivery'],
+  paymentMethods: ['pix', 'cartao', 'dinheiro'],
+  cepProvider: 'viacep',
+};
+
+export const DELIVERY_METHOD_LABELS: Record<SupportedLanguage, Record<DeliveryMethod, string>> = {
+  'pt-BR': { pickup: 'Retirada', delivery: 'Entrega' },
+  'en-US': { pickup: 'Pickup', delivery: 'Delivery' },
+  'es-ES': { pickup: 'Retiro', delivery: 'Entrega' },
+};
+
+export const PAYMENT_METHOD_LABELS: Record<SupportedLanguage, Record<PaymentPreference, string>> = {
+  'pt-BR': { pix: 'PIX', cartao: 'Cartão', dinheiro: 'Dinheiro' },
+  'en-US': { pix: 'PIX', cartao: 'Card', dinheiro: 'Cash' },
+  'es-ES': { pix: 'PIX', cartao: 'Tarjeta', dinheiro: 'Efectivo' },
+};
+
+/**
+ * Get the label of a delivery method in the given language
+ */
+export function getDeliveryMethodLabel(method: DeliveryMethod, language: SupportedLanguage = 'pt-BR'): string {
+  return (DELIVERY_METHOD_LABELS[language] || DELIVERY_METHOD_LABELS['pt-BR'])[method];
+}
+
+/**
+ * Get the label of a payment method in the given language
+ */
+export function getPaymentMethodLabel(method: PaymentPreference, language: SupportedLanguage = 'pt-BR'): string {
+  return (PAYMENT_METHOD_LABELS[language] || PAYMENT_METHOD_LABELS['pt-BR'])[method];
+}
+
+/**
+ * Format a delivery address as a single line
+ * e.g. Rua A, 123 - Apto 4 - Centro, São Paulo/SP - CEP 01001-000
+ */
+export function formatDeliveryAddress(address: Partial<DeliveryAddress>): string {
+  const street = [address.street, address.number].filter(Boolean).join(', ');
+  const cityState = [address.city, address.state].filter(Boolean).join('/');
+
+  return [
+    street,
+    address.complement,
+    [address.neighborhood, cityState].filter(Boolean).join(', '),
+    address.cep ? `CEP ${formatCep(address.cep)}` : '',
+  ].filter(Boolean).join(' - ');
+}
+
+/**
+ * Load the checkout settings of a storefront, merged with the defaults
+ */
+export async function loadCheckoutSettings(userId: string): Promise<CheckoutSettings> {
+  const { data, error } = await supabase
+    .from('user_storefront_settings')
+    .select('settings')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') throw error;
+
+  return {
+    ...DEFAULT_CHECKOUT_SETTINGS,
+    ...data?.settings?.checkout,
+  };
+}
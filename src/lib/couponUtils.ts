@@ -0,0 +1,134 @@
+import { supabase } from './supabase';
+import { getCartItemUnitPrice } from './cartUtils';
+import { categoriesEqual } from './categoryUtils';
+import type { AppliedCoupon, CartItem, Coupon, DiscountType } from '@/types';
+
+/**
+ * Utility functions for storefront discount coupons
+ */
+
+export const DISCOUNT_TYPES: { value: DiscountType; label: string }[] = [
+  { value: 'percentage', label: 'Porcentagem' },
+  { value: 'fixed', label: 'Valor fixo' },
+];
+
+/**
+ * Coupon codes are stored uppercase without spaces
+ */
+export function normalizeCouponCode(code: string): string {
+  return (code || '').replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Whether a cart item counts towards a coupon restricted to categories
+ */
+export function isItemEligibleForCoupon(item: CartItem, coupon: AppliedCoupon): boolean {
+  if (!coupon.categories?.length) return true;
+
+  return (item.category || []).some(category =>
+    coupon.categories.some(couponCategory => categoriesEqual(category, couponCategory))
+  );
+}
+
+/**
+ * Sum of the cart items the coupon applies to
+ */
+export function getCouponEligibleSubtotal(items: CartItem[], coupon: AppliedCoupon): number {
+  return items
+    .filter(item => isItemEligibleForCoupon(item, coupon))
+    .reduce((sum, item) => sum + getCartItemUnitPrice(item) * item.quantity, 0);
+}
+
+/**
+ * Calculate the discount of a coupon for the cart
+ * Mirrors the calculation done by `create_storefront_order`
+ */
+export function calculateCouponDiscount(items: CartItem[], coupon?: AppliedCoupon | null): number {
+  if (!coupon || items.length === 0) return 0;
+
+  const subtotal = items.reduce((sum, item) => sum + getCartItemUnitPrice(item) * item.quantity, 0);
+  if (subtotal < Number(coupon.min_cart_value || 0)) return 0;
+
+  const eligibleSubtotal = getCouponEligibleSubtotal(items, coupon);
+  if (eligibleSubtotal <= 0) return 0;
+
+  const value = Number(coupon.discount_value);
+
+  if (coupon.discount_type === 'percentage') {
+    return Math.round(eligibleSubtotal * Math.min(value, 100)) / 100;
+  }
+
+  return Math.min(value, eligibleSubtotal);
+}
+
+/**
+ * Validate a coupon code for a storefront
+ * Throws with the reason (invalid, expired or exhausted) when it can't be used
+ */
+export async function validateCoupon(sellerId: string, code: string): Promise<AppliedCoupon> {
+  const { data, error } = await supabase.rpc('validate_coupon', {
+    p_seller_id: sellerId,
+    p_code: normalizeCouponCode(code),
+  });
+
+  if (error) throw error;
+
+  const coupon = Array.isArray(data) ? data[0] : data;
+  if (!coupon) throw new Error('Cupom inválido');
+
+  return {
+    ...coupon,
+    discount_value: Number(coupon.discount_value),
+    min_cart_value: Number(coupon.min_cart_value),
+    categories: coupon.categories || [],
+  };
+}
+
+/**
+ * Load the coupons of a seller, newest first
+ */
+export async function loadCoupons(userId: string): Promise<Coupon[]> {
+  const { data, error } = await supabase
+    .from('coupons')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export type CouponInput = Pick<
+  Coupon,
+  'code' | 'description' | 'discount_type' | 'discount_value' | 'min_cart_value' |
+  'expires_at' | 'usage_limit' | 'categories' | 'is_active'
+>;
+
+/**
+ * Create or update a coupon
+ */
+export async function saveCoupon(userId: string, coupon: CouponInput, couponId?: string): Promise<void> {
+  const payload = {
+    ...coupon,
+    code: normalizeCouponCode(coupon.code),
+  };
+
+  const { error } = couponId
+    ? await supabase.from('coupons').update(payload).eq('id', couponId)
+    : await supabase.from('coupons').insert({ ...payload, user_id: userId });
+
+  if (error) throw error;
+}
+
+/**
+ * Delete a coupon
+ */
+export async function deleteCoupon(couponId: string): Promise<void> {
+  const { error } = await supabase
+    .from('coupons')
+    .delete()
+    .eq('id', couponId);
+
+  if (error) throw error;
+}
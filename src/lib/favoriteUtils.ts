@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+import { getViewerId } from './tracking';
+import { formatCurrencyI18n, t, type SupportedCurrency, type SupportedLanguage } from './i18n';
+import type { FavoriteItem, Product, ProductFavoriteCount } from '@/types';
+
+/**
+ * Utility functions for the storefront favorites
+ */
+
+/**
+ * Snapshot of a product kept in the favorites list
+ */
+export function toFavoriteItem(product: Product): FavoriteItem {
+  return {
+    id: product.id,
+    title: product.title,
+    price: product.price,
+    discounted_price: product.discounted_price,
+    is_starting_price: product.is_starting_price,
+    featured_image_url: product.featured_image_url,
+    added_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Price shown for a favorite, with the discount when there is one
+ */
+export function getFavoriteItemPrice(item: FavoriteItem): number | undefined {
+  return item.price && item.discounted_price && item.discounted_price < item.price
+    ? item.discounted_price
+    : item.price;
+}
+
+/**
+ * Text of the favorites list shared on WhatsApp, with a link to each product
+ */
+export function generateFavoritesShareMessage(
+  items: FavoriteItem[],
+  storefrontUrl: string,
+  currency: SupportedCurrency = 'BRL',
+  language: SupportedLanguage = 'pt-BR'
+): string {
+  const lines = items.map(item => {
+    const price = getFavoriteItemPrice(item);
+    const priceText = price
+      ? ` - ${item.is_starting_price ? t('product.starting_from', language) + ' ' : ''}${formatCurrencyI18n(price, currency, language)}`
+      : '';
+
+    return `• ${item.title}${priceText}\n${storefrontUrl}/produtos/${item.id}`;
+  });
+
+  return [t('favorites.share_intro', language), '', ...lines].join('\n');
+}
+
+/**
+ * Record the favorite anonymously, so the seller sees how many shoppers saved each product
+ */
+export async function setProductFavorite(productId: string, favorited: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_product_favorite', {
+    p_product_id: productId,
+    p_viewer_id: getViewerId(),
+    p_favorited: favorited,
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * The seller's most favorited products
+ */
+export async function loadProductFavoriteCounts(limit = 10): Promise<ProductFavoriteCount[]> {
+  const { data, error } = await supabase.rpc('get_product_favorite_counts', {
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: ProductFavoriteCount) => ({
+    ...row,
+    favorite_count: Number(row.favorite_count),
+  }));
+}
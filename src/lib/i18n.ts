@@ -38,10 +38,29 @@ export const translations = {
     'filters.brand': 'Marca',
     'filters.gender': 'Gênero',
     'filters.condition': 'Condição',
+    'filters.status': 'Status',
+    'filters.size': 'Tamanho',
+    'filters.color': 'Cor',
     'filters.clear_filters': 'Limpar Filtros',
     'filters.apply_filters': 'Aplicar Filtros',
     'filters.refine_search': 'Refine sua busca usando os filtros abaixo',
     
+    // Search
+    'search.suggestions': 'Sugestões',
+    'search.results': 'Resultados da busca',
+    
+    // Sorting
+    'sort.label': 'Ordenar por',
+    'sort.display_order': 'Destaques',
+    'sort.price_asc': 'Menor preço',
+    'sort.price_desc': 'Maior preço',
+    'sort.name_asc': 'Nome (A-Z)',
+    'sort.name_desc': 'Nome (Z-A)',
+    'sort.newest': 'Mais recentes',
+    'sort.oldest': 'Mais antigos',
+    'sort.most_viewed': 'Mais vistos',
+    'sort.most_ordered': 'Mais pedidos',
+    
     // Product details
     'product.starting_from': 'A partir de',
     'product.discount_off': 'OFF',
@@ -51,6 +70,7 @@ export const translations = {
     'product.description': 'Descrição',
     'product.share': 'Compartilhar',
     'product.copy_link': 'Copiar link do produto',
+    'product.promotion_ends_in': 'Termina em',
     
     // Contact and social
     'contact.talk_now': 'Fale agora conosco',
@@ -63,6 +83,8 @@ export const translations = {
     // Messages and states
     'messages.no_products': 'Nenhum produto disponível no momento.',
     'messages.no_results': 'Nenhum produto encontrado com os filtros selecionados.',
+    'messages.no_results_hint': 'Tente ajustar os filtros de busca',
+    'messages.no_products_hint': 'Este vendedor ainda não possui produtos cadastrados',
     'messages.loading_storefront': 'Carregando Vitrine...',
     'messages.user_not_found': 'Usuário não encontrado',
     'messages.error_loading': 'Erro ao carregar vitrine',
@@ -96,6 +118,53 @@ export const translations = {
     'cart.unit_price': 'Preço unitário',
     'cart.order_title': 'PEDIDO DE COMPRA',
     'cart.order_footer': 'Gostaria de finalizar este pedido. Aguardo retorno com informações sobre pagamento e entrega.',
+    
+    // Comparison
+    'compare.toggle': 'Comparar',
+    'compare.selected': 'Comparando',
+    'compare.limit_reached': 'Você pode comparar até 4 produtos',
+    'compare.selected_count': 'selecionados para comparar',
+    'compare.open': 'Comparar',
+    'compare.clear': 'Limpar',
+    'compare.title': 'Comparar produtos',
+    'compare.not_enough': 'Selecione ao menos dois produtos para comparar',
+    'compare.back': 'Voltar para a vitrine',
+    'compare.remove': 'Remover da comparação',
+    'compare.share': 'Compartilhar comparação',
+    'compare.price': 'Preço',
+    'compare.discounted_price': 'Preço com desconto',
+    'compare.offer': 'Promoção',
+    'compare.brand': 'Marca',
+    'compare.model': 'Modelo',
+    'compare.condition': 'Condição',
+    'compare.gender': 'Gênero',
+    'compare.sizes': 'Tamanhos',
+    'compare.colors': 'Cores',
+    'compare.status': 'Disponibilidade',
+    'compare.view_product': 'Ver produto',
+    
+    // Favorites
+    'favorites.title': 'Favoritos',
+    'favorites.add': 'Adicionar aos favoritos',
+    'favorites.remove': 'Remover dos favoritos',
+    'favorites.empty': 'Nenhum produto favoritado ainda',
+    'favorites.empty_hint': 'Toque no coração dos produtos para salvá-los aqui',
+    'favorites.saved_count': 'produtos salvos',
+    'favorites.share_whatsapp': 'Compartilhar no WhatsApp',
+    'favorites.share_intro': 'Olha os produtos que salvei:',
+    'favorites.view_product': 'Ver produto',
+    
+    // Payment conditions
+    'payment.conditions': 'Condições de pagamento',
+    'payment.condition': 'Condição de pagamento',
+    'payment.or': 'ou',
+    'payment.of': 'de',
+    'payment.up_to': 'em até',
+    'payment.interest_free': 'sem juros',
+    'payment.with_interest': 'com juros',
+    'payment.on_pix': 'no PIX',
+    'payment.off': 'de desconto',
+    'payment.total': 'Total',
   },
   
   'en-US': {
@@ -132,10 +201,29 @@ export const translations = {
     'filters.brand': 'Brand',
     'filters.gender': 'Gender',
     'filters.condition': 'Condition',
+    'filters.status': 'Status',
+    'filters.size': 'Size',
+    'filters.color': 'Color',
     'filters.clear_filters': 'Clear Filters',
     'filters.apply_filters': 'Apply Filters',
     'filters.refine_search': 'Refine your search using the filters below',
     
+    // Search
+    'search.suggestions': 'Suggestions',
+    'search.results': 'Search results',
+    
+    // Sorting
+    'sort.label': 'Sort by',
+    'sort.display_order': 'Featured',
+    'sort.price_asc': 'Lowest price',
+    'sort.price_desc': 'Highest price',
+    'sort.name_asc': 'Name (A-Z)',
+    'sort.name_desc': 'Name (Z-A)',
+    'sort.newest': 'Newest',
+    'sort.oldest': 'Oldest',
+    'sort.most_viewed': 'Most viewed',
+    'sort.most_ordered': 'Most ordered',
+    
     // Product details
     'product.starting_from': 'Starting from',
     'product.discount_off': 'OFF',
@@ -145,6 +233,7 @@ export const translations = {
     'product.description': 'Description',
     'product.share': 'Share',
     'product.copy_link': 'Copy product link',
+    'product.promotion_ends_in': 'Ends in',
     
     // Contact and social
     'contact.talk_now': 'Contact us now',
@@ -157,6 +246,8 @@ export const translations = {
     // Messages and states
     'messages.no_products': 'No products available at the moment.',
     'messages.no_results': 'No products found with the selected filters.',
+    'messages.no_results_hint': 'Try adjusting the search filters',
+    'messages.no_products_hint': 'This seller has no products listed yet',
     'messages.loading_storefront': 'Loading Storefront...',
     'messages.user_not_found': 'User not found',
     'messages.error_loading': 'Error loading storefront',
@@ -190,6 +281,53 @@ export const translations = {
     'cart.unit_price': 'Unit price',
     'cart.order_title': 'PURCHASE ORDER',
     'cart.order_footer': 'I would like to finalize this order. I await your response with payment and delivery information.',
+    
+    // Comparison
+    'compare.toggle': 'Compare',
+    'compare.selected': 'Comparing',
+    'compare.limit_reached': 'You can compare up to 4 products',
+    'compare.selected_count': 'selected to compare',
+    'compare.open': 'Compare',
+    'compare.clear': 'Clear',
+    'compare.title': 'Compare products',
+    'compare.not_enough': 'Select at least two products to compare',
+    'compare.back': 'Back to storefront',
+    'compare.remove': 'Remove from comparison',
+    'compare.share': 'Share comparison',
+    'compare.price': 'Price',
+    'compare.discounted_price': 'Discounted price',
+    'compare.offer': 'Promotion',
+    'compare.brand': 'Brand',
+    'compare.model': 'Model',
+    'compare.condition': 'Condition',
+    'compare.gender': 'Gender',
+    'compare.sizes': 'Sizes',
+    'compare.colors': 'Colors',
+    'compare.status': 'Availability',
+    'compare.view_product': 'View product',
+    
+    // Favorites
+    'favorites.title': 'Favorites',
+    'favorites.add': 'Add to favorites',
+    'favorites.remove': 'Remove from favorites',
+    'favorites.empty': 'No favorite products yet',
+    'favorites.empty_hint': 'Tap the heart on products to save them here',
+    'favorites.saved_count': 'saved products',
+    'favorites.share_whatsapp': 'Share on WhatsApp',
+    'favorites.share_intro': 'Check out the products I saved:',
+    'favorites.view_product': 'View product',
+    
+    // Payment conditions
+    'payment.conditions': 'Payment conditions',
+    'payment.condition': 'Payment condition',
+    'payment.or': 'or',
+    'payment.of': 'of',
+    'payment.up_to': 'up to',
+    'payment.interest_free': 'interest-free',
+    'payment.with_interest': 'with interest',
+    'payment.on_pix': 'with PIX',
+    'payment.off': 'off',
+    'payment.total': 'Total',
   },
   
   'es-ES': {
@@ -226,10 +364,29 @@ export const translations = {
     'filters.brand': 'Marca',
     'filters.gender': 'Género',
     'filters.condition': 'Condición',
+    'filters.status': 'Estado',
+    'filters.size': 'Talla',
+    'filters.color': 'Color',
     'filters.clear_filters': 'Limpiar Filtros',
     'filters.apply_filters': 'Aplicar Filtros',
     'filters.refine_search': 'Refina tu búsqueda usando los filtros de abajo',
     
+    // Search
+    'search.suggestions': 'Sugerencias',
+    'search.results': 'Resultados de la búsqueda',
+    
+    // Sorting
+    'sort.label': 'Ordenar por',
+    'sort.display_order': 'Destacados',
+    'sort.price_asc': 'Menor precio',
+    'sort.price_desc': 'Mayor precio',
+    'sort.name_asc': 'Nombre (A-Z)',
+    'sort.name_desc': 'Nombre (Z-A)',
+    'sort.newest': 'Más recientes',
+    'sort.oldest': 'Más antiguos',
+    'sort.most_viewed': 'Más vistos',
+    'sort.most_ordered': 'Más pedidos',
+    
     // Product details
     'product.starting_from': 'Desde',
     'product.discount_off': 'DESC',
@@ -239,6 +396,7 @@ export const translations = {
     'product.description': 'Descripción',
     'product.share': 'Compartir',
     'product.copy_link': 'Copiar enlace del producto',
+    'product.promotion_ends_in': 'Termina en',
     'product.available_colors': 'Colores Disponibles',
     'product.available_sizes': 'Tallas Disponibles',
 
@@ -253,6 +411,8 @@ export const translations = {
     // Messages and states
     'messages.no_products': 'No hay productos disponibles en este momento.',
     'messages.no_results': 'No se encontraron productos con los filtros seleccionados.',
+    'messages.no_results_hint': 'Intenta ajustar los filtros de búsqueda',
+    'messages.no_products_hint': 'Este vendedor aún no tiene productos registrados',
     'messages.loading_storefront': 'Cargando Escaparate...',
     'messages.user_not_found': 'Usuario no encontrado',
     'messages.error_loading': 'Error al cargar escaparate',
@@ -286,6 +446,53 @@ export const translations = {
     'cart.unit_price': 'Precio unitario',
     'cart.order_title': 'ORDEN DE COMPRA',
     'cart.order_footer': 'Me gustaría finalizar este pedido. Espero su respuesta con información de pago y entrega.',
+    
+    // Comparison
+    'compare.toggle': 'Comparar',
+    'compare.selected': 'Comparando',
+    'compare.limit_reached': 'Puedes comparar hasta 4 productos',
+    'compare.selected_count': 'seleccionados para comparar',
+    'compare.open': 'Comparar',
+    'compare.clear': 'Limpiar',
+    'compare.title': 'Comparar productos',
+    'compare.not_enough': 'Selecciona al menos dos productos para comparar',
+    'compare.back': 'Volver a la tienda',
+    'compare.remove': 'Quitar de la comparación',
+    'compare.share': 'Compartir comparación',
+    'compare.price': 'Precio',
+    'compare.discounted_price': 'Precio con descuento',
+    'compare.offer': 'Promoción',
+    'compare.brand': 'Marca',
+    'compare.model': 'Modelo',
+    'compare.condition': 'Condición',
+    'compare.gender': 'Género',
+    'compare.sizes': 'Tallas',
+    'compare.colors': 'Colores',
+    'compare.status': 'Disponibilidad',
+    'compare.view_product': 'Ver producto',
+    
+    // Favorites
+    'favorites.title': 'Favoritos',
+    'favorites.add': 'Agregar a favoritos',
+    'favorites.remove': 'Quitar de favoritos',
+    'favorites.empty': 'Aún no hay productos favoritos',
+    'favorites.empty_hint': 'Toca el corazón de los productos para guardarlos aquí',
+    'favorites.saved_count': 'productos guardados',
+    'favorites.share_whatsapp': 'Compartir en WhatsApp',
+    'favorites.share_intro': 'Mira los productos que guardé:',
+    'favorites.view_product': 'Ver producto',
+    
+    // Payment conditions
+    'payment.conditions': 'Condiciones de pago',
+    'payment.condition': 'Condición de pago',
+    'payment.or': 'o',
+    'payment.of': 'de',
+    'payment.up_to': 'hasta',
+    'payment.interest_free': 'sin interés',
+    'payment.with_interest': 'con interés',
+    'payment.on_pix': 'con PIX',
+    'payment.off': 'de descuento',
+    'payment.total': 'Total',
   },
 };
 
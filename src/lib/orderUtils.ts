@@ -0,0 +1,148 @@
+import { supabase } from './supabase';
+import type {
+  CartItem,
+  DeliveryAddress,
+  DeliveryMethod,
+  Order,
+  OrderStatus,
+  PaymentPreference,
+  ShippingDestination,
+} from '@/types';
+import type { SupportedCurrency, SupportedLanguage } from './i18n';
+
+/**
+ * Utility functions for storefront orders
+ */
+
+export const ORDER_STATUSES: { value: OrderStatus; label: string; className: string }[] = [
+  { value: 'novo', label: 'Novo', className: 'bg-blue-100 text-blue-800' },
+  { value: 'confirmado', label: 'Confirmado', className: 'bg-indigo-100 text-indigo-800' },
+  { value: 'pago', label: 'Pago', className: 'bg-green-100 text-green-800' },
+  { value: 'enviado', label: 'Enviado', className: 'bg-amber-100 text-amber-800' },
+  { value: 'entregue', label: 'Entregue', className: 'bg-emerald-100 text-emerald-800' },
+  { value: 'cancelado', label: 'Cancelado', className: 'bg-red-100 text-red-800' },
+];
+
+/**
+ * Get the display info of an order status
+ */
+export function getOrderStatusInfo(status: OrderStatus) {
+  return ORDER_STATUSES.find(s => s.value === status) || ORDER_STATUSES[0];
+}
+
+/**
+ * Format an order number for display (e.g. #0042)
+ */
+export function formatOrderNumber(orderNumber: number): string {
+  return `#${orderNumber.toString().padStart(4, '0')}`;
+}
+
+interface CreateOrderParams {
+  sellerId: string;
+  items: CartItem[];
+  customerName?: string;
+  customerPhone?: string;
+  currency?: SupportedCurrency;
+  language?: SupportedLanguage;
+  deliveryMethod?: DeliveryMethod;
+  address?: DeliveryAddress;
+  paymentMethod?: PaymentPreference;
+  shippingDestination?: ShippingDestination; // Device location, and the address without the checkout form
+  couponCode?: string;
+}
+
+// Totals of a saved order, as calculated by the database
+export type CreatedOrder = Pick<
+  Order,
+  'id' | 'order_number' | 'subtotal' | 'discount' | 'shipping_fee' | 'total' | 'coupon_code'
+>;
+
+/**
+ * Save a cart submission as an order
+ * Prices, shipping and the coupon discount are recalculated server-side,
+ * shipping from the delivery address saved with the order
+ */
+export async function createOrder({
+  sellerId,
+  items,
+  customerName,
+  customerPhone,
+  currency = 'BRL',
+  language = 'pt-BR',
+  deliveryMethod,
+  address,
+  paymentMethod,
+  shippingDestination,
+  couponCode,
+}: CreateOrderParams): Promise<CreatedOrder> {
+  const { data, error } = await supabase.rpc('create_storefront_order', {
+    p_seller_id: sellerId,
+    p_items: items.map(item => ({
+      product_id: item.id,
+      color: item.selectedColor || '',
+      size: item.selectedSize || '',
+      quantity: item.quantity,
+      notes: item.notes || '',
+    })),
+    p_customer_name: customerName || null,
+    p_customer_phone: customerPhone || null,
+    p_currency: currency,
+    p_language: language,
+    p_checkout: {
+      delivery_method: deliveryMethod || null,
+      delivery_address: deliveryMethod === 'delivery' ? address || null : null,
+      payment_method: paymentMethod || null,
+      shipping_destination: deliveryMethod === 'delivery' ? shippingDestination || null : null,
+      coupon_code: couponCode || null,
+    },
+  });
+
+  if (error) throw error;
+
+  const order = Array.isArray(data) ? data[0] : data;
+  if (!order) throw new Error('Pedido não foi criado');
+
+  return {
+    ...order,
+    subtotal: Number(order.subtotal),
+    discount: Number(order.discount),
+    shipping_fee: Number(order.shipping_fee),
+    total: Number(order.total),
+  };
+}
+
+/**
+ * Load the orders of a seller, newest first
+ */
+export async function loadOrders(userId: string, status?: OrderStatus): Promise<Order[]> {
+  let query = supabase
+    .from('orders')
+    .select(`
+      *,
+      order_items (*)
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Move an order to a new status
+ */
+export async function updateOrderStatus(orderId: string, status: OrderStatus): Promise<void> {
+  const { error } = await supabase
+    .from('orders')
+    .update({ status })
+    .eq('id', orderId);
+
+  if (error) throw error;
+}
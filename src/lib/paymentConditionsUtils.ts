@@ -0,0 +1,147 @@
+import { supabase } from './supabase';
+import { formatCurrencyI18n, t, type SupportedCurrency, type SupportedLanguage } from './i18n';
+import type { PaymentConditionOption, PaymentConditionsSettings, StorefrontDisplaySettings } from '@/types';
+
+/**
+ * Utility functions for installments and PIX payment conditions
+ */
+
+export const MAX_INSTALLMENTS = 24;
+
+export const DEFAULT_PAYMENT_CONDITIONS: PaymentConditionsSettings = {
+  enabled: false,
+  maxInstallments: 12,
+  interestFreeInstallments: 3,
+  interestRates: [],
+  pixDiscount: 0,
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Merge stored payment conditions with the defaults
+ * Accepts the stored storefront settings or the ones merged by useProductData
+ * Returns null when the seller doesn't show payment conditions
+ */
+export function getPaymentConditions(
+  settings?: Pick<StorefrontDisplaySettings, 'paymentConditions'> | null
+): PaymentConditionsSettings | null {
+  const conditions: PaymentConditionsSettings = {
+    ...DEFAULT_PAYMENT_CONDITIONS,
+    ...settings?.paymentConditions,
+  };
+
+  return conditions.enabled ? conditions : null;
+}
+
+/**
+ * Monthly interest rate (%) for an installment count
+ */
+export function getInstallmentRate(conditions: PaymentConditionsSettings, installments: number): number {
+  if (installments <= conditions.interestFreeInstallments) return 0;
+
+  return conditions.interestRates.find(rate => rate.installments === installments)?.rate || 0;
+}
+
+/**
+ * Installment value of an amount, with compound monthly interest (Price table)
+ */
+export function calculateInstallment(amount: number, installments: number, monthlyRate: number): PaymentConditionOption {
+  const rate = monthlyRate / 100;
+  const installmentValue = rate > 0
+    ? roundCurrency((amount * rate) / (1 - Math.pow(1 + rate, -installments)))
+    : roundCurrency(amount / installments);
+
+  return {
+    method: 'installments',
+    installments,
+    installmentValue,
+    total: rate > 0 ? roundCurrency(installmentValue * installments) : amount,
+    interestFree: rate <= 0,
+  };
+}
+
+/**
+ * Every installment option of an amount, from 1x to the seller's maximum
+ */
+export function getInstallmentOptions(amount: number, conditions: PaymentConditionsSettings): PaymentConditionOption[] {
+  if (amount <= 0) return [];
+
+  const maxInstallments = Math.min(Math.max(1, conditions.maxInstallments), MAX_INSTALLMENTS);
+
+  return Array.from({ length: maxInstallments }, (_, index) =>
+    calculateInstallment(amount, index + 1, getInstallmentRate(conditions, index + 1))
+  );
+}
+
+/**
+ * Installment option highlighted with the price: the longest interest-free one,
+ * or the longest one when only a single payment is interest-free
+ */
+export function getHighlightedInstallment(
+  amount: number,
+  conditions: PaymentConditionsSettings
+): PaymentConditionOption | null {
+  const options = getInstallmentOptions(amount, conditions);
+  const interestFree = options.filter(option => option.interestFree);
+  const highlighted = interestFree.length > 1 ? interestFree[interestFree.length - 1] : options[options.length - 1];
+
+  return highlighted && highlighted.installments > 1 ? highlighted : null;
+}
+
+/**
+ * PIX option of an amount, or null when the seller offers no PIX discount
+ */
+export function getPixOption(amount: number, conditions: PaymentConditionsSettings): PaymentConditionOption | null {
+  if (amount <= 0 || conditions.pixDiscount <= 0) return null;
+
+  const total = roundCurrency(amount * (1 - Math.min(conditions.pixDiscount, 100) / 100));
+
+  return { method: 'pix', installments: 1, installmentValue: total, total, interestFree: true };
+}
+
+/**
+ * Every payment option of an amount, PIX first
+ */
+export function getPaymentOptions(amount: number, conditions: PaymentConditionsSettings): PaymentConditionOption[] {
+  const pix = getPixOption(amount, conditions);
+
+  return [...(pix ? [pix] : []), ...getInstallmentOptions(amount, conditions)];
+}
+
+/**
+ * Describe a payment option, e.g. "3x de R$ 33,33 sem juros" or "R$ 95,00 no PIX (5% de desconto)"
+ */
+export function formatPaymentCondition(
+  option: PaymentConditionOption,
+  conditions: PaymentConditionsSettings,
+  currency: SupportedCurrency = 'BRL',
+  language: SupportedLanguage = 'pt-BR'
+): string {
+  const format = (value: number) => formatCurrencyI18n(value, currency, language);
+
+  if (option.method === 'pix') {
+    return `${format(option.total)} ${t('payment.on_pix', language)} (${conditions.pixDiscount}% ${t('payment.off', language)})`;
+  }
+
+  const installments = `${option.installments}x ${t('payment.of', language)} ${format(option.installmentValue)}`;
+
+  return option.interestFree
+    ? `${installments} ${t('payment.interest_free', language)}`
+    : `${installments} ${t('payment.with_interest', language)} (${t('payment.total', language)} ${format(option.total)})`;
+}
+
+/**
+ * Load the payment conditions of a storefront, or null when they are not shown
+ */
+export async function loadPaymentConditions(userId: string): Promise<PaymentConditionsSettings | null> {
+  const { data, error } = await supabase
+    .from('user_storefront_settings')
+    .select('settings')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') throw error;
+
+  return getPaymentConditions(data?.settings);
+}
@@ -0,0 +1,143 @@
+import { supabase } from './supabase';
+import type { Product, ProductImage, ProductVariant } from '@/types';
+
+/**
+ * Utility functions for duplicating products in the seller dashboard
+ */
+
+/**
+ * Copy an image of the `public` bucket to a new file of the duplicated product
+ */
+async function copyProductImage(url: string, productId: string, index: number): Promise<string> {
+  const fileName = url.split('/').pop()?.split('?')[0];
+  if (!fileName) {
+    throw new Error('Imagem inválida');
+  }
+
+  const fileExt = fileName.split('.').pop() || 'jpg';
+  const filePath = `products/${productId}-${index}-${Math.random()}.${fileExt}`;
+
+  const { error: copyError } = await supabase.storage
+    .from('public')
+    .copy(`products/${fileName}`, filePath);
+
+  if (copyError) throw copyError;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('public')
+    .getPublicUrl(filePath);
+
+  return publicUrl;
+}
+
+/**
+ * Duplicate a product with its categories, images and variants
+ * The copy starts hidden from the storefront so it can be reviewed before publishing
+ */
+export async function duplicateProduct(productId: string): Promise<Product> {
+  const { data: product, error: loadError } = await supabase
+    .from('products')
+    .select(`
+      *,
+      product_images (
+        url,
+        is_featured
+      ),
+      product_variants (
+        color,
+        size,
+        sku,
+        stock_quantity,
+        price
+      )
+    `)
+    .eq('id', productId)
+    .single();
+
+  if (loadError) throw loadError;
+
+  const { data: copy, error: insertError } = await supabase
+    .from('products')
+    .insert({
+      user_id: product.user_id,
+      title: `${product.title} (cópia)`,
+      description: product.description,
+      price: product.price,
+      discounted_price: product.discounted_price,
+      status: 'disponivel',
+      category: product.category,
+      brand: product.brand,
+      model: product.model,
+      gender: product.gender,
+      condition: product.condition,
+      video_url: product.video_url,
+      featured_offer_price: product.featured_offer_price,
+      featured_offer_installment: product.featured_offer_installment,
+      featured_offer_description: product.featured_offer_description,
+      is_starting_price: product.is_starting_price,
+      short_description: product.short_description,
+      is_visible_on_storefront: false,
+      external_checkout_url: product.external_checkout_url,
+      colors: product.colors,
+      sizes: product.sizes,
+      display_order: product.display_order,
+    })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+
+  // SKUs are unique per product, so the variants are copied as they are
+  const variants = product.product_variants || [];
+  if (variants.length > 0) {
+    const { error: variantsError } = await supabase
+      .from('product_variants')
+      .insert(variants.map((variant: ProductVariant) => ({
+        product_id: copy.id,
+        color: variant.color,
+        size: variant.size,
+        sku: variant.sku,
+        stock_quantity: variant.stock_quantity,
+        price: variant.price,
+      })));
+
+    if (variantsError) throw variantsError;
+  }
+
+  const images: ProductImage[] = product.product_images || [];
+  let featuredImageUrl: string | null = null;
+
+  for (let i = 0; i < images.length; i++) {
+    try {
+      const publicUrl = await copyProductImage(images[i].url, copy.id, i);
+
+      const { error: imageError } = await supabase
+        .from('product_images')
+        .insert({
+          product_id: copy.id,
+          url: publicUrl,
+          is_featured: images[i].is_featured,
+        });
+
+      if (imageError) throw imageError;
+
+      if (images[i].is_featured || (!featuredImageUrl && images[i].url === product.featured_image_url)) {
+        featuredImageUrl = publicUrl;
+      }
+    } catch (error) {
+      // The copy is kept without the image, the seller can add it again
+      console.error(`Error copying image ${images[i].url}:`, error);
+    }
+  }
+
+  if (featuredImageUrl) {
+    const { error: updateError } = await supabase
+      .from('products')
+      .update({ featured_image_url: featuredImageUrl })
+      .eq('id', copy.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return { ...copy, featured_image_url: featuredImageUrl ?? undefined };
+}
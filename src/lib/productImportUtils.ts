@@ -0,0 +1,415 @@
+import { supabase } from './supabase';
+import { productFormSchema } from './productSchema';
+import {
+  normalizeCategoryNameForComparison,
+  validateAndSanitizeCategories,
+} from './categoryUtils';
+import type { SpreadsheetRows } from './spreadsheetUtils';
+import type { ProductGender, ProductStatus } from '@/types';
+
+/**
+ * Utility functions for importing products from CSV/XLSX spreadsheets
+ */
+
+export type ImportField =
+  | 'title'
+  | 'description'
+  | 'short_description'
+  | 'price'
+  | 'discounted_price'
+  | 'category'
+  | 'brand'
+  | 'gender'
+  | 'condition'
+  | 'colors'
+  | 'sizes'
+  | 'status'
+  | 'images';
+
+export const IMPORT_FIELDS: { value: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { value: 'title', label: 'Nome', required: true, aliases: ['title', 'titulo', 'nome', 'name', 'produto'] },
+  { value: 'description', label: 'Descrição', aliases: ['description', 'descricao'] },
+  { value: 'short_description', label: 'Descrição breve', aliases: ['short_description', 'descricao breve', 'descricao curta', 'chamada'] },
+  { value: 'price', label: 'Preço', aliases: ['price', 'preco', 'valor'] },
+  { value: 'discounted_price', label: 'Preço com desconto', aliases: ['discounted_price', 'preco com desconto', 'preco promocional', 'desconto'] },
+  { value: 'category', label: 'Categorias', required: true, aliases: ['category', 'categories', 'categoria', 'categorias'] },
+  { value: 'brand', label: 'Marca', aliases: ['brand', 'marca'] },
+  { value: 'gender', label: 'Gênero', aliases: ['gender', 'genero'] },
+  { value: 'condition', label: 'Condição', aliases: ['condition', 'condicao', 'estado'] },
+  { value: 'colors', label: 'Cores', aliases: ['colors', 'cores', 'cor', 'color'] },
+  { value: 'sizes', label: 'Tamanhos', aliases: ['sizes', 'tamanhos', 'tamanho', 'size'] },
+  { value: 'status', label: 'Status', aliases: ['status', 'situacao'] },
+  { value: 'images', label: 'Imagens (URLs)', aliases: ['images', 'imagens', 'image_urls', 'fotos', 'imagem', 'image'] },
+];
+
+// Spreadsheet column index for each field
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportProductData {
+  title: string;
+  description: string;
+  short_description: string | null;
+  price: number | null;
+  discounted_price: number | null;
+  category: string[];
+  brand: string | null;
+  gender: ProductGender | null;
+  condition: 'novo' | 'usado' | 'seminovo';
+  colors: string[] | null;
+  sizes: string[] | null;
+  status: ProductStatus;
+  imageUrls: string[];
+}
+
+export interface ImportRow {
+  rowNumber: number; // Row in the spreadsheet, counting the header
+  data: ImportProductData | null;
+  errors: string[];
+}
+
+const GENDERS: Record<string, ProductGender> = {
+  masculino: 'masculino',
+  male: 'masculino',
+  feminino: 'feminino',
+  female: 'feminino',
+  unissex: 'unissex',
+  unisex: 'unissex',
+};
+
+const CONDITIONS: Record<string, ImportProductData['condition']> = {
+  novo: 'novo',
+  new: 'novo',
+  usado: 'usado',
+  used: 'usado',
+  seminovo: 'seminovo',
+  'semi-novo': 'seminovo',
+  'semi novo': 'seminovo',
+};
+
+const STATUSES: Record<string, ProductStatus> = {
+  disponivel: 'disponivel',
+  available: 'disponivel',
+  vendido: 'vendido',
+  sold: 'vendido',
+  reservado: 'reservado',
+  reserved: 'reservado',
+};
+
+/**
+ * Lowercase and remove accents to compare spreadsheet values
+ */
+function normalizeValue(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Split a list cell such as "Camisetas; Verão"
+ */
+export function splitListValue(value: string): string[] {
+  return (value || '')
+    .split(/[;|,\n]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a price written as 1234.56, 1.234,56 or R$ 1.234,56
+ */
+export function parseImportPrice(value: string): number | null {
+  let text = (value || '').replace(/[^\d.,-]/g, '');
+  if (!text) return null;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  if (lastComma > lastDot) {
+    // 1.234,56
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (lastComma >= 0) {
+    // 1,234.56
+    text = text.replace(/,/g, '');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(text)) {
+    // 1.234 (thousands separator only)
+    text = text.replace(/\./g, '');
+  }
+
+  const result = parseFloat(text);
+  return isNaN(result) ? null : result;
+}
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export function detectColumnMapping(header: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const normalizedHeader = header.map(column => normalizeValue(column).replace(/[_-]+/g, ' '));
+
+  IMPORT_FIELDS.forEach(field => {
+    const aliases = field.aliases.map(alias => alias.replace(/_/g, ' '));
+    const index = normalizedHeader.findIndex(column => aliases.includes(column));
+
+    if (index >= 0 && !Object.values(mapping).includes(index)) {
+      mapping[field.value] = index;
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Validate a spreadsheet row with the same rules as the product form
+ */
+export function parseImportRow(row: string[], mapping: ImportColumnMapping, rowNumber: number): ImportRow {
+  const cell = (field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] || '').trim();
+  };
+
+  const errors: string[] = [];
+
+  const title = cell('title');
+  const categories = splitListValue(cell('category'));
+  const colors = splitListValue(cell('colors'));
+  const sizes = splitListValue(cell('sizes'));
+  const genderValue = cell('gender');
+  const conditionValue = cell('condition');
+  const statusValue = cell('status');
+
+  const gender = genderValue ? GENDERS[normalizeValue(genderValue)] : undefined;
+  if (genderValue && !gender) {
+    errors.push(`Gênero inválido: ${genderValue}`);
+  }
+
+  const condition = conditionValue ? CONDITIONS[normalizeValue(conditionValue)] : 'novo';
+  if (!condition) {
+    errors.push(`Condição inválida: ${conditionValue}`);
+  }
+
+  const status = statusValue ? STATUSES[normalizeValue(statusValue)] : 'disponivel';
+  if (!status) {
+    errors.push(`Status inválido: ${statusValue}`);
+  }
+
+  const price = parseImportPrice(cell('price'));
+  const discountedPrice = parseImportPrice(cell('discounted_price'));
+
+  const validation = productFormSchema.safeParse({
+    title,
+    categories,
+    brand: cell('brand') || undefined,
+    gender,
+    colors,
+    custom_sizes: sizes,
+    price: price !== null ? String(price) : undefined,
+    discounted_price: discountedPrice !== null ? String(discountedPrice) : undefined,
+    short_description: cell('short_description') || undefined,
+    // The description is required by the form, the title is used when the column is empty
+    description: cell('description') || title,
+    is_visible_on_storefront: true,
+    external_checkout_url: '',
+  });
+
+  if (!validation.success) {
+    validation.error.issues.forEach(issue => errors.push(issue.message));
+  }
+
+  const categoryValidation = validateAndSanitizeCategories(categories);
+  if (categoryValidation.invalid.length > 0) {
+    errors.push(`Categorias inválidas: ${categoryValidation.invalid.join(', ')}`);
+  }
+
+  if (cell('price') && (!price || price <= 0)) {
+    errors.push('Preço inválido');
+  }
+
+  if (cell('discounted_price') && discountedPrice === null) {
+    errors.push('Preço com desconto inválido');
+  }
+
+  if (discountedPrice && price && discountedPrice >= price) {
+    errors.push('O preço com desconto deve ser menor que o preço original');
+  }
+
+  const imageUrls = splitListValue(cell('images')).filter(url => /^https?:\/\//i.test(url));
+  if (cell('images') && imageUrls.length === 0) {
+    errors.push('Nenhuma URL de imagem válida');
+  }
+
+  if (errors.length > 0) {
+    return { rowNumber, data: null, errors };
+  }
+
+  return {
+    rowNumber,
+    errors,
+    data: {
+      title,
+      description: cell('description') || title,
+      short_description: cell('short_description') || null,
+      price,
+      discounted_price: discountedPrice,
+      category: categoryValidation.valid,
+      brand: cell('brand') || null,
+      gender: gender || null,
+      condition: condition!,
+      colors: colors.length > 0 ? colors : null,
+      sizes: sizes.length > 0 ? sizes : null,
+      status: status!,
+      imageUrls,
+    },
+  };
+}
+
+/**
+ * Validate every row of a spreadsheet (the first row is the header)
+ */
+export function parseImportRows(rows: SpreadsheetRows, mapping: ImportColumnMapping): ImportRow[] {
+  return rows.slice(1).map((row, index) => parseImportRow(row, mapping, index + 2));
+}
+
+/**
+ * How many products the seller can still create within `listing_limit`
+ * Returns null when the seller has no limit
+ */
+export async function getRemainingListings(userId: string, listingLimit?: number | null): Promise<number | null> {
+  if (listingLimit === undefined || listingLimit === null) return null;
+
+  const { count, error } = await supabase
+    .from('products')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return Math.max(listingLimit - (count || 0), 0);
+}
+
+/**
+ * Create the categories used by the imported products that the seller doesn't have yet
+ */
+export async function createMissingCategories(userId: string, categories: string[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('user_product_categories')
+    .select('name')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const existing = new Set((data || []).map(category => normalizeCategoryNameForComparison(category.name)));
+  const missing = validateAndSanitizeCategories(categories).valid
+    .filter(category => !existing.has(normalizeCategoryNameForComparison(category)));
+
+  if (missing.length > 0) {
+    const { error: insertError } = await supabase
+      .from('user_product_categories')
+      .insert(missing.map(name => ({ name, user_id: userId })));
+
+    if (insertError) throw insertError;
+  }
+
+  return missing;
+}
+
+interface ImportedImage {
+  url: string;
+  publicUrl: string | null;
+  error?: string;
+}
+
+/**
+ * Download the remote images of a product into the storage
+ * The download runs in the `import-product-images` edge function, since most sites
+ * block the browser from fetching their images (CORS)
+ */
+async function importProductImages(productId: string, urls: string[]): Promise<ImportedImage[]> {
+  const { data, error } = await supabase.functions.invoke('import-product-images', {
+    body: { productId, urls },
+  });
+
+  if (error) throw error;
+  if (data?.error) {
+    throw new Error(data.error.message || 'Erro ao importar imagens');
+  }
+
+  return data.images || [];
+}
+
+/**
+ * Create an imported product and its images
+ * Returns the images that couldn't be downloaded; the product is kept without them
+ */
+export async function createImportedProduct(userId: string, data: ImportProductData): Promise<string[]> {
+  const { imageUrls, ...productData } = data;
+
+  const { data: product, error: productError } = await supabase
+    .from('products')
+    .insert({
+      ...productData,
+      is_starting_price: false,
+      is_visible_on_storefront: true,
+      user_id: userId,
+    })
+    .select('id')
+    .single();
+
+  if (productError) throw productError;
+
+  const failedImages: string[] = [];
+  let featuredImageUrl: string | null = null;
+
+  if (imageUrls.length === 0) return failedImages;
+
+  let images: ImportedImage[];
+  try {
+    images = await importProductImages(product.id, imageUrls);
+  } catch (error) {
+    console.error('Error importing product images:', error);
+    return imageUrls;
+  }
+
+  for (const image of images) {
+    try {
+      if (!image.publicUrl) {
+        throw new Error(image.error || 'Erro ao baixar imagem');
+      }
+
+      const { error: imageError } = await supabase
+        .from('product_images')
+        .insert({
+          product_id: product.id,
+          url: image.publicUrl,
+          is_featured: featuredImageUrl === null,
+        });
+
+      if (imageError) throw imageError;
+
+      featuredImageUrl = featuredImageUrl ?? image.publicUrl;
+    } catch (error) {
+      console.error(`Error importing image ${image.url}:`, error);
+      failedImages.push(image.url);
+    }
+  }
+
+  if (featuredImageUrl) {
+    const { error: updateError } = await supabase
+      .from('products')
+      .update({ featured_image_url: featuredImageUrl })
+      .eq('id', product.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return failedImages;
+}
+
+/**
+ * Example spreadsheet offered for download in the import page
+ */
+export const IMPORT_TEMPLATE_ROWS: SpreadsheetRows = [
+  ['nome', 'descricao', 'preco', 'preco_com_desconto', 'categorias', 'marca', 'genero', 'condicao', 'cores', 'tamanhos', 'status', 'imagens'],
+  ['Camiseta Básica', 'Camiseta 100% algodão', '79,90', '59,90', 'Camisetas; Básicos', 'Minha Marca', 'unissex', 'novo', 'Preto; Branco', 'P; M; G', 'disponivel', 'https://exemplo.com/camiseta.jpg'],
+];
@@ -0,0 +1,64 @@
+import * as z from 'zod';
+import { productVariantSchema } from './variantUtils';
+
+/**
+ * Validation schema shared by the product form and the product import
+ * Prices are kept as strings, the same way the form inputs return them
+ */
+export const productFormSchema = z.object({
+  title: z.string().min(1, 'Nome do produto é obrigatório'),
+  categories: z.array(z.string()).min(1, 'Adicione pelo menos uma categoria'),
+  brand: z.string().optional(),
+  gender: z.enum(['masculino', 'feminino', 'unissex']).optional(),
+  colors: z.array(z.string()).optional(),
+  apparel_sizes: z.array(z.string()).optional(),
+  shoe_sizes: z.array(z.string()).optional(),
+  custom_sizes: z.array(z.string()).optional(),
+  price: z.string().optional(),
+  discounted_price: z.string().optional(),
+  is_starting_price: z.boolean().default(false),
+  short_description: z.string().max(60, 'Descrição breve muito longa (máx. 60 caracteres)').optional(),
+  description: z.string().min(1, 'Descrição completa é obrigatória'),
+  is_visible_on_storefront: z.boolean().default(true),
+  external_checkout_url: z.string().url('URL inválida').optional().or(z.literal('')),
+  variants: z.array(productVariantSchema).default([]),
+});
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+const APPAREL_SIZES = ['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'];
+
+/**
+ * Distribute the sizes saved on a product among the size fields of the form
+ */
+export function splitProductSizes(sizes: string[]): Pick<ProductFormValues, 'apparel_sizes' | 'shoe_sizes' | 'custom_sizes'> {
+  const apparelSizes: string[] = [];
+  const shoeSizes: string[] = [];
+  const customSizes: string[] = [];
+
+  sizes.forEach(size => {
+    // Numeric sizes in the shoe size range
+    const numericSize = parseInt(size);
+    if (!isNaN(numericSize) && numericSize >= 17 && numericSize <= 43) {
+      shoeSizes.push(size);
+    } else if (APPAREL_SIZES.includes(size)) {
+      apparelSizes.push(size);
+    } else {
+      // Anything that doesn't fit the standard sizes
+      customSizes.push(size);
+    }
+  });
+
+  return {
+    apparel_sizes: apparelSizes,
+    shoe_sizes: shoeSizes,
+    custom_sizes: customSizes,
+  };
+}
+
+/**
+ * Merge the size fields of the form into the list saved on the product
+ */
+export function joinProductSizes(values: Pick<ProductFormValues, 'apparel_sizes' | 'shoe_sizes' | 'custom_sizes'>): string[] {
+  return [...(values.apparel_sizes || []), ...(values.shoe_sizes || []), ...(values.custom_sizes || [])];
+}
@@ -0,0 +1,72 @@
+import { supabase } from './supabase';
+import { loadStorefrontProductsByIds } from './storefrontCatalogUtils';
+import type { Product } from '@/types';
+
+/**
+ * Utility functions for the storefront product search
+ */
+
+// Shorter queries are ignored by `search_storefront_products`
+export const SEARCH_MIN_QUERY_LENGTH = 2;
+
+// Delay before searching while the customer types
+export const SEARCH_DEBOUNCE_MS = 250;
+
+// Time the results of a query stay on screen before the search is tracked
+export const SEARCH_TRACKING_DELAY_MS = 2000;
+
+// Products of the search results loaded per page
+export const SEARCH_PAGE_SIZE = 24;
+
+// A page of the products matching a query, best match first
+export interface ProductSearchPage {
+  query: string;
+  products: Product[];
+  total: number; // Products matching the query, across every page
+  nextOffset: number; // Offset of the next page
+}
+
+/**
+ * Lowercase text without accents, used to compare search terms
+ */
+export function normalizeSearchText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Search the visible products of a storefront on the server
+ * Uses full-text search in the storefront language with typo tolerance
+ * and returns one page of the matching products, best match first
+ */
+export async function searchStorefrontProducts(
+  sellerId: string,
+  query: string,
+  offset = 0,
+  limit = SEARCH_PAGE_SIZE
+): Promise<ProductSearchPage> {
+  const { data, error } = await supabase.rpc('search_storefront_products', {
+    p_user_id: sellerId,
+    p_query: query,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) throw error;
+
+  const rows: { product_id: string; total_count: number }[] = data || [];
+  const products = await loadStorefrontProductsByIds(
+    sellerId,
+    rows.map(row => row.product_id)
+  );
+
+  return {
+    query,
+    products,
+    total: rows.length > 0 ? Number(rows[0].total_count) : offset,
+    nextOffset: offset + rows.length,
+  };
+}
@@ -0,0 +1,57 @@
+import { supabase } from './supabase';
+import { getTotalStock } from './variantUtils';
+import type { InventorySettings, Product, ProductStatus } from '@/types';
+
+/**
+ * Utility functions for automatic product status rules
+ * The database keeps `status` in sync with stock; these helpers cover what
+ * the storefront must reflect before the next write (e.g. expired reservations)
+ */
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettings = {
+  reserveOnOrder: false,
+  reservationHours: 24,
+};
+
+/**
+ * Returns the status a product should be shown with
+ * Sold out stock wins over the stored status and expired reservations are released
+ */
+export function getEffectiveStatus(
+  product: Pick<Product, 'status' | 'reserved_until' | 'product_variants'>
+): ProductStatus {
+  if (getTotalStock(product) === 0) {
+    return 'vendido';
+  }
+
+  if (
+    product.status === 'reservado' &&
+    product.reserved_until &&
+    new Date(product.reserved_until).getTime() <= Date.now()
+  ) {
+    return 'disponivel';
+  }
+
+  return product.status;
+}
+
+/**
+ * Applies the effective status to a list of products
+ */
+export function withEffectiveStatus<T extends Product>(products: T[]): T[] {
+  return products.map(product => {
+    const status = getEffectiveStatus(product);
+    return status === product.status ? product : { ...product, status };
+  });
+}
+
+/**
+ * Release automatic reservations that already expired
+ */
+export async function releaseExpiredReservations(): Promise<void> {
+  const { error } = await supabase.rpc('release_expired_reservations');
+
+  if (error) {
+    console.error('Error releasing expired reservations:', error);
+  }
+}
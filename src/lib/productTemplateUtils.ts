@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+import { joinProductSizes, splitProductSizes, type ProductFormValues } from './productSchema';
+import type { ProductTemplate } from '@/types';
+
+/**
+ * Utility functions for the reusable product templates of the seller dashboard
+ */
+
+/**
+ * Load the templates of a seller in alphabetical order
+ */
+export async function loadProductTemplates(userId: string): Promise<ProductTemplate[]> {
+  const { data, error } = await supabase
+    .from('product_templates')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export type ProductTemplateInput = Pick<
+  ProductTemplate,
+  'name' | 'brand' | 'gender' | 'categories' | 'colors' | 'sizes' | 'short_description' | 'description'
+>;
+
+/**
+ * Build a template from the current values of the product form
+ * Title, prices and stock are specific to each product and are left out
+ */
+export function getTemplateFromFormValues(name: string, values: ProductFormValues): ProductTemplateInput {
+  return {
+    name: name.trim(),
+    brand: values.brand?.trim() || null,
+    gender: values.gender || null,
+    categories: values.categories || [],
+    colors: values.colors || [],
+    sizes: joinProductSizes(values),
+    short_description: values.short_description?.trim() || null,
+    description: values.description || null,
+  };
+}
+
+/**
+ * Form fields pre-filled by a template
+ */
+export function getFormValuesFromTemplate(template: ProductTemplate): Partial<ProductFormValues> {
+  return {
+    brand: template.brand || '',
+    gender: template.gender || undefined,
+    categories: template.categories || [],
+    colors: template.colors || [],
+    ...splitProductSizes(template.sizes || []),
+    short_description: template.short_description || '',
+    description: template.description || '',
+  };
+}
+
+/**
+ * Create or update a template
+ */
+export async function saveProductTemplate(userId: string, template: ProductTemplateInput, templateId?: string): Promise<void> {
+  const { error } = templateId
+    ? await supabase.from('product_templates').update(template).eq('id', templateId)
+    : await supabase.from('product_templates').insert({ ...template, user_id: userId });
+
+  if (error) throw error;
+}
+
+/**
+ * Delete a template
+ */
+export async function deleteProductTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('product_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) throw error;
+}
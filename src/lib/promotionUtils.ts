@@ -0,0 +1,201 @@
+import { supabase } from './supabase';
+import { categoriesEqual } from './categoryUtils';
+import type { Product, Promotion, PromotionTargetType } from '@/types';
+
+/**
+ * Utility functions for scheduled promotions
+ */
+
+export const PROMOTION_TARGET_TYPES: { value: PromotionTargetType; label: string }[] = [
+  { value: 'all', label: 'Todos os produtos' },
+  { value: 'products', label: 'Produtos selecionados' },
+  { value: 'categories', label: 'Categorias' },
+];
+
+/**
+ * Whether a promotion is running at the given moment
+ */
+export function isPromotionRunning(promotion: Promotion, now: Date = new Date()): boolean {
+  const time = now.getTime();
+
+  return promotion.is_active &&
+    new Date(promotion.starts_at).getTime() <= time &&
+    new Date(promotion.ends_at).getTime() > time;
+}
+
+/**
+ * Whether a promotion targets a product
+ */
+export function isProductInPromotion(
+  product: Pick<Product, 'id' | 'category'>,
+  promotion: Pick<Promotion, 'target_type' | 'product_ids' | 'categories'>
+): boolean {
+  switch (promotion.target_type) {
+    case 'products':
+      return (promotion.product_ids || []).includes(product.id);
+    case 'categories':
+      return (product.category || []).some(category =>
+        (promotion.categories || []).some(promotionCategory => categoriesEqual(category, promotionCategory))
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * Price of a product with a promotion applied, zero or less when the discount covers the price
+ * Mirrors `get_promotional_price` in the database
+ */
+export function getPromotionalPrice(price: number, promotion: Pick<Promotion, 'discount_type' | 'discount_value'>): number {
+  const value = Number(promotion.discount_value);
+
+  if (promotion.discount_type === 'percentage') {
+    return Math.round(price * (100 - Math.min(value, 100))) / 100;
+  }
+
+  return price - value;
+}
+
+/**
+ * The running promotion that gives a product its lowest price
+ * Promotions that would leave the product without a price are ignored, like in the database
+ */
+export function getBestPromotion(
+  product: Pick<Product, 'id' | 'category' | 'price'>,
+  promotions: Promotion[],
+  now: Date = new Date()
+): { promotion: Promotion; price: number } | null {
+  if (!product.price || product.price <= 0) return null;
+
+  let best: { promotion: Promotion; price: number } | null = null;
+
+  for (const promotion of promotions) {
+    if (!isPromotionRunning(promotion, now) || !isProductInPromotion(product, promotion)) continue;
+
+    const price = getPromotionalPrice(product.price, promotion);
+    if (price <= 0) continue;
+
+    if (!best || price < best.price) {
+      best = { promotion, price };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Apply the running promotions to a product
+ * The promotion only replaces `discounted_price` when it is lower, so the product
+ * goes back to its own price as soon as the promotion ends
+ */
+export function applyPromotion<T extends Product>(product: T, promotions: Promotion[], now: Date = new Date()): T {
+  const best = getBestPromotion(product, promotions, now);
+  if (!best) return product;
+
+  const currentPrice = product.discounted_price || product.price!;
+  if (best.price >= currentPrice) return product;
+
+  return {
+    ...product,
+    discounted_price: best.price,
+    active_promotion: {
+      id: best.promotion.id,
+      name: best.promotion.name,
+      ends_at: best.promotion.ends_at,
+    },
+  };
+}
+
+/**
+ * Apply the running promotions to a list of products
+ */
+export function applyPromotions<T extends Product>(products: T[], promotions: Promotion[], now: Date = new Date()): T[] {
+  if (promotions.length === 0) return products;
+
+  return products.map(product => applyPromotion(product, promotions, now));
+}
+
+/**
+ * Next moment a promotion starts or ends, used to refresh prices on screen
+ */
+export function getNextPromotionChange(promotions: Promotion[], now: Date = new Date()): Date | null {
+  const time = now.getTime();
+
+  const boundaries = promotions
+    .filter(promotion => promotion.is_active)
+    .flatMap(promotion => [new Date(promotion.starts_at).getTime(), new Date(promotion.ends_at).getTime()])
+    .filter(boundary => boundary > time);
+
+  return boundaries.length > 0 ? new Date(Math.min(...boundaries)) : null;
+}
+
+/**
+ * Load the running promotions of a storefront
+ * Scheduled promotions can't be read by the public before they start
+ */
+export async function loadStorefrontPromotions(sellerId: string): Promise<Promotion[]> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*')
+    .eq('user_id', sellerId)
+    .eq('is_active', true)
+    .lte('starts_at', now)
+    .gt('ends_at', now);
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Load the promotions of a seller, latest start first
+ */
+export async function loadPromotions(userId: string): Promise<Promotion[]> {
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('starts_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export type PromotionInput = Pick<
+  Promotion,
+  'name' | 'discount_type' | 'discount_value' | 'starts_at' | 'ends_at' |
+  'target_type' | 'product_ids' | 'categories' | 'is_active'
+>;
+
+/**
+ * Create or update a promotion
+ */
+export async function savePromotion(userId: string, promotion: PromotionInput, promotionId?: string): Promise<void> {
+  const payload = {
+    ...promotion,
+    name: promotion.name.trim(),
+    product_ids: promotion.target_type === 'products' ? promotion.product_ids : [],
+    categories: promotion.target_type === 'categories' ? promotion.categories : [],
+  };
+
+  const { error } = promotionId
+    ? await supabase.from('promotions').update(payload).eq('id', promotionId)
+    : await supabase.from('promotions').insert({ ...payload, user_id: userId });
+
+  if (error) throw error;
+}
+
+/**
+ * Delete a promotion
+ */
+export async function deletePromotion(promotionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('promotions')
+    .delete()
+    .eq('id', promotionId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,160 @@
+import { supabase } from './supabase';
+import { normalizeCep } from './cepUtils';
+import type { DeliveryZone, DeliveryZoneType, ShippingDestination, ShippingQuote, ShippingSettings } from '@/types';
+
+/**
+ * Utility functions for storefront shipping fees and delivery zones
+ */
+
+export const DEFAULT_SHIPPING_SETTINGS: ShippingSettings = {
+  enabled: false,
+  pickupEnabled: true,
+  freeShippingThreshold: null,
+  origin: null,
+  zones: [],
+};
+
+export const DELIVERY_ZONE_TYPES: { value: DeliveryZoneType; label: string }[] = [
+  { value: 'neighborhood', label: 'Bairros' },
+  { value: 'cep_range', label: 'Faixa de CEP' },
+  { value: 'radius', label: 'Raio de distância' },
+];
+
+/**
+ * Compare neighborhood names ignoring case and accents
+ */
+function normalizeNeighborhood(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Distance in kilometers between two coordinates (haversine formula)
+ */
+export function getDistanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const earthRadiusKm = 6371;
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return earthRadiusKm * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Checks whether a delivery zone covers the destination
+ */
+export function zoneMatchesDestination(
+  zone: DeliveryZone,
+  destination: ShippingDestination,
+  origin?: ShippingSettings['origin']
+): boolean {
+  switch (zone.type) {
+    case 'neighborhood': {
+      if (!destination.neighborhood) return false;
+      const neighborhood = normalizeNeighborhood(destination.neighborhood);
+      return (zone.neighborhoods || []).some(n => normalizeNeighborhood(n) === neighborhood);
+    }
+
+    case 'cep_range': {
+      const cep = normalizeCep(destination.cep || '');
+      const start = normalizeCep(zone.cepStart || '');
+      const end = normalizeCep(zone.cepEnd || zone.cepStart || '');
+      if (cep.length !== 8 || start.length !== 8 || end.length !== 8) return false;
+      return Number(cep) >= Number(start) && Number(cep) <= Number(end);
+    }
+
+    case 'radius': {
+      if (!origin || destination.latitude === undefined || destination.longitude === undefined) return false;
+      const distance = getDistanceKm(origin, {
+        latitude: destination.latitude,
+        longitude: destination.longitude,
+      });
+      return distance <= (zone.radiusKm || 0);
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Calculate the shipping fee of a delivery
+ * Zones are checked in the order the seller defined; the first match wins
+ */
+export function calculateShipping(
+  settings: ShippingSettings,
+  subtotal: number,
+  destination: ShippingDestination
+): ShippingQuote {
+  const zone = settings.zones.find(z => zoneMatchesDestination(z, destination, settings.origin));
+
+  if (!zone) {
+    return { available: false, fee: 0, isFree: false };
+  }
+
+  const threshold = zone.freeShippingThreshold ?? settings.freeShippingThreshold;
+  const isFree = zone.fee <= 0 || (!!threshold && threshold > 0 && subtotal >= threshold);
+
+  return {
+    available: true,
+    fee: isFree ? 0 : zone.fee,
+    isFree,
+    zone,
+  };
+}
+
+/**
+ * Whether any zone needs the customer location to be matched
+ */
+export function requiresCustomerLocation(settings: ShippingSettings): boolean {
+  return !!settings.origin && settings.zones.some(zone => zone.type === 'radius');
+}
+
+/**
+ * Ask the browser for the customer's current coordinates
+ */
+export function getCurrentPosition(): Promise<{ latitude: number; longitude: number }> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error('Geolocalização não suportada'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      }),
+      reject,
+      { enableHighAccuracy: false, timeout: 10000 }
+    );
+  });
+}
+
+/**
+ * Load the shipping settings of a storefront, merged with the defaults
+ */
+export async function loadShippingSettings(userId: string): Promise<ShippingSettings> {
+  const { data, error } = await supabase
+    .from('user_storefront_settings')
+    .select('settings')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') throw error;
+
+  return {
+    ...DEFAULT_SHIPPING_SETTINGS,
+    ...data?.settings?.shipping,
+  };
+}
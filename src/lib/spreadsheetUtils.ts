@@ -0,0 +1,217 @@
+/**
+ * Utility functions for reading CSV and XLSX files in the browser
+ * Both formats are returned as a list of rows, the first row being the header
+ */
+
+export type SpreadsheetRows = string[][];
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Parse CSV text
+ * Supports quoted fields and detects `,` or `;` (Excel in pt-BR) as the delimiter
+ */
+export function parseCsv(text: string): SpreadsheetRows {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return removeEmptyRows(rows);
+}
+
+/**
+ * Read the entries of a zip archive (XLSX files are zip archives of XML files)
+ */
+async function readZipEntries(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const entries = new Map<string, string>();
+
+  // End of central directory record, searched from the end of the file
+  let eocdOffset = -1;
+  for (let i = buffer.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocdOffset = i;
+      break;
+    }
+  }
+
+  if (eocdOffset < 0) {
+    throw new Error('Arquivo XLSX inválido');
+  }
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+
+    const dataOffset = localHeaderOffset + 30 +
+      view.getUint16(localHeaderOffset + 26, true) +
+      view.getUint16(localHeaderOffset + 28, true);
+    const data = new Uint8Array(buffer, dataOffset, compressedSize);
+
+    if (method === 0) {
+      entries.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.set(name, await new Response(stream).text());
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Convert a cell reference like `AB12` to a zero-based column index
+ */
+function getColumnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Parse the first worksheet of an XLSX file
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SpreadsheetRows> {
+  const entries = await readZipEntries(buffer);
+  const parser = new DOMParser();
+  const parseXml = (name: string) => {
+    const xml = entries.get(name);
+    return xml ? parser.parseFromString(xml, 'application/xml') : null;
+  };
+
+  // Resolve the file of the first sheet through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = parseXml('xl/workbook.xml');
+  const relationships = parseXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relationshipId = firstSheet?.getAttribute('r:id');
+
+  if (relationshipId && relationships) {
+    const relationship = Array.from(relationships.getElementsByTagName('Relationship'))
+      .find(element => element.getAttribute('Id') === relationshipId);
+    const target = relationship?.getAttribute('Target');
+
+    if (target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheet = parseXml(sheetPath);
+  if (!sheet) {
+    throw new Error('Nenhuma planilha encontrada no arquivo');
+  }
+
+  const sharedStrings = Array.from(parseXml('xl/sharedStrings.xml')?.getElementsByTagName('si') || [])
+    .map(item => Array.from(item.getElementsByTagName('t')).map(text => text.textContent || '').join(''));
+
+  const rows: SpreadsheetRows = [];
+
+  Array.from(sheet.getElementsByTagName('row')).forEach(rowElement => {
+    const row: string[] = [];
+
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? getColumnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let text = value;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      } else if (type === 'b') {
+        text = value === '1' ? 'true' : 'false';
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = text;
+    });
+
+    rows.push(row);
+  });
+
+  return removeEmptyRows(rows);
+}
+
+/**
+ * Read a CSV or XLSX file selected by the user
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetRows> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+
+  return parseCsv(await file.text());
+}
+
+/**
+ * Build CSV text from rows, quoting fields when needed
+ */
+export function toCsv(rows: SpreadsheetRows): string {
+  return rows
+    .map(row => row
+      .map(value => (/[",;\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value))
+      .join(','))
+    .join('\n');
+}
+
+function removeEmptyRows(rows: SpreadsheetRows): SpreadsheetRows {
+  return rows.filter(row => row.some(value => value.trim() !== ''));
+}
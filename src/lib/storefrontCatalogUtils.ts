@@ -0,0 +1,203 @@
+import { supabase } from './supabase';
+import { withEffectiveStatus } from './productStatusUtils';
+import type { Product } from '@/types';
+
+/**
+ * Utility functions for loading the public storefront catalog
+ */
+
+// Fields used by the storefront product cards
+export const STOREFRONT_PRODUCT_SELECT = `
+  id,
+  title,
+  price,
+  discounted_price,
+  is_starting_price,
+  featured_offer_price,
+  featured_offer_installment,
+  featured_offer_description,
+  short_description,
+  status,
+  category,
+  brand,
+  model,
+  gender,
+  condition,
+  featured_image_url,
+  colors,
+  sizes,
+  display_order,
+  external_checkout_url,
+  reserved_until,
+  created_at,
+  product_variants (
+    id,
+    color,
+    size,
+    sku,
+    stock_quantity,
+    price
+  )
+`;
+
+// Position after the last product of a page, in the storefront order (display_order, then newest id)
+export interface ProductPageCursor {
+  display_order: number | null;
+  id: string;
+}
+
+export interface ProductPage {
+  products: Product[];
+  nextCursor: ProductPageCursor | null;
+}
+
+// `category` is null for the products without category
+export interface StorefrontCategoryCount {
+  category: string | null;
+  product_count: number;
+}
+
+export interface ProductPopularity {
+  view_count: number;
+  order_count: number; // Orders not cancelled that include the product
+}
+
+/**
+ * Number of visible products per category, computed in the database
+ */
+export async function loadStorefrontCategoryCounts(userId: string): Promise<StorefrontCategoryCount[]> {
+  const { data, error } = await supabase.rpc('get_storefront_category_counts', {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: StorefrontCategoryCount) => ({
+    category: row.category,
+    product_count: Number(row.product_count),
+  }));
+}
+
+/**
+ * Filter for the products after the cursor
+ * Products without display_order come last, so they follow every ordered product
+ */
+function getCursorFilter(cursor: ProductPageCursor): string {
+  if (cursor.display_order === null) {
+    return `and(display_order.is.null,id.lt.${cursor.id})`;
+  }
+
+  return [
+    `display_order.gt.${cursor.display_order}`,
+    `and(display_order.eq.${cursor.display_order},id.lt.${cursor.id})`,
+    'display_order.is.null',
+  ].join(',');
+}
+
+/**
+ * Load one page of the visible products of a category
+ * Pass `null` as category to load the products without category
+ */
+export async function loadStorefrontProductsPage(
+  userId: string,
+  category: string | null,
+  cursor: ProductPageCursor | null,
+  limit: number
+): Promise<ProductPage> {
+  let query = supabase
+    .from('products')
+    .select(STOREFRONT_PRODUCT_SELECT)
+    .eq('user_id', userId)
+    .eq('is_visible_on_storefront', true);
+
+  if (category !== null) {
+    query = query.contains('category', [category]);
+  }
+
+  const uncategorizedFilter = 'category.is.null,category.eq.{}';
+
+  if (category === null && cursor) {
+    // Both conditions must hold, so they are combined in a single `or` with one `and` element
+    query = query.or(`and(or(${uncategorizedFilter}),or(${getCursorFilter(cursor)}))`);
+  } else if (category === null) {
+    query = query.or(uncategorizedFilter);
+  } else if (cursor) {
+    query = query.or(getCursorFilter(cursor));
+  }
+
+  const { data, error } = await query
+    .order('display_order', { ascending: true, nullsFirst: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const products = withEffectiveStatus((data || []) as Product[]);
+  const last = products[products.length - 1];
+
+  return {
+    products,
+    nextCursor: products.length === limit && last
+      ? { display_order: last.display_order ?? null, id: last.id }
+      : null,
+  };
+}
+
+/**
+ * Load every visible product of a storefront
+ * Used by search, filters and sorting, which work over the whole catalog
+ */
+export async function loadAllStorefrontProducts(userId: string): Promise<Product[]> {
+  const { data, error } = await supabase
+    .from('products')
+    .select(STOREFRONT_PRODUCT_SELECT)
+    .eq('user_id', userId)
+    .eq('is_visible_on_storefront', true)
+    .order('display_order', { ascending: true, nullsFirst: false })
+    .order('id', { ascending: false });
+
+  if (error) throw error;
+
+  return withEffectiveStatus((data || []) as Product[]);
+}
+
+/**
+ * Views and orders of each visible product, used by the popularity sort options
+ */
+export async function loadStorefrontProductPopularity(userId: string): Promise<Map<string, ProductPopularity>> {
+  const { data, error } = await supabase.rpc('get_storefront_product_popularity', {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+
+  return new Map(
+    (data || []).map((row: ProductPopularity & { product_id: string }) => [
+      row.product_id,
+      { view_count: Number(row.view_count), order_count: Number(row.order_count) },
+    ])
+  );
+}
+
+/**
+ * Load visible products by id, in the order of the ids
+ * Ids of products that were removed or hidden are skipped
+ */
+export async function loadStorefrontProductsByIds(userId: string, productIds: string[]): Promise<Product[]> {
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('products')
+    .select(STOREFRONT_PRODUCT_SELECT)
+    .eq('user_id', userId)
+    .eq('is_visible_on_storefront', true)
+    .in('id', productIds);
+
+  if (error) throw error;
+
+  const productsById = new Map(withEffectiveStatus((data || []) as Product[]).map(product => [product.id, product]));
+
+  return productIds
+    .map(id => productsById.get(id))
+    .filter((product): product is Product => !!product);
+}
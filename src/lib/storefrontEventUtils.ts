@@ -0,0 +1,284 @@
+import { format, subDays, startOfDay, addDays, differenceInMilliseconds } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { supabase } from './supabase';
+import { toCsv, type SpreadsheetRows } from './spreadsheetUtils';
+import type {
+  CampaignReportRow,
+  ProductPerformance,
+  StorefrontEventSummary,
+  StorefrontEventType,
+  StorefrontFunnelGrouping,
+  StorefrontFunnelRow,
+} from '@/types';
+
+/**
+ * Utility functions for storefront event reports
+ */
+
+export const STOREFRONT_EVENT_LABELS: Record<StorefrontEventType, string> = {
+  page_view: 'Visitas à vitrine',
+  product_view: 'Produtos vistos',
+  add_to_cart: 'Adições ao carrinho',
+  remove_from_cart: 'Remoções do carrinho',
+  whatsapp_click: 'Cliques no WhatsApp',
+  order_sent: 'Pedidos enviados',
+  share: 'Compartilhamentos',
+  search: 'Buscas',
+};
+
+// Events counted as views and as contacts in the dashboard stats
+export const VIEW_EVENT_TYPES: StorefrontEventType[] = ['page_view', 'product_view'];
+export const CONTACT_EVENT_TYPES: StorefrontEventType[] = ['whatsapp_click', 'order_sent'];
+
+export interface ReportPeriod {
+  start: Date;
+  end: Date; // Exclusive
+}
+
+export interface DailyEventCounts {
+  date: string;
+  views: number;
+  leads: number;
+}
+
+// Rows returned by the report RPCs: bigint counts arrive as numbers or strings
+type RpcCounts<T, K extends keyof T> = Omit<T, K> & Record<K, number | string>;
+
+type StorefrontEventSummaryRow = RpcCounts<StorefrontEventSummary, 'event_count' | 'session_count'>;
+
+type StorefrontFunnelRpcRow = RpcCounts<StorefrontFunnelRow, 'visits' | 'product_views' | 'cart_adds' | 'orders'>;
+
+type ProductPerformanceRow = RpcCounts<
+  Omit<ProductPerformance, 'category' | 'daily_views'>,
+  'views' | 'unique_viewers' | 'cart_adds' | 'whatsapp_clicks' | 'orders'
+> & {
+  category: string[] | null;
+  daily_views: (number | string)[] | null;
+};
+
+type CampaignReportRpcRow = RpcCounts<
+  CampaignReportRow,
+  'sessions' | 'product_views' | 'cart_adds' | 'orders' | 'revenue'
+>;
+
+/**
+ * Load the events of a seller per day and type, between two dates
+ */
+export async function loadStorefrontEventSummary(
+  userId: string,
+  start: Date,
+  end: Date
+): Promise<StorefrontEventSummary[]> {
+  const { data, error } = await supabase.rpc('get_storefront_event_summary', {
+    p_user_id: userId,
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: StorefrontEventSummaryRow) => ({
+    ...row,
+    event_count: Number(row.event_count),
+    session_count: Number(row.session_count),
+  }));
+}
+
+/**
+ * Period of the last days, today included
+ */
+export function getRecentPeriod(days: number): ReportPeriod {
+  return {
+    start: startOfDay(subDays(new Date(), days - 1)),
+    end: addDays(startOfDay(new Date()), 1),
+  };
+}
+
+/**
+ * Load the events of a seller in the last days, today included
+ */
+export function loadRecentStorefrontEvents(userId: string, days: number): Promise<StorefrontEventSummary[]> {
+  const { start, end } = getRecentPeriod(days);
+
+  return loadStorefrontEventSummary(userId, start, end);
+}
+
+/**
+ * Number of events of the given types
+ */
+export function countStorefrontEvents(summary: StorefrontEventSummary[], types: StorefrontEventType[]): number {
+  return summary
+    .filter(row => types.includes(row.event_type))
+    .reduce((sum, row) => sum + row.event_count, 0);
+}
+
+/**
+ * Views and contacts of each of the last days, oldest first
+ */
+export function getDailyEventCounts(summary: StorefrontEventSummary[], days: number): DailyEventCounts[] {
+  return Array.from({ length: days }, (_, index) => {
+    const date = subDays(new Date(), days - 1 - index);
+    const day = format(date, 'yyyy-MM-dd');
+    const dayRows = summary.filter(row => row.day === day);
+
+    return {
+      date: format(date, 'dd/MM', { locale: ptBR }),
+      views: countStorefrontEvents(dayRows, VIEW_EVENT_TYPES),
+      leads: countStorefrontEvents(dayRows, CONTACT_EVENT_TYPES),
+    };
+  });
+}
+
+/**
+ * Number of events of each shopper interaction, for the dashboard chart
+ */
+export function getInteractionCounts(summary: StorefrontEventSummary[]): { event: string; count: number }[] {
+  const interactions: StorefrontEventType[] = [
+    'add_to_cart',
+    'remove_from_cart',
+    'whatsapp_click',
+    'order_sent',
+    'share',
+    'search',
+  ];
+
+  return interactions.map(type => ({
+    event: STOREFRONT_EVENT_LABELS[type],
+    count: countStorefrontEvents(summary, [type]),
+  }));
+}
+
+export type FunnelStep = 'visits' | 'product_views' | 'cart_adds' | 'orders';
+
+export const FUNNEL_STEPS: { key: FunnelStep; label: string }[] = [
+  { key: 'visits', label: 'Visitas' },
+  { key: 'product_views', label: 'Produto visto' },
+  { key: 'cart_adds', label: 'Adicionou ao carrinho' },
+  { key: 'orders', label: 'Pedido enviado' },
+];
+
+/**
+ * Load the sessions in each funnel step of the logged seller, optionally grouped
+ */
+export async function loadStorefrontFunnel(
+  period: ReportPeriod,
+  groupBy: StorefrontFunnelGrouping = 'none'
+): Promise<StorefrontFunnelRow[]> {
+  const { data, error } = await supabase.rpc('get_storefront_funnel', {
+    p_start: period.start.toISOString(),
+    p_end: period.end.toISOString(),
+    p_group_by: groupBy,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: StorefrontFunnelRpcRow) => ({
+    group_key: row.group_key,
+    visits: Number(row.visits),
+    product_views: Number(row.product_views),
+    cart_adds: Number(row.cart_adds),
+    orders: Number(row.orders),
+  }));
+}
+
+/**
+ * Period of the same length right before the given one
+ */
+export function getPreviousPeriod(period: ReportPeriod): ReportPeriod {
+  const length = differenceInMilliseconds(period.end, period.start);
+
+  return {
+    start: new Date(period.start.getTime() - length),
+    end: period.start,
+  };
+}
+
+/**
+ * Share (%) of a step over another one, 0 when there is nothing to compare
+ */
+export function getStepRate(value: number, base: number): number {
+  return base > 0 ? (value / base) * 100 : 0;
+}
+
+/**
+ * Change (%) of a value from the previous period, null when it had no data
+ */
+export function getPeriodChange(current: number, previous: number): number | null {
+  return previous > 0 ? ((current - previous) / previous) * 100 : null;
+}
+
+/**
+ * Load the indicators of every product of the logged seller in a period
+ */
+export async function loadProductPerformance(period: ReportPeriod): Promise<ProductPerformance[]> {
+  const { data, error } = await supabase.rpc('get_product_performance', {
+    p_start: period.start.toISOString(),
+    p_end: period.end.toISOString(),
+    p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: ProductPerformanceRow) => ({
+    ...row,
+    category: row.category || [],
+    views: Number(row.views),
+    unique_viewers: Number(row.unique_viewers),
+    cart_adds: Number(row.cart_adds),
+    whatsapp_clicks: Number(row.whatsapp_clicks),
+    orders: Number(row.orders),
+    daily_views: (row.daily_views || []).map(Number),
+  }));
+}
+
+/**
+ * Share (%) of the product views that ended in a WhatsApp contact or an order
+ */
+export function getProductConversionRate(product: ProductPerformance): number {
+  return getStepRate(product.whatsapp_clicks + product.orders, product.views);
+}
+
+/**
+ * Build the CSV export of the product indicators
+ */
+export function buildProductPerformanceCsv(products: ProductPerformance[]): string {
+  const rows: SpreadsheetRows = [
+    ['id', 'produto', 'categorias', 'visualizacoes', 'visitantes_unicos', 'adicoes_ao_carrinho', 'cliques_whatsapp', 'pedidos', 'conversao'],
+    ...products.map(product => [
+      product.product_id,
+      product.title,
+      product.category.join('; '),
+      String(product.views),
+      String(product.unique_viewers),
+      String(product.cart_adds),
+      String(product.whatsapp_clicks),
+      String(product.orders),
+      getProductConversionRate(product).toFixed(2),
+    ]),
+  ];
+
+  // BOM so Excel opens the accents correctly
+  return '\uFEFF' + toCsv(rows);
+}
+
+/**
+ * Load the sessions, orders and revenue of each campaign link of the logged seller in a period
+ */
+export async function loadCampaignReport(period: ReportPeriod): Promise<CampaignReportRow[]> {
+  const { data, error } = await supabase.rpc('get_campaign_report', {
+    p_start: period.start.toISOString(),
+    p_end: period.end.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: CampaignReportRpcRow) => ({
+    ...row,
+    sessions: Number(row.sessions),
+    product_views: Number(row.product_views),
+    cart_adds: Number(row.cart_adds),
+    orders: Number(row.orders),
+    revenue: Number(row.revenue),
+  }));
+}
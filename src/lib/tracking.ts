@@ -1,8 +1,28 @@
 import { supabase } from '@/lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
+import type { CampaignParams, DeviceType, StorefrontEventType } from '@/types';
 
-// Dedicated UUID for storefront tracking to avoid UUID type mismatch
-export const STOREFRONT_UUID = '00000000-0000-0000-0000-000000000001';
+const SESSION_KEY = 'storefront_session_id';
+const CAMPAIGN_KEY = 'storefront_campaign';
+// Events also sent from the server by the `forward-storefront-event` function
+const SERVER_SIDE_EVENT_TYPES: StorefrontEventType[] = [
+  'page_view',
+  'product_view',
+  'add_to_cart',
+  'remove_from_cart',
+  'whatsapp_click',
+  'order_sent',
+  'search',
+];
+const CAMPAIGN_PARAMS: (keyof CampaignParams)[] = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+  'fbclid',
+  'gclid',
+];
 
 export const loadTrackingSettings = async (userIdOrSlug: string) => {
   // If it looks like a slug, get the user ID first
@@ -28,7 +48,8 @@ export const loadTrackingSettings = async (userIdOrSlug: string) => {
   
   const { data, error } = await supabase
     .from('tracking_settings')
-    .select('*')
+    // The server-side credentials stay out of the storefront
+    .select('meta_pixel_id, meta_events, ga_measurement_id, ga_events')
     .eq('user_id', userId)
     .eq('is_active', true)
     .maybeSingle();
@@ -41,7 +62,8 @@ export const loadTrackingSettings = async (userIdOrSlug: string) => {
   return data;
 };
 
-export const injectMetaPixel = (pixelId: string) => {
+// The PageView event id lets Meta deduplicate it with the server-side event
+export const injectMetaPixel = (pixelId: string, pageViewEventId?: string) => {
   if (!pixelId) return;
 
   // Add Meta Pixel base code
@@ -56,7 +78,7 @@ export const injectMetaPixel = (pixelId: string) => {
     s.parentNode.insertBefore(t,s)}(window, document,'script',
     'https://connect.facebook.net/en_US/fbevents.js');
     fbq('init', '${pixelId}');
-    fbq('track', 'PageView');
+    fbq('track', 'PageView'${pageViewEventId ? `, {}, { eventID: '${pageViewEventId}' }` : ''});
   `;
   document.head.appendChild(script);
 
@@ -89,55 +111,154 @@ export const injectGoogleAnalytics = (measurementId: string) => {
   document.head.appendChild(configScript);
 };
 
-export const trackMetaEvent = (event: string, data?: any) => {
+export const trackMetaEvent = (event: string, data?: any, eventId?: string) => {
   if (typeof window.fbq !== 'function') return;
-  window.fbq('track', event, data);
+  window.fbq('track', event, data, eventId ? { eventID: eventId } : undefined);
 };
 
-export const trackGoogleEvent = (event: string, data?: any) => {
+export const trackGoogleEvent = (event: string, data?: any, eventId?: string) => {
   if (typeof window.gtag !== 'function') return;
-  window.gtag('event', event, data);
+  window.gtag('event', event, eventId ? { ...data, event_id: eventId } : data);
 };
 
-export const trackView = async (itemId: string, type: 'product' = 'product') => {
+// Id shared by the browser pixel and the server-side event, for deduplication
+export const createEventId = () => uuidv4();
+
+const getCookie = (name: string) => {
+  const match = document.cookie.match(new RegExp(`(?:^|; )${name}=([^;]*)`));
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+// Browser ids of the Meta pixel (_fbp, _fbc) and gtag (_ga), so server events match the same shopper
+const getAdPlatformIds = () => {
+  const fbclid = getCampaignParams().fbclid;
+  const gaCookie = getCookie('_ga');
+
+  return {
+    fbp: getCookie('_fbp'),
+    fbc: getCookie('_fbc') || (fbclid ? `fb.1.${Date.now()}.${fbclid}` : null),
+    // GA1.1.123456789.1700000000 -> 123456789.1700000000
+    ga_client_id: gaCookie ? gaCookie.split('.').slice(2).join('.') || null : null,
+  };
+};
+
+// Anonymous id of the shopper's browser, shared by events, favorites and carts
+export const getViewerId = () => {
+  const viewerId = localStorage.getItem('viewer_id') || uuidv4();
+  localStorage.setItem('viewer_id', viewerId);
+  return viewerId;
+};
+
+// Id of the shopper's visit, renewed for each browser tab
+export const getSessionId = () => {
+  const sessionId = sessionStorage.getItem(SESSION_KEY) || uuidv4();
+  sessionStorage.setItem(SESSION_KEY, sessionId);
+  return sessionId;
+};
+
+export const getDeviceType = (): DeviceType => {
+  const userAgent = navigator.userAgent;
+
+  if (/iPad|Tablet|PlayBook|Silk|(Android(?!.*Mobile))/i.test(userAgent)) return 'tablet';
+  if (/Mobi|iPhone|iPod|Android|BlackBerry|IEMobile|Opera Mini/i.test(userAgent)) return 'mobile';
+
+  return 'desktop';
+};
+
+// Store the campaign params of the landing URL for the rest of the visit; a new
+// campaign link replaces the previous one
+export const captureCampaignParams = (): CampaignParams => {
+  const searchParams = new URLSearchParams(window.location.search);
+  const landingParams = CAMPAIGN_PARAMS.reduce((acc, param) => {
+    const value = searchParams.get(param)?.trim();
+    if (value) acc[param] = value;
+    return acc;
+  }, {} as CampaignParams);
+
+  if (Object.keys(landingParams).length > 0) {
+    sessionStorage.setItem(CAMPAIGN_KEY, JSON.stringify(landingParams));
+    return landingParams;
+  }
+
+  return getCampaignParams();
+};
+
+// Campaign params captured when the shopper landed on the storefront
+export const getCampaignParams = (): CampaignParams => {
   try {
-    // Generate or get viewer ID
-    const viewerId = localStorage.getItem('viewer_id') || uuidv4();
-    localStorage.setItem('viewer_id', viewerId);
-
-    // Get current date for unique daily views
-    const viewDate = new Date().toISOString().split('T')[0]; // Format as YYYY-MM-DD
-
-    console.log('Tracking view for:', { itemId, type, viewerId, viewDate });
-
-    const { data, error } = await supabase
-      .from('property_views')
-      .upsert(
-        {
-          property_id: itemId,
-          viewer_id: viewerId,
-          listing_type: type,
-          source: document.referrer || 'direct',
-          view_date: viewDate,
-          viewed_at: new Date().toISOString(),
-          is_unique: true
-        },
-        {
-          onConflict: 'property_id,viewer_id,view_date,listing_type',
-          ignoreDuplicates: true
-        }
-      )
-      .select();
+    return JSON.parse(sessionStorage.getItem(CAMPAIGN_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Send the event to the Meta Conversions API and GA4 from the server (non-blocking);
+// the function skips sellers without server-side tracking
+const forwardStorefrontEvent = async (
+  sellerId: string,
+  eventType: StorefrontEventType,
+  eventId: string,
+  details: { productId?: string; searchQuery?: string; metadata?: Record<string, unknown> }
+) => {
+  try {
+    const { error } = await supabase.functions.invoke('forward-storefront-event', {
+      body: {
+        seller_id: sellerId,
+        event_type: eventType,
+        event_id: eventId,
+        viewer_id: getViewerId(),
+        product_id: details.productId || null,
+        search_query: details.searchQuery || null,
+        metadata: details.metadata || {},
+        event_source_url: window.location.href,
+        ...getAdPlatformIds(),
+      },
+    });
+
+    if (error) {
+      console.error(`Error forwarding ${eventType} event:`, error);
+    }
+  } catch (err) {
+    console.error(`Error forwarding ${eventType} event:`, err);
+  }
+};
+
+export const trackStorefrontEvent = async (
+  sellerId: string,
+  eventType: StorefrontEventType,
+  details: {
+    productId?: string;
+    searchQuery?: string;
+    metadata?: Record<string, unknown>;
+    eventId?: string; // Id of the matching browser pixel event, if any
+  } = {}
+) => {
+  if (SERVER_SIDE_EVENT_TYPES.includes(eventType)) {
+    forwardStorefrontEvent(sellerId, eventType, details.eventId || createEventId(), details);
+  }
+
+  try {
+    const { error } = await supabase.rpc('track_storefront_event', {
+      p_seller_id: sellerId,
+      p_event_type: eventType,
+      p_session_id: getSessionId(),
+      p_viewer_id: getViewerId(),
+      p_product_id: details.productId || null,
+      p_referrer: document.referrer || null,
+      p_utm: getCampaignParams(),
+      p_device_type: getDeviceType(),
+      p_search_query: details.searchQuery || null,
+      p_metadata: details.metadata || {},
+    });
 
     if (error) {
-      console.error('Error tracking view:', error);
+      console.error(`Error tracking ${eventType} event:`, error);
       return false;
     }
 
-    console.log('View tracked successfully:', data);
     return true;
   } catch (err) {
-    console.error('Error tracking view:', err);
+    console.error(`Error tracking ${eventType} event:`, err);
     return false;
   }
 };
@@ -181,61 +302,29 @@ export const trackLead = async (data: {
   }
 };
 
-export const trackWhatsAppClick = async (itemId: string, itemType: 'product' = 'product', source: string = 'whatsapp') => {
-  try {
-    // Generate or get viewer ID
-    const viewerId = localStorage.getItem('viewer_id') || uuidv4();
-    localStorage.setItem('viewer_id', viewerId);
-
-    // Use STOREFRONT_UUID for general storefront tracking
-    const propertyId = itemId === 'storefront' ? STOREFRONT_UUID : itemId;
-
-    console.log('Tracking WhatsApp click for:', { itemId, propertyId, itemType, source, viewerId });
-
-    const { data, error } = await supabase
-      .from('leads')
-      .insert({
-        property_id: propertyId,
-        listing_type: itemType,
-        name: 'WhatsApp Contact',
-        email: 'whatsapp@contact.com',
-        phone: '',
-        message: `WhatsApp click from ${source}`,
-        source: source,
-        status: 'new'
-      })
-      .select();
-
-    if (error) {
-      console.error('Error tracking WhatsApp click:', error);
-      return false;
-    }
-
-    console.log('WhatsApp click tracked successfully:', data);
-    return true;
-  } catch (err) {
-    console.error('Error tracking WhatsApp click:', err);
-    return false;
-  }
-};
-
-export const getStats = async (itemId: string, type: 'product' = 'product') => {
+export const getStats = async (productId: string) => {
   try {
-    const [viewsResponse, leadsResponse] = await Promise.all([
+    const [viewsResponse, clicksResponse, ordersResponse] = await Promise.all([
+      supabase
+        .from('storefront_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('product_id', productId)
+        .eq('event_type', 'product_view'),
       supabase
-        .from('property_views')
-        .select('*', { count: 'exact' })
-        .eq('property_id', itemId)
-        .eq('listing_type', type),
+        .from('storefront_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('product_id', productId)
+        .eq('event_type', 'whatsapp_click'),
+      // Orders list their products in the metadata, since they can have several
       supabase
-        .from('leads')
-        .select('*', { count: 'exact' })
-        .eq('property_id', itemId)
-        .eq('listing_type', type)
+        .from('storefront_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('event_type', 'order_sent')
+        .contains('metadata', { product_ids: [productId] })
     ]);
 
     const views = viewsResponse.count || 0;
-    const leads = leadsResponse.count || 0;
+    const leads = (clicksResponse.count || 0) + (ordersResponse.count || 0);
     const conversionRate = views > 0 ? (leads / views) * 100 : 0;
 
     return {
@@ -247,4 +336,4 @@ export const getStats = async (itemId: string, type: 'product' = 'product') => {
     console.error('Error getting stats:', error);
     return { views: 0, leads: 0, conversionRate: 0 };
   }
-};
\ No newline at end of file
+};
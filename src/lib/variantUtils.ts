@@ -0,0 +1,164 @@
+import * as z from 'zod';
+import { supabase } from './supabase';
+import type { Product, ProductVariant } from '@/types';
+
+/**
+ * Utility functions for per-variant inventory
+ * A product tracks stock only when it has rows in `product_variants`
+ */
+
+export const productVariantSchema = z.object({
+  id: z.string().optional(),
+  color: z.string(),
+  size: z.string(),
+  sku: z.string().optional(),
+  stock_quantity: z.number({ invalid_type_error: 'Informe a quantidade em estoque' })
+    .int('O estoque deve ser um número inteiro')
+    .min(0, 'O estoque não pode ser negativo'),
+  price: z.number().positive('O preço deve ser maior que zero').nullable().optional(),
+});
+
+export type ProductVariantInput = z.infer<typeof productVariantSchema>;
+
+type VariantSource = Pick<Product, 'product_variants'>;
+
+/**
+ * Checks whether the product has stock tracked per variant
+ */
+export function hasTrackedInventory(product: VariantSource): boolean {
+  return (product.product_variants?.length ?? 0) > 0;
+}
+
+/**
+ * Finds the variant row for a color/size combination
+ * Missing options are stored as '' in the database
+ */
+export function findProductVariant(
+  variants: ProductVariant[] | undefined,
+  color?: string,
+  size?: string
+): ProductVariant | undefined {
+  return variants?.find(v => v.color === (color || '') && v.size === (size || ''));
+}
+
+/**
+ * Returns the stock available for a color/size combination
+ * `null` means the product does not track stock
+ */
+export function getVariantStock(product: VariantSource, color?: string, size?: string): number | null {
+  if (!hasTrackedInventory(product)) return null;
+
+  return findProductVariant(product.product_variants, color, size)?.stock_quantity ?? 0;
+}
+
+/**
+ * Returns the total stock of the product, or `null` when stock is not tracked
+ */
+export function getTotalStock(product: VariantSource): number | null {
+  if (!hasTrackedInventory(product)) return null;
+
+  return product.product_variants!.reduce((sum, v) => sum + v.stock_quantity, 0);
+}
+
+/**
+ * Checks whether an option still has stock given the other selected option
+ * Undefined options match any value, so a color is available if any of its sizes is
+ */
+export function isOptionAvailable(
+  variants: ProductVariant[] | undefined,
+  option: { color?: string; size?: string }
+): boolean {
+  if (!variants?.length) return true;
+
+  return variants.some(v =>
+    v.stock_quantity > 0 &&
+    (option.color === undefined || v.color === option.color) &&
+    (option.size === undefined || v.size === option.size)
+  );
+}
+
+/**
+ * Returns the price override for a combination, if the variant has one
+ */
+export function getVariantPrice(product: VariantSource, color?: string, size?: string): number | undefined {
+  const price = findProductVariant(product.product_variants, color, size)?.price;
+  return price ? Number(price) : undefined;
+}
+
+/**
+ * Builds one row per color × size combination, keeping values already entered
+ * Products without options get a single row with empty color and size
+ */
+export function buildVariantCombinations(
+  colors: string[],
+  sizes: string[],
+  existing: ProductVariantInput[]
+): ProductVariantInput[] {
+  const colorList = colors.length > 0 ? colors : [''];
+  const sizeList = sizes.length > 0 ? sizes : [''];
+
+  return colorList.flatMap(color =>
+    sizeList.map(size =>
+      existing.find(v => v.color === color && v.size === size) || {
+        color,
+        size,
+        sku: '',
+        stock_quantity: 0,
+        price: null,
+      }
+    )
+  );
+}
+
+/**
+ * Load the variants of a product
+ */
+export async function loadProductVariants(productId: string): Promise<ProductVariant[]> {
+  const { data, error } = await supabase
+    .from('product_variants')
+    .select('*')
+    .eq('product_id', productId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Replace the variants of a product with the given rows
+ * Rows are upserted by color/size and the ones no longer present are removed
+ */
+export async function saveProductVariants(productId: string, variants: ProductVariantInput[]): Promise<void> {
+  if (variants.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('product_variants')
+      .upsert(
+        variants.map(v => ({
+          product_id: productId,
+          color: v.color,
+          size: v.size,
+          sku: v.sku?.trim() || null,
+          stock_quantity: v.stock_quantity,
+          price: v.price || null,
+        })),
+        { onConflict: 'product_id,color,size' }
+      );
+
+    if (upsertError) throw upsertError;
+  }
+
+  const current = await loadProductVariants(productId);
+  const removedIds = current
+    .filter(row => !variants.some(v => v.color === row.color && v.size === row.size))
+    .map(row => row.id);
+
+  if (removedIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('product_variants')
+      .delete()
+      .in('id', removedIds);
+
+    if (deleteError) throw deleteError;
+  }
+}
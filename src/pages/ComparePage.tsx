@@ -0,0 +1,372 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, AlertCircle, Loader, Share2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { PromotionCountdown } from '@/components/product/PromotionCountdown';
+import { useCorretorData } from '@/hooks/useCorretorData';
+import { usePromotions } from '@/hooks/usePromotions';
+import { COMPARE_LIMIT, useCompare } from '@/hooks/useCompare';
+import { applyPromotions } from '@/lib/promotionUtils';
+import { loadStorefrontProductsByIds } from '@/lib/storefrontCatalogUtils';
+import { getColorValue } from '@/lib/utils';
+import { formatCurrencyI18n, useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
+import type { Product } from '@/types';
+
+// Translation keys of the values stored in the products
+const STATUS_KEYS: Record<string, string> = {
+  disponivel: 'status.available',
+  vendido: 'status.sold',
+  reservado: 'status.reserved',
+};
+
+const CONDITION_KEYS: Record<string, string> = {
+  novo: 'condition.new',
+  seminovo: 'condition.semi_new',
+  usado: 'condition.used',
+};
+
+const GENDER_KEYS: Record<string, string> = {
+  masculino: 'gender.masculine',
+  feminino: 'gender.feminine',
+  unissex: 'gender.unisex',
+};
+
+interface CompareRow {
+  label: string;
+  render: (product: Product) => ReactNode;
+}
+
+/**
+ * Side-by-side comparison of up to four storefront products
+ * The products come from the `ids` URL parameter, so the comparison can be shared
+ */
+export default function ComparePage() {
+  const { slug } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { corretor, loading: corretorLoading, error: corretorError } = useCorretorData({ slug });
+  const { getCompareIds, setCompareIds } = useCompare();
+  const { promotions, now } = usePromotions(corretor?.id);
+  const [baseProducts, setBaseProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  const language = (corretor?.language || 'pt-BR') as SupportedLanguage;
+  const currency = (corretor?.currency || 'BRL') as SupportedCurrency;
+  const { t } = useTranslation(language);
+
+  const idsParam = searchParams.get('ids') || '';
+  const productIds = useMemo(
+    () => idsParam.split(',').filter(Boolean).slice(0, COMPARE_LIMIT),
+    [idsParam]
+  );
+
+  // Without ids in the URL, show the shopper's own selection
+  useEffect(() => {
+    if (!slug || productIds.length > 0) return;
+
+    const selectedIds = getCompareIds(slug);
+    if (selectedIds.length > 0) {
+      setSearchParams({ ids: selectedIds.join(',') }, { replace: true });
+    }
+  }, [slug, productIds.length, getCompareIds, setSearchParams]);
+
+  useEffect(() => {
+    if (!corretor?.id) return;
+
+    let cancelled = false;
+
+    const fetchProducts = async () => {
+      try {
+        setLoading(true);
+        setError(false);
+
+        const products = await loadStorefrontProductsByIds(corretor.id, productIds);
+        if (!cancelled) {
+          setBaseProducts(products);
+        }
+      } catch (err) {
+        console.error('Error loading compared products:', err);
+        if (!cancelled) {
+          setError(true);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchProducts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [corretor?.id, productIds]);
+
+  // Prices are recalculated whenever a promotion starts or ends
+  const products = useMemo(
+    () => applyPromotions(baseProducts, promotions, now),
+    [baseProducts, promotions, now]
+  );
+
+  const handleRemove = (productId: string) => {
+    const remainingIds = productIds.filter(id => id !== productId);
+
+    setSearchParams(remainingIds.length > 0 ? { ids: remainingIds.join(',') } : {}, { replace: true });
+    if (slug) {
+      setCompareIds(slug, getCompareIds(slug).filter(id => id !== productId));
+    }
+  };
+
+  const handleShareClick = async () => {
+    const shareUrl = window.location.href;
+
+    try {
+      if (navigator.share && window.isSecureContext) {
+        await navigator.share({
+          title: t('compare.title'),
+          text: products.map(product => product.title).join(' x '),
+          url: shareUrl,
+        });
+        toast.success(t('messages.shared_successfully'));
+      } else {
+        await navigator.clipboard.writeText(shareUrl);
+        toast.success(t('messages.link_copied'));
+      }
+    } catch (err) {
+      if (!(err instanceof Error && err.name === 'AbortError')) {
+        try {
+          await navigator.clipboard.writeText(shareUrl);
+          toast.success(t('messages.link_copied'));
+        } catch {
+          toast.error(t('messages.share_failed'));
+        }
+      }
+    }
+  };
+
+  const formatPrice = (product: Product, price: number) =>
+    `${product.is_starting_price ? t('product.starting_from') + ' ' : ''}${formatCurrencyI18n(price, currency, language)}`;
+
+  const emptyValue = <span className="text-muted-foreground">—</span>;
+
+  const rows: CompareRow[] = [
+    {
+      label: t('compare.price'),
+      render: product => product.price ? formatPrice(product, product.price) : emptyValue,
+    },
+    {
+      label: t('compare.discounted_price'),
+      render: product => {
+        if (!product.price || !product.discounted_price || product.discounted_price >= product.price) return emptyValue;
+
+        const discountPercentage = Math.round(((product.price - product.discounted_price) / product.price) * 100);
+
+        return (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-bold text-primary">{formatPrice(product, product.discounted_price)}</span>
+            <Badge className="bg-green-600 hover:bg-green-700 text-white border-transparent">
+              -{discountPercentage}%
+            </Badge>
+          </div>
+        );
+      },
+    },
+    {
+      label: t('product.special_offer'),
+      render: product => product.featured_offer_price && product.featured_offer_installment ? (
+        <div className="space-y-1">
+          <p>{t('product.down_payment')} {formatCurrencyI18n(product.featured_offer_price, currency, language)}</p>
+          <p>{t('product.installments')} {formatCurrencyI18n(product.featured_offer_installment, currency, language)}</p>
+          {product.featured_offer_description && (
+            <p className="text-xs text-muted-foreground">{product.featured_offer_description}</p>
+          )}
+        </div>
+      ) : emptyValue,
+    },
+    {
+      label: t('compare.offer'),
+      render: product => product.active_promotion ? (
+        <div className="space-y-1">
+          <p className="font-medium">{product.active_promotion.name}</p>
+          <PromotionCountdown endsAt={product.active_promotion.ends_at} language={language} />
+        </div>
+      ) : emptyValue,
+    },
+    {
+      label: t('compare.brand'),
+      render: product => product.brand || emptyValue,
+    },
+    {
+      label: t('compare.model'),
+      render: product => product.model || emptyValue,
+    },
+    {
+      label: t('compare.condition'),
+      render: product => product.condition
+        ? t(CONDITION_KEYS[product.condition] || product.condition)
+        : emptyValue,
+    },
+    {
+      label: t('compare.gender'),
+      render: product => product.gender
+        ? t(GENDER_KEYS[product.gender] || product.gender)
+        : emptyValue,
+    },
+    {
+      label: t('compare.sizes'),
+      render: product => product.sizes && product.sizes.length > 0
+        ? product.sizes.join(', ')
+        : emptyValue,
+    },
+    {
+      label: t('compare.colors'),
+      render: product => product.colors && product.colors.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {product.colors.map(color => (
+            <span key={color} className="inline-flex items-center gap-1">
+              <span
+                className="h-3 w-3 rounded-full border"
+                style={{ backgroundColor: getColorValue(color) }}
+              />
+              {color}
+            </span>
+          ))}
+        </div>
+      ) : emptyValue,
+    },
+    {
+      label: t('compare.status'),
+      render: product => t(STATUS_KEYS[product.status] || product.status),
+    },
+  ];
+
+  if (corretorLoading || (loading && products.length === 0 && !error && !!corretor)) {
+    return (
+      <div className="flex-1 flex items-center justify-center min-h-screen">
+        <Loader className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (corretorError || !corretor) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center min-h-screen gap-4">
+        <AlertCircle className="h-12 w-12 text-destructive" />
+        <h1 className="text-2xl font-bold">{t('messages.user_not_found')}</h1>
+        <p className="text-muted-foreground text-center max-w-md">
+          {t('messages.user_not_exists')}
+        </p>
+        <Button asChild>
+          <a href="/">{t('messages.back_to_home')}</a>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 min-w-0">
+            <Button variant="ghost" size="icon" asChild>
+              <Link to={`/${slug}`} aria-label={t('compare.back')}>
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <h1 className="text-xl md:text-2xl font-bold truncate">{t('compare.title')}</h1>
+          </div>
+          {products.length > 0 && (
+            <Button variant="outline" onClick={handleShareClick}>
+              <Share2 className="h-4 w-4 mr-2" />
+              {t('compare.share')}
+            </Button>
+          )}
+        </div>
+
+        {error ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+              <h2 className="text-xl font-semibold">{t('messages.error_loading')}</h2>
+            </CardContent>
+          </Card>
+        ) : products.length < 2 ? (
+          <Card className="text-center py-12">
+            <CardContent className="space-y-4">
+              <h2 className="text-xl font-semibold">{t('compare.not_enough')}</h2>
+              <Button asChild>
+                <Link to={`/${slug}`}>{t('compare.back')}</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : null}
+
+        {!error && products.length > 0 && (
+          <div className="overflow-x-auto rounded-xl border bg-card">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="sticky left-0 z-10 bg-card w-32 min-w-[8rem]" />
+                  {products.map(product => (
+                    <th key={product.id} className="p-3 align-top text-left font-normal min-w-[10rem]">
+                      <div className="relative">
+                        <Button
+                          variant="secondary"
+                          size="icon"
+                          className="absolute top-1 right-1 h-7 w-7 rounded-full"
+                          onClick={() => handleRemove(product.id)}
+                          aria-label={t('compare.remove')}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                        <Link to={`/${slug}/produtos/${product.id}`} className="block space-y-2">
+                          <div className="aspect-square bg-white rounded-lg overflow-hidden border">
+                            <img
+                              src={product.featured_image_url || 'https://images.pexels.com/photos/3802510/pexels-photo-3802510.jpeg'}
+                              alt={product.title}
+                              className="w-full h-full object-cover"
+                              loading="lazy"
+                            />
+                          </div>
+                          <p className="font-semibold leading-tight line-clamp-2">{product.title}</p>
+                        </Link>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.label} className="border-b last:border-b-0">
+                    <th className="sticky left-0 z-10 bg-card p-3 text-left font-medium text-muted-foreground align-top">
+                      {row.label}
+                    </th>
+                    {products.map(product => (
+                      <td key={product.id} className="p-3 align-top">
+                        {row.render(product)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr>
+                  <th className="sticky left-0 z-10 bg-card" />
+                  {products.map(product => (
+                    <td key={product.id} className="p-3">
+                      <Button size="sm" variant="outline" className="w-full" asChild>
+                        <Link to={`/${slug}/produtos/${product.id}`}>{t('compare.view_product')}</Link>
+                      </Button>
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
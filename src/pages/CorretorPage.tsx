@@ -1,19 +1,25 @@
 import { useState, useEffect } from 'react';
 import { useParams, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Loader, AlertCircle } from 'lucide-react';
+import { Loader, Loader2, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useCorretorData } from '@/hooks/useCorretorData';
 import { useProductData } from '@/hooks/useProductData';
 import { useProductSearch } from '@/hooks/useProductSearch';
+import { useCart } from '@/contexts/CartContext';
 import CorretorHeader from '@/components/corretor/CorretorHeader';
 import PromotionalBanner from '@/components/corretor/PromotionalBanner';
 import ProductSearch from '@/components/product/ProductSearch';
 import { ProductCard } from '@/components/product/ProductCard';
-import { groupProductsByCategory } from '@/utils/productDisplayUtils';
+import { CategoryProductSection } from '@/components/corretor/CategoryProductSection';
+import { FILTER_FACETS, groupProductsByCategory } from '@/utils/productDisplayUtils';
 import ShareCategoryButton from '@/components/corretor/ShareCategoryButton';
+import CompareBar from '@/components/corretor/CompareBar';
 import { logCategoryOperation } from '@/lib/categoryUtils';
+import { captureCampaignParams } from '@/lib/tracking';
+import { SEARCH_MIN_QUERY_LENGTH } from '@/lib/productSearchUtils';
+import { getPaymentConditions } from '@/lib/paymentConditionsUtils';
 import { useTranslation, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { updateMetaTags, getCorretorMetaTags } from '@/utils/metaTags';
 
@@ -23,6 +29,7 @@ export default function CorretorPage() {
   
   // Load corretor data and apply theme/tracking
   const { corretor, loading: corretorLoading, error: corretorError } = useCorretorData({ slug });
+  const { setActiveSeller } = useCart();
   
   // Set language and currency from corretor settings
   const language: SupportedLanguage = corretor?.language || 'pt-BR';
@@ -33,6 +40,11 @@ export default function CorretorPage() {
   // Load product data with pagination
   const {
     allProducts,
+    allProductsLoaded,
+    loadAllProducts,
+    categorySections,
+    promotions,
+    now,
     categorySettings,
     settings,
     loading: productsLoading,
@@ -42,23 +54,68 @@ export default function CorretorPage() {
     language
   });
 
+  const paymentConditions = getPaymentConditions(settings);
+
   // Handle product search and filtering
   const {
     filteredProducts,
+    suggestions,
     isSearchActive,
+    isTextSearch,
+    isSearchPending,
+    searchLoading,
+    hasMoreResults,
+    loadMoreResults,
+    isSortActive,
     filters,
+    sort,
+    sortOptions,
     handleSearch,
+    handleSortChange,
+    trackSearch,
   } = useProductSearch({
+    sellerId: corretor?.id,
     allProducts,
-    settings
+    settings,
+    promotions,
+    now
   });
 
-  // Organize products by category
-  const organizedProducts = groupProductsByCategory(
-    isSearchActive ? filteredProducts : allProducts,
-    categorySettings,
-    language
-  );
+  // Text searches are listed together, page by page as the server finds them; other filters
+  // and sorts come from the whole catalog and keep the products organized by category
+  const isCatalogMode = isSearchActive || isSortActive;
+  const searchResultsLabel = t('search.results');
+  const organizedProducts = !isCatalogMode
+    ? {}
+    : isTextSearch
+      ? (filteredProducts.length > 0 ? { [searchResultsLabel]: filteredProducts } : {})
+      : groupProductsByCategory(filteredProducts, categorySettings, language);
+  const isWaitingForCatalog = isCatalogMode && (isTextSearch ? isSearchPending : !allProductsLoaded);
+  const hasNoProducts = isCatalogMode
+    ? Object.keys(organizedProducts).length === 0 && !(isTextSearch && hasMoreResults)
+    : categorySections.length === 0;
+
+  // Filters and sorting work over the whole catalog, which is only loaded when they are used
+  // A text search only loads the pages of its results
+  const hasUrlQuery = (searchParams.get('query')?.trim().length || 0) >= SEARCH_MIN_QUERY_LENGTH;
+  const hasUrlFilters = ['minPrice', 'maxPrice', ...FILTER_FACETS]
+    .some(param => searchParams.has(param));
+
+  // Campaign links land here; their params go along with every event of the visit
+  useEffect(() => {
+    captureCampaignParams();
+  }, []);
+
+  // The cart modal and the header show only this seller's cart
+  useEffect(() => {
+    setActiveSeller(corretor?.id || null);
+  }, [corretor?.id, setActiveSeller]);
+
+  useEffect(() => {
+    if (corretor?.id && !isTextSearch && !hasUrlQuery && (hasUrlFilters || isSearchActive || isSortActive)) {
+      loadAllProducts();
+    }
+  }, [corretor?.id, isTextSearch, hasUrlQuery, hasUrlFilters, isSearchActive, isSortActive, loadAllProducts]);
 
   // CRITICAL: Force meta tags update when component renders
   // This ensures WhatsApp preview shows the correct user info
@@ -100,8 +157,8 @@ export default function CorretorPage() {
   logCategoryOperation('CORRETOR_PAGE_RENDER', {
     corretorId: corretor.id,
     corretorName: corretor.name,
-    totalProducts: allProducts.length,
-    organizedCategories: Object.keys(organizedProducts).length,
+    totalProducts: categorySections.reduce((sum, section) => sum + section.count, 0),
+    organizedCategories: isSearchActive ? Object.keys(organizedProducts).length : categorySections.length,
     isSearchActive,
     language,
     currency
@@ -121,10 +178,18 @@ export default function CorretorPage() {
       <div className="container mx-auto px-4 py-1">
         <ProductSearch
           onFiltersChange={handleSearch}
+          filters={filters}
           products={allProducts}
+          suggestions={suggestions}
+          corretorSlug={corretor.slug || ''}
+          onActivate={loadAllProducts}
+          onSearchSubmit={trackSearch}
+          sort={sort}
+          sortOptions={sortOptions}
+          onSortChange={handleSortChange}
           currency={currency}
           language={language}
-          settings={settings}
+          settings={settings ?? undefined}
         />
       </div>
 
@@ -144,20 +209,38 @@ export default function CorretorPage() {
                 <p className="text-muted-foreground">{productsError}</p>
               </CardContent>
             </Card>
-          ) : Object.keys(organizedProducts).length === 0 ? (
+          ) : isWaitingForCatalog ? (
+            <div className="flex justify-center py-12">
+              <Loader className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : hasNoProducts ? (
             <Card className="text-center py-12">
               <CardContent>
                 <h2 className="text-xl font-semibold mb-2">
                   {isSearchActive ? t('messages.no_results') : t('messages.no_products')}
                 </h2>
                 <p className="text-muted-foreground">
-                  {isSearchActive 
-                    ? 'Tente ajustar os filtros de busca'
-                    : 'Este vendedor ainda não possui produtos cadastrados'
-                  }
+                  {isSearchActive ? t('messages.no_results_hint') : t('messages.no_products_hint')}
                 </p>
               </CardContent>
             </Card>
+          ) : !isCatalogMode ? (
+            <div className="space-y-12">
+              {categorySections.map(section => (
+                <CategoryProductSection
+                  key={section.category ?? ''}
+                  section={section}
+                  userId={corretor.id}
+                  corretorSlug={corretor.slug || ''}
+                  pageSize={settings?.itemsPerPage || 24}
+                  promotions={promotions}
+                  now={now}
+                  currency={currency}
+                  language={language}
+                  paymentConditions={paymentConditions}
+                />
+              ))}
+            </div>
           ) : (
             <div className="space-y-12">
               {Object.entries(organizedProducts).map(([categoryName, products]) => (
@@ -171,8 +254,9 @@ export default function CorretorPage() {
                   <div className="flex items-center justify-between mb-6">
                     <h2 className="text-xl md:text-2xl font-bold text-foreground">{categoryName}</h2>
                     <div className="flex items-center gap-2">
-                      {categoryName !== t('categories.others') && (
+                      {categoryName !== t('categories.others') && !isTextSearch && (
                         <ShareCategoryButton
+                          corretorId={corretor.id}
                           corretorSlug={corretor.slug || ''}
                           categoryName={categoryName}
                           language={language}
@@ -191,15 +275,28 @@ export default function CorretorPage() {
                         corretorSlug={corretor.slug || ''}
                         currency={currency}
                         language={language}
+                        paymentConditions={paymentConditions}
                       />
                     ))}
                   </div>
                 </motion.div>
               ))}
+
+              {isTextSearch && hasMoreResults && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={() => loadMoreResults()} disabled={searchLoading}>
+                    {searchLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {t('messages.load_more')}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </div>
       </section>
+
+      {/* Products selected for comparison */}
+      <CompareBar corretorSlug={corretor.slug || ''} language={language} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,9 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Link, useParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { motion } from 'framer-motion';
 import {
   Share2,
+  Heart,
   ArrowLeft,
   Loader,
   ShoppingCart,
@@ -12,21 +13,29 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { formatCurrency, getColorValue } from '@/lib/utils';
-import { loadTrackingSettings, injectMetaPixel, injectGoogleAnalytics, trackView } from '@/lib/tracking';
+import { cn, formatCurrency, getColorValue } from '@/lib/utils';
+import { loadTrackingSettings, injectMetaPixel, injectGoogleAnalytics, captureCampaignParams, createEventId, trackStorefrontEvent, trackMetaEvent, trackGoogleEvent } from '@/lib/tracking';
+import { getEffectiveStatus } from '@/lib/productStatusUtils';
+import { applyPromotion } from '@/lib/promotionUtils';
+import { loadPaymentConditions } from '@/lib/paymentConditionsUtils';
+import { usePromotions } from '@/hooks/usePromotions';
 import { useTheme } from '@/contexts/ThemeContext';
 import { toast } from 'sonner';
 import { useTranslation, getPageTitle, formatCurrencyI18n, type SupportedLanguage, type SupportedCurrency } from '@/lib/i18n';
 import { useCart } from '@/contexts/CartContext';
+import { useFavorites } from '@/hooks/useFavorites';
 import { updateMetaTags, updateFavicon, getProductMetaTags, resetMetaTags } from '@/utils/metaTags';
 import ImageGallery from '@/components/details/ImageGallery';
 import ItemDescription from '@/components/details/ItemDescription';
 import ContactSidebar from '@/components/details/ContactSidebar';
 import ProductVariantModal from '@/components/product/ProductVariantModal';
+import { PromotionCountdown } from '@/components/product/PromotionCountdown';
+import { PaymentConditionsTable } from '@/components/product/PaymentConditionsTable';
+import type { PaymentConditionsSettings } from '@/types';
 
 export default function ProductDetailsPage() {
   const { slug, productId } = useParams();
-  const [product, setProduct] = useState<any | null>(null);
+  const [baseProduct, setProduct] = useState<any | null>(null);
   const [corretor, setCorretor] = useState<any | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -35,13 +44,29 @@ export default function ProductDetailsPage() {
   const { theme } = useTheme();
   const [language, setLanguage] = useState<SupportedLanguage>('pt-BR');
   const [currency, setCurrency] = useState<SupportedCurrency>('BRL');
-  const { isInCart, getItemQuantity } = useCart();
+  const [paymentConditions, setPaymentConditions] = useState<PaymentConditionsSettings | null>(null);
+  const { isInCart, getItemQuantity, setActiveSeller } = useCart();
   
   const { t } = useTranslation(language);
   const { addToCart } = useCart();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const { promotions, now } = usePromotions(baseProduct?.user_id);
+
+  // The price follows the promotions as they start and end
+  const product = useMemo(
+    () => baseProduct && applyPromotion(baseProduct, promotions, now),
+    [baseProduct, promotions, now]
+  );
+
+  // Products are added to the cart of their seller
+  useEffect(() => {
+    setActiveSeller(baseProduct?.user_id || null);
+  }, [baseProduct?.user_id, setActiveSeller]);
 
   useEffect(() => {
     setShareSupported(!!navigator.share && window.isSecureContext);
+    // Ads and posts may link straight to a product
+    captureCampaignParams();
 
     const fetchProductDetails = async () => {
       try {
@@ -57,6 +82,14 @@ export default function ProductDetailsPage() {
             *,
             product_images (
               url
+            ),
+            product_variants (
+              id,
+              color,
+              size,
+              sku,
+              stock_quantity,
+              price
             )
           `)
           .eq('id', productId)
@@ -79,7 +112,7 @@ export default function ProductDetailsPage() {
           sizesType: typeof productData.sizes,
           allKeys: Object.keys(productData)
         });
-        setProduct(productData);
+        setProduct({ ...productData, status: getEffectiveStatus(productData) });
 
         // Fetch corretor details
         const { data: corretorData, error: corretorError } = await supabase
@@ -104,6 +137,12 @@ export default function ProductDetailsPage() {
         setLanguage(currentLanguage);
         setCurrency(corretorData.currency || 'BRL');
 
+        loadPaymentConditions(corretorData.id)
+          .then(setPaymentConditions)
+          .catch(error => console.error('Error loading payment conditions:', error));
+
+        let viewEventId: string | undefined;
+
         // Apply corretor's theme settings
         if (corretorData) {
           // Set theme based on broker's preference
@@ -114,21 +153,35 @@ export default function ProductDetailsPage() {
           // Load tracking settings
           const trackingSettings = await loadTrackingSettings(corretorData.id);
           
+          // Product ids match the catalog feed, so the events feed dynamic product ads
+          const viewedPrice = productData.discounted_price || productData.price || 0;
+          const viewedCurrency = corretorData.currency || 'BRL';
+          // Shared with the server-side event so each view is counted once
+          viewEventId = createEventId();
+
           if (trackingSettings?.meta_pixel_id) {
             injectMetaPixel(trackingSettings.meta_pixel_id);
+            trackMetaEvent('ViewContent', {
+              content_ids: [productData.id],
+              content_type: 'product',
+              content_name: productData.title,
+              value: viewedPrice,
+              currency: viewedCurrency,
+            }, viewEventId);
           }
           
           if (trackingSettings?.ga_measurement_id) {
             injectGoogleAnalytics(trackingSettings.ga_measurement_id);
+            trackGoogleEvent('view_item', {
+              currency: viewedCurrency,
+              value: viewedPrice,
+              items: [{ item_id: productData.id, item_name: productData.title, price: viewedPrice }],
+            }, viewEventId);
           }
         }
 
         // Track product view - this is crucial for the stats
-        console.log('Tracking view for product:', productId);
-        const viewTracked = await trackView(productId, 'product');
-        if (!viewTracked) {
-          console.error('Failed to track product view');
-        }
+        await trackStorefrontEvent(corretorData.id, 'product_view', { productId: productData.id, eventId: viewEventId });
 
       } catch (err) {
         console.error('Error fetching product details:', err);
@@ -170,6 +223,13 @@ export default function ProductDetailsPage() {
         await navigator.clipboard.writeText(shareUrl);
         toast.success('Link copiado para a área de transferência');
       }
+
+      if (corretor) {
+        trackStorefrontEvent(corretor.id, 'share', {
+          productId: product?.id,
+          metadata: { method: shareSupported ? 'native' : 'clipboard' },
+        });
+      }
     } catch (error: any) {
       if (error.name !== 'AbortError') {
         try {
@@ -288,17 +348,33 @@ export default function ProductDetailsPage() {
                       </Badge>
                     )}
                     {product.status !== 'disponivel' && getStatusBadge(product.status)}
+                    {product.active_promotion && (
+                      <PromotionCountdown endsAt={product.active_promotion.ends_at} language={language} />
+                    )}
                   </div>
                   <h1 className="text-2xl md:text-3xl font-bold">{product.title}</h1>
                 </div>
 
-                <Button 
-                  variant="ghost" 
-                  size="icon"
-                  onClick={handleShareClick}
-                >
-                  <Share2 className="h-5 w-5" />
-                </Button>
+                <div className="flex items-center">
+                  {slug && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => toggleFavorite(slug, product)}
+                      aria-pressed={isFavorite(slug, product.id)}
+                      aria-label={isFavorite(slug, product.id) ? t('favorites.remove') : t('favorites.add')}
+                    >
+                      <Heart className={cn('h-5 w-5', isFavorite(slug, product.id) && 'fill-red-500 text-red-500')} />
+                    </Button>
+                  )}
+                  <Button 
+                    variant="ghost" 
+                    size="icon"
+                    onClick={handleShareClick}
+                  >
+                    <Share2 className="h-5 w-5" />
+                  </Button>
+                </div>
               </div>
               
               {/* Price information */}
@@ -337,6 +413,16 @@ export default function ProductDetailsPage() {
                   </div>
                 )}
 
+                {/* Payment Conditions */}
+                {paymentConditions && displayPrice > 0 && (
+                  <PaymentConditionsTable
+                    price={displayPrice}
+                    conditions={paymentConditions}
+                    currency={currency}
+                    language={language}
+                  />
+                )}
+
                 {/* Featured Offer */}
                 {product.featured_offer_price && product.featured_offer_installment && (
                   <div className="mt-4 p-4 bg-primary/10 rounded-lg">
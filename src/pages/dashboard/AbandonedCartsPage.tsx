@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Loader2, MessageCircle, ShoppingCart, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { generateWhatsAppUrl } from '@/lib/utils';
+import { formatCurrencyI18n, type SupportedCurrency, type SupportedLanguage } from '@/lib/i18n';
+import { generateCartRecoveryMessage } from '@/lib/cartUtils';
+import {
+  ABANDONED_CART_DELAY_MINUTES,
+  deleteAbandonedCart,
+  loadAbandonedCarts,
+  markAbandonedCartContacted,
+} from '@/lib/abandonedCartUtils';
+import type { AbandonedCart } from '@/types';
+
+export default function AbandonedCartsPage() {
+  const { user } = useAuth();
+  const [carts, setCarts] = useState<AbandonedCart[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deletingCart, setDeletingCart] = useState<AbandonedCart | null>(null);
+
+  const fetchCarts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCarts(await loadAbandonedCarts(user!.id));
+    } catch (error) {
+      console.error('Error loading abandoned carts:', error);
+      toast.error('Erro ao carregar carrinhos abandonados');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchCarts();
+    }
+  }, [user?.id, fetchCarts]);
+
+  const getFollowUpUrl = (cart: AbandonedCart) => generateWhatsAppUrl(
+    cart.customer_phone,
+    generateCartRecoveryMessage(
+      cart.items,
+      Number(cart.total),
+      cart.customer_name,
+      user?.slug || '',
+      cart.currency as SupportedCurrency,
+      cart.language as SupportedLanguage
+    )
+  );
+
+  // The link opens WhatsApp by itself; the contact is recorded in the background
+  const handleFollowUp = async (cart: AbandonedCart) => {
+    try {
+      const contactedAt = await markAbandonedCartContacted(cart.id);
+      setCarts(prev => prev.map(c => (c.id === cart.id ? { ...c, contacted_at: contactedAt } : c)));
+    } catch (error) {
+      console.error('Error updating abandoned cart:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCart) return;
+
+    try {
+      await deleteAbandonedCart(deletingCart.id);
+      setCarts(prev => prev.filter(c => c.id !== deletingCart.id));
+      toast.success('Carrinho excluído com sucesso');
+    } catch (error) {
+      console.error('Error deleting abandoned cart:', error);
+      toast.error('Erro ao excluir carrinho');
+    } finally {
+      setDeletingCart(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Carrinhos abandonados</CardTitle>
+          <CardDescription>
+            Clientes que deixaram o WhatsApp no carrinho e não enviaram o pedido
+            há mais de {ABANDONED_CART_DELAY_MINUTES} minutos
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {carts.length === 0 ? (
+            <div className="text-center py-12">
+              <ShoppingCart className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">Nenhum carrinho abandonado</h3>
+              <p className="text-muted-foreground">
+                Os carrinhos de clientes que aceitarem ser contatados aparecerão aqui
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Atualizado em</TableHead>
+                    <TableHead>Cliente</TableHead>
+                    <TableHead>Produtos</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Contato</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {carts.map(cart => (
+                    <TableRow key={cart.id}>
+                      <TableCell>
+                        {format(new Date(cart.updated_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                      </TableCell>
+                      <TableCell>
+                        <div>{cart.customer_name || 'Não informado'}</div>
+                        <div className="text-xs text-muted-foreground">{cart.customer_phone}</div>
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        <div className="text-sm line-clamp-2">
+                          {cart.items.map(item => `${item.quantity}x ${item.title}`).join(', ')}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {formatCurrencyI18n(Number(cart.total), cart.currency as SupportedCurrency, 'pt-BR')}
+                      </TableCell>
+                      <TableCell>
+                        {cart.contacted_at ? (
+                          <Badge variant="secondary" className="bg-green-100 text-green-800">
+                            Contatado em {format(new Date(cart.contacted_at), 'dd/MM', { locale: ptBR })}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Não contatado</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-1">
+                          <Button size="sm" variant="outline" asChild>
+                            <a
+                              href={getFollowUpUrl(cart)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              onClick={() => handleFollowUp(cart)}
+                            >
+                              <MessageCircle className="h-4 w-4 mr-1 text-green-600" />
+                              WhatsApp
+                            </a>
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setDeletingCart(cart)}
+                            aria-label="Excluir carrinho"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!deletingCart} onOpenChange={(open) => !open && setDeletingCart(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir carrinho</AlertDialogTitle>
+            <AlertDialogDescription>
+              O carrinho de {deletingCart?.customer_name || deletingCart?.customer_phone} será removido da lista.
+              Se o cliente alterar o carrinho na vitrine, ele volta a aparecer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Loader2, Plus, Pencil, Trash2, Ticket } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CouponFormDialog } from '@/components/dashboard/CouponFormDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { formatCurrencyI18n, type SupportedCurrency } from '@/lib/i18n';
+import { deleteCoupon, loadCoupons, saveCoupon, type CouponInput } from '@/lib/couponUtils';
+import type { Coupon } from '@/types';
+
+export default function CouponsPage() {
+  const { user } = useAuth();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [deletingCoupon, setDeletingCoupon] = useState<Coupon | null>(null);
+
+  const currency = (user?.currency || 'BRL') as SupportedCurrency;
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const [couponsData, { data: categoriesData, error: categoriesError }] = await Promise.all([
+        loadCoupons(user!.id),
+        supabase
+          .from('user_product_categories')
+          .select('name')
+          .eq('user_id', user!.id)
+          .order('name', { ascending: true }),
+      ]);
+
+      if (categoriesError) throw categoriesError;
+
+      setCoupons(couponsData);
+      setCategories(categoriesData?.map(category => category.name) || []);
+    } catch (error) {
+      console.error('Error loading coupons:', error);
+      toast.error('Erro ao carregar cupons');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchData();
+    }
+  }, [user?.id, fetchData]);
+
+  const handleSave = async (values: CouponInput) => {
+    try {
+      setSaving(true);
+      await saveCoupon(user!.id, values, editingCoupon?.id);
+
+      toast.success(editingCoupon ? 'Cupom atualizado com sucesso' : 'Cupom criado com sucesso');
+      setFormOpen(false);
+      setEditingCoupon(null);
+      setCoupons(await loadCoupons(user!.id));
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+      const isDuplicate = error instanceof Object && 'code' in error && error.code === '23505';
+      toast.error(isDuplicate ? 'Já existe um cupom com este código' : 'Erro ao salvar cupom');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('coupons')
+        .update({ is_active: isActive })
+        .eq('id', coupon.id);
+
+      if (error) throw error;
+
+      setCoupons(prev => prev.map(c => (c.id === coupon.id ? { ...c, is_active: isActive } : c)));
+    } catch (error) {
+      console.error('Error updating coupon:', error);
+      toast.error('Erro ao atualizar cupom');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCoupon) return;
+
+    try {
+      await deleteCoupon(deletingCoupon.id);
+      setCoupons(prev => prev.filter(c => c.id !== deletingCoupon.id));
+      toast.success('Cupom excluído com sucesso');
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      toast.error('Erro ao excluir cupom');
+    } finally {
+      setDeletingCoupon(null);
+    }
+  };
+
+  const formatDiscount = (coupon: Coupon) => {
+    return coupon.discount_type === 'percentage'
+      ? `${Number(coupon.discount_value)}%`
+      : formatCurrencyI18n(Number(coupon.discount_value), currency, 'pt-BR');
+  };
+
+  const getCouponStatus = (coupon: Coupon) => {
+    if (!coupon.is_active) {
+      return { label: 'Inativo', className: 'bg-gray-100 text-gray-800' };
+    }
+    if (coupon.expires_at && new Date(coupon.expires_at).getTime() <= Date.now()) {
+      return { label: 'Expirado', className: 'bg-red-100 text-red-800' };
+    }
+    if (coupon.usage_limit && coupon.usage_count >= coupon.usage_limit) {
+      return { label: 'Esgotado', className: 'bg-amber-100 text-amber-800' };
+    }
+    return { label: 'Ativo', className: 'bg-green-100 text-green-800' };
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Cupons</CardTitle>
+            <CardDescription>
+              Crie códigos de desconto para os clientes usarem no carrinho da sua vitrine
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => {
+              setEditingCoupon(null);
+              setFormOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Cupom
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {coupons.length === 0 ? (
+            <div className="text-center py-12">
+              <Ticket className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">Nenhum cupom criado</h3>
+              <p className="text-muted-foreground">
+                Crie seu primeiro cupom para oferecer descontos aos clientes
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Código</TableHead>
+                    <TableHead>Desconto</TableHead>
+                    <TableHead>Mínimo</TableHead>
+                    <TableHead>Validade</TableHead>
+                    <TableHead className="text-right">Usos</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Ativo</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {coupons.map(coupon => {
+                    const status = getCouponStatus(coupon);
+
+                    return (
+                      <TableRow key={coupon.id}>
+                        <TableCell>
+                          <div className="font-medium font-mono">{coupon.code}</div>
+                          {coupon.categories.length > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              {coupon.categories.join(', ')}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatDiscount(coupon)}</TableCell>
+                        <TableCell>
+                          {Number(coupon.min_cart_value) > 0
+                            ? formatCurrencyI18n(Number(coupon.min_cart_value), currency, 'pt-BR')
+                            : '—'}
+                        </TableCell>
+                        <TableCell>
+                          {coupon.expires_at
+                            ? format(new Date(coupon.expires_at), 'dd/MM/yyyy', { locale: ptBR })
+                            : 'Sem validade'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {coupon.usage_count}{coupon.usage_limit ? ` / ${coupon.usage_limit}` : ''}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={status.className}>
+                            {status.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={coupon.is_active}
+                            onCheckedChange={(checked) => handleToggleActive(coupon, checked)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setEditingCoupon(coupon);
+                                setFormOpen(true);
+                              }}
+                              aria-label="Editar cupom"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => setDeletingCoupon(coupon)}
+                              aria-label="Excluir cupom"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CouponFormDialog
+        open={formOpen}
+        onOpenChange={(open) => {
+          setFormOpen(open);
+          if (!open) setEditingCoupon(null);
+        }}
+        coupon={editingCoupon}
+        categories={categories}
+        currency={currency}
+        saving={saving}
+        onSubmit={handleSave}
+      />
+
+      <AlertDialog open={!!deletingCoupon} onOpenChange={(open) => !open && setDeletingCoupon(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir cupom</AlertDialogTitle>
+            <AlertDialogDescription>
+              O cupom {deletingCoupon?.code} deixará de funcionar na vitrine. Os pedidos que já usaram
+              este cupom continuam com o desconto registrado.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -11,6 +11,12 @@ import { CustomSizeInput } from '@/components/ui/custom-size-input';
 import { syncUserCategoriesWithStorefrontSettings } from '@/lib/utils';
 import { validateAndSanitizeCategories, logCategoryOperation, sanitizeCategoryName } from '@/lib/categoryUtils';
 import { CustomColorSelector } from '@/components/ui/custom-color-selector';
+import { ProductVariantsManager } from '@/components/dashboard/ProductVariantsManager';
+import { saveProductVariants } from '@/lib/variantUtils';
+import { getErrorMessage } from '@/lib/errorMessages';
+import { productFormSchema } from '@/lib/productSchema';
+import { getFormValuesFromTemplate } from '@/lib/productTemplateUtils';
+import { ProductTemplateSelector } from '@/components/dashboard/ProductTemplateSelector';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -56,24 +62,8 @@ import { ImageCropperProduct } from '@/components/ui/image-cropper-product';
 import { ApparelSizeSelector } from '@/components/ui/apparel-size-selector';
 import { ShoeSizeSelector } from '@/components/ui/shoe-size-selector';
 import { supabase } from '@/lib/supabase';
-
-const formSchema = z.object({
-  title: z.string().min(1, 'Nome do produto é obrigatório'),
-  categories: z.array(z.string()).min(1, 'Adicione pelo menos uma categoria'),
-  brand: z.string().optional(),
-  gender: z.enum(['masculino', 'feminino', 'unissex']).optional(),
-  colors: z.array(z.string()).optional(),
-  apparel_sizes: z.array(z.string()).optional(),
-  shoe_sizes: z.array(z.string()).optional(),
-  custom_sizes: z.array(z.string()).optional(),
-  price: z.string().optional(),
-  discounted_price: z.string().optional(),
-  is_starting_price: z.boolean().default(false),
-  short_description: z.string().max(60, 'Descrição breve muito longa (máx. 60 caracteres)').optional(),
-  description: z.string().min(1, 'Descrição completa é obrigatória'),
-  is_visible_on_storefront: z.boolean().default(true),
-  external_checkout_url: z.string().url('URL inválida').optional().or(z.literal('')),
-});
+import type { SupportedCurrency, SupportedLanguage } from '@/lib/i18n';
+import type { ProductTemplate } from '@/types';
 
 export default function CreateProductPage() {
   const [isLoading, setIsLoading] = useState(false);
@@ -87,8 +77,8 @@ export default function CreateProductPage() {
   const { user } = useAuth();
   const navigate = useNavigate();
 
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+  const form = useForm<z.infer<typeof productFormSchema>>({
+    resolver: zodResolver(productFormSchema),
     defaultValues: {
       title: '',
       categories: [],
@@ -104,6 +94,7 @@ export default function CreateProductPage() {
       description: '',
       is_visible_on_storefront: true,
       external_checkout_url: '',
+      variants: [],
     },
   });
 
@@ -126,6 +117,16 @@ export default function CreateProductPage() {
     fetchCategories();
   }, [user?.id]);
 
+  // Fill the form with a template, keeping the name, prices and other fields already entered
+  const handleApplyTemplate = (template: ProductTemplate) => {
+    const templateValues = getFormValuesFromTemplate(template);
+
+    form.reset({ ...form.getValues(), ...templateValues });
+
+    if ((template.sizes || []).length > 0) setSizesOpen(true);
+    if ((template.colors || []).length > 0) setColorsOpen(true);
+  };
+
   const handleImageSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files) return;
@@ -214,7 +215,7 @@ export default function CreateProductPage() {
     setCroppingImageIndex(null);
   };
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+  const onSubmit = async (values: z.infer<typeof productFormSchema>) => {
     try {
       setIsLoading(true);
 
@@ -317,6 +318,16 @@ export default function CreateProductPage() {
 
       logCategoryOperation('PRODUCT_CREATED', { id: product.id, title: product.title });
 
+      // Save stock per variant
+      if (values.variants.length > 0) {
+        try {
+          await saveProductVariants(product.id, values.variants);
+        } catch (variantsError) {
+          console.error('Error saving product variants:', variantsError);
+          throw new Error(`Erro ao salvar estoque das variações: ${getErrorMessage(variantsError)}`);
+        }
+      }
+
       // Upload images
       logCategoryOperation('IMAGE_UPLOAD_START', { count: selectedImages.length });
       for (let i = 0; i < selectedImages.length; i++) {
@@ -424,6 +435,12 @@ export default function CreateProductPage() {
         <CardContent>
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <ProductTemplateSelector
+                userId={user?.id}
+                getValues={form.getValues}
+                onApply={handleApplyTemplate}
+              />
+
               {/* Card 1: Informações Básicas - Nome, Categorias, Marca, Gênero */}
               <Card>
                 <CardHeader>
@@ -673,6 +690,38 @@ export default function CreateProductPage() {
                 </CardContent>
               </Card>
 
+              {/* Estoque por variação */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Estoque por Variação</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <FormField
+                    control={form.control}
+                    name="variants"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <ProductVariantsManager
+                            colors={form.watch('colors') || []}
+                            sizes={[
+                              ...(form.watch('apparel_sizes') || []),
+                              ...(form.watch('shoe_sizes') || []),
+                              ...(form.watch('custom_sizes') || []),
+                            ]}
+                            value={field.value}
+                            onChange={field.onChange}
+                            currency={(user?.currency || 'BRL') as SupportedCurrency}
+                            locale={(user?.language || 'pt-BR') as SupportedLanguage}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
               {/* Card 4: Descrições */}
               <Card>
                 <CardHeader>
@@ -20,9 +20,18 @@ import {
   Bar,
   Legend,
 } from 'recharts';
-import { format, subDays, startOfDay, endOfDay } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
-import { STOREFRONT_UUID } from '@/lib/tracking';
+import {
+  CONTACT_EVENT_TYPES,
+  VIEW_EVENT_TYPES,
+  countStorefrontEvents,
+  getDailyEventCounts,
+  getInteractionCounts,
+  loadRecentStorefrontEvents,
+  type DailyEventCounts,
+} from '@/lib/storefrontEventUtils';
+import { ConversionFunnel } from '@/components/dashboard/ConversionFunnel';
+import { CampaignReport } from '@/components/dashboard/CampaignReport';
+import { MostFavoritedProducts } from '@/components/dashboard/MostFavoritedProducts';
 
 // Helper function to format currency with user's settings
 const formatCurrency = (value: number, user: any) => 
@@ -35,17 +44,15 @@ interface DashboardStats {
   conversionRate: number;
 }
 
-interface ChartData {
-  date: string;
-  views: number;
-  leads: number;
-}
-
-interface LeadsBySource {
-  source: string;
+interface InteractionCount {
+  event: string;
   count: number;
 }
 
+// Period of the stats cards and of the interactions chart
+const STATS_DAYS = 30;
+const CHART_DAYS = 7;
+
 export default function DashboardPage() {
   const [stats, setStats] = useState<DashboardStats>({
     totalProducts: 0,
@@ -53,8 +60,8 @@ export default function DashboardPage() {
     totalLeads: 0,
     conversionRate: 0,
   });
-  const [chartData, setChartData] = useState<ChartData[]>([]);
-  const [leadsBySource, setLeadsBySource] = useState<LeadsBySource[]>([]);
+  const [chartData, setChartData] = useState<DailyEventCounts[]>([]);
+  const [interactions, setInteractions] = useState<InteractionCount[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -69,141 +76,30 @@ export default function DashboardPage() {
     try {
       setLoading(true);
 
-      // Fetch products first
-      const { data: productsData, error: productsError } = await supabase
-        .from('products')
-        .select('id')
-        .eq('user_id', user?.id);
-
-      if (productsError) {
-        console.error('Error fetching products:', productsError);
-        throw productsError;
-      }
-
-      const productIds = productsData?.map(p => p.id) || [];
-      console.log('Product IDs:', productIds);
-
-      // If no products, set empty stats
-      if (productIds.length === 0) {
-        setStats({
-          totalProducts: 0,
-          totalViews: 0,
-          totalLeads: 0,
-          conversionRate: 0,
-        });
-        setChartData([]);
-        setLeadsBySource([]);
-        setLoading(false);
-        return;
-      }
-
-      // Fetch total views and leads for this user's products only
-      const [viewsResponse, leadsResponse] = await Promise.all([
-        supabase
-          .from('property_views')
-          .select('id')
-          .in('property_id', productIds)
-          .eq('listing_type', 'product'),
+      const [productsResponse, summary] = await Promise.all([
         supabase
-          .from('leads')
-          .select('id, source')
-          .in('property_id', productIds)
-          .eq('listing_type', 'product')
+          .from('products')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user?.id),
+        loadRecentStorefrontEvents(user!.id, STATS_DAYS),
       ]);
 
-      if (viewsResponse.error) {
-        console.error('Error fetching views:', viewsResponse.error);
+      if (productsResponse.error) {
+        console.error('Error fetching products:', productsResponse.error);
+        throw productsResponse.error;
       }
 
-      if (leadsResponse.error) {
-        console.error('Error fetching leads:', leadsResponse.error);
-      }
-
-      const totalViews = viewsResponse.data?.length || 0;
-      const totalLeads = leadsResponse.data?.length || 0;
-      const leadsData = leadsResponse.data || [];
-
-      console.log('Dashboard stats for user:', { 
-        userId: user?.id,
-        totalViews, 
-        totalLeads, 
-        productIds: productIds.length,
-        productIdsArray: productIds
-      });
-
-      // Calculate conversion rate
-      const conversionRate = totalViews > 0 ? (totalLeads / totalViews) * 100 : 0;
+      const totalViews = countStorefrontEvents(summary, VIEW_EVENT_TYPES);
+      const totalLeads = countStorefrontEvents(summary, CONTACT_EVENT_TYPES);
 
       setStats({
-        totalProducts: productIds.length,
+        totalProducts: productsResponse.count || 0,
         totalViews,
         totalLeads,
-        conversionRate,
+        conversionRate: totalViews > 0 ? (totalLeads / totalViews) * 100 : 0,
       });
-
-      // Fetch chart data for the last 7 days
-      const chartPromises = Array.from({ length: 7 }).map(async (_, i) => {
-        const date = subDays(new Date(), i);
-        const start = startOfDay(date);
-        const end = endOfDay(date);
-
-        // Views for this day
-        const { data: dayViews } = await supabase
-          .from('property_views')
-          .select('id')
-          .in('property_id', productIds)
-          .eq('listing_type', 'product')
-          .gte('viewed_at', start.toISOString())
-          .lte('viewed_at', end.toISOString());
-
-        // Leads for this day
-        const { data: dayLeads } = await supabase
-          .from('leads')
-          .select('id')
-          .in('property_id', productIds)
-          .eq('listing_type', 'product')
-          .gte('created_at', start.toISOString())
-          .lte('created_at', end.toISOString());
-
-        return {
-          date: format(date, 'dd/MM', { locale: ptBR }),
-          views: dayViews?.length || 0,
-          leads: dayLeads?.length || 0,
-        };
-      });
-
-      const chartResults = await Promise.all(chartPromises);
-      setChartData(chartResults.reverse());
-
-      // Process leads by source
-      const sourceCount = leadsData?.reduce((acc, curr) => {
-        const source = curr.source || 'form';
-        // Map WhatsApp sources to a single category
-        const mappedSource = source.includes('whatsapp') || source.includes('contact_sidebar') || source.includes('header_social') 
-          ? 'WhatsApp' 
-          : source === 'form' 
-            ? 'Formulário' 
-            : source;
-        acc[mappedSource] = (acc[mappedSource] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>) || {};
-
-      setLeadsBySource(
-        Object.entries(sourceCount).map(([source, count]) => ({
-          source,
-          count,
-        }))
-      );
-
-      console.log('Dashboard stats updated for user:', {
-        userId: user?.id,
-        totalProducts: productIds.length,
-        totalViews,
-        totalLeads,
-        conversionRate,
-        leadsBySource: sourceCount
-      });
-
+      setChartData(getDailyEventCounts(summary, CHART_DAYS));
+      setInteractions(getInteractionCounts(summary));
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
       toast.error('Erro ao carregar estatísticas');
@@ -268,7 +164,7 @@ export default function DashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalViews}</div>
-            <p className="text-xs text-muted-foreground">Total de visualizações</p>
+            <p className="text-xs text-muted-foreground">Vitrine e produtos nos últimos {STATS_DAYS} dias</p>
           </CardContent>
         </Card>
 
@@ -279,7 +175,7 @@ export default function DashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalLeads}</div>
-            <p className="text-xs text-muted-foreground">Contatos recebidos</p>
+            <p className="text-xs text-muted-foreground">WhatsApp e pedidos nos últimos {STATS_DAYS} dias</p>
           </CardContent>
         </Card>
 
@@ -303,7 +199,7 @@ export default function DashboardPage() {
           <CardHeader>
             <CardTitle>Visualizações e Leads</CardTitle>
             <p className="text-sm text-muted-foreground">
-              Últimos 7 dias
+              Últimos {CHART_DAYS} dias
             </p>
           </CardHeader>
           <CardContent>
@@ -335,26 +231,41 @@ export default function DashboardPage() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Leads por Origem</CardTitle>
+            <CardTitle>Interações na Vitrine</CardTitle>
             <p className="text-sm text-muted-foreground">
-              Distribuição dos contatos
+              Últimos {STATS_DAYS} dias
             </p>
           </CardHeader>
           <CardContent>
             <div className="h-[300px]">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={leadsBySource}>
+                <BarChart data={interactions}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="source" />
+                  <XAxis dataKey="event" />
                   <YAxis />
                   <Tooltip />
-                  <Bar dataKey="count" fill="#8884d8" name="Leads" />
+                  <Bar dataKey="count" fill="#8884d8" name="Eventos" />
                 </BarChart>
               </ResponsiveContainer>
             </div>
           </CardContent>
         </Card>
       </div>
+
+      {/* Conversion funnel */}
+      <div className="mt-6">
+        <ConversionFunnel />
+      </div>
+
+      {/* Campaigns */}
+      <div className="mt-6">
+        <CampaignReport />
+      </div>
+
+      {/* Favorites */}
+      <div className="mt-6">
+        <MostFavoritedProducts />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -13,6 +13,9 @@ import { validateAndSanitizeCategories, logCategoryOperation, sanitizeCategoryNa
 import { CustomColorSelector } from '@/components/ui/custom-color-selector';
 import { ApparelSizeSelector } from '@/components/ui/apparel-size-selector';
 import { ShoeSizeSelector } from '@/components/ui/shoe-size-selector';
+import { ProductVariantsManager } from '@/components/dashboard/ProductVariantsManager';
+import { loadProductVariants, saveProductVariants } from '@/lib/variantUtils';
+import { productFormSchema, splitProductSizes } from '@/lib/productSchema';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -67,24 +70,7 @@ import {
 } from '@/components/ui/collapsible';
 import { ImageCropperProduct } from '@/components/ui/image-cropper-product';
 import { supabase } from '@/lib/supabase';
-
-const formSchema = z.object({
-  title: z.string().min(1, 'Nome do produto é obrigatório'),
-  categories: z.array(z.string()).min(1, 'Adicione pelo menos uma categoria'),
-  brand: z.string().optional(),
-  gender: z.enum(['masculino', 'feminino', 'unissex']).optional(),
-  colors: z.array(z.string()).optional(),
-  apparel_sizes: z.array(z.string()).optional(),
-  shoe_sizes: z.array(z.string()).optional(),
-  custom_sizes: z.array(z.string()).optional(),
-  price: z.string().optional(),
-  discounted_price: z.string().optional(),
-  is_starting_price: z.boolean().default(false),
-  short_description: z.string().max(60, 'Descrição breve muito longa (máx. 60 caracteres)').optional(),
-  description: z.string().min(1, 'Descrição completa é obrigatória'),
-  is_visible_on_storefront: z.boolean().default(true),
-  external_checkout_url: z.string().url('URL inválida').optional().or(z.literal('')),
-});
+import type { SupportedCurrency, SupportedLanguage } from '@/lib/i18n';
 
 export default function EditProductPage() {
   const { id } = useParams();
@@ -104,8 +90,8 @@ export default function EditProductPage() {
   const [sizesOpen, setSizesOpen] = useState(false);
   const [colorsOpen, setColorsOpen] = useState(false);
 
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+  const form = useForm<z.infer<typeof productFormSchema>>({
+    resolver: zodResolver(productFormSchema),
     defaultValues: {
       title: '',
       categories: [],
@@ -121,6 +107,7 @@ export default function EditProductPage() {
       description: '',
       is_visible_on_storefront: true,
       external_checkout_url: '',
+      variants: [],
     },
   });
 
@@ -191,25 +178,7 @@ export default function EditProductPage() {
       // Load categories for the product owner
       await fetchCategories(product.user_id);
 
-      // Parse sizes from database and distribute to apparel and shoe sizes
-      const existingSizes = product.sizes || [];
-      const apparelSizes: string[] = [];
-      const shoeSizes: string[] = [];
-      const customSizes: string[] = [];
-      
-      existingSizes.forEach((size: string) => {
-        // Check if it's a shoe size (numeric between 33-48)
-        const numericSize = parseInt(size);
-        if (!isNaN(numericSize) && numericSize >= 17 && numericSize <= 43) {
-          shoeSizes.push(size);
-        } else if (['PP', 'P', 'M', 'G', 'GG', 'XG', 'XXG'].includes(size)) {
-          // Standard apparel sizes
-          apparelSizes.push(size);
-        } else {
-          // Custom sizes (anything that doesn't fit standard categories)
-          customSizes.push(size);
-        }
-      });
+      const variants = await loadProductVariants(product.id);
 
       form.reset({
         title: product.title,
@@ -217,8 +186,7 @@ export default function EditProductPage() {
         brand: product.brand || '',
         gender: product.gender || undefined,
         colors: product.colors || [],
-        apparel_sizes: apparelSizes,
-        shoe_sizes: shoeSizes,
+        ...splitProductSizes(product.sizes || []),
         price: product.price ? product.price.toString() : '',
         discounted_price: product.discounted_price ? product.discounted_price.toString() : '',
         is_starting_price: product.is_starting_price || false,
@@ -226,6 +194,14 @@ export default function EditProductPage() {
         description: product.description || '',
         is_visible_on_storefront: product.is_visible_on_storefront ?? true,
         external_checkout_url: product.external_checkout_url || '',
+        variants: variants.map(v => ({
+          id: v.id,
+          color: v.color,
+          size: v.size,
+          sku: v.sku || '',
+          stock_quantity: v.stock_quantity,
+          price: v.price ? Number(v.price) : null,
+        })),
       });
 
       const { data: images, error: imagesError } = await supabase
@@ -523,7 +499,7 @@ export default function EditProductPage() {
     }
   };
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+  const onSubmit = async (values: z.infer<typeof productFormSchema>) => {
     try {
       setIsLoading(true);
 
@@ -587,7 +563,7 @@ export default function EditProductPage() {
           brand: values.brand || null,
           gender: values.gender || null,
           colors: values.colors && values.colors.length > 0 ? values.colors : null,
-          sizes: [...(values.apparel_sizes || []), ...(values.shoe_sizes || [])].length > 0 ? [...(values.apparel_sizes || []), ...(values.shoe_sizes || [])] : null,
+          sizes: [...(values.apparel_sizes || []), ...(values.shoe_sizes || []), ...(values.custom_sizes || [])].length > 0 ? [...(values.apparel_sizes || []), ...(values.shoe_sizes || []), ...(values.custom_sizes || [])] : null,
           price: originalPrice,
           discounted_price: discountedPrice,
           is_starting_price: values.is_starting_price,
@@ -600,6 +576,9 @@ export default function EditProductPage() {
 
       if (updateError) throw updateError;
 
+      // Save stock per variant
+      await saveProductVariants(id!, values.variants);
+
       // Handle new images
       if (selectedImages.length > 0) {
         for (let i = 0; i < selectedImages.length; i++) {
@@ -976,6 +955,38 @@ export default function EditProductPage() {
                 </CardContent>
               </Card>
 
+              {/* Estoque por variação */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Estoque por Variação</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <FormField
+                    control={form.control}
+                    name="variants"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <ProductVariantsManager
+                            colors={form.watch('colors') || []}
+                            sizes={[
+                              ...(form.watch('apparel_sizes') || []),
+                              ...(form.watch('shoe_sizes') || []),
+                              ...(form.watch('custom_sizes') || []),
+                            ]}
+                            value={field.value}
+                            onChange={field.onChange}
+                            currency={(user?.currency || 'BRL') as SupportedCurrency}
+                            locale={(user?.language || 'pt-BR') as SupportedLanguage}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
               {/* Card 4: Descrições */}
               <Card>
                 <CardHeader>
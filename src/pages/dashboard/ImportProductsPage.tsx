@@ -0,0 +1,458 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+} from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { syncUserCategoriesWithStorefrontSettings } from '@/lib/utils';
+import { logCategoryOperation } from '@/lib/categoryUtils';
+import { downloadTextFile } from '@/lib/catalogExportUtils';
+import { getErrorMessage } from '@/lib/errorMessages';
+import {
+  SPREADSHEET_ACCEPT,
+  readSpreadsheetFile,
+  toCsv,
+  type SpreadsheetRows,
+} from '@/lib/spreadsheetUtils';
+import {
+  IMPORT_FIELDS,
+  IMPORT_TEMPLATE_ROWS,
+  createImportedProduct,
+  createMissingCategories,
+  detectColumnMapping,
+  getRemainingListings,
+  parseImportRows,
+  type ImportColumnMapping,
+  type ImportField,
+} from '@/lib/productImportUtils';
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'done';
+
+interface ImportResult {
+  created: number;
+  failed: { rowNumber: number; message: string }[];
+  failedImages: { rowNumber: number; url: string }[];
+  createdCategories: string[];
+}
+
+const NOT_MAPPED = 'none';
+
+export default function ImportProductsPage() {
+  const { user } = useAuth();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [reading, setReading] = useState(false);
+  const [rows, setRows] = useState<SpreadsheetRows>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [remainingListings, setRemainingListings] = useState<number | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (user?.id) {
+      getRemainingListings(user.id, user.listing_limit)
+        .then(setRemainingListings)
+        .catch(error => console.error('Error counting products:', error));
+    }
+  }, [user?.id, user?.listing_limit]);
+
+  const header = rows[0] || [];
+  const importRows = useMemo(
+    () => (step === 'preview' ? parseImportRows(rows, mapping) : []),
+    [step, rows, mapping]
+  );
+  const validRows = importRows.filter(row => row.data);
+  const invalidRows = importRows.filter(row => !row.data);
+  const rowsToImport = remainingListings === null ? validRows : validRows.slice(0, remainingListings);
+  const skippedByLimit = validRows.length - rowsToImport.length;
+
+  const missingRequiredFields = IMPORT_FIELDS
+    .filter(field => field.required && mapping[field.value] === undefined)
+    .map(field => field.label);
+
+  const handleFileChange = async (file?: File) => {
+    if (!file) return;
+
+    try {
+      setReading(true);
+      const data = await readSpreadsheetFile(file);
+
+      if (data.length < 2) {
+        toast.error('A planilha não possui produtos');
+        return;
+      }
+
+      setFileName(file.name);
+      setRows(data);
+      setMapping(detectColumnMapping(data[0]));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      toast.error('Não foi possível ler o arquivo. Use um CSV ou XLSX.');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === NOT_MAPPED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadTextFile(toCsv(IMPORT_TEMPLATE_ROWS), 'modelo-importacao-produtos.csv', 'text/csv;charset=utf-8');
+  };
+
+  const handleImport = async () => {
+    if (!user?.id || rowsToImport.length === 0) return;
+
+    setStep('importing');
+    setProgress(0);
+
+    const importResult: ImportResult = { created: 0, failed: [], failedImages: [], createdCategories: [] };
+
+    try {
+      importResult.createdCategories = await createMissingCategories(
+        user.id,
+        rowsToImport.flatMap(row => row.data!.category)
+      );
+    } catch (error) {
+      logCategoryOperation('IMPORT_CATEGORIES_ERROR', error);
+    }
+
+    for (let i = 0; i < rowsToImport.length; i++) {
+      const row = rowsToImport[i];
+
+      try {
+        const failedImages = await createImportedProduct(user.id, row.data!);
+        importResult.created++;
+        failedImages.forEach(url => importResult.failedImages.push({ rowNumber: row.rowNumber, url }));
+      } catch (error) {
+        console.error(`Error importing row ${row.rowNumber}:`, error);
+        importResult.failed.push({ rowNumber: row.rowNumber, message: getErrorMessage(error) });
+      }
+
+      setProgress(Math.round(((i + 1) / rowsToImport.length) * 100));
+    }
+
+    try {
+      await syncUserCategoriesWithStorefrontSettings(user.id);
+    } catch (syncError) {
+      logCategoryOperation('SYNC_ERROR_NON_CRITICAL', syncError);
+    }
+
+    setResult(importResult);
+    setStep('done');
+
+    if (importResult.created > 0) {
+      toast.success(`${importResult.created} produto(s) importado(s) com sucesso`);
+    }
+  };
+
+  const handleRestart = () => {
+    setStep('upload');
+    setFileName('');
+    setRows([]);
+    setMapping({});
+    setResult(null);
+
+    if (user?.id) {
+      getRemainingListings(user.id, user.listing_limit)
+        .then(setRemainingListings)
+        .catch(error => console.error('Error counting products:', error));
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/dashboard/listings">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Meus Produtos
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Importar Produtos</CardTitle>
+            <CardDescription>
+              Cadastre vários produtos de uma vez a partir de uma planilha CSV ou XLSX
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleDownloadTemplate}>
+            <Download className="h-4 w-4 mr-2" />
+            Baixar modelo
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {remainingListings !== null && step !== 'done' && (
+            <p className="text-sm text-muted-foreground">
+              Seu plano permite cadastrar mais {remainingListings} produto(s).
+            </p>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-10 cursor-pointer hover:bg-muted/50 transition-colors">
+              {reading ? (
+                <Loader2 className="h-10 w-10 animate-spin text-muted-foreground mb-3" />
+              ) : (
+                <Upload className="h-10 w-10 text-muted-foreground mb-3" />
+              )}
+              <span className="font-medium">Selecione a planilha</span>
+              <span className="text-sm text-muted-foreground">
+                A primeira linha deve conter os nomes das colunas
+              </span>
+              <input
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                className="hidden"
+                disabled={reading}
+                onChange={(e) => {
+                  handleFileChange(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          )}
+
+          {step === 'mapping' && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-sm">
+                <FileSpreadsheet className="h-4 w-4 text-primary" />
+                <span className="font-medium">{fileName}</span>
+                <span className="text-muted-foreground">({rows.length - 1} linha(s))</span>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Indique qual coluna da planilha corresponde a cada campo do produto.
+                Listas como categorias, cores, tamanhos e imagens podem ser separadas por ponto e vírgula.
+              </p>
+
+              <div className="grid gap-3 sm:grid-cols-2">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.value} className="space-y-1">
+                    <Label className="text-xs">
+                      {field.label}{field.required ? ' *' : ''}
+                    </Label>
+                    <Select
+                      value={mapping[field.value] !== undefined ? String(mapping[field.value]) : NOT_MAPPED}
+                      onValueChange={(value) => handleMappingChange(field.value, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Não importar</SelectItem>
+                        {header.map((column, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {column || `Coluna ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {missingRequiredFields.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Selecione as colunas de: {missingRequiredFields.join(', ')}
+                </p>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleRestart}>
+                  Trocar arquivo
+                </Button>
+                <Button onClick={() => setStep('preview')} disabled={missingRequiredFields.length > 0}>
+                  Validar produtos
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary" className="bg-green-100 text-green-800">
+                  {validRows.length} válido(s)
+                </Badge>
+                {invalidRows.length > 0 && (
+                  <Badge variant="secondary" className="bg-red-100 text-red-800">
+                    {invalidRows.length} com erro
+                  </Badge>
+                )}
+              </div>
+
+              {skippedByLimit > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    O limite de produtos do seu plano permite importar apenas {rowsToImport.length} produto(s).
+                    As últimas {skippedByLimit} linha(s) válidas não serão importadas.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="overflow-x-auto max-h-[480px] overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Linha</TableHead>
+                      <TableHead>Produto</TableHead>
+                      <TableHead>Resultado</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {importRows.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">
+                            {row.data?.title || rows[row.rowNumber - 1]?.[mapping.title ?? -1] || '—'}
+                          </div>
+                          {row.data && (
+                            <div className="text-xs text-muted-foreground">
+                              {row.data.category.join(', ')}
+                              {row.data.imageUrls.length > 0 && ` • ${row.data.imageUrls.length} imagem(ns)`}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {row.data ? (
+                            <span className="flex items-center gap-1 text-sm text-green-600">
+                              <CheckCircle2 className="h-4 w-4" />
+                              Pronto para importar
+                            </span>
+                          ) : (
+                            <ul className="text-sm text-destructive space-y-0.5">
+                              {row.errors.map((error, index) => (
+                                <li key={index}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setStep('mapping')}>
+                  Voltar
+                </Button>
+                <Button onClick={handleImport} disabled={rowsToImport.length === 0}>
+                  Importar {rowsToImport.length} produto(s)
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'importing' && (
+            <div className="space-y-3 py-6">
+              <div className="flex items-center gap-2 text-sm">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Importando produtos e baixando imagens... não feche esta página.
+              </div>
+              <Progress value={progress} />
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+                <span className="font-medium">{result.created} produto(s) importado(s)</span>
+              </div>
+
+              {result.createdCategories.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Categorias criadas: {result.createdCategories.join(', ')}
+                </p>
+              )}
+
+              {result.failed.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <p className="font-medium mb-1">Produtos não importados:</p>
+                    <ul className="space-y-0.5">
+                      {result.failed.map(failure => (
+                        <li key={failure.rowNumber}>Linha {failure.rowNumber}: {failure.message}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {result.failedImages.length > 0 && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <p className="font-medium mb-1">
+                      Imagens que não puderam ser baixadas (adicione-as editando o produto):
+                    </p>
+                    <ul className="space-y-0.5 break-all">
+                      {result.failedImages.map((image, index) => (
+                        <li key={index}>Linha {image.rowNumber}: {image.url}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleRestart}>
+                  Importar outra planilha
+                </Button>
+                <Button asChild>
+                  <Link to="/dashboard/listings">Ver produtos</Link>
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ export default function ListingsPage() {
     categoryFilter,
     availableCategories,
     updatingProductId,
+    duplicatingProductId,
     reordering,
     isReorderModeActive,
     selectedProducts,
@@ -33,6 +34,7 @@ export default function ListingsPage() {
     setCategoryFilter,
     setIsReorderModeActive,
     toggleProductVisibility,
+    handleDuplicateProduct,
     handleSelectProduct,
     handleSelectAll,
     handleBulkVisibilityToggle,
@@ -41,7 +43,7 @@ export default function ListingsPage() {
     handleBulkImageCompression,
     handleBulkDelete,
     handleDragEnd,
-  } = useProductListManagement({ userId: user?.id });
+  } = useProductListManagement({ userId: user?.id, listingLimit: user?.listing_limit });
 
   const handleClearFilters = () => {
     setSearchQuery('');
@@ -149,9 +151,11 @@ export default function ListingsPage() {
           bulkActionLoading={bulkActionLoading}
           selectedProducts={selectedProducts}
           updatingProductId={updatingProductId}
+          duplicatingProductId={duplicatingProductId}
           user={user}
           onSelectProduct={handleSelectProduct}
           onToggleVisibility={toggleProductVisibility}
+          onDuplicate={handleDuplicateProduct}
           onDragEnd={handleDragEnd}
           onSaveOrder={handleSaveOrder}
           onCancelReorder={handleCancelReorder}
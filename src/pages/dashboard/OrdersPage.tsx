@@ -0,0 +1,340 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Loader2, Eye, ShoppingBag, MessageCircle } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import { generateWhatsAppUrl } from '@/lib/utils';
+import { formatCurrencyI18n, type SupportedCurrency } from '@/lib/i18n';
+import {
+  ORDER_STATUSES,
+  getOrderStatusInfo,
+  formatOrderNumber,
+  loadOrders,
+  updateOrderStatus,
+} from '@/lib/orderUtils';
+import { formatDeliveryAddress, getDeliveryMethodLabel, getPaymentMethodLabel } from '@/lib/checkoutUtils';
+import type { Order, OrderStatus } from '@/types';
+
+export default function OrdersPage() {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'todos'>('todos');
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setLoading(true);
+      setOrders(await loadOrders(user!.id));
+    } catch (error) {
+      console.error('Error loading orders:', error);
+      toast.error('Erro ao carregar pedidos');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchOrders();
+    }
+  }, [user?.id, fetchOrders]);
+
+  const handleStatusChange = async (order: Order, status: OrderStatus) => {
+    try {
+      setUpdatingOrderId(order.id);
+      await updateOrderStatus(order.id, status);
+
+      setOrders(prev => prev.map(o => (o.id === order.id ? { ...o, status } : o)));
+      setSelectedOrder(prev => (prev?.id === order.id ? { ...prev, status } : prev));
+      toast.success(`Pedido ${formatOrderNumber(order.order_number)} marcado como ${getOrderStatusInfo(status).label.toLowerCase()}`);
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      toast.error('Erro ao atualizar status do pedido');
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  const formatOrderCurrency = (value: number, order: Order) => {
+    return formatCurrencyI18n(Number(value), order.currency as SupportedCurrency, 'pt-BR');
+  };
+
+  const filteredOrders = statusFilter === 'todos'
+    ? orders
+    : orders.filter(order => order.status === statusFilter);
+
+  const countByStatus = (status: OrderStatus) => orders.filter(order => order.status === status).length;
+
+  const renderStatusSelect = (order: Order) => (
+    <Select
+      value={order.status}
+      onValueChange={(value) => handleStatusChange(order, value as OrderStatus)}
+      disabled={updatingOrderId === order.id}
+    >
+      <SelectTrigger className="h-8 w-36">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ORDER_STATUSES.map(status => (
+          <SelectItem key={status.value} value={status.value}>
+            {status.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Pedidos</CardTitle>
+          <CardDescription>
+            Acompanhe os pedidos enviados pelo carrinho da sua vitrine
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as OrderStatus | 'todos')}>
+            <TabsList className="flex flex-wrap h-auto">
+              <TabsTrigger value="todos">Todos ({orders.length})</TabsTrigger>
+              {ORDER_STATUSES.map(status => (
+                <TabsTrigger key={status.value} value={status.value}>
+                  {status.label} ({countByStatus(status.value)})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {filteredOrders.length === 0 ? (
+            <div className="text-center py-12">
+              <ShoppingBag className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">Nenhum pedido encontrado</h3>
+              <p className="text-muted-foreground">
+                {orders.length === 0
+                  ? 'Os pedidos enviados pelo carrinho da vitrine aparecerão aqui'
+                  : 'Nenhum pedido com este status'}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pedido</TableHead>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Cliente</TableHead>
+                    <TableHead className="text-right">Itens</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredOrders.map(order => (
+                    <TableRow key={order.id}>
+                      <TableCell className="font-medium">{formatOrderNumber(order.order_number)}</TableCell>
+                      <TableCell>
+                        {format(new Date(order.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                      </TableCell>
+                      <TableCell>
+                        <div>{order.customer_name || 'Não informado'}</div>
+                        {order.customer_phone && (
+                          <div className="text-xs text-muted-foreground">{order.customer_phone}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {order.order_items?.reduce((sum, item) => sum + item.quantity, 0) || 0}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {formatOrderCurrency(order.total, order)}
+                      </TableCell>
+                      <TableCell>{renderStatusSelect(order)}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setSelectedOrder(order)}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          Detalhes
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Order Details */}
+      <Dialog open={!!selectedOrder} onOpenChange={(open) => !open && setSelectedOrder(null)}>
+        <DialogContent className="max-w-lg">
+          {selectedOrder && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  Pedido {formatOrderNumber(selectedOrder.order_number)}
+                  <Badge variant="secondary" className={getOrderStatusInfo(selectedOrder.status).className}>
+                    {getOrderStatusInfo(selectedOrder.status).label}
+                  </Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  Recebido em {format(new Date(selectedOrder.created_at), "dd 'de' MMMM 'de' yyyy 'às' HH:mm", { locale: ptBR })}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="space-y-1 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">Cliente: </span>
+                    {selectedOrder.customer_name || 'Não informado'}
+                  </div>
+                  {selectedOrder.customer_phone && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground">Telefone: </span>
+                      {selectedOrder.customer_phone}
+                      <a
+                        href={generateWhatsAppUrl(
+                          selectedOrder.customer_phone,
+                          `Olá! Sobre o seu pedido ${formatOrderNumber(selectedOrder.order_number)}...`
+                        )}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-green-600 hover:underline"
+                      >
+                        <MessageCircle className="h-4 w-4 mr-1" />
+                        WhatsApp
+                      </a>
+                    </div>
+                  )}
+                  {selectedOrder.delivery_method && (
+                    <div>
+                      <span className="text-muted-foreground">Entrega: </span>
+                      {getDeliveryMethodLabel(selectedOrder.delivery_method)}
+                    </div>
+                  )}
+                  {selectedOrder.delivery_method === 'delivery' && selectedOrder.delivery_address && (
+                    <div>
+                      <span className="text-muted-foreground">Endereço: </span>
+                      {formatDeliveryAddress(selectedOrder.delivery_address)}
+                    </div>
+                  )}
+                  {selectedOrder.payment_method && (
+                    <div>
+                      <span className="text-muted-foreground">Pagamento: </span>
+                      {getPaymentMethodLabel(selectedOrder.payment_method)}
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3 max-h-[300px] overflow-y-auto">
+                  {selectedOrder.order_items?.map(item => (
+                    <div key={item.id} className="flex justify-between gap-4 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium">{item.quantity}x {item.title}</div>
+                        {(item.color || item.size) && (
+                          <div className="text-xs text-muted-foreground">
+                            {[item.color, item.size].filter(Boolean).join(' • ')}
+                          </div>
+                        )}
+                        {item.notes && (
+                          <div className="text-xs text-muted-foreground italic">Obs.: {item.notes}</div>
+                        )}
+                      </div>
+                      <div className="text-right whitespace-nowrap">
+                        <div className="font-medium">{formatOrderCurrency(item.total_price, selectedOrder)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatOrderCurrency(item.unit_price, selectedOrder)} cada
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <Separator />
+
+                {(Number(selectedOrder.shipping_fee) > 0 || Number(selectedOrder.discount) > 0) && (
+                  <div className="space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Subtotal</span>
+                      <span>{formatOrderCurrency(selectedOrder.subtotal, selectedOrder)}</span>
+                    </div>
+                    {Number(selectedOrder.discount) > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">
+                          Desconto{selectedOrder.coupon_code ? ` (${selectedOrder.coupon_code})` : ''}
+                        </span>
+                        <span className="text-green-600">-{formatOrderCurrency(selectedOrder.discount!, selectedOrder)}</span>
+                      </div>
+                    )}
+                    {Number(selectedOrder.shipping_fee) > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Frete</span>
+                        <span>{formatOrderCurrency(selectedOrder.shipping_fee!, selectedOrder)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex justify-between items-center">
+                  <span className="font-semibold">Total</span>
+                  <span className="text-lg font-bold text-primary">
+                    {formatOrderCurrency(selectedOrder.total, selectedOrder)}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Status do pedido</span>
+                  {renderStatusSelect(selectedOrder)}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, LineChart as LineChartIcon, Loader2 } from 'lucide-react';
+import { LineChart, Line, ResponsiveContainer } from 'recharts';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { downloadTextFile } from '@/lib/catalogExportUtils';
+import {
+  buildProductPerformanceCsv,
+  getProductConversionRate,
+  getRecentPeriod,
+  loadProductPerformance,
+} from '@/lib/storefrontEventUtils';
+import type { ProductPerformance } from '@/types';
+
+type MetricKey = 'views' | 'unique_viewers' | 'cart_adds' | 'whatsapp_clicks' | 'orders' | 'conversion';
+type SortKey = 'title' | MetricKey;
+
+const COLUMNS: { key: MetricKey; label: string }[] = [
+  { key: 'views', label: 'Visualizações' },
+  { key: 'unique_viewers', label: 'Visitantes únicos' },
+  { key: 'cart_adds', label: 'Carrinho' },
+  { key: 'whatsapp_clicks', label: 'WhatsApp' },
+  { key: 'orders', label: 'Pedidos' },
+  { key: 'conversion', label: 'Conversão' },
+];
+
+const ALL_CATEGORIES = 'todas';
+
+const getMetricValue = (product: ProductPerformance, key: MetricKey): number => {
+  if (key === 'conversion') return getProductConversionRate(product);
+  return product[key];
+};
+
+export default function ProductPerformancePage() {
+  const { user } = useAuth();
+  const [products, setProducts] = useState<ProductPerformance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState('30');
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [sortKey, setSortKey] = useState<SortKey>('views');
+  const [sortAscending, setSortAscending] = useState(false);
+
+  const fetchPerformance = useCallback(async () => {
+    try {
+      setLoading(true);
+      setProducts(await loadProductPerformance(getRecentPeriod(Number(days))));
+    } catch (error) {
+      console.error('Error loading product performance:', error);
+      toast.error('Erro ao carregar o desempenho dos produtos');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchPerformance();
+    }
+  }, [user?.id, fetchPerformance]);
+
+  const categories = useMemo(
+    () => [...new Set(products.flatMap(product => product.category))].sort((a, b) => a.localeCompare(b)),
+    [products]
+  );
+
+  const visibleProducts = useMemo(() => {
+    const filtered = category === ALL_CATEGORIES
+      ? products
+      : products.filter(product => product.category.includes(category));
+
+    return [...filtered].sort((a, b) => {
+      const result = sortKey === 'title'
+        ? a.title.localeCompare(b.title)
+        : getMetricValue(a, sortKey) - getMetricValue(b, sortKey);
+
+      return sortAscending ? result : -result;
+    });
+  }, [products, category, sortKey, sortAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === 'title');
+    }
+  };
+
+  const handleExport = () => {
+    if (visibleProducts.length === 0) {
+      toast.error('Nenhum produto para exportar');
+      return;
+    }
+
+    const fileName = `desempenho-${user?.slug || 'produtos'}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    downloadTextFile(buildProductPerformanceCsv(visibleProducts), fileName, 'text/csv;charset=utf-8');
+    toast.success(`${visibleProducts.length} produto(s) exportado(s)`);
+  };
+
+  const renderSortIcon = (key: SortKey) => {
+    if (key !== sortKey) return <ArrowUpDown className="h-3 w-3 opacity-50" />;
+    return sortAscending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  return (
+    <div className="container mx-auto py-8">
+      <Card>
+        <CardHeader className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between space-y-0">
+          <div>
+            <CardTitle>Desempenho dos produtos</CardTitle>
+            <CardDescription className="mt-1.5">
+              Visualizações, carrinhos e contatos de cada produto da vitrine
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Últimos 7 dias</SelectItem>
+                <SelectItem value="30">Últimos 30 dias</SelectItem>
+                <SelectItem value="90">Últimos 90 dias</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>Todas as categorias</SelectItem>
+                {categories.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleExport} disabled={loading}>
+              <Download className="h-4 w-4 mr-2" />
+              Exportar CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center min-h-[300px]">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : visibleProducts.length === 0 ? (
+            <div className="text-center py-12">
+              <LineChartIcon className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">Nenhum produto encontrado</h3>
+              <p className="text-muted-foreground">
+                Cadastre produtos para acompanhar o desempenho de cada um na vitrine
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>
+                      <button type="button" className="flex items-center gap-1" onClick={() => handleSort('title')}>
+                        Produto {renderSortIcon('title')}
+                      </button>
+                    </TableHead>
+                    {COLUMNS.map(column => (
+                      <TableHead key={column.key} className="text-right">
+                        <button
+                          type="button"
+                          className="ml-auto flex items-center gap-1"
+                          onClick={() => handleSort(column.key)}
+                        >
+                          {column.label} {renderSortIcon(column.key)}
+                        </button>
+                      </TableHead>
+                    ))}
+                    <TableHead>Tendência</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleProducts.map(product => (
+                    <TableRow key={product.product_id}>
+                      <TableCell>
+                        <Link
+                          to={`/dashboard/products/${product.product_id}/edit`}
+                          className="flex items-center gap-3 hover:underline"
+                        >
+                          {product.featured_image_url ? (
+                            <img
+                              src={product.featured_image_url}
+                              alt={product.title}
+                              className="h-10 w-10 rounded object-cover flex-shrink-0"
+                            />
+                          ) : (
+                            <div className="h-10 w-10 rounded bg-muted flex-shrink-0" />
+                          )}
+                          <span className="max-w-[220px] truncate font-medium">{product.title}</span>
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right">{product.views}</TableCell>
+                      <TableCell className="text-right">{product.unique_viewers}</TableCell>
+                      <TableCell className="text-right">{product.cart_adds}</TableCell>
+                      <TableCell className="text-right">{product.whatsapp_clicks}</TableCell>
+                      <TableCell className="text-right">{product.orders}</TableCell>
+                      <TableCell className="text-right">
+                        {getProductConversionRate(product).toFixed(1).replace('.', ',')}%
+                      </TableCell>
+                      <TableCell>
+                        <div className="h-8 w-24" aria-label="Visualizações por dia">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={product.daily_views.map(views => ({ views }))}>
+                              <Line
+                                type="monotone"
+                                dataKey="views"
+                                stroke="#8884d8"
+                                strokeWidth={1.5}
+                                dot={false}
+                                isAnimationActive={false}
+                              />
+                            </LineChart>
+                          </ResponsiveContainer>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
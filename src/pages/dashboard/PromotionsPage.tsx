@@ -0,0 +1,319 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Loader2, Plus, Pencil, Trash2, CalendarClock } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { PromotionFormDialog, type PromotionProductOption } from '@/components/dashboard/PromotionFormDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { formatCurrencyI18n, type SupportedCurrency } from '@/lib/i18n';
+import { deletePromotion, loadPromotions, savePromotion, type PromotionInput } from '@/lib/promotionUtils';
+import type { Promotion } from '@/types';
+
+export default function PromotionsPage() {
+  const { user } = useAuth();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [products, setProducts] = useState<PromotionProductOption[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [deletingPromotion, setDeletingPromotion] = useState<Promotion | null>(null);
+
+  const currency = (user?.currency || 'BRL') as SupportedCurrency;
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const [
+        promotionsData,
+        { data: productsData, error: productsError },
+        { data: categoriesData, error: categoriesError },
+      ] = await Promise.all([
+        loadPromotions(user!.id),
+        supabase
+          .from('products')
+          .select('id, title, price, category')
+          .eq('user_id', user!.id)
+          .order('title', { ascending: true }),
+        supabase
+          .from('user_product_categories')
+          .select('name')
+          .eq('user_id', user!.id)
+          .order('name', { ascending: true }),
+      ]);
+
+      if (productsError) throw productsError;
+      if (categoriesError) throw categoriesError;
+
+      setPromotions(promotionsData);
+      setProducts(productsData || []);
+      setCategories(categoriesData?.map(category => category.name) || []);
+    } catch (error) {
+      console.error('Error loading promotions:', error);
+      toast.error('Erro ao carregar promoções');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchData();
+    }
+  }, [user?.id, fetchData]);
+
+  const handleSave = async (values: PromotionInput) => {
+    try {
+      setSaving(true);
+      await savePromotion(user!.id, values, editingPromotion?.id);
+
+      toast.success(editingPromotion ? 'Promoção atualizada com sucesso' : 'Promoção criada com sucesso');
+      setFormOpen(false);
+      setEditingPromotion(null);
+      setPromotions(await loadPromotions(user!.id));
+    } catch (error) {
+      console.error('Error saving promotion:', error);
+      toast.error('Erro ao salvar promoção');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .update({ is_active: isActive })
+        .eq('id', promotion.id);
+
+      if (error) throw error;
+
+      setPromotions(prev => prev.map(p => (p.id === promotion.id ? { ...p, is_active: isActive } : p)));
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      toast.error('Erro ao atualizar promoção');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingPromotion) return;
+
+    try {
+      await deletePromotion(deletingPromotion.id);
+      setPromotions(prev => prev.filter(p => p.id !== deletingPromotion.id));
+      toast.success('Promoção excluída com sucesso');
+    } catch (error) {
+      console.error('Error deleting promotion:', error);
+      toast.error('Erro ao excluir promoção');
+    } finally {
+      setDeletingPromotion(null);
+    }
+  };
+
+  const formatDiscount = (promotion: Promotion) => {
+    return promotion.discount_type === 'percentage'
+      ? `${Number(promotion.discount_value)}%`
+      : formatCurrencyI18n(Number(promotion.discount_value), currency, 'pt-BR');
+  };
+
+  const formatTarget = (promotion: Promotion) => {
+    if (promotion.target_type === 'products') {
+      return `${promotion.product_ids.length} produto(s)`;
+    }
+    if (promotion.target_type === 'categories') {
+      return promotion.categories.join(', ');
+    }
+    return 'Todos os produtos';
+  };
+
+  const getPromotionStatus = (promotion: Promotion) => {
+    const now = Date.now();
+
+    if (!promotion.is_active) {
+      return { label: 'Inativa', className: 'bg-gray-100 text-gray-800' };
+    }
+    if (new Date(promotion.ends_at).getTime() <= now) {
+      return { label: 'Encerrada', className: 'bg-red-100 text-red-800' };
+    }
+    if (new Date(promotion.starts_at).getTime() > now) {
+      return { label: 'Agendada', className: 'bg-blue-100 text-blue-800' };
+    }
+    return { label: 'Em andamento', className: 'bg-green-100 text-green-800' };
+  };
+
+  const formatDateTime = (value: string) => format(new Date(value), 'dd/MM/yyyy HH:mm', { locale: ptBR });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Promoções</CardTitle>
+            <CardDescription>
+              Agende descontos com início e fim para produtos ou categorias da sua vitrine
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => {
+              setEditingPromotion(null);
+              setFormOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Nova Promoção
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {promotions.length === 0 ? (
+            <div className="text-center py-12">
+              <CalendarClock className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">Nenhuma promoção criada</h3>
+              <p className="text-muted-foreground">
+                Crie uma promoção para colocar produtos em oferta por um período
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Promoção</TableHead>
+                    <TableHead>Desconto</TableHead>
+                    <TableHead>Início</TableHead>
+                    <TableHead>Término</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Ativa</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {promotions.map(promotion => {
+                    const status = getPromotionStatus(promotion);
+
+                    return (
+                      <TableRow key={promotion.id}>
+                        <TableCell>
+                          <div className="font-medium">{promotion.name}</div>
+                          <div className="text-xs text-muted-foreground truncate max-w-[240px]">
+                            {formatTarget(promotion)}
+                          </div>
+                        </TableCell>
+                        <TableCell>{formatDiscount(promotion)}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDateTime(promotion.starts_at)}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDateTime(promotion.ends_at)}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary" className={status.className}>
+                            {status.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={promotion.is_active}
+                            onCheckedChange={(checked) => handleToggleActive(promotion, checked)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => {
+                                setEditingPromotion(promotion);
+                                setFormOpen(true);
+                              }}
+                              aria-label="Editar promoção"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => setDeletingPromotion(promotion)}
+                              aria-label="Excluir promoção"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <PromotionFormDialog
+        open={formOpen}
+        onOpenChange={(open) => {
+          setFormOpen(open);
+          if (!open) setEditingPromotion(null);
+        }}
+        promotion={editingPromotion}
+        products={products}
+        categories={categories}
+        currency={currency}
+        saving={saving}
+        onSubmit={handleSave}
+      />
+
+      <AlertDialog open={!!deletingPromotion} onOpenChange={(open) => !open && setDeletingPromotion(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir promoção</AlertDialogTitle>
+            <AlertDialogDescription>
+              A promoção {deletingPromotion?.name} será removida e os produtos voltam aos preços
+              normais na vitrine. Os pedidos já feitos mantêm os valores registrados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
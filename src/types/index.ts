@@ -43,6 +43,18 @@ export interface ProductImage {
   is_featured: boolean;
 }
 
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  color: string; // '' when the product has no color option
+  size: string; // '' when the product has no size option
+  sku?: string;
+  stock_quantity: number;
+  price?: number; // Overrides the product price when set
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface Product {
   id: string;
   user_id: string;
@@ -65,9 +77,13 @@ export interface Product {
   short_description?: string;
   is_visible_on_storefront?: boolean;
   external_checkout_url?: string;
+  reserved_until?: string; // Set when the product was reserved automatically after an order
+  display_order?: number | null; // Storefront order; products without it come last
+  active_promotion?: ActivePromotion | null; // Running promotion applied to `discounted_price`
   created_at: string;
   updated_at?: string;
   product_images?: ProductImage[];
+  product_variants?: ProductVariant[];
   colors?: string[];
   sizes?: string[];
 }
@@ -86,6 +102,100 @@ export interface CategoryDisplaySetting {
   enabled: boolean;
 }
 
+export interface InventorySettings {
+  reserveOnOrder: boolean; // Reserve products automatically after a cart order is sent
+  reservationHours: number;
+}
+
+export type DeliveryMethod = 'pickup' | 'delivery';
+export type PaymentPreference = 'pix' | 'cartao' | 'dinheiro';
+export type CepProviderName = 'viacep' | 'local';
+
+export interface CheckoutSettings {
+  enabled: boolean; // Show the checkout step before sending the order
+  requirePhone: boolean;
+  deliveryMethods: DeliveryMethod[];
+  paymentMethods: PaymentPreference[];
+  cepProvider: CepProviderName;
+}
+
+// Monthly interest charged for an installment count above the interest-free limit
+export interface InstallmentRate {
+  installments: number;
+  rate: number; // % per month
+}
+
+export interface PaymentConditionsSettings {
+  enabled: boolean; // Show installments and the PIX price on the storefront
+  maxInstallments: number;
+  interestFreeInstallments: number; // Installment counts up to this one have no interest
+  interestRates: InstallmentRate[];
+  pixDiscount: number; // % off when paying with PIX
+}
+
+// Payment condition computed for an amount, e.g. 3x of 33.33 interest-free or PIX with 5% off
+export interface PaymentConditionOption {
+  method: 'pix' | 'installments';
+  installments: number; // 1 for PIX
+  installmentValue: number;
+  total: number;
+  interestFree: boolean;
+}
+
+export interface DeliveryAddress {
+  cep: string;
+  street: string;
+  number: string;
+  complement?: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+}
+
+export interface CheckoutData {
+  customerName: string;
+  customerPhone: string;
+  deliveryMethod?: DeliveryMethod;
+  address?: DeliveryAddress;
+  paymentMethod?: PaymentPreference;
+}
+
+export type DeliveryZoneType = 'neighborhood' | 'cep_range' | 'radius';
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  type: DeliveryZoneType;
+  neighborhoods?: string[]; // type 'neighborhood'
+  cepStart?: string; // type 'cep_range' (8 digits)
+  cepEnd?: string;
+  radiusKm?: number; // type 'radius', measured from ShippingSettings.origin
+  fee: number;
+  freeShippingThreshold?: number | null; // Overrides the storefront threshold
+}
+
+export interface ShippingSettings {
+  enabled: boolean;
+  pickupEnabled: boolean;
+  freeShippingThreshold?: number | null;
+  origin?: { latitude: number; longitude: number } | null;
+  zones: DeliveryZone[];
+}
+
+export interface ShippingDestination {
+  cep?: string;
+  neighborhood?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface ShippingQuote {
+  available: boolean; // False when no zone covers the destination
+  fee: number;
+  isFree: boolean;
+  zone?: DeliveryZone;
+}
+
 export interface StorefrontSettings {
   id: string;
   user_id: string;
@@ -101,12 +211,32 @@ export interface StorefrontSettings {
       showCondition?: boolean;
     };
     itemsPerPage?: number;
+    priceRange?: StorefrontDisplaySettings['priceRange'];
+    sorting?: StorefrontDisplaySettings['sorting'];
     categoryDisplaySettings?: CategoryDisplaySetting[];
+    inventory?: InventorySettings;
+    checkout?: CheckoutSettings;
+    shipping?: ShippingSettings;
+    paymentConditions?: PaymentConditionsSettings;
   };
   created_at: string;
   updated_at?: string;
 }
 
+// Storefront settings merged with the defaults, with the filter flags at the top level
+export interface StorefrontDisplaySettings extends NonNullable<StorefrontSettings['settings']['filters']> {
+  itemsPerPage?: number;
+  priceRange?: {
+    minPrice?: number;
+    maxPrice?: number;
+  };
+  sorting?: {
+    defaultSort?: string; // A SortOption of src/utils/productDisplayUtils.ts
+    hiddenOptions?: string[];
+  };
+  paymentConditions?: PaymentConditionsSettings;
+}
+
 export type SubscriptionStatus = 'active' | 'pending' | 'cancelled' | 'suspended';
 export type PaymentStatus = 'paid' | 'pending' | 'overdue';
 export type PaymentMethodStatus = 'completed' | 'pending' | 'failed' | 'refunded';
@@ -163,12 +293,260 @@ export interface CartItem {
   availableColors?: string[];
   availableSizes?: string[];
   variantId?: string; // Unique identifier for this specific variant
+  productVariantId?: string; // product_variants row backing this item, if stock is tracked
+  maxQuantity?: number; // Stock available when the item was added
+  variantPrice?: number; // Price override of the selected variant
+  availableVariants?: ProductVariant[]; // Stock snapshot used when switching options in the cart
+  category?: string[]; // Used to check coupon category restrictions
+}
+
+export type CartItemChangeReason = 'sold' | 'hidden' | 'unavailable' | 'price_changed' | 'quantity_reduced';
+
+// Difference between a cart item and the current catalog, shown until the shopper acknowledges it
+export interface CartItemChange {
+  variantId: string;
+  title: string;
+  reason: CartItemChangeReason;
+  previousPrice: number;
+  currentPrice?: number; // Only for price changes
+  previousQuantity?: number; // Only when the quantity was reduced to the stock
+  currentQuantity?: number;
+}
+
+export type OrderStatus = 'novo' | 'confirmado' | 'pago' | 'enviado' | 'entregue' | 'cancelado';
+
+export interface OrderItem {
+  id: string;
+  order_id: string;
+  product_id?: string;
+  product_variant_id?: string;
+  title: string;
+  color?: string;
+  size?: string;
+  notes?: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  created_at: string;
+}
+
+export interface Order {
+  id: string;
+  user_id: string;
+  order_number: number;
+  status: OrderStatus;
+  customer_name?: string;
+  customer_phone?: string;
+  currency: string;
+  language: string;
+  subtotal: number;
+  total: number;
+  delivery_method?: DeliveryMethod;
+  delivery_address?: Partial<DeliveryAddress> & ShippingDestination; // Only the shipping destination without the checkout form
+  payment_method?: PaymentPreference;
+  shipping_fee?: number;
+  discount?: number;
+  coupon_id?: string | null;
+  coupon_code?: string | null;
+  created_at: string;
+  updated_at?: string;
+  order_items?: OrderItem[];
 }
 
 export interface CartState {
   items: CartItem[];
-  total: number;
+  subtotal: number; // Sum of the items
+  discount: number; // Coupon discount
+  shippingFee: number;
+  total: number; // subtotal - discount + shippingFee
   itemCount: number;
+  coupon?: AppliedCoupon | null;
+  recoveryContact?: CartRecoveryContact | null; // Set when the shopper agrees to be contacted
+}
+
+// WhatsApp contact left by a shopper who agreed to be contacted about the cart
+export interface CartRecoveryContact {
+  name?: string;
+  phone: string;
+}
+
+// Cart snapshot saved for a shopper who didn't send the order
+export interface AbandonedCart {
+  id: string;
+  user_id: string;
+  viewer_id: string;
+  customer_name?: string;
+  customer_phone: string;
+  items: CartItem[];
+  total: number;
+  currency: string;
+  language: string;
+  contacted_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Snapshot of a favorited product, kept in the shopper's browser
+export interface FavoriteItem {
+  id: string;
+  title: string;
+  price?: number;
+  discounted_price?: number;
+  is_starting_price?: boolean;
+  featured_image_url?: string;
+  added_at: string;
+}
+
+export interface ProductFavoriteCount {
+  product_id: string;
+  title: string;
+  featured_image_url?: string | null;
+  favorite_count: number;
+}
+
+export type StorefrontEventType =
+  | 'page_view'
+  | 'product_view'
+  | 'add_to_cart'
+  | 'remove_from_cart'
+  | 'whatsapp_click'
+  | 'order_sent'
+  | 'share'
+  | 'search';
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+export interface UtmParams {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+}
+
+// UTM params plus the ad click ids of Meta (fbclid) and Google (gclid)
+export interface CampaignParams extends UtmParams {
+  fbclid?: string;
+  gclid?: string;
+}
+
+// Shopper interaction recorded on a seller's storefront
+export interface StorefrontEvent extends CampaignParams {
+  id: string;
+  user_id: string;
+  event_type: StorefrontEventType;
+  product_id?: string | null;
+  session_id: string;
+  viewer_id: string;
+  referrer?: string | null;
+  device_type?: DeviceType | null;
+  search_query?: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+// Events of one type on one day, from `get_storefront_event_summary`
+export interface StorefrontEventSummary {
+  day: string;
+  event_type: StorefrontEventType;
+  event_count: number;
+  session_count: number;
+}
+
+export type StorefrontFunnelGrouping = 'none' | 'category' | 'source';
+
+// Sessions in each funnel step, from `get_storefront_funnel`
+export interface StorefrontFunnelRow {
+  group_key: string | null; // Category or traffic source; null without grouping or category
+  visits: number;
+  product_views: number;
+  cart_adds: number;
+  orders: number;
+}
+
+// Storefront indicators of a product in a period, from `get_product_performance`
+export interface ProductPerformance {
+  product_id: string;
+  title: string;
+  featured_image_url?: string | null;
+  category: string[];
+  views: number;
+  unique_viewers: number;
+  cart_adds: number;
+  whatsapp_clicks: number;
+  orders: number; // Orders sent with the product
+  daily_views: number[]; // One value per day of the period, oldest first
+}
+
+// Storefront results of a campaign link in a period, from `get_campaign_report`
+export interface CampaignReportRow {
+  utm_source: string; // facebook or google for links with only an ad click id
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_content: string | null; // Post or ad of the link
+  sessions: number;
+  product_views: number;
+  cart_adds: number;
+  orders: number;
+  revenue: number; // Total of the orders not cancelled
+}
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface Coupon {
+  id: string;
+  user_id: string;
+  code: string;
+  description?: string | null;
+  discount_type: DiscountType;
+  discount_value: number;
+  min_cart_value: number;
+  expires_at?: string | null;
+  usage_limit?: number | null;
+  usage_count: number;
+  categories: string[]; // Empty means every category
+  is_active: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Public coupon fields returned by `validate_coupon`
+export type AppliedCoupon = Pick<Coupon, 'id' | 'code' | 'discount_type' | 'discount_value' | 'min_cart_value' | 'categories'>;
+
+export type PromotionTargetType = 'all' | 'products' | 'categories';
+
+export interface Promotion {
+  id: string;
+  user_id: string;
+  name: string;
+  discount_type: DiscountType;
+  discount_value: number;
+  starts_at: string;
+  ends_at: string;
+  target_type: PromotionTargetType;
+  product_ids: string[];
+  categories: string[];
+  is_active: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Promotion shown on a product while it is running
+export type ActivePromotion = Pick<Promotion, 'id' | 'name' | 'ends_at'>;
+
+export interface ProductTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  brand?: string | null;
+  gender?: ProductGender | null;
+  categories: string[];
+  colors: string[];
+  sizes: string[];
+  short_description?: string | null;
+  description?: string | null; // Description skeleton filled in for each product
+  created_at: string;
+  updated_at?: string;
 }
 
 // Referral System Types
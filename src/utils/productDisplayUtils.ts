@@ -1,18 +1,63 @@
-import type { Product, CategoryDisplaySetting } from '@/types';
+import type { Product, CategoryDisplaySetting, StorefrontDisplaySettings } from '@/types';
 import { sanitizeCategoryName } from '@/lib/categoryUtils';
+import { getEffectiveStatus } from '@/lib/productStatusUtils';
 import { useTranslation, type SupportedLanguage } from '@/lib/i18n';
+import { normalizeSearchText } from '@/lib/productSearchUtils';
+import type { ProductPopularity, StorefrontCategoryCount } from '@/lib/storefrontCatalogUtils';
 
+export type FilterFacet = 'status' | 'category' | 'brand' | 'gender' | 'condition' | 'size' | 'color';
+
+// Facets in the order they are shown; the keys are also the URL parameters
+export const FILTER_FACETS: FilterFacet[] = ['status', 'category', 'brand', 'gender', 'condition', 'size', 'color'];
+
+// An empty list means every value; several values in a facet match any of them
 export interface ProductFilters {
   query?: string;
-  status?: string;
-  category?: string;
-  brand?: string;
-  gender?: string;
-  condition?: string;
+  status?: string[];
+  category?: string[];
+  brand?: string[];
+  gender?: string[];
+  condition?: string[];
+  size?: string[];
+  color?: string[];
   minPrice?: number;
   maxPrice?: number;
 }
 
+export type SortOption =
+  | 'display-order'
+  | 'price-asc'
+  | 'price-desc'
+  | 'name-asc'
+  | 'name-desc'
+  | 'newest'
+  | 'oldest'
+  | 'most-viewed'
+  | 'most-ordered';
+
+// Sort options in the order they are shown; the value is also the `sort` URL parameter
+export const SORT_OPTIONS: SortOption[] = [
+  'display-order',
+  'price-asc',
+  'price-desc',
+  'name-asc',
+  'name-desc',
+  'newest',
+  'oldest',
+  'most-viewed',
+  'most-ordered',
+];
+
+// Options that need the view and order counts of the products
+export const POPULARITY_SORT_OPTIONS: SortOption[] = ['most-viewed', 'most-ordered'];
+
+export interface FacetOption {
+  value: string;
+  count: number; // Products matching this value and the other active filters
+}
+
+export type FacetOptions = Record<FilterFacet, FacetOption[]>;
+
 /**
  * Utility functions for product display and organization
  */
@@ -92,6 +137,56 @@ export function groupProductsByCategory(
   return orderedGrouped;
 }
 
+export interface CategorySection {
+  name: string;
+  category: string | null; // Value stored on the products, null for the products without category
+  count: number;
+}
+
+/**
+ * Storefront sections from the category counts computed in the database
+ * Follows the same rules as `groupProductsByCategory` for catalogs loaded page by page
+ */
+export function getCategorySections(
+  counts: StorefrontCategoryCount[],
+  categorySettings: CategoryDisplaySetting[] = [],
+  language: SupportedLanguage = 'pt-BR'
+): CategorySection[] {
+  const sections: CategorySection[] = [];
+
+  categorySettings
+    .filter(setting => setting.enabled)
+    .sort((a, b) => a.order - b.order)
+    .forEach(setting => {
+      // Prefer the value saved exactly as configured when several spellings sanitize to it
+      const matches = counts.filter(row =>
+        row.category !== null && sanitizeCategoryName(row.category) === setting.category
+      );
+      const match = matches.find(row => row.category === setting.category) || matches[0];
+
+      if (match && match.product_count > 0) {
+        sections.push({
+          name: setting.category,
+          category: match.category,
+          count: match.product_count
+        });
+      }
+    });
+
+  const uncategorized = counts.find(row => row.category === null);
+  if (uncategorized && uncategorized.product_count > 0) {
+    const othersLabel = language === 'en-US' ? 'Others' : 
+                       language === 'es-ES' ? 'Otros' : 'Outros';
+    sections.push({
+      name: othersLabel,
+      category: null,
+      count: uncategorized.product_count
+    });
+  }
+
+  return sections;
+}
+
 /**
  * Gets category information with counts and settings
  */
@@ -128,106 +223,138 @@ export function getCategoryInfo(
 }
 
 /**
- * Enhanced filterProducts function that returns both filtered products and search state
+ * Default price range of the storefront filters
  */
-export function filterProducts(
-  products: Product[],
+function getDefaultPriceRange(settings?: StorefrontDisplaySettings | null): { minPrice: number; maxPrice: number } {
+  return {
+    minPrice: settings?.priceRange?.minPrice || 10,
+    maxPrice: settings?.priceRange?.maxPrice || 5000
+  };
+}
+
+/**
+ * Values of a product for a facet
+ */
+function getProductFacetValues(product: Product, facet: FilterFacet): string[] {
+  switch (facet) {
+    case 'status':
+      // Reflects stock and expired reservations
+      return [getEffectiveStatus(product)];
+    case 'category':
+      return (product.category || []).map(sanitizeCategoryName).filter(Boolean);
+    case 'brand':
+      return product.brand ? [product.brand] : [];
+    case 'gender':
+      return product.gender ? [product.gender] : [];
+    case 'condition':
+      return product.condition ? [product.condition] : [];
+    case 'size':
+      return product.sizes || [];
+    case 'color':
+      return product.colors || [];
+  }
+}
+
+/**
+ * Checks a product against the filters, optionally ignoring one facet
+ * Ignoring a facet gives the counts shown next to its own options
+ */
+function matchesFilters(
+  product: Product,
   filters: ProductFilters,
-  settings: any
-): { filteredProducts: Product[]; isSearchActive: boolean } {
-  // Check if any filters are active (excluding defaults)
-  const isSearchActive = !!(
-    filters.query ||
-    (filters.status && filters.status !== 'todos') ||
-    (filters.category && filters.category !== 'todos') ||
-    (filters.brand && filters.brand !== 'todos') ||
-    (filters.gender && filters.gender !== 'todos') ||
-    (filters.condition && filters.condition !== 'todos') ||
-    (filters.minPrice && filters.minPrice !== (settings?.priceRange?.minPrice || 10)) ||
-    (filters.maxPrice && filters.maxPrice !== (settings?.priceRange?.maxPrice || 5000))
-  );
+  ignoredFacet?: FilterFacet
+): boolean {
+  // Search filter: products containing the search term, accents ignored
+  const query = filters.query?.trim() || '';
+  if (query) {
+    const searchTerm = normalizeSearchText(query);
+    const searchableText = normalizeSearchText([
+      product.title,
+      product.short_description,
+      product.brand,
+      product.model,
+      ...(product.category || [])
+    ].join(' '));
 
-  const filteredProducts = products.filter(product => {
-    // Search filter
-    if (filters.query) {
-      const searchTerm = filters.query.toLowerCase();
-      const searchableText = [
-        product.title,
-        product.short_description,
-        product.brand,
-        product.model,
-        ...(product.category || [])
-      ].join(' ').toLowerCase();
-      
-      if (!searchableText.includes(searchTerm)) {
-        return false;
-      }
-    }
-    
-    // Category filter
-    if (filters.category && filters.category !== 'todos') {
-      if (!product.category || !Array.isArray(product.category)) {
-        return filters.category === 'Outros';
-      }
-      
-      const hasCategory = product.category.some(cat => 
-        sanitizeCategoryName(cat) === filters.category
-      );
-      
-      if (!hasCategory) {
-        return false;
-      }
+    if (!searchableText.includes(searchTerm)) {
+      return false;
     }
-    
-    // Price range filter
-    const productPrice = product.discounted_price || product.price;
+  }
+
+  // Price range filter
+  const productPrice = product.discounted_price || product.price;
+  if (productPrice !== undefined) {
     if (filters.minPrice !== undefined && productPrice < filters.minPrice) {
       return false;
     }
     if (filters.maxPrice !== undefined && productPrice > filters.maxPrice) {
       return false;
     }
-    
-    // Brand filter
-    if (filters.brand && filters.brand !== 'todos') {
-      if (product.brand !== filters.brand) {
-        return false;
-      }
-    }
-    
-    // Gender filter
-    if (filters.gender && filters.gender !== 'todos') {
-      if (product.gender !== filters.gender) {
-        return false;
-      }
-    }
-    
-    // Status filter
-    if (filters.status && filters.status !== 'todos') {
-      if (product.status !== filters.status) {
-        return false;
-      }
-    }
-    
-    // Condition filter
-    if (filters.condition && filters.condition !== 'todos') {
-      if (product.condition !== filters.condition) {
-        return false;
-      }
+  }
+
+  // Facets
+  return FILTER_FACETS.every(facet => {
+    const selected = filters[facet] || [];
+    if (facet === ignoredFacet || selected.length === 0) {
+      return true;
     }
-    
-    return true;
+
+    return getProductFacetValues(product, facet).some(value => selected.includes(value));
   });
+}
+
+/**
+ * Whether the filters differ from the defaults
+ */
+export function hasActiveFilters(filters: ProductFilters, settings?: StorefrontDisplaySettings | null): boolean {
+  const defaults = getDefaultPriceRange(settings);
+
+  return !!(
+    filters.query?.trim() ||
+    FILTER_FACETS.some(facet => (filters[facet] || []).length > 0) ||
+    (filters.minPrice && filters.minPrice !== defaults.minPrice) ||
+    (filters.maxPrice && filters.maxPrice !== defaults.maxPrice)
+  );
+}
+
+/**
+ * Enhanced filterProducts function that returns both filtered products and search state
+ */
+export function filterProducts(
+  products: Product[],
+  filters: ProductFilters,
+  settings?: StorefrontDisplaySettings | null
+): { filteredProducts: Product[]; isSearchActive: boolean } {
+  const filteredProducts = products.filter(product => matchesFilters(product, filters));
+
+  return { filteredProducts, isSearchActive: hasActiveFilters(filters, settings) };
+}
+
+/**
+ * Seller order: products with display_order first, then the newest
+ */
+function compareDisplayOrder(a: Product, b: Product): number {
+  const orderA = a.display_order ?? null;
+  const orderB = b.display_order ?? null;
 
-  return { filteredProducts, isSearchActive };
+  if (orderA !== null && orderB !== null) {
+    return orderA - orderB;
+  }
+  if (orderA !== null) return -1;
+  if (orderB !== null) return 1;
+
+  return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
 }
 
 /**
  * Sorts products based on specified criteria
+ * The popularity options need the counts of `loadStorefrontProductPopularity`;
+ * ties, and products never viewed or ordered, keep the seller order
  */
 export function sortProducts(
   products: Product[],
-  sortBy: 'price-asc' | 'price-desc' | 'name-asc' | 'name-desc' | 'newest' | 'oldest' | 'display-order'
+  sortBy: SortOption,
+  popularity?: Map<string, ProductPopularity>
 ): Product[] {
   const sorted = [...products];
   
@@ -262,18 +389,20 @@ export function sortProducts(
         new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
       );
       
+    case 'most-viewed':
+      return sorted.sort((a, b) =>
+        (popularity?.get(b.id)?.view_count || 0) - (popularity?.get(a.id)?.view_count || 0) ||
+        compareDisplayOrder(a, b)
+      );
+
+    case 'most-ordered':
+      return sorted.sort((a, b) =>
+        (popularity?.get(b.id)?.order_count || 0) - (popularity?.get(a.id)?.order_count || 0) ||
+        compareDisplayOrder(a, b)
+      );
+
     case 'display-order':
-      return sorted.sort((a, b) => {
-        // Products with display_order come first, sorted by order
-        if (a.display_order !== null && b.display_order !== null) {
-          return a.display_order - b.display_order;
-        }
-        if (a.display_order !== null) return -1;
-        if (b.display_order !== null) return 1;
-        
-        // Then by creation date (newest first)
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-      });
+      return sorted.sort(compareDisplayOrder);
       
     default:
       return sorted;
@@ -281,29 +410,66 @@ export function sortProducts(
 }
 
 /**
- * Gets unique values for filter options
+ * Sort options offered by the seller and the one used when the shopper doesn't pick any
  */
-export function getFilterOptions(products: Product[]) {
-  const brands = new Set<string>();
-  const genders = new Set<string>();
-  const conditions = new Set<string>();
-  const statuses = new Set<string>();
-  
-  products.forEach(product => {
-    if (product.brand) brands.add(product.brand);
-    if (product.gender) genders.add(product.gender);
-    if (product.condition) conditions.add(product.condition);
-    if (product.status) statuses.add(product.status);
-  });
-  
+export function getSortSettings(settings?: StorefrontDisplaySettings | null): { defaultSort: SortOption; options: SortOption[] } {
+  const hiddenOptions = settings?.sorting?.hiddenOptions || [];
+  const defaultSort = SORT_OPTIONS.find(option => option === settings?.sorting?.defaultSort) || 'display-order';
+
   return {
-    brands: Array.from(brands).sort(),
-    genders: Array.from(genders).sort(),
-    conditions: Array.from(conditions).sort(),
-    statuses: Array.from(statuses).sort()
+    defaultSort,
+    // The default option is always offered, so the shopper can go back to it
+    options: SORT_OPTIONS.filter(option => option === defaultSort || !hiddenOptions.includes(option)),
   };
 }
 
+/**
+ * Parse the sort option from the URL, falling back to the seller default
+ */
+export function parseUrlSort(searchParams: URLSearchParams, settings?: StorefrontDisplaySettings | null): SortOption {
+  const { defaultSort, options } = getSortSettings(settings);
+  const sort = searchParams.get('sort') as SortOption | null;
+
+  return sort && options.includes(sort) ? sort : defaultSort;
+}
+
+/**
+ * Options of each facet with the number of products they would show
+ * Each facet is counted against the other active filters, so selecting a brand
+ * doesn't zero the counts of the other brands
+ */
+export function getFilterOptions(
+  products: Product[],
+  filters: ProductFilters = {}
+): FacetOptions {
+  const options = {} as FacetOptions;
+
+  FILTER_FACETS.forEach(facet => {
+    const counts = new Map<string, number>();
+
+    products.forEach(product => {
+      const values = new Set(getProductFacetValues(product, facet));
+      if (values.size === 0) return;
+
+      const matches = matchesFilters(product, filters, facet);
+
+      values.forEach(value => {
+        counts.set(value, (counts.get(value) || 0) + (matches ? 1 : 0));
+      });
+    });
+
+    // Selected values stay listed even when nothing matches them anymore
+    (filters[facet] || []).forEach(value => {
+      if (!counts.has(value)) counts.set(value, 0);
+    });
+
+    options[facet] = Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => a.value.localeCompare(b.value, undefined, { numeric: true }));
+  });
+
+  return options;
+}
+
 /**
  * Calculates price statistics for products
  */
@@ -322,28 +488,61 @@ export function getPriceStats(products: Product[]) {
 
 /**
  * Parses URL search parameters into ProductFilters
+ * Facets with several values repeat the parameter (?brand=Nike&brand=Adidas)
  */
-export function parseUrlFilters(searchParams: URLSearchParams, settings: any): ProductFilters {
+export function parseUrlFilters(searchParams: URLSearchParams, settings?: StorefrontDisplaySettings | null): ProductFilters {
   const filters: ProductFilters = {
-    query: searchParams.get('query') || '',
-    status: searchParams.get('status') || 'todos',
-    category: searchParams.get('category') || 'todos',
-    brand: searchParams.get('brand') || 'todos',
-    gender: searchParams.get('gender') || 'todos',
-    condition: searchParams.get('condition') || 'todos'
+    query: searchParams.get('query') || ''
   };
 
+  FILTER_FACETS.forEach(facet => {
+    filters[facet] = searchParams.getAll(facet).filter(Boolean);
+  });
+
   // Parse price range with defaults from settings
+  const defaults = getDefaultPriceRange(settings);
   const minPriceParam = searchParams.get('minPrice');
   const maxPriceParam = searchParams.get('maxPrice');
   
   filters.minPrice = minPriceParam ? 
     parseInt(minPriceParam, 10) : 
-    (settings?.priceRange?.minPrice || 10);
+    defaults.minPrice;
     
   filters.maxPrice = maxPriceParam ? 
     parseInt(maxPriceParam, 10) : 
-    (settings?.priceRange?.maxPrice || 5000);
+    defaults.maxPrice;
 
   return filters;
-}
\ No newline at end of file
+}
+
+/**
+ * Writes the filters into the URL search parameters, keeping unrelated parameters
+ * Default values are left out so shared links stay short
+ */
+export function buildFilterSearchParams(
+  currentParams: URLSearchParams,
+  filters: ProductFilters,
+  settings?: StorefrontDisplaySettings | null
+): URLSearchParams {
+  const params = new URLSearchParams(currentParams);
+  const defaults = getDefaultPriceRange(settings);
+
+  ['query', 'minPrice', 'maxPrice', ...FILTER_FACETS].forEach(key => params.delete(key));
+
+  if (filters.query?.trim()) {
+    params.set('query', filters.query.trim());
+  }
+
+  FILTER_FACETS.forEach(facet => {
+    (filters[facet] || []).forEach(value => params.append(facet, value));
+  });
+
+  if (filters.minPrice !== undefined && filters.minPrice !== defaults.minPrice) {
+    params.set('minPrice', String(filters.minPrice));
+  }
+  if (filters.maxPrice !== undefined && filters.maxPrice !== defaults.maxPrice) {
+    params.set('maxPrice', String(filters.maxPrice));
+  }
+
+  return params;
+}
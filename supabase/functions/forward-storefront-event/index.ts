@@ -0,0 +1,380 @@
+/*
+  # Forward Storefront Event Edge Function
+
+  Sends storefront events to the Meta Conversions API and the GA4 Measurement
+  Protocol from the server, so conversions blocked in the browser still arrive.
+
+  1. Features
+    - Receives the events recorded by `trackStorefrontEvent` on the storefront
+    - Maps them to the Meta standard events and GA4 recommended events
+    - Uses the event id of the browser pixel, so Meta counts each event once
+    - Values come from the `orders` and `products` tables, not from the browser
+
+  2. Configuration
+    - Pixel and measurement ids come from `tracking_settings`; the credentials
+      (`meta_access_token`, `ga_api_secret`) come from `tracking_credentials`, which only
+      the owner and the service role can read, and are only used when `server_side_enabled` is on
+    - `META_CAPI_URL` and `GA4_MP_URL` override the API endpoints, e.g. to test against
+      a local mock server:
+      META_CAPI_URL=http://host.docker.internal:4000/meta GA4_MP_URL=http://host.docker.internal:4000/ga supabase functions serve
+
+  3. Security
+    - Public, like `track_storefront_event`; tokens never leave the server
+    - Only events of active sellers with server-side tracking enabled are forwarded
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const META_CAPI_URL = Deno.env.get('META_CAPI_URL') || 'https://graph.facebook.com/v21.0';
+const GA4_MP_URL = Deno.env.get('GA4_MP_URL') || 'https://www.google-analytics.com/mp/collect';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface ForwardEventRequest {
+  seller_id: string;
+  event_type: string;
+  event_id: string;
+  viewer_id: string;
+  product_id?: string | null;
+  search_query?: string | null;
+  metadata?: Record<string, unknown>;
+  event_source_url?: string | null;
+  fbp?: string | null;
+  fbc?: string | null;
+  ga_client_id?: string | null;
+}
+
+interface ServerSideSettings {
+  meta_pixel_id: string | null;
+  meta_access_token: string | null;
+  meta_test_event_code: string | null;
+  ga_measurement_id: string | null;
+  ga_api_secret: string | null;
+}
+
+interface EventData {
+  currency: string;
+  value?: number;
+  contentIds: string[];
+  contentName?: string;
+  quantity?: number;
+  transactionId?: string;
+}
+
+type ForwardResult = 'sent' | 'skipped' | 'failed';
+
+// Storefront events sent to each platform; null is not forwarded.
+// GA4 has no event deduplication, so the events gtag already sends stay browser-only
+const EVENT_NAMES: Record<string, { meta: string | null; google: string | null }> = {
+  page_view: { meta: 'PageView', google: null },
+  product_view: { meta: 'ViewContent', google: null },
+  add_to_cart: { meta: 'AddToCart', google: 'add_to_cart' },
+  remove_from_cart: { meta: null, google: 'remove_from_cart' },
+  whatsapp_click: { meta: 'Contact', google: 'generate_lead' },
+  order_sent: { meta: 'Purchase', google: 'purchase' },
+  search: { meta: 'Search', google: 'search' },
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * SHA-256 hex digest, the format Meta expects for customer information
+ */
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Unit price charged for the product, like `create_storefront_order`: the variant price,
+ * or the lowest between the product discount and the running promotions
+ */
+async function loadUnitPrice(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  product: { id: string; price: number | null; discounted_price: number | null },
+  variantId: unknown
+): Promise<number> {
+  if (typeof variantId === 'string' && UUID_PATTERN.test(variantId)) {
+    const { data: variant } = await supabaseAdmin
+      .from('product_variants')
+      .select('price')
+      .eq('id', variantId)
+      .eq('product_id', product.id)
+      .maybeSingle();
+
+    if (variant && Number(variant.price) > 0) {
+      return Number(variant.price);
+    }
+  }
+
+  const { data: promotionalPrice } = await supabaseAdmin.rpc('get_promotional_price', {
+    p_product_id: product.id,
+  });
+
+  const discounts = [product.discounted_price, promotionalPrice]
+    .map(Number)
+    .filter(price => price > 0);
+
+  return discounts.length > 0 ? Math.min(...discounts) : Number(product.price || 0);
+}
+
+/**
+ * Value, products and order number of the event, read from the database when possible
+ */
+async function loadEventData(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  event: ForwardEventRequest,
+  currency: string
+): Promise<EventData> {
+  const metadata = event.metadata || {};
+  const data: EventData = { currency, contentIds: [] };
+
+  if (event.event_type === 'order_sent') {
+    const orderNumber = Number(metadata.order_number);
+
+    if (Number.isInteger(orderNumber) && orderNumber > 0) {
+      const { data: order } = await supabaseAdmin
+        .from('orders')
+        .select('id, order_number, total')
+        .eq('user_id', event.seller_id)
+        .eq('order_number', orderNumber)
+        .maybeSingle();
+
+      if (order) {
+        const { data: items } = await supabaseAdmin
+          .from('order_items')
+          .select('product_id, quantity')
+          .eq('order_id', order.id);
+
+        data.value = Number(order.total);
+        data.transactionId = String(order.order_number);
+        data.contentIds = [...new Set((items || [])
+          .map((item: { product_id: string | null }) => item.product_id)
+          .filter((id): id is string => !!id))];
+        data.quantity = (items || [])
+          .reduce((sum: number, item: { quantity: number }) => sum + item.quantity, 0) || undefined;
+      }
+    }
+
+    return data;
+  }
+
+  if (event.product_id && UUID_PATTERN.test(event.product_id)) {
+    const { data: product } = await supabaseAdmin
+      .from('products')
+      .select('id, title, price, discounted_price')
+      .eq('id', event.product_id)
+      .eq('user_id', event.seller_id)
+      .maybeSingle();
+
+    if (product) {
+      const quantity = Math.max(Math.floor(Number(metadata.quantity)) || 1, 1);
+      const unitPrice = await loadUnitPrice(supabaseAdmin, product, metadata.variant_id);
+
+      data.contentIds = [product.id];
+      data.contentName = product.title;
+      data.quantity = quantity;
+      data.value = Math.round(unitPrice * quantity * 100) / 100;
+    }
+  }
+
+  return data;
+}
+
+async function sendMetaEvent(
+  settings: ServerSideSettings,
+  eventName: string,
+  event: ForwardEventRequest,
+  data: EventData,
+  req: Request
+): Promise<ForwardResult> {
+  if (!settings.meta_pixel_id || !settings.meta_access_token) return 'skipped';
+
+  const customData: Record<string, unknown> = {
+    currency: data.currency,
+    value: data.value,
+    content_type: data.contentIds.length > 0 ? 'product' : undefined,
+    content_ids: data.contentIds.length > 0 ? data.contentIds : undefined,
+    content_name: data.contentName,
+    num_items: data.quantity,
+    order_id: data.transactionId,
+    search_string: event.search_query || undefined,
+  };
+
+  const payload = {
+    data: [{
+      event_name: eventName,
+      event_time: Math.floor(Date.now() / 1000),
+      // Same id as the browser pixel event, so Meta deduplicates them
+      event_id: event.event_id,
+      action_source: 'website',
+      event_source_url: event.event_source_url || undefined,
+      user_data: {
+        client_ip_address: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined,
+        client_user_agent: req.headers.get('user-agent') || undefined,
+        fbp: event.fbp || undefined,
+        fbc: event.fbc || undefined,
+        external_id: [await sha256(event.viewer_id)],
+      },
+      custom_data: customData,
+    }],
+    test_event_code: settings.meta_test_event_code || undefined,
+  };
+
+  const response = await fetch(
+    `${META_CAPI_URL}/${encodeURIComponent(settings.meta_pixel_id)}/events?access_token=${encodeURIComponent(settings.meta_access_token)}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!response.ok) {
+    console.error('❌ Meta Conversions API error:', response.status, await response.text());
+    return 'failed';
+  }
+
+  return 'sent';
+}
+
+async function sendGoogleEvent(
+  settings: ServerSideSettings,
+  eventName: string,
+  event: ForwardEventRequest,
+  data: EventData
+): Promise<ForwardResult> {
+  if (!settings.ga_measurement_id || !settings.ga_api_secret) return 'skipped';
+
+  const params: Record<string, unknown> = {
+    event_id: event.event_id,
+    engagement_time_msec: 1,
+    page_location: event.event_source_url || undefined,
+    currency: data.value !== undefined ? data.currency : undefined,
+    value: data.value,
+    // GA4 counts a purchase once per transaction id, even when gtag sends it too
+    transaction_id: data.transactionId,
+    search_term: event.search_query || undefined,
+    items: data.contentIds.length > 0
+      ? data.contentIds.map(id => ({
+        item_id: id,
+        item_name: data.contentName,
+        quantity: data.contentIds.length === 1 ? data.quantity : undefined,
+      }))
+      : undefined,
+  };
+
+  const url = `${GA4_MP_URL}?measurement_id=${encodeURIComponent(settings.ga_measurement_id)}` +
+    `&api_secret=${encodeURIComponent(settings.ga_api_secret)}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      // The gtag client id joins server and browser events of the same shopper
+      client_id: event.ga_client_id || event.viewer_id,
+      events: [{ name: eventName, params }],
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('❌ GA4 Measurement Protocol error:', response.status, await response.text());
+    return 'failed';
+  }
+
+  return 'sent';
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: { message: 'Method not allowed' } }, 405);
+    }
+
+    const event = await req.json() as ForwardEventRequest;
+    const eventNames = EVENT_NAMES[event.event_type];
+
+    if (
+      !event.seller_id || !UUID_PATTERN.test(event.seller_id) ||
+      !event.event_id || event.event_id.length > 64 ||
+      !event.viewer_id || event.viewer_id.length > 64
+    ) {
+      return jsonResponse({ error: { message: 'Invalid event' } }, 400);
+    }
+
+    if (!eventNames) {
+      return jsonResponse({ meta: 'skipped', google: 'skipped' });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const [{ data: seller }, { data: trackingSettings }, { data: credentials }] = await Promise.all([
+      supabaseAdmin
+        .from('users')
+        .select('id, currency')
+        .eq('id', event.seller_id)
+        .eq('is_blocked', false)
+        .maybeSingle(),
+      supabaseAdmin
+        .from('tracking_settings')
+        .select('meta_pixel_id, ga_measurement_id')
+        .eq('user_id', event.seller_id)
+        .eq('is_active', true)
+        .maybeSingle(),
+      supabaseAdmin
+        .from('tracking_credentials')
+        .select('meta_access_token, meta_test_event_code, ga_api_secret')
+        .eq('user_id', event.seller_id)
+        .eq('server_side_enabled', true)
+        .maybeSingle(),
+    ]);
+
+    if (!seller || !trackingSettings || !credentials) {
+      return jsonResponse({ meta: 'skipped', google: 'skipped' });
+    }
+
+    const settings: ServerSideSettings = { ...trackingSettings, ...credentials };
+
+    const data = await loadEventData(supabaseAdmin, event, seller.currency || 'BRL');
+
+    const [meta, google] = await Promise.all([
+      eventNames.meta
+        ? sendMetaEvent(settings, eventNames.meta, event, data, req).catch((error) => {
+          console.error('❌ Error sending Meta event:', error);
+          return 'failed' as ForwardResult;
+        })
+        : 'skipped' as ForwardResult,
+      eventNames.google
+        ? sendGoogleEvent(settings, eventNames.google, event, data).catch((error) => {
+          console.error('❌ Error sending GA4 event:', error);
+          return 'failed' as ForwardResult;
+        })
+        : 'skipped' as ForwardResult,
+    ]);
+
+    return jsonResponse({ meta, google });
+  } catch (error) {
+    console.error('Unexpected error in forward-storefront-event function:', error);
+    return jsonResponse({ error: { message: 'Internal server error' } }, 500);
+  }
+});
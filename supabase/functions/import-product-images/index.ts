@@ -0,0 +1,309 @@
+/*
+  # Import Product Images Edge Function
+
+  Downloads the images of a product imported from a spreadsheet and stores them
+  in the products folder of the storage. Runs on the server because most sites
+  don't allow the browser to fetch their images (CORS).
+
+  1. Features
+    - Receives the product id and the image URLs of the spreadsheet
+    - Downloads each image and uploads it to the `public` bucket
+    - Returns the stored URL of each image, in the same order, or the error
+      of the images that couldn't be downloaded
+
+  2. Security
+    - Requires authenticated user
+    - The product must belong to the user
+    - Only http(s) URLs of images up to 10 MB are downloaded, at most 20 per product
+    - Hosts resolving to private, loopback, link-local or metadata addresses are refused,
+      and every redirect is checked the same way
+    - The download stops as soon as it goes over the size limit
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const MAX_IMAGES = 20;
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 3;
+
+interface ImportImagesRequest {
+  productId: string;
+  urls: string[];
+}
+
+interface ImportedImage {
+  url: string;
+  publicUrl: string | null;
+  error?: string;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Whether an IPv4 address is private, loopback, link-local (cloud metadata) or reserved
+ */
+function isPrivateIPv4(address: string): boolean {
+  const parts = address.split('.').map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isInteger(part) || part < 0 || part > 255)) {
+    return true;
+  }
+
+  const [a, b] = parts;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+/**
+ * Whether an IPv6 address is private, loopback, link-local, multicast, or maps to a private IPv4
+ */
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+
+  const mappedIPv4 = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mappedIPv4) {
+    return isPrivateIPv4(mappedIPv4[1]);
+  }
+
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    normalized.startsWith('::ffff:') ||
+    /^f[cd]/.test(normalized) ||
+    /^fe[89ab]/.test(normalized) ||
+    normalized.startsWith('ff')
+  );
+}
+
+/**
+ * Check that the URL is http(s) and that its host only resolves to public addresses
+ */
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('URL inválida');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(hostname) || hostname.includes(':')) {
+    addresses = [hostname];
+  } else {
+    const [ipv4, ipv6] = await Promise.all([
+      Deno.resolveDns(hostname, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(hostname, 'AAAA').catch(() => [] as string[]),
+    ]);
+    addresses = [...ipv4, ...ipv6];
+  }
+
+  if (addresses.length === 0) {
+    throw new Error('Endereço da imagem não encontrado');
+  }
+
+  const isPrivate = addresses.some(address =>
+    address.includes(':') ? isPrivateIPv6(address) : isPrivateIPv4(address)
+  );
+  if (isPrivate) {
+    throw new Error('Endereço da imagem não permitido');
+  }
+}
+
+/**
+ * Fetch a URL following at most MAX_REDIRECTS redirects, checking the host of each one
+ */
+async function fetchPublicUrl(url: string, signal: AbortSignal): Promise<Response> {
+  let currentUrl = new URL(url);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertPublicUrl(currentUrl);
+
+    const response = await fetch(currentUrl, { redirect: 'manual', signal });
+    const location = response.headers.get('location');
+
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    currentUrl = new URL(location, currentUrl);
+  }
+
+  throw new Error('Redirecionamentos demais');
+}
+
+/**
+ * Read the response body, stopping as soon as it goes over the size limit
+ */
+async function readLimitedBody(response: Response, contentType: string): Promise<Blob> {
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > MAX_IMAGE_SIZE) {
+    await response.body?.cancel();
+    throw new Error('A imagem é maior que 10 MB');
+  }
+
+  if (!response.body) {
+    throw new Error('Imagem vazia');
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > MAX_IMAGE_SIZE) {
+      await reader.cancel();
+      throw new Error('A imagem é maior que 10 MB');
+    }
+
+    chunks.push(value);
+  }
+
+  return new Blob(chunks, { type: contentType });
+}
+
+/**
+ * Download a remote image and store it in the products folder of the storage
+ */
+async function downloadImageToStorage(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  url: string,
+  productId: string,
+  index: number
+): Promise<string> {
+  const response = await fetchPublicUrl(url, AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS));
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const contentType = response.headers.get('content-type')?.split(';')[0].trim() || '';
+  if (!contentType.startsWith('image/')) {
+    await response.body?.cancel();
+    throw new Error('O arquivo não é uma imagem');
+  }
+
+  const blob = await readLimitedBody(response, contentType);
+
+  const fileExt = contentType.split('/')[1]?.replace('jpeg', 'jpg') || 'jpg';
+  const filePath = `products/${productId}-${index}-${Math.random()}.${fileExt}`;
+
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from('public')
+    .upload(filePath, blob, { contentType });
+
+  if (uploadError) throw uploadError;
+
+  const { data: { publicUrl } } = supabaseAdmin.storage
+    .from('public')
+    .getPublicUrl(filePath);
+
+  return publicUrl;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: { message: 'Method not allowed' } }, 405);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: { message: 'Missing authorization header' } }, 401);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const supabaseUser = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: { message: 'Unauthorized' } }, 401);
+    }
+
+    const { productId, urls }: ImportImagesRequest = await req.json();
+    if (!productId || !Array.isArray(urls) || urls.length === 0) {
+      return jsonResponse({ error: { message: 'Product ID and image URLs are required' } }, 400);
+    }
+
+    const { data: product, error: productError } = await supabaseAdmin
+      .from('products')
+      .select('id')
+      .eq('id', productId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (productError || !product) {
+      return jsonResponse({ error: { message: 'Product not found' } }, 404);
+    }
+
+    const images: ImportedImage[] = [];
+
+    for (let i = 0; i < urls.length; i++) {
+      const url = String(urls[i]);
+
+      if (i >= MAX_IMAGES) {
+        images.push({ url, publicUrl: null, error: `Limite de ${MAX_IMAGES} imagens por produto` });
+        continue;
+      }
+
+      try {
+        const publicUrl = await downloadImageToStorage(supabaseAdmin, url, product.id, i);
+        images.push({ url, publicUrl });
+      } catch (error) {
+        console.error(`Error importing image ${url}:`, error);
+        images.push({
+          url,
+          publicUrl: null,
+          error: error instanceof Error ? error.message : 'Erro ao baixar imagem',
+        });
+      }
+    }
+
+    return jsonResponse({ images });
+  } catch (error) {
+    console.error('Unexpected error in import-product-images function:', error);
+    return jsonResponse({ error: { message: 'Internal server error' } }, 500);
+  }
+});
@@ -0,0 +1,289 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const SITE_URL = Deno.env.get('SITE_URL') || 'https://vitrineturbo.com';
+
+type FeedFormat = 'meta' | 'google';
+
+interface SellerProfile {
+  id: string;
+  name: string;
+  slug: string;
+  currency?: string;
+}
+
+interface FeedProduct {
+  id: string;
+  title: string;
+  description?: string;
+  short_description?: string;
+  price?: number;
+  discounted_price?: number;
+  status: string;
+  category?: string[];
+  brand?: string;
+  gender?: string;
+  condition?: string;
+  featured_image_url?: string;
+  product_images?: { url: string; is_featured?: boolean }[];
+  product_variants?: { stock_quantity: number }[];
+}
+
+interface FeedPromotion {
+  discount_type: 'percentage' | 'fixed';
+  discount_value: number;
+  starts_at: string;
+  ends_at: string;
+  target_type: 'all' | 'products' | 'categories';
+  product_ids: string[];
+  categories: string[];
+}
+
+// Meta accepts up to 20 additional images, Google up to 10
+const ADDITIONAL_IMAGES_LIMIT: Record<FeedFormat, number> = {
+  meta: 20,
+  google: 10,
+};
+
+const CONDITIONS: Record<string, string> = {
+  novo: 'new',
+  usado: 'used',
+  seminovo: 'refurbished',
+};
+
+const GENDERS: Record<string, string> = {
+  masculino: 'male',
+  feminino: 'female',
+  unissex: 'unisex',
+};
+
+/**
+ * Escapes text for XML content
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Removes HTML tags from the rich text description
+ */
+function stripHtml(value: string): string {
+  return value.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function formatPrice(value: number, currency: string): string {
+  return `${value.toFixed(2)} ${currency}`;
+}
+
+/**
+ * Lowest price of a product among the running promotions
+ * Mirrors `get_promotional_price` in the database
+ */
+function getPromotionalPrice(product: FeedProduct, promotions: FeedPromotion[]): { price: number; endsAt: string; startsAt: string } | null {
+  if (!product.price || product.price <= 0) return null;
+
+  let best: { price: number; endsAt: string; startsAt: string } | null = null;
+
+  for (const promotion of promotions) {
+    const applies = promotion.target_type === 'all' ||
+      (promotion.target_type === 'products' && promotion.product_ids.includes(product.id)) ||
+      (promotion.target_type === 'categories' && (product.category || []).some(category => promotion.categories.includes(category)));
+
+    if (!applies) continue;
+
+    const value = Number(promotion.discount_value);
+    const price = promotion.discount_type === 'percentage'
+      ? Math.round(product.price * (100 - Math.min(value, 100))) / 100
+      : Math.max(product.price - value, 0);
+
+    if (!best || price < best.price) {
+      best = { price, startsAt: promotion.starts_at, endsAt: promotion.ends_at };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Generates one feed item using the Google product data attributes (also read by Meta)
+ */
+function generateItemXML(product: FeedProduct, profile: SellerProfile, promotions: FeedPromotion[], format: FeedFormat): string {
+  const currency = profile.currency || 'BRL';
+  const link = `${SITE_URL}/${profile.slug}/produtos/${product.id}`;
+
+  const images = [...(product.product_images || [])]
+    .sort((a, b) => Number(b.is_featured || false) - Number(a.is_featured || false))
+    .map(image => image.url);
+  const imageLink = product.featured_image_url || images[0];
+  const additionalImages = images.filter(url => url !== imageLink).slice(0, ADDITIONAL_IMAGES_LIMIT[format]);
+
+  const variants = product.product_variants || [];
+  const inStock = product.status === 'disponivel' &&
+    (variants.length === 0 || variants.some(variant => variant.stock_quantity > 0));
+
+  const description = stripHtml(product.description || '') || product.short_description || product.title;
+
+  const lines = [
+    `<g:id>${escapeXml(product.id)}</g:id>`,
+    `<g:title>${escapeXml(product.title.slice(0, 150))}</g:title>`,
+    `<g:description>${escapeXml(description.slice(0, 5000))}</g:description>`,
+    `<g:link>${escapeXml(link)}</g:link>`,
+    imageLink ? `<g:image_link>${escapeXml(imageLink)}</g:image_link>` : '',
+    ...additionalImages.map(url => `<g:additional_image_link>${escapeXml(url)}</g:additional_image_link>`),
+    `<g:availability>${inStock ? 'in stock' : 'out of stock'}</g:availability>`,
+    `<g:condition>${CONDITIONS[product.condition || ''] || 'new'}</g:condition>`,
+    `<g:price>${formatPrice(product.price!, currency)}</g:price>`,
+    // Meta requires a brand, the seller name is used when the product has none
+    `<g:brand>${escapeXml(product.brand || profile.name)}</g:brand>`,
+  ];
+
+  const promotion = getPromotionalPrice(product, promotions);
+  const ownSalePrice = product.discounted_price && product.discounted_price < product.price!
+    ? product.discounted_price
+    : null;
+
+  if (promotion && (!ownSalePrice || promotion.price < ownSalePrice)) {
+    lines.push(`<g:sale_price>${formatPrice(promotion.price, currency)}</g:sale_price>`);
+    lines.push(`<g:sale_price_effective_date>${promotion.startsAt}/${promotion.endsAt}</g:sale_price_effective_date>`);
+  } else if (ownSalePrice) {
+    lines.push(`<g:sale_price>${formatPrice(ownSalePrice, currency)}</g:sale_price>`);
+  }
+
+  if (product.category?.length) {
+    lines.push(`<g:product_type>${escapeXml(product.category.join(' > '))}</g:product_type>`);
+  }
+
+  if (product.gender && GENDERS[product.gender]) {
+    lines.push(`<g:gender>${GENDERS[product.gender]}</g:gender>`);
+  }
+
+  if (format === 'google') {
+    // Products without GTIN/MPN must declare it to Google Merchant Center
+    lines.push('<g:identifier_exists>no</g:identifier_exists>');
+  }
+
+  return `    <item>\n${lines.filter(Boolean).map(line => `      ${line}`).join('\n')}\n    </item>`;
+}
+
+/**
+ * Generates the RSS 2.0 feed accepted by Meta Commerce Manager and Google Merchant Center
+ */
+function generateFeedXML(profile: SellerProfile, products: FeedProduct[], promotions: FeedPromotion[], format: FeedFormat): string {
+  const items = products
+    .filter(product => product.price && product.price > 0)
+    .map(product => generateItemXML(product, profile, promotions, format))
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">
+  <channel>
+    <title>${escapeXml(profile.name)}</title>
+    <link>${escapeXml(`${SITE_URL}/${profile.slug}`)}</link>
+    <description>${escapeXml(`Catálogo de ${profile.name}`)}</description>
+${items}
+  </channel>
+</rss>`;
+}
+
+function errorResponse(message: string, status: number): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Expected format: /product-feed?slug=kingstore&format=meta
+    const url = new URL(req.url);
+    const slug = url.searchParams.get('slug') || '';
+    const format: FeedFormat = url.searchParams.get('format') === 'meta' ? 'meta' : 'google';
+
+    if (!slug) {
+      return errorResponse('slug is required', 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const headers = {
+      'apikey': supabaseKey,
+      'Authorization': `Bearer ${supabaseKey}`,
+      'Content-Type': 'application/json',
+    };
+
+    const profileResponse = await fetch(
+      `${supabaseUrl}/rest/v1/users?slug=eq.${encodeURIComponent(slug)}&is_blocked=eq.false&select=id,name,slug,currency`,
+      { headers }
+    );
+
+    if (!profileResponse.ok) {
+      console.error('❌ User profile query failed:', profileResponse.status);
+      return errorResponse('Error loading storefront', 500);
+    }
+
+    const profiles = await profileResponse.json() as SellerProfile[];
+
+    if (profiles.length === 0) {
+      return errorResponse('Storefront not found', 404);
+    }
+
+    const profile = profiles[0];
+    const now = new Date().toISOString();
+
+    const [productsResponse, promotionsResponse] = await Promise.all([
+      fetch(
+        `${supabaseUrl}/rest/v1/products?user_id=eq.${profile.id}&is_visible_on_storefront=eq.true` +
+        '&select=id,title,description,short_description,price,discounted_price,status,category,brand,gender,condition,featured_image_url,product_images(url,is_featured),product_variants(stock_quantity)' +
+        '&order=display_order.asc.nullslast',
+        { headers }
+      ),
+      fetch(
+        `${supabaseUrl}/rest/v1/promotions?user_id=eq.${profile.id}&is_active=eq.true&starts_at=lte.${encodeURIComponent(now)}&ends_at=gt.${encodeURIComponent(now)}` +
+        '&select=discount_type,discount_value,starts_at,ends_at,target_type,product_ids,categories',
+        { headers }
+      ),
+    ]);
+
+    if (!productsResponse.ok) {
+      console.error('❌ Products query failed:', productsResponse.status);
+      return errorResponse('Error loading products', 500);
+    }
+
+    const products = await productsResponse.json() as FeedProduct[];
+    const promotions = promotionsResponse.ok ? await promotionsResponse.json() as FeedPromotion[] : [];
+
+    return new Response(generateFeedXML(profile, products, promotions, format), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/xml; charset=utf-8',
+        // Catalog crawlers fetch the feed periodically; a short cache keeps it up to date
+        'Cache-Control': 'public, max-age=900, s-maxage=900',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Error generating product feed:', error);
+    return errorResponse('Error generating product feed', 500);
+  }
+});
@@ -0,0 +1,87 @@
+/*
+  # Estoque por variação de produto
+
+  1. Nova Tabela
+    - `product_variants`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key to products)
+      - `color` (text, '' quando o produto não tem cor)
+      - `size` (text, '' quando o produto não tem tamanho)
+      - `sku` (text, código interno opcional)
+      - `stock_quantity` (integer, quantidade em estoque)
+      - `price` (decimal, preço específico da variação - opcional)
+      - `created_at` / `updated_at` (timestamps)
+
+  2. Regras
+    - Cada combinação cor × tamanho é única por produto
+    - Produtos sem linhas em `product_variants` continuam sem controle de estoque
+
+  3. Segurança
+    - RLS habilitado
+    - Donos dos produtos gerenciam suas variações
+    - Público pode ler variações de produtos visíveis na vitrine
+*/
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  color text NOT NULL DEFAULT '',
+  size text NOT NULL DEFAULT '',
+  sku text,
+  stock_quantity integer NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  price decimal(12,2) CHECK (price IS NULL OR price > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(product_id, color, size)
+);
+
+-- Enable RLS
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can manage own product variants"
+  ON product_variants
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE id = product_variants.product_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Public can view product variants"
+  ON product_variants
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE id = product_variants.product_id
+      AND is_visible_on_storefront = true
+      AND EXISTS (
+        SELECT 1 FROM users
+        WHERE id = products.user_id
+        AND NOT is_blocked
+      )
+    )
+  );
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_sku ON product_variants(product_id, sku) WHERE sku IS NOT NULL;
+
+-- Create trigger for updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_product_variants_updated_at'
+  ) THEN
+    CREATE TRIGGER update_product_variants_updated_at
+      BEFORE UPDATE ON product_variants
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
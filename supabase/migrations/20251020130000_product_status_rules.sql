@@ -0,0 +1,185 @@
+/*
+  # Status automático de produtos a partir do estoque
+
+  1. Modificações na Tabela Products
+    - `reserved_until` (timestamptz) - Fim da reserva automática criada após um pedido
+
+  2. Triggers e Funções
+    - `sync_product_status_from_stock` - Marca o produto como 'vendido' quando todas as
+      variações zeram e volta para 'disponivel' quando há reposição
+    - `clear_product_reservation` - Limpa `reserved_until` quando o status deixa de ser 'reservado'
+    - `release_expired_reservations` - Libera reservas automáticas vencidas
+    - `reserve_products_after_order` - Reserva os produtos de um pedido enviado pela vitrine,
+      conforme `user_storefront_settings.settings->'inventory'`
+
+  3. Regras
+    - Produtos sem linhas em `product_variants` não têm o status alterado pelo estoque
+    - Produtos com estoque só são reservados quando o pedido consome todas as unidades
+    - Reservas manuais (sem `reserved_until`) nunca expiram automaticamente
+
+  4. Segurança
+    - Funções executadas como SECURITY DEFINER, pois a vitrine é acessada anonimamente
+*/
+
+-- 1. Adicionar coluna reserved_until na tabela products
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'reserved_until'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN reserved_until timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_products_reserved_until ON public.products(reserved_until) WHERE reserved_until IS NOT NULL;
+
+-- 2. Função para sincronizar o status com o estoque das variações
+CREATE OR REPLACE FUNCTION public.sync_product_status_from_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_product_id uuid;
+  variant_count integer;
+  total_stock integer;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_product_id := OLD.product_id;
+  ELSE
+    target_product_id := NEW.product_id;
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(stock_quantity), 0)
+  INTO variant_count, total_stock
+  FROM public.product_variants
+  WHERE product_id = target_product_id;
+
+  -- Produto sem controle de estoque: status continua manual
+  IF variant_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF total_stock = 0 THEN
+    UPDATE public.products
+    SET status = 'vendido'
+    WHERE id = target_product_id AND status != 'vendido';
+  ELSE
+    UPDATE public.products
+    SET status = 'disponivel'
+    WHERE id = target_product_id AND status = 'vendido';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_product_variant_stock_changed ON public.product_variants;
+CREATE TRIGGER on_product_variant_stock_changed
+  AFTER INSERT OR UPDATE OF stock_quantity OR DELETE ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_product_status_from_stock();
+
+-- 3. Função para limpar a reserva quando o status muda
+CREATE OR REPLACE FUNCTION public.clear_product_reservation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status != 'reservado' THEN
+    NEW.reserved_until := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_product_status_changed ON public.products;
+CREATE TRIGGER on_product_status_changed
+  BEFORE UPDATE OF status ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_product_reservation();
+
+-- 4. Função para liberar reservas automáticas vencidas
+CREATE OR REPLACE FUNCTION public.release_expired_reservations()
+RETURNS integer AS $$
+DECLARE
+  released_count integer;
+BEGIN
+  UPDATE public.products
+  SET status = 'disponivel'
+  WHERE status = 'reservado'
+    AND reserved_until IS NOT NULL
+    AND reserved_until <= now();
+
+  GET DIAGNOSTICS released_count = ROW_COUNT;
+  RETURN released_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Função para reservar os produtos de um pedido
+-- p_items: [{ "product_id": uuid, "quantity": integer }]
+CREATE OR REPLACE FUNCTION public.reserve_products_after_order(p_items jsonb)
+RETURNS integer AS $$
+DECLARE
+  order_item jsonb;
+  product_record record;
+  inventory_settings jsonb;
+  reservation_hours integer;
+  tracked_stock integer;
+  reserved_count integer := 0;
+BEGIN
+  PERFORM public.release_expired_reservations();
+
+  FOR order_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT p.id, p.user_id, p.status
+    INTO product_record
+    FROM public.products p
+    WHERE p.id = (order_item->>'product_id')::uuid
+      AND p.is_visible_on_storefront = true;
+
+    IF NOT FOUND OR product_record.status != 'disponivel' THEN
+      CONTINUE;
+    END IF;
+
+    SELECT settings->'inventory'
+    INTO inventory_settings
+    FROM public.user_storefront_settings
+    WHERE user_id = product_record.user_id;
+
+    IF inventory_settings IS NULL
+      OR COALESCE((inventory_settings->>'reserveOnOrder')::boolean, false) = false THEN
+      CONTINUE;
+    END IF;
+
+    reservation_hours := GREATEST(COALESCE((inventory_settings->>'reservationHours')::integer, 24), 1);
+
+    -- Produtos com estoque só ficam reservados quando o pedido consome todas as unidades
+    SELECT SUM(stock_quantity)
+    INTO tracked_stock
+    FROM public.product_variants
+    WHERE product_id = product_record.id;
+
+    IF tracked_stock IS NOT NULL
+      AND tracked_stock > COALESCE((order_item->>'quantity')::integer, 1) THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE public.products
+    SET status = 'reservado',
+        reserved_until = now() + make_interval(hours => reservation_hours)
+    WHERE id = product_record.id;
+
+    reserved_count := reserved_count + 1;
+  END LOOP;
+
+  RETURN reserved_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.release_expired_reservations() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_products_after_order(jsonb) TO anon, authenticated;
+
+-- 6. Sincronizar produtos que já possuem variações cadastradas
+UPDATE public.products p
+SET status = 'vendido'
+WHERE status != 'vendido'
+  AND EXISTS (SELECT 1 FROM public.product_variants v WHERE v.product_id = p.id)
+  AND NOT EXISTS (SELECT 1 FROM public.product_variants v WHERE v.product_id = p.id AND v.stock_quantity > 0);
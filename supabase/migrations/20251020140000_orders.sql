@@ -0,0 +1,223 @@
+/*
+  # Pedidos da vitrine
+
+  1. Novas Tabelas
+    - `orders` - Pedidos enviados pelo carrinho da vitrine
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, vendedor dono da vitrine)
+      - `order_number` (integer, sequencial por vendedor)
+      - `status` (text: novo, confirmado, pago, enviado, entregue, cancelado)
+      - `customer_name` / `customer_phone` (text, opcionais)
+      - `currency` / `language` (text)
+      - `subtotal` / `total` (decimal)
+      - `created_at` / `updated_at` (timestamps)
+    - `order_items` - Itens de cada pedido
+      - `order_id` (uuid, foreign key to orders)
+      - `product_id` / `product_variant_id` (uuid, mantidos como referência)
+      - `title`, `color`, `size`, `notes` (text, cópia do momento do pedido)
+      - `quantity` (integer), `unit_price` / `total_price` (decimal)
+
+  2. Funções
+    - `assign_order_number` - Gera o número do pedido por vendedor
+    - `create_storefront_order` - Cria o pedido a partir do carrinho, recalculando
+      os preços a partir dos produtos e variações
+
+  3. Segurança
+    - RLS habilitado
+    - Vendedores gerenciam apenas seus próprios pedidos
+    - A vitrine (anônima) cria pedidos somente via `create_storefront_order`
+*/
+
+-- 1. Criar tabela de pedidos
+CREATE TABLE IF NOT EXISTS public.orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  order_number integer NOT NULL,
+  status text NOT NULL DEFAULT 'novo' CHECK (status IN ('novo', 'confirmado', 'pago', 'enviado', 'entregue', 'cancelado')),
+  customer_name text,
+  customer_phone text,
+  currency text NOT NULL DEFAULT 'BRL',
+  language text NOT NULL DEFAULT 'pt-BR',
+  subtotal decimal(12,2) NOT NULL DEFAULT 0,
+  total decimal(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, order_number)
+);
+
+-- 2. Criar tabela de itens do pedido
+CREATE TABLE IF NOT EXISTS public.order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  product_variant_id uuid REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  color text,
+  size text,
+  notes text,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price decimal(12,2) NOT NULL,
+  total_price decimal(12,2) NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- 3. Habilitar RLS
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+-- 4. Políticas de segurança
+CREATE POLICY "Users can manage own orders"
+  ON public.orders
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own order items"
+  ON public.order_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE id = order_items.order_id
+      AND user_id = auth.uid()
+    )
+  );
+
+-- 5. Índices
+CREATE INDEX IF NOT EXISTS idx_orders_user_id_created_at ON public.orders(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status ON public.orders(status);
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON public.order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON public.order_items(product_id);
+
+-- 6. Trigger de updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_orders_updated_at'
+  ) THEN
+    CREATE TRIGGER update_orders_updated_at
+      BEFORE UPDATE ON public.orders
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- 7. Função para gerar o número do pedido por vendedor
+CREATE OR REPLACE FUNCTION public.assign_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Serializa a numeração por vendedor
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::text));
+
+  SELECT COALESCE(MAX(order_number), 0) + 1
+  INTO NEW.order_number
+  FROM public.orders
+  WHERE user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_order_created ON public.orders;
+CREATE TRIGGER on_order_created
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_order_number();
+
+-- 8. Função para criar pedidos a partir da vitrine
+-- p_items: [{ "product_id": uuid, "color": text, "size": text, "quantity": integer, "notes": text }]
+CREATE OR REPLACE FUNCTION public.create_storefront_order(
+  p_seller_id uuid,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_currency text DEFAULT 'BRL',
+  p_language text DEFAULT 'pt-BR'
+)
+RETURNS TABLE (id uuid, order_number integer) AS $$
+DECLARE
+  new_order_id uuid;
+  new_order_number integer;
+  order_item jsonb;
+  product_record record;
+  variant_record record;
+  item_quantity integer;
+  item_unit_price decimal(12,2);
+  order_subtotal decimal(12,2) := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = p_seller_id AND NOT u.is_blocked
+  ) THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  INSERT INTO public.orders (user_id, order_number, customer_name, customer_phone, currency, language)
+  VALUES (p_seller_id, 0, NULLIF(trim(p_customer_name), ''), NULLIF(trim(p_customer_phone), ''), p_currency, p_language)
+  RETURNING orders.id, orders.order_number INTO new_order_id, new_order_number;
+
+  FOR order_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT p.id, p.title, p.price, p.discounted_price
+    INTO product_record
+    FROM public.products p
+    WHERE p.id = (order_item->>'product_id')::uuid
+      AND p.user_id = p_seller_id
+      AND p.is_visible_on_storefront = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Produto indisponível: %', order_item->>'product_id';
+    END IF;
+
+    SELECT v.id, v.price
+    INTO variant_record
+    FROM public.product_variants v
+    WHERE v.product_id = product_record.id
+      AND v.color = COALESCE(order_item->>'color', '')
+      AND v.size = COALESCE(order_item->>'size', '');
+
+    item_quantity := GREATEST(COALESCE((order_item->>'quantity')::integer, 1), 1);
+    item_unit_price := COALESCE(
+      NULLIF(variant_record.price, 0),
+      NULLIF(product_record.discounted_price, 0),
+      product_record.price,
+      0
+    );
+
+    INSERT INTO public.order_items (
+      order_id, product_id, product_variant_id, title, color, size, notes,
+      quantity, unit_price, total_price
+    )
+    VALUES (
+      new_order_id,
+      product_record.id,
+      variant_record.id,
+      product_record.title,
+      NULLIF(order_item->>'color', ''),
+      NULLIF(order_item->>'size', ''),
+      NULLIF(trim(order_item->>'notes'), ''),
+      item_quantity,
+      item_unit_price,
+      item_unit_price * item_quantity
+    );
+
+    order_subtotal := order_subtotal + item_unit_price * item_quantity;
+  END LOOP;
+
+  UPDATE public.orders
+  SET subtotal = order_subtotal,
+      total = order_subtotal
+  WHERE orders.id = new_order_id;
+
+  RETURN QUERY SELECT new_order_id, new_order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_storefront_order(uuid, jsonb, text, text, text, text) TO anon, authenticated;
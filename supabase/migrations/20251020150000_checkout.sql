@@ -0,0 +1,201 @@
+/*
+  # Checkout da vitrine
+
+  1. Modificações na Tabela Orders
+    - `delivery_method` (text: pickup, delivery)
+    - `delivery_address` (jsonb: cep, street, number, complement, neighborhood, city, state)
+    - `payment_method` (text: pix, cartao, dinheiro)
+
+  2. Nova Tabela
+    - `cep_addresses` - Base local de CEPs usada pelo provedor 'local' de consulta
+      - `cep` (text, 8 dígitos, primary key)
+      - `street`, `neighborhood`, `city`, `state` (text)
+
+  3. Funções
+    - `create_storefront_order` passa a receber `p_checkout` (jsonb) com os dados
+      de entrega e pagamento informados pelo cliente
+
+  4. Segurança
+    - RLS habilitado em `cep_addresses`
+    - Público pode consultar CEPs, apenas admins podem gerenciar
+*/
+
+-- 1. Adicionar colunas de checkout na tabela orders
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_method'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN delivery_method text CHECK (delivery_method IN ('pickup', 'delivery'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_address'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN delivery_address jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'payment_method'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN payment_method text CHECK (payment_method IN ('pix', 'cartao', 'dinheiro'));
+  END IF;
+END $$;
+
+-- 2. Criar tabela local de CEPs
+CREATE TABLE IF NOT EXISTS public.cep_addresses (
+  cep text PRIMARY KEY CHECK (cep ~ '^[0-9]{8}$'),
+  street text,
+  neighborhood text,
+  city text NOT NULL,
+  state text NOT NULL CHECK (char_length(state) = 2),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.cep_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view cep addresses"
+  ON public.cep_addresses
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage cep addresses"
+  ON public.cep_addresses
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_cep_addresses_updated_at'
+  ) THEN
+    CREATE TRIGGER update_cep_addresses_updated_at
+      BEFORE UPDATE ON public.cep_addresses
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- 3. Recriar a função de pedidos com os dados de checkout
+DROP FUNCTION IF EXISTS public.create_storefront_order(uuid, jsonb, text, text, text, text);
+
+-- p_items: [{ "product_id": uuid, "color": text, "size": text, "quantity": integer, "notes": text }]
+-- p_checkout: { "delivery_method": text, "delivery_address": jsonb, "payment_method": text }
+CREATE OR REPLACE FUNCTION public.create_storefront_order(
+  p_seller_id uuid,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_currency text DEFAULT 'BRL',
+  p_language text DEFAULT 'pt-BR',
+  p_checkout jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (id uuid, order_number integer) AS $$
+DECLARE
+  new_order_id uuid;
+  new_order_number integer;
+  order_item jsonb;
+  product_record record;
+  variant_record record;
+  item_quantity integer;
+  item_unit_price decimal(12,2);
+  order_subtotal decimal(12,2) := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = p_seller_id AND NOT u.is_blocked
+  ) THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, order_number, customer_name, customer_phone, currency, language,
+    delivery_method, delivery_address, payment_method
+  )
+  VALUES (
+    p_seller_id,
+    0,
+    NULLIF(trim(p_customer_name), ''),
+    NULLIF(trim(p_customer_phone), ''),
+    p_currency,
+    p_language,
+    NULLIF(p_checkout->>'delivery_method', ''),
+    CASE WHEN p_checkout->>'delivery_method' = 'delivery' THEN p_checkout->'delivery_address' END,
+    NULLIF(p_checkout->>'payment_method', '')
+  )
+  RETURNING orders.id, orders.order_number INTO new_order_id, new_order_number;
+
+  FOR order_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT p.id, p.title, p.price, p.discounted_price
+    INTO product_record
+    FROM public.products p
+    WHERE p.id = (order_item->>'product_id')::uuid
+      AND p.user_id = p_seller_id
+      AND p.is_visible_on_storefront = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Produto indisponível: %', order_item->>'product_id';
+    END IF;
+
+    SELECT v.id, v.price
+    INTO variant_record
+    FROM public.product_variants v
+    WHERE v.product_id = product_record.id
+      AND v.color = COALESCE(order_item->>'color', '')
+      AND v.size = COALESCE(order_item->>'size', '');
+
+    item_quantity := GREATEST(COALESCE((order_item->>'quantity')::integer, 1), 1);
+    item_unit_price := COALESCE(
+      NULLIF(variant_record.price, 0),
+      NULLIF(product_record.discounted_price, 0),
+      product_record.price,
+      0
+    );
+
+    INSERT INTO public.order_items (
+      order_id, product_id, product_variant_id, title, color, size, notes,
+      quantity, unit_price, total_price
+    )
+    VALUES (
+      new_order_id,
+      product_record.id,
+      variant_record.id,
+      product_record.title,
+      NULLIF(order_item->>'color', ''),
+      NULLIF(order_item->>'size', ''),
+      NULLIF(trim(order_item->>'notes'), ''),
+      item_quantity,
+      item_unit_price,
+      item_unit_price * item_quantity
+    );
+
+    order_subtotal := order_subtotal + item_unit_price * item_quantity;
+  END LOOP;
+
+  UPDATE public.orders
+  SET subtotal = order_subtotal,
+      total = order_subtotal
+  WHERE orders.id = new_order_id;
+
+  RETURN QUERY SELECT new_order_id, new_order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_storefront_order(uuid, jsonb, text, text, text, text, jsonb) TO anon, authenticated;
@@ -0,0 +1,143 @@
+/*
+  # Frete e zonas de entrega
+
+  1. Modificações na Tabela Orders
+    - `shipping_fee` (decimal) - Valor do frete cobrado na entrega
+
+  2. Funções
+    - `create_storefront_order` passa a ler `shipping_fee` de `p_checkout` e soma
+      o frete ao total do pedido
+
+  3. Observações
+    - As zonas de entrega ficam em `user_storefront_settings.settings.shipping`
+*/
+
+-- 1. Adicionar coluna de frete na tabela orders
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'shipping_fee'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN shipping_fee decimal(12,2) NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- 2. Recriar a função de pedidos somando o frete
+-- p_items: [{ "product_id": uuid, "color": text, "size": text, "quantity": integer, "notes": text }]
+-- p_checkout: { "delivery_method": text, "delivery_address": jsonb, "payment_method": text, "shipping_fee": number }
+CREATE OR REPLACE FUNCTION public.create_storefront_order(
+  p_seller_id uuid,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_currency text DEFAULT 'BRL',
+  p_language text DEFAULT 'pt-BR',
+  p_checkout jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (id uuid, order_number integer) AS $$
+DECLARE
+  new_order_id uuid;
+  new_order_number integer;
+  order_item jsonb;
+  product_record record;
+  variant_record record;
+  item_quantity integer;
+  item_unit_price decimal(12,2);
+  order_subtotal decimal(12,2) := 0;
+  order_shipping_fee decimal(12,2);
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = p_seller_id AND NOT u.is_blocked
+  ) THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  -- Frete só se aplica a entregas
+  order_shipping_fee := CASE
+    WHEN p_checkout->>'delivery_method' = 'delivery'
+      THEN GREATEST(COALESCE((p_checkout->>'shipping_fee')::decimal, 0), 0)
+    ELSE 0
+  END;
+
+  INSERT INTO public.orders (
+    user_id, order_number, customer_name, customer_phone, currency, language,
+    delivery_method, delivery_address, payment_method, shipping_fee
+  )
+  VALUES (
+    p_seller_id,
+    0,
+    NULLIF(trim(p_customer_name), ''),
+    NULLIF(trim(p_customer_phone), ''),
+    p_currency,
+    p_language,
+    NULLIF(p_checkout->>'delivery_method', ''),
+    CASE WHEN p_checkout->>'delivery_method' = 'delivery' THEN p_checkout->'delivery_address' END,
+    NULLIF(p_checkout->>'payment_method', ''),
+    order_shipping_fee
+  )
+  RETURNING orders.id, orders.order_number INTO new_order_id, new_order_number;
+
+  FOR order_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT p.id, p.title, p.price, p.discounted_price
+    INTO product_record
+    FROM public.products p
+    WHERE p.id = (order_item->>'product_id')::uuid
+      AND p.user_id = p_seller_id
+      AND p.is_visible_on_storefront = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Produto indisponível: %', order_item->>'product_id';
+    END IF;
+
+    SELECT v.id, v.price
+    INTO variant_record
+    FROM public.product_variants v
+    WHERE v.product_id = product_record.id
+      AND v.color = COALESCE(order_item->>'color', '')
+      AND v.size = COALESCE(order_item->>'size', '');
+
+    item_quantity := GREATEST(COALESCE((order_item->>'quantity')::integer, 1), 1);
+    item_unit_price := COALESCE(
+      NULLIF(variant_record.price, 0),
+      NULLIF(product_record.discounted_price, 0),
+      product_record.price,
+      0
+    );
+
+    INSERT INTO public.order_items (
+      order_id, product_id, product_variant_id, title, color, size, notes,
+      quantity, unit_price, total_price
+    )
+    VALUES (
+      new_order_id,
+      product_record.id,
+      variant_record.id,
+      product_record.title,
+      NULLIF(order_item->>'color', ''),
+      NULLIF(order_item->>'size', ''),
+      NULLIF(trim(order_item->>'notes'), ''),
+      item_quantity,
+      item_unit_price,
+      item_unit_price * item_quantity
+    );
+
+    order_subtotal := order_subtotal + item_unit_price * item_quantity;
+  END LOOP;
+
+  UPDATE public.orders
+  SET subtotal = order_subtotal,
+      total = order_subtotal + order_shipping_fee
+  WHERE orders.id = new_order_id;
+
+  RETURN QUERY SELECT new_order_id, new_order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_storefront_order(uuid, jsonb, text, text, text, text, jsonb) TO anon, authenticated;
@@ -0,0 +1,306 @@
+/*
+  # Cupons de desconto
+
+  1. Nova Tabela
+    - `coupons` - Cupons de desconto criados pelo vendedor
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, vendedor dono do cupom)
+      - `code` (text, sempre em maiúsculas, único por vendedor)
+      - `discount_type` (text: percentage, fixed)
+      - `discount_value` (decimal)
+      - `min_cart_value` (decimal, valor mínimo do carrinho)
+      - `expires_at` (timestamptz, opcional)
+      - `usage_limit` (integer, opcional) / `usage_count` (integer)
+      - `categories` (text[], categorias de `user_product_categories`; vazio = todas)
+      - `is_active` (boolean)
+
+  2. Modificações na Tabela Orders
+    - `coupon_id` (uuid, foreign key to coupons)
+    - `coupon_code` (text, cópia do código aplicado)
+    - `discount` (decimal)
+
+  3. Funções
+    - `validate_coupon` - Valida um código para a vitrine sem expor os cupons
+    - `create_storefront_order` passa a aplicar o cupom de `p_checkout` e
+      contabiliza o uso do cupom
+
+  4. Segurança
+    - RLS habilitado
+    - Vendedores gerenciam apenas seus próprios cupons
+*/
+
+-- 1. Criar tabela de cupons
+CREATE TABLE IF NOT EXISTS public.coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code = upper(code) AND char_length(code) BETWEEN 3 AND 30),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value decimal(12,2) NOT NULL CHECK (discount_value > 0),
+  min_cart_value decimal(12,2) NOT NULL DEFAULT 0 CHECK (min_cart_value >= 0),
+  expires_at timestamptz,
+  usage_limit integer CHECK (usage_limit IS NULL OR usage_limit > 0),
+  usage_count integer NOT NULL DEFAULT 0,
+  categories text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, code),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100)
+);
+
+-- 2. Habilitar RLS
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+
+-- 3. Políticas de segurança
+CREATE POLICY "Users can manage own coupons"
+  ON public.coupons
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- 4. Índices
+CREATE INDEX IF NOT EXISTS idx_coupons_user_id ON public.coupons(user_id);
+
+-- 5. Trigger de updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_coupons_updated_at'
+  ) THEN
+    CREATE TRIGGER update_coupons_updated_at
+      BEFORE UPDATE ON public.coupons
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- 6. Adicionar colunas de cupom na tabela orders
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'coupon_id'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN coupon_id uuid REFERENCES public.coupons(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'coupon_code'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN coupon_code text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'discount'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN discount decimal(12,2) NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- 7. Função para validar cupons na vitrine
+CREATE OR REPLACE FUNCTION public.validate_coupon(p_seller_id uuid, p_code text)
+RETURNS TABLE (
+  id uuid,
+  code text,
+  discount_type text,
+  discount_value decimal,
+  min_cart_value decimal,
+  categories text[]
+) AS $$
+DECLARE
+  coupon_record record;
+BEGIN
+  SELECT c.*
+  INTO coupon_record
+  FROM public.coupons c
+  WHERE c.user_id = p_seller_id
+    AND c.code = upper(trim(p_code));
+
+  IF NOT FOUND OR NOT coupon_record.is_active THEN
+    RAISE EXCEPTION 'Cupom inválido';
+  END IF;
+
+  IF coupon_record.expires_at IS NOT NULL AND coupon_record.expires_at <= now() THEN
+    RAISE EXCEPTION 'Cupom expirado';
+  END IF;
+
+  IF coupon_record.usage_limit IS NOT NULL AND coupon_record.usage_count >= coupon_record.usage_limit THEN
+    RAISE EXCEPTION 'Cupom esgotado';
+  END IF;
+
+  RETURN QUERY SELECT
+    coupon_record.id,
+    coupon_record.code,
+    coupon_record.discount_type,
+    coupon_record.discount_value,
+    coupon_record.min_cart_value,
+    coupon_record.categories;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.validate_coupon(uuid, text) TO anon, authenticated;
+
+-- 8. Recriar a função de pedidos aplicando o cupom
+-- p_items: [{ "product_id": uuid, "color": text, "size": text, "quantity": integer, "notes": text }]
+-- p_checkout: { "delivery_method": text, "delivery_address": jsonb, "payment_method": text, "shipping_fee": number, "coupon_code": text }
+CREATE OR REPLACE FUNCTION public.create_storefront_order(
+  p_seller_id uuid,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_currency text DEFAULT 'BRL',
+  p_language text DEFAULT 'pt-BR',
+  p_checkout jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (id uuid, order_number integer) AS $$
+DECLARE
+  new_order_id uuid;
+  new_order_number integer;
+  order_item jsonb;
+  product_record record;
+  variant_record record;
+  item_quantity integer;
+  item_unit_price decimal(12,2);
+  order_subtotal decimal(12,2) := 0;
+  order_shipping_fee decimal(12,2);
+  coupon_record public.coupons%ROWTYPE;
+  eligible_subtotal decimal(12,2) := 0;
+  order_discount decimal(12,2) := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = p_seller_id AND NOT u.is_blocked
+  ) THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  -- Frete só se aplica a entregas
+  order_shipping_fee := CASE
+    WHEN p_checkout->>'delivery_method' = 'delivery'
+      THEN GREATEST(COALESCE((p_checkout->>'shipping_fee')::decimal, 0), 0)
+    ELSE 0
+  END;
+
+  -- Cupom informado pelo cliente; cupons inválidos são ignorados
+  IF NULLIF(trim(p_checkout->>'coupon_code'), '') IS NOT NULL THEN
+    SELECT c.*
+    INTO coupon_record
+    FROM public.coupons c
+    WHERE c.user_id = p_seller_id
+      AND c.code = upper(trim(p_checkout->>'coupon_code'))
+      AND c.is_active = true
+      AND (c.expires_at IS NULL OR c.expires_at > now())
+      AND (c.usage_limit IS NULL OR c.usage_count < c.usage_limit)
+    FOR UPDATE;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, order_number, customer_name, customer_phone, currency, language,
+    delivery_method, delivery_address, payment_method, shipping_fee
+  )
+  VALUES (
+    p_seller_id,
+    0,
+    NULLIF(trim(p_customer_name), ''),
+    NULLIF(trim(p_customer_phone), ''),
+    p_currency,
+    p_language,
+    NULLIF(p_checkout->>'delivery_method', ''),
+    CASE WHEN p_checkout->>'delivery_method' = 'delivery' THEN p_checkout->'delivery_address' END,
+    NULLIF(p_checkout->>'payment_method', ''),
+    order_shipping_fee
+  )
+  RETURNING orders.id, orders.order_number INTO new_order_id, new_order_number;
+
+  FOR order_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT p.id, p.title, p.price, p.discounted_price, p.category
+    INTO product_record
+    FROM public.products p
+    WHERE p.id = (order_item->>'product_id')::uuid
+      AND p.user_id = p_seller_id
+      AND p.is_visible_on_storefront = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Produto indisponível: %', order_item->>'product_id';
+    END IF;
+
+    SELECT v.id, v.price
+    INTO variant_record
+    FROM public.product_variants v
+    WHERE v.product_id = product_record.id
+      AND v.color = COALESCE(order_item->>'color', '')
+      AND v.size = COALESCE(order_item->>'size', '');
+
+    item_quantity := GREATEST(COALESCE((order_item->>'quantity')::integer, 1), 1);
+    item_unit_price := COALESCE(
+      NULLIF(variant_record.price, 0),
+      NULLIF(product_record.discounted_price, 0),
+      product_record.price,
+      0
+    );
+
+    INSERT INTO public.order_items (
+      order_id, product_id, product_variant_id, title, color, size, notes,
+      quantity, unit_price, total_price
+    )
+    VALUES (
+      new_order_id,
+      product_record.id,
+      variant_record.id,
+      product_record.title,
+      NULLIF(order_item->>'color', ''),
+      NULLIF(order_item->>'size', ''),
+      NULLIF(trim(order_item->>'notes'), ''),
+      item_quantity,
+      item_unit_price,
+      item_unit_price * item_quantity
+    );
+
+    order_subtotal := order_subtotal + item_unit_price * item_quantity;
+
+    -- Cupons restritos a categorias só descontam os itens dessas categorias
+    IF coupon_record.id IS NOT NULL AND (
+      COALESCE(array_length(coupon_record.categories, 1), 0) = 0
+      OR product_record.category && coupon_record.categories
+    ) THEN
+      eligible_subtotal := eligible_subtotal + item_unit_price * item_quantity;
+    END IF;
+  END LOOP;
+
+  IF coupon_record.id IS NOT NULL
+    AND order_subtotal >= coupon_record.min_cart_value
+    AND eligible_subtotal > 0
+  THEN
+    order_discount := CASE coupon_record.discount_type
+      WHEN 'percentage' THEN round(eligible_subtotal * LEAST(coupon_record.discount_value, 100) / 100, 2)
+      ELSE LEAST(coupon_record.discount_value, eligible_subtotal)
+    END;
+
+    UPDATE public.coupons
+    SET usage_count = usage_count + 1
+    WHERE coupons.id = coupon_record.id;
+  END IF;
+
+  UPDATE public.orders
+  SET subtotal = order_subtotal,
+      discount = order_discount,
+      coupon_id = CASE WHEN order_discount > 0 THEN coupon_record.id END,
+      coupon_code = CASE WHEN order_discount > 0 THEN coupon_record.code END,
+      total = order_subtotal - order_discount + order_shipping_fee
+  WHERE orders.id = new_order_id;
+
+  RETURN QUERY SELECT new_order_id, new_order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_storefront_order(uuid, jsonb, text, text, text, text, jsonb) TO anon, authenticated;
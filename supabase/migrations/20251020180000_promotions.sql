@@ -0,0 +1,275 @@
+/*
+  # Promoções agendadas
+
+  1. Nova Tabela
+    - `promotions` - Descontos com início e fim programados
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, vendedor dono da promoção)
+      - `name` (text)
+      - `discount_type` (text: percentage, fixed)
+      - `discount_value` (decimal)
+      - `starts_at` / `ends_at` (timestamptz)
+      - `target_type` (text: all, products, categories)
+      - `product_ids` (uuid[], produtos quando target_type = products)
+      - `categories` (text[], categorias quando target_type = categories)
+      - `is_active` (boolean)
+
+  2. Funções
+    - `get_promotional_price` - Menor preço de um produto entre as promoções em andamento
+    - `create_storefront_order` passa a cobrar o preço promocional
+
+  3. Segurança
+    - RLS habilitado
+    - Vendedores gerenciam apenas suas próprias promoções
+    - A vitrine pode ler promoções ativas para exibir os preços
+*/
+
+-- 1. Criar tabela de promoções
+CREATE TABLE IF NOT EXISTS public.promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value decimal(12,2) NOT NULL CHECK (discount_value > 0),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  target_type text NOT NULL DEFAULT 'all' CHECK (target_type IN ('all', 'products', 'categories')),
+  product_ids uuid[] NOT NULL DEFAULT '{}',
+  categories text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (ends_at > starts_at),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100)
+);
+
+-- 2. Habilitar RLS
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+-- 3. Políticas de segurança
+CREATE POLICY "Users can manage own promotions"
+  ON public.promotions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Public can view active promotions"
+  ON public.promotions
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true);
+
+-- 4. Índices
+CREATE INDEX IF NOT EXISTS idx_promotions_user_id_ends_at ON public.promotions(user_id, ends_at);
+
+-- 5. Trigger de updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_promotions_updated_at'
+  ) THEN
+    CREATE TRIGGER update_promotions_updated_at
+      BEFORE UPDATE ON public.promotions
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- 6. Função com o menor preço promocional de um produto
+-- Retorna NULL quando nenhuma promoção em andamento se aplica ao produto
+CREATE OR REPLACE FUNCTION public.get_promotional_price(p_product_id uuid)
+RETURNS decimal AS $$
+DECLARE
+  promotional_price decimal(12,2);
+BEGIN
+  SELECT MIN(
+    CASE pr.discount_type
+      WHEN 'percentage' THEN round(p.price * (100 - LEAST(pr.discount_value, 100)) / 100, 2)
+      ELSE GREATEST(p.price - pr.discount_value, 0)
+    END
+  )
+  INTO promotional_price
+  FROM public.products p
+  JOIN public.promotions pr ON pr.user_id = p.user_id
+  WHERE p.id = p_product_id
+    AND COALESCE(p.price, 0) > 0
+    AND pr.is_active = true
+    AND pr.starts_at <= now()
+    AND pr.ends_at > now()
+    AND (
+      pr.target_type = 'all'
+      OR (pr.target_type = 'products' AND p.id = ANY(pr.product_ids))
+      OR (pr.target_type = 'categories' AND p.category && pr.categories)
+    );
+
+  RETURN promotional_price;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_promotional_price(uuid) TO anon, authenticated;
+
+-- 7. Recriar a função de pedidos usando o preço promocional
+-- p_items: [{ "product_id": uuid, "color": text, "size": text, "quantity": integer, "notes": text }]
+-- p_checkout: { "delivery_method": text, "delivery_address": jsonb, "payment_method": text, "shipping_fee": number, "coupon_code": text }
+CREATE OR REPLACE FUNCTION public.create_storefront_order(
+  p_seller_id uuid,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_currency text DEFAULT 'BRL',
+  p_language text DEFAULT 'pt-BR',
+  p_checkout jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (id uuid, order_number integer) AS $$
+DECLARE
+  new_order_id uuid;
+  new_order_number integer;
+  order_item jsonb;
+  product_record record;
+  variant_record record;
+  item_quantity integer;
+  item_unit_price decimal(12,2);
+  order_subtotal decimal(12,2) := 0;
+  order_shipping_fee decimal(12,2);
+  coupon_record public.coupons%ROWTYPE;
+  eligible_subtotal decimal(12,2) := 0;
+  order_discount decimal(12,2) := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = p_seller_id AND NOT u.is_blocked
+  ) THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  -- Frete só se aplica a entregas
+  order_shipping_fee := CASE
+    WHEN p_checkout->>'delivery_method' = 'delivery'
+      THEN GREATEST(COALESCE((p_checkout->>'shipping_fee')::decimal, 0), 0)
+    ELSE 0
+  END;
+
+  -- Cupom informado pelo cliente; cupons inválidos são ignorados
+  IF NULLIF(trim(p_checkout->>'coupon_code'), '') IS NOT NULL THEN
+    SELECT c.*
+    INTO coupon_record
+    FROM public.coupons c
+    WHERE c.user_id = p_seller_id
+      AND c.code = upper(trim(p_checkout->>'coupon_code'))
+      AND c.is_active = true
+      AND (c.expires_at IS NULL OR c.expires_at > now())
+      AND (c.usage_limit IS NULL OR c.usage_count < c.usage_limit)
+    FOR UPDATE;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, order_number, customer_name, customer_phone, currency, language,
+    delivery_method, delivery_address, payment_method, shipping_fee
+  )
+  VALUES (
+    p_seller_id,
+    0,
+    NULLIF(trim(p_customer_name), ''),
+    NULLIF(trim(p_customer_phone), ''),
+    p_currency,
+    p_language,
+    NULLIF(p_checkout->>'delivery_method', ''),
+    CASE WHEN p_checkout->>'delivery_method' = 'delivery' THEN p_checkout->'delivery_address' END,
+    NULLIF(p_checkout->>'payment_method', ''),
+    order_shipping_fee
+  )
+  RETURNING orders.id, orders.order_number INTO new_order_id, new_order_number;
+
+  FOR order_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT p.id, p.title, p.price, p.discounted_price, p.category
+    INTO product_record
+    FROM public.products p
+    WHERE p.id = (order_item->>'product_id')::uuid
+      AND p.user_id = p_seller_id
+      AND p.is_visible_on_storefront = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Produto indisponível: %', order_item->>'product_id';
+    END IF;
+
+    SELECT v.id, v.price
+    INTO variant_record
+    FROM public.product_variants v
+    WHERE v.product_id = product_record.id
+      AND v.color = COALESCE(order_item->>'color', '')
+      AND v.size = COALESCE(order_item->>'size', '');
+
+    item_quantity := GREATEST(COALESCE((order_item->>'quantity')::integer, 1), 1);
+    -- O menor preço entre o desconto do produto e as promoções em andamento
+    item_unit_price := COALESCE(
+      NULLIF(variant_record.price, 0),
+      LEAST(
+        NULLIF(product_record.discounted_price, 0),
+        public.get_promotional_price(product_record.id)
+      ),
+      product_record.price,
+      0
+    );
+
+    INSERT INTO public.order_items (
+      order_id, product_id, product_variant_id, title, color, size, notes,
+      quantity, unit_price, total_price
+    )
+    VALUES (
+      new_order_id,
+      product_record.id,
+      variant_record.id,
+      product_record.title,
+      NULLIF(order_item->>'color', ''),
+      NULLIF(order_item->>'size', ''),
+      NULLIF(trim(order_item->>'notes'), ''),
+      item_quantity,
+      item_unit_price,
+      item_unit_price * item_quantity
+    );
+
+    order_subtotal := order_subtotal + item_unit_price * item_quantity;
+
+    -- Cupons restritos a categorias só descontam os itens dessas categorias
+    IF coupon_record.id IS NOT NULL AND (
+      COALESCE(array_length(coupon_record.categories, 1), 0) = 0
+      OR product_record.category && coupon_record.categories
+    ) THEN
+      eligible_subtotal := eligible_subtotal + item_unit_price * item_quantity;
+    END IF;
+  END LOOP;
+
+  IF coupon_record.id IS NOT NULL
+    AND order_subtotal >= coupon_record.min_cart_value
+    AND eligible_subtotal > 0
+  THEN
+    order_discount := CASE coupon_record.discount_type
+      WHEN 'percentage' THEN round(eligible_subtotal * LEAST(coupon_record.discount_value, 100) / 100, 2)
+      ELSE LEAST(coupon_record.discount_value, eligible_subtotal)
+    END;
+
+    UPDATE public.coupons
+    SET usage_count = usage_count + 1
+    WHERE coupons.id = coupon_record.id;
+  END IF;
+
+  UPDATE public.orders
+  SET subtotal = order_subtotal,
+      discount = order_discount,
+      coupon_id = CASE WHEN order_discount > 0 THEN coupon_record.id END,
+      coupon_code = CASE WHEN order_discount > 0 THEN coupon_record.code END,
+      total = order_subtotal - order_discount + order_shipping_fee
+  WHERE orders.id = new_order_id;
+
+  RETURN QUERY SELECT new_order_id, new_order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_storefront_order(uuid, jsonb, text, text, text, text, jsonb) TO anon, authenticated;
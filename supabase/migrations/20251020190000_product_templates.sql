@@ -0,0 +1,65 @@
+/*
+  # Modelos de produto
+
+  1. Nova Tabela
+    - `product_templates` - Modelos reutilizáveis para o cadastro de produtos
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, vendedor dono do modelo)
+      - `name` (text, nome do modelo, único por vendedor)
+      - `brand` (text, opcional)
+      - `gender` (text: masculino, feminino, unissex, opcional)
+      - `categories` (text[])
+      - `colors` (text[])
+      - `sizes` (text[])
+      - `short_description` (text, opcional)
+      - `description` (text, esqueleto da descrição completa)
+
+  2. Segurança
+    - RLS habilitado
+    - Vendedores gerenciam apenas seus próprios modelos
+*/
+
+-- 1. Criar tabela de modelos
+CREATE TABLE IF NOT EXISTS public.product_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  brand text,
+  gender text CHECK (gender IS NULL OR gender IN ('masculino', 'feminino', 'unissex')),
+  categories text[] NOT NULL DEFAULT '{}',
+  colors text[] NOT NULL DEFAULT '{}',
+  sizes text[] NOT NULL DEFAULT '{}',
+  short_description text,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+-- 2. Habilitar RLS
+ALTER TABLE public.product_templates ENABLE ROW LEVEL SECURITY;
+
+-- 3. Políticas de segurança
+CREATE POLICY "Users can manage own product templates"
+  ON public.product_templates
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- 4. Índices
+CREATE INDEX IF NOT EXISTS idx_product_templates_user_id ON public.product_templates(user_id);
+
+-- 5. Trigger de updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_product_templates_updated_at'
+  ) THEN
+    CREATE TRIGGER update_product_templates_updated_at
+      BEFORE UPDATE ON public.product_templates
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
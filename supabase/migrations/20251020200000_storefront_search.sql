@@ -0,0 +1,167 @@
+/*
+  # Busca da vitrine no servidor
+
+  1. Extensões
+    - `unaccent` - Remove acentos ("tênis" encontra "tenis")
+    - `pg_trgm` - Similaridade por trigramas para tolerar erros de digitação
+
+  2. Modificações na Tabela Products
+    - `search_vector` (tsvector) - Título, marca, modelo, categorias e descrições
+      indexados com o dicionário do idioma da vitrine (`users.language`)
+
+  3. Funções
+    - `immutable_unaccent` - Versão IMMUTABLE de `unaccent` para gatilhos e índices
+    - `get_search_config` - Dicionário de busca (portuguese, english, spanish) pelo idioma
+    - `update_product_search_vector` - Gatilho que mantém `search_vector` atualizado
+    - `search_storefront_products` - Busca ranqueada dos produtos visíveis de uma vitrine
+
+  4. Gatilhos
+    - Produtos recalculam `search_vector` ao salvar
+    - Alterar o idioma do vendedor reindexa os produtos dele
+*/
+
+-- 1. Extensões
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- 2. Funções auxiliares
+CREATE OR REPLACE FUNCTION public.immutable_unaccent(value text)
+RETURNS text AS $$
+  SELECT extensions.unaccent('extensions.unaccent'::regdictionary, value);
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+CREATE OR REPLACE FUNCTION public.get_search_config(p_language text)
+RETURNS regconfig AS $$
+  SELECT CASE p_language
+    WHEN 'en-US' THEN 'english'::regconfig
+    WHEN 'es-ES' THEN 'spanish'::regconfig
+    ELSE 'portuguese'::regconfig
+  END;
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- 3. Adicionar coluna de busca em products
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN search_vector tsvector;
+  END IF;
+END $$;
+
+-- 4. Gatilho que monta o vetor de busca
+-- Os textos são indexados sem acento; a busca remove os acentos da consulta da mesma forma
+CREATE OR REPLACE FUNCTION public.update_product_search_vector()
+RETURNS TRIGGER AS $$
+DECLARE
+  config regconfig;
+BEGIN
+  SELECT public.get_search_config(u.language)
+  INTO config
+  FROM public.users u
+  WHERE u.id = NEW.user_id;
+
+  config := COALESCE(config, 'portuguese'::regconfig);
+
+  NEW.search_vector :=
+    setweight(to_tsvector(config, public.immutable_unaccent(COALESCE(NEW.title, ''))), 'A') ||
+    setweight(to_tsvector(config, public.immutable_unaccent(
+      concat_ws(' ', NEW.brand, NEW.model, array_to_string(NEW.category, ' '))
+    )), 'B') ||
+    setweight(to_tsvector(config, public.immutable_unaccent(COALESCE(NEW.short_description, ''))), 'C') ||
+    setweight(to_tsvector(config, public.immutable_unaccent(
+      regexp_replace(COALESCE(NEW.description, ''), '<[^>]*>', ' ', 'g')
+    )), 'D');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_products_search_vector ON public.products;
+CREATE TRIGGER update_products_search_vector
+  BEFORE INSERT OR UPDATE OF title, brand, model, category, short_description, description, user_id
+  ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_product_search_vector();
+
+-- 5. Reindexar os produtos quando o vendedor muda o idioma da vitrine
+CREATE OR REPLACE FUNCTION public.reindex_user_products_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.language IS DISTINCT FROM OLD.language THEN
+    UPDATE public.products SET title = title WHERE user_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reindex_user_products_search ON public.users;
+CREATE TRIGGER reindex_user_products_search
+  AFTER UPDATE OF language ON public.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reindex_user_products_search();
+
+-- 6. Preencher o vetor dos produtos existentes
+UPDATE public.products SET title = title;
+
+-- 7. Índice de texto completo
+-- A similaridade por trigramas é calculada só sobre os produtos do vendedor, já filtrados por user_id
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING gin(search_vector);
+
+-- 8. Busca ranqueada da vitrine
+-- Cada palavra é buscada como prefixo, para os resultados aparecerem enquanto o cliente digita,
+-- e a similaridade por trigramas com o título, a marca e o modelo cobre erros de digitação
+CREATE OR REPLACE FUNCTION public.search_storefront_products(
+  p_user_id uuid,
+  p_query text,
+  p_limit integer DEFAULT 60
+)
+RETURNS TABLE (product_id uuid, rank real) AS $$
+DECLARE
+  config regconfig;
+  normalized_query text;
+  prefix_query tsquery;
+BEGIN
+  normalized_query := lower(public.immutable_unaccent(trim(COALESCE(p_query, ''))));
+
+  IF char_length(normalized_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  SELECT public.get_search_config(u.language)
+  INTO config
+  FROM public.users u
+  WHERE u.id = p_user_id;
+
+  config := COALESCE(config, 'portuguese'::regconfig);
+
+  SELECT to_tsquery(config, string_agg(word || ':*', ' & '))
+  INTO prefix_query
+  FROM regexp_split_to_table(regexp_replace(normalized_query, '[^a-z0-9]+', ' ', 'g'), ' ') AS word
+  WHERE word <> '';
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    (
+      COALESCE(ts_rank(p.search_vector, prefix_query), 0) * 2 +
+      extensions.word_similarity(normalized_query, lower(public.immutable_unaccent(p.title)))
+    )::real AS rank
+  FROM public.products p
+  WHERE p.user_id = p_user_id
+    AND p.is_visible_on_storefront = true
+    AND (
+      (prefix_query IS NOT NULL AND p.search_vector @@ prefix_query)
+      OR extensions.word_similarity(
+        normalized_query,
+        lower(public.immutable_unaccent(concat_ws(' ', p.title, p.brand, p.model)))
+      ) >= 0.4
+    )
+  ORDER BY rank DESC, p.display_order ASC NULLS LAST
+  LIMIT GREATEST(LEAST(p_limit, 200), 1);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_storefront_products(uuid, text, integer) TO anon, authenticated;
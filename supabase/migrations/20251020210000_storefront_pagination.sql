@@ -0,0 +1,40 @@
+/*
+  # Paginação da vitrine
+
+  1. Funções
+    - `get_storefront_category_counts` - Quantidade de produtos visíveis por categoria,
+      com uma linha de categoria NULL para os produtos sem categoria
+
+  2. Índices
+    - Ordem da vitrine (display_order, id) dos produtos visíveis de cada vendedor,
+      usada pela paginação por cursor
+    - GIN em `category` para carregar as páginas de uma categoria
+*/
+
+-- 1. Contagem de produtos por categoria
+CREATE OR REPLACE FUNCTION public.get_storefront_category_counts(p_user_id uuid)
+RETURNS TABLE (category text, product_count bigint) AS $$
+  SELECT c.category, count(*)
+  FROM public.products p
+  CROSS JOIN LATERAL unnest(p.category) AS c(category)
+  WHERE p.user_id = p_user_id
+    AND p.is_visible_on_storefront = true
+  GROUP BY c.category
+
+  UNION ALL
+
+  SELECT NULL, count(*)
+  FROM public.products p
+  WHERE p.user_id = p_user_id
+    AND p.is_visible_on_storefront = true
+    AND COALESCE(cardinality(p.category), 0) = 0;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_storefront_category_counts(uuid) TO anon, authenticated;
+
+-- 2. Índices
+CREATE INDEX IF NOT EXISTS idx_products_storefront_order
+  ON public.products(user_id, display_order, id DESC)
+  WHERE is_visible_on_storefront = true;
+
+CREATE INDEX IF NOT EXISTS idx_products_category ON public.products USING gin(category);
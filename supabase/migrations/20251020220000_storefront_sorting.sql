@@ -0,0 +1,37 @@
+/*
+  # Ordenação da vitrine
+
+  1. Funções
+    - `get_storefront_product_popularity` - Visualizações e pedidos de cada produto visível,
+      usados pelas ordenações "mais vistos" e "mais pedidos" da vitrine
+      - Visualizações vêm de `property_views`
+      - Pedidos contam os pedidos não cancelados que incluem o produto
+
+  2. Configurações
+    - As opções de ordenação ficam em `user_storefront_settings.settings.sorting`
+      (`defaultSort` e `hiddenOptions`), sem alteração de esquema
+*/
+
+-- 1. Popularidade dos produtos
+CREATE OR REPLACE FUNCTION public.get_storefront_product_popularity(p_user_id uuid)
+RETURNS TABLE (product_id uuid, view_count bigint, order_count bigint) AS $$
+  SELECT
+    p.id,
+    (
+      SELECT count(*)
+      FROM public.property_views pv
+      WHERE pv.property_id = p.id
+    ),
+    (
+      SELECT count(DISTINCT oi.order_id)
+      FROM public.order_items oi
+      JOIN public.orders o ON o.id = oi.order_id
+      WHERE oi.product_id = p.id
+        AND o.status <> 'cancelado'
+    )
+  FROM public.products p
+  WHERE p.user_id = p_user_id
+    AND p.is_visible_on_storefront = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_storefront_product_popularity(uuid) TO anon, authenticated;
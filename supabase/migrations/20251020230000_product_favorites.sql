@@ -0,0 +1,96 @@
+/*
+  # Favoritos da vitrine
+
+  1. Novas Tabelas
+    - `product_favorites` - Produtos favoritados pelos clientes da vitrine
+      - `product_id` (uuid, foreign key to products)
+      - `viewer_id` (text, id anônimo do navegador, o mesmo de `property_views`)
+      - `created_at` (timestamp)
+      - Um registro por produto e navegador
+
+  2. Funções
+    - `set_product_favorite` - Marca ou desmarca um produto visível como favorito
+    - `get_product_favorite_counts` - Produtos do vendedor mais favoritados
+
+  3. Segurança
+    - RLS habilitado
+    - Vendedores veem apenas os favoritos dos próprios produtos
+    - A vitrine (anônima) altera favoritos somente via `set_product_favorite`
+*/
+
+-- 1. Criar tabela de favoritos
+CREATE TABLE IF NOT EXISTS public.product_favorites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  viewer_id text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(product_id, viewer_id)
+);
+
+-- 2. Habilitar RLS
+ALTER TABLE public.product_favorites ENABLE ROW LEVEL SECURITY;
+
+-- 3. Políticas de segurança
+CREATE POLICY "Users can view favorites of own products"
+  ON public.product_favorites
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.products
+      WHERE products.id = product_favorites.product_id
+        AND products.user_id = auth.uid()
+    )
+  );
+
+-- 4. Marcar ou desmarcar favorito
+CREATE OR REPLACE FUNCTION public.set_product_favorite(
+  p_product_id uuid,
+  p_viewer_id text,
+  p_favorited boolean
+)
+RETURNS void AS $$
+BEGIN
+  IF p_viewer_id IS NULL OR length(p_viewer_id) = 0 OR length(p_viewer_id) > 64 THEN
+    RAISE EXCEPTION 'Visitante inválido';
+  END IF;
+
+  IF NOT p_favorited THEN
+    DELETE FROM public.product_favorites
+    WHERE product_id = p_product_id
+      AND viewer_id = p_viewer_id;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.products
+    WHERE id = p_product_id
+      AND is_visible_on_storefront = true
+  ) THEN
+    RAISE EXCEPTION 'Produto não encontrado';
+  END IF;
+
+  INSERT INTO public.product_favorites (product_id, viewer_id)
+  VALUES (p_product_id, p_viewer_id)
+  ON CONFLICT (product_id, viewer_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_product_favorite(uuid, text, boolean) TO anon, authenticated;
+
+-- 5. Produtos mais favoritados do vendedor
+CREATE OR REPLACE FUNCTION public.get_product_favorite_counts(p_limit integer DEFAULT 10)
+RETURNS TABLE (product_id uuid, title text, featured_image_url text, favorite_count bigint) AS $$
+  SELECT p.id, p.title, p.featured_image_url, count(*)
+  FROM public.product_favorites f
+  JOIN public.products p ON p.id = f.product_id
+  WHERE p.user_id = auth.uid()
+  GROUP BY p.id, p.title, p.featured_image_url
+  ORDER BY count(*) DESC, p.title
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_product_favorite_counts(integer) TO authenticated;
+
+-- 6. Índices
+CREATE INDEX IF NOT EXISTS idx_product_favorites_product_id ON public.product_favorites(product_id);
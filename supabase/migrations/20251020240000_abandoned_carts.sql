@@ -0,0 +1,135 @@
+/*
+  # Carrinhos abandonados
+
+  1. Novas Tabelas
+    - `abandoned_carts` - Carrinhos de clientes que informaram o WhatsApp e aceitaram ser contatados
+      - `user_id` (uuid, vendedor dono da vitrine)
+      - `viewer_id` (text, id anônimo do navegador, o mesmo de `property_views`)
+      - `customer_name` / `customer_phone` (text)
+      - `items` (jsonb, cópia dos itens do carrinho)
+      - `total` (decimal), `currency` / `language` (text, da vitrine)
+      - `contacted_at` (timestamp, último contato do vendedor)
+      - `created_at` / `updated_at` (timestamps)
+      - Um carrinho por vendedor e navegador
+
+  2. Funções
+    - `save_abandoned_cart` - Salva ou atualiza o carrinho do navegador na vitrine
+    - `discard_abandoned_cart` - Remove o carrinho quando o pedido é enviado, o carrinho
+      é esvaziado ou o cliente desiste de ser contatado
+
+  3. Segurança
+    - RLS habilitado
+    - Vendedores gerenciam apenas os carrinhos da própria vitrine
+    - A vitrine (anônima) altera carrinhos somente via funções
+*/
+
+-- 1. Criar tabela de carrinhos abandonados
+CREATE TABLE IF NOT EXISTS public.abandoned_carts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  viewer_id text NOT NULL,
+  customer_name text,
+  customer_phone text NOT NULL,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  total decimal(12,2) NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'BRL',
+  language text NOT NULL DEFAULT 'pt-BR',
+  contacted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, viewer_id)
+);
+
+-- 2. Habilitar RLS
+ALTER TABLE public.abandoned_carts ENABLE ROW LEVEL SECURITY;
+
+-- 3. Políticas de segurança
+CREATE POLICY "Users can manage own abandoned carts"
+  ON public.abandoned_carts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- 4. Índice para a listagem do painel
+CREATE INDEX IF NOT EXISTS idx_abandoned_carts_user_updated
+  ON public.abandoned_carts(user_id, updated_at DESC);
+
+-- 5. Salvar o carrinho do navegador
+CREATE OR REPLACE FUNCTION public.save_abandoned_cart(
+  p_seller_id uuid,
+  p_viewer_id text,
+  p_customer_name text,
+  p_customer_phone text,
+  p_items jsonb,
+  p_total decimal
+)
+RETURNS void AS $$
+DECLARE
+  v_seller public.users%ROWTYPE;
+BEGIN
+  IF p_viewer_id IS NULL OR length(p_viewer_id) = 0 OR length(p_viewer_id) > 64 THEN
+    RAISE EXCEPTION 'Visitante inválido';
+  END IF;
+
+  IF p_customer_phone IS NULL OR length(regexp_replace(p_customer_phone, '\D', '', 'g')) < 10 THEN
+    RAISE EXCEPTION 'Telefone inválido';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 OR jsonb_array_length(p_items) > 100 THEN
+    RAISE EXCEPTION 'Carrinho inválido';
+  END IF;
+
+  SELECT * INTO v_seller FROM public.users WHERE id = p_seller_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  INSERT INTO public.abandoned_carts (
+    user_id,
+    viewer_id,
+    customer_name,
+    customer_phone,
+    items,
+    total,
+    currency,
+    language
+  )
+  VALUES (
+    p_seller_id,
+    p_viewer_id,
+    NULLIF(left(trim(p_customer_name), 100), ''),
+    left(trim(p_customer_phone), 30),
+    p_items,
+    GREATEST(COALESCE(p_total, 0), 0),
+    COALESCE(v_seller.currency, 'BRL'),
+    COALESCE(v_seller.language, 'pt-BR')
+  )
+  ON CONFLICT (user_id, viewer_id) DO UPDATE SET
+    customer_name = EXCLUDED.customer_name,
+    customer_phone = EXCLUDED.customer_phone,
+    items = EXCLUDED.items,
+    total = EXCLUDED.total,
+    currency = EXCLUDED.currency,
+    language = EXCLUDED.language,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.save_abandoned_cart(uuid, text, text, text, jsonb, decimal) TO anon, authenticated;
+
+-- 6. Remover o carrinho do navegador
+CREATE OR REPLACE FUNCTION public.discard_abandoned_cart(
+  p_seller_id uuid,
+  p_viewer_id text
+)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM public.abandoned_carts
+  WHERE user_id = p_seller_id
+    AND viewer_id = p_viewer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.discard_abandoned_cart(uuid, text) TO anon, authenticated;
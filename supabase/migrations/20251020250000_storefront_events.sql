@@ -0,0 +1,317 @@
+/*
+  # Eventos da vitrine
+
+  1. Novas Tabelas
+    - `storefront_events` - Registro das interações dos clientes com a vitrine
+      - `user_id` (uuid, vendedor dono da vitrine)
+      - `event_type` (text): page_view, product_view, add_to_cart, remove_from_cart,
+        whatsapp_click, order_sent, share ou search
+      - `product_id` (uuid, produto do evento, quando houver)
+      - `session_id` (text, visita do cliente, renovada a cada aba do navegador)
+      - `viewer_id` (text, id anônimo do navegador, o mesmo dos favoritos e carrinhos)
+      - `referrer` (text, página de origem da visita)
+      - `utm_source` / `utm_medium` / `utm_campaign` / `utm_term` / `utm_content` (text)
+      - `device_type` (text): mobile, tablet ou desktop
+      - `search_query` (text, termo buscado nos eventos search)
+      - `metadata` (jsonb, detalhes do evento, como quantidade e origem do clique)
+      - `created_at` (timestamp)
+
+  2. Funções
+    - `track_storefront_event` - Registra um evento da vitrine
+    - `get_storefront_event_summary` - Eventos e sessões por dia e tipo de um vendedor
+    - `get_storefront_product_popularity` - Passa a contar as visualizações de `storefront_events`
+
+  3. Dados existentes
+    - As visualizações de `property_views` são copiadas como eventos product_view
+    - Os cliques no WhatsApp gravados como leads fictícios ("WhatsApp Contact") são
+      copiados como eventos whatsapp_click quando o produto existe, ou sem produto quando
+      foram gravados com o id do vendedor (cliques da vitrine), e removidos de `leads`
+    - Os cliques da vitrine gravados com o id fixo da vitrine não indicam o vendedor e
+      continuam em `leads`
+    - `property_views` deixa de receber visualizações
+
+  4. Segurança
+    - RLS habilitado
+    - Vendedores veem apenas os eventos da própria vitrine, administradores veem todos
+    - A vitrine (anônima) registra eventos somente via `track_storefront_event`
+*/
+
+-- 1. Criar tabela de eventos
+CREATE TABLE IF NOT EXISTS public.storefront_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'page_view',
+    'product_view',
+    'add_to_cart',
+    'remove_from_cart',
+    'whatsapp_click',
+    'order_sent',
+    'share',
+    'search'
+  )),
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  session_id text NOT NULL,
+  viewer_id text NOT NULL,
+  referrer text,
+  utm_source text,
+  utm_medium text,
+  utm_campaign text,
+  utm_term text,
+  utm_content text,
+  device_type text CHECK (device_type IN ('mobile', 'tablet', 'desktop')),
+  search_query text,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 2. Habilitar RLS
+ALTER TABLE public.storefront_events ENABLE ROW LEVEL SECURITY;
+
+-- 3. Políticas de segurança
+CREATE POLICY "Users can view own storefront events"
+  ON public.storefront_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all storefront events"
+  ON public.storefront_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- 4. Índices
+CREATE INDEX IF NOT EXISTS idx_storefront_events_user_created
+  ON public.storefront_events(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_storefront_events_user_type_created
+  ON public.storefront_events(user_id, event_type, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_storefront_events_product
+  ON public.storefront_events(product_id, event_type)
+  WHERE product_id IS NOT NULL;
+
+-- 5. Registrar evento
+CREATE OR REPLACE FUNCTION public.track_storefront_event(
+  p_seller_id uuid,
+  p_event_type text,
+  p_session_id text,
+  p_viewer_id text,
+  p_product_id uuid DEFAULT NULL,
+  p_referrer text DEFAULT NULL,
+  p_utm jsonb DEFAULT '{}'::jsonb,
+  p_device_type text DEFAULT NULL,
+  p_search_query text DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void AS $$
+DECLARE
+  v_product_id uuid;
+  v_search_query text;
+BEGIN
+  IF p_session_id IS NULL OR length(p_session_id) = 0 OR length(p_session_id) > 64 THEN
+    RAISE EXCEPTION 'Sessão inválida';
+  END IF;
+
+  IF p_viewer_id IS NULL OR length(p_viewer_id) = 0 OR length(p_viewer_id) > 64 THEN
+    RAISE EXCEPTION 'Visitante inválido';
+  END IF;
+
+  IF p_metadata IS NOT NULL AND (jsonb_typeof(p_metadata) <> 'object' OR length(p_metadata::text) > 2000) THEN
+    RAISE EXCEPTION 'Detalhes do evento inválidos';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = p_seller_id
+      AND is_blocked = false
+  ) THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  -- Only products of the seller are linked to the event
+  SELECT id INTO v_product_id
+  FROM public.products
+  WHERE id = p_product_id
+    AND user_id = p_seller_id;
+
+  v_search_query := NULLIF(left(trim(p_search_query), 200), '');
+
+  IF p_event_type = 'search' AND v_search_query IS NULL THEN
+    RAISE EXCEPTION 'Busca inválida';
+  END IF;
+
+  INSERT INTO public.storefront_events (
+    user_id,
+    event_type,
+    product_id,
+    session_id,
+    viewer_id,
+    referrer,
+    utm_source,
+    utm_medium,
+    utm_campaign,
+    utm_term,
+    utm_content,
+    device_type,
+    search_query,
+    metadata
+  )
+  VALUES (
+    p_seller_id,
+    p_event_type,
+    v_product_id,
+    p_session_id,
+    p_viewer_id,
+    NULLIF(left(trim(p_referrer), 500), ''),
+    NULLIF(left(trim(p_utm->>'utm_source'), 200), ''),
+    NULLIF(left(trim(p_utm->>'utm_medium'), 200), ''),
+    NULLIF(left(trim(p_utm->>'utm_campaign'), 200), ''),
+    NULLIF(left(trim(p_utm->>'utm_term'), 200), ''),
+    NULLIF(left(trim(p_utm->>'utm_content'), 200), ''),
+    p_device_type,
+    CASE WHEN p_event_type = 'search' THEN v_search_query END,
+    COALESCE(p_metadata, '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.track_storefront_event(uuid, text, text, text, uuid, text, jsonb, text, text, jsonb) TO anon, authenticated;
+
+-- 6. Resumo diário dos eventos de um vendedor
+CREATE OR REPLACE FUNCTION public.get_storefront_event_summary(
+  p_user_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_timezone text DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (day date, event_type text, event_count bigint, session_count bigint) AS $$
+  SELECT
+    (e.created_at AT TIME ZONE p_timezone)::date,
+    e.event_type,
+    count(*),
+    count(DISTINCT e.session_id)
+  FROM public.storefront_events e
+  WHERE e.user_id = p_user_id
+    AND e.created_at >= p_start
+    AND e.created_at < p_end
+    AND (
+      p_user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.users
+        WHERE id = auth.uid() AND role = 'admin'
+      )
+    )
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_storefront_event_summary(uuid, timestamptz, timestamptz, text) TO authenticated;
+
+-- 7. Popularidade dos produtos a partir dos eventos
+CREATE OR REPLACE FUNCTION public.get_storefront_product_popularity(p_user_id uuid)
+RETURNS TABLE (product_id uuid, view_count bigint, order_count bigint) AS $$
+  SELECT
+    p.id,
+    (
+      SELECT count(*)
+      FROM public.storefront_events e
+      WHERE e.product_id = p.id
+        AND e.event_type = 'product_view'
+    ),
+    (
+      SELECT count(DISTINCT oi.order_id)
+      FROM public.order_items oi
+      JOIN public.orders o ON o.id = oi.order_id
+      WHERE oi.product_id = p.id
+        AND o.status <> 'cancelado'
+    )
+  FROM public.products p
+  WHERE p.user_id = p_user_id
+    AND p.is_visible_on_storefront = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- 8. Copiar visualizações existentes
+INSERT INTO public.storefront_events (
+  user_id,
+  event_type,
+  product_id,
+  session_id,
+  viewer_id,
+  referrer,
+  metadata,
+  created_at
+)
+SELECT
+  p.user_id,
+  'product_view',
+  pv.property_id,
+  left('legacy-' || pv.viewer_id || '-' || COALESCE(pv.view_date, CURRENT_DATE)::text, 64),
+  pv.viewer_id,
+  NULLIF(pv.source, 'direct'),
+  jsonb_build_object('legacy', true),
+  COALESCE(pv.viewed_at, now())
+FROM public.property_views pv
+JOIN public.products p ON p.id = pv.property_id;
+
+-- 9. Copiar e remover os leads fictícios de cliques no WhatsApp
+INSERT INTO public.storefront_events (
+  user_id,
+  event_type,
+  product_id,
+  session_id,
+  viewer_id,
+  metadata,
+  created_at
+)
+SELECT
+  p.user_id,
+  'whatsapp_click',
+  l.property_id,
+  'legacy-' || l.id::text,
+  'legacy',
+  jsonb_build_object('legacy', true, 'source', l.source),
+  COALESCE(l.created_at, now())
+FROM public.leads l
+JOIN public.products p ON p.id = l.property_id
+WHERE l.name = 'WhatsApp Contact'
+  AND l.email = 'whatsapp@contact.com';
+
+-- Cliques da vitrine, sem produto
+INSERT INTO public.storefront_events (
+  user_id,
+  event_type,
+  product_id,
+  session_id,
+  viewer_id,
+  metadata,
+  created_at
+)
+SELECT
+  u.id,
+  'whatsapp_click',
+  NULL,
+  'legacy-' || l.id::text,
+  'legacy',
+  jsonb_build_object('legacy', true, 'source', l.source),
+  COALESCE(l.created_at, now())
+FROM public.leads l
+JOIN public.users u ON u.id = l.property_id
+WHERE l.name = 'WhatsApp Contact'
+  AND l.email = 'whatsapp@contact.com'
+  AND NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = l.property_id);
+
+-- Só os leads copiados são removidos
+DELETE FROM public.leads l
+WHERE l.name = 'WhatsApp Contact'
+  AND l.email = 'whatsapp@contact.com'
+  AND (
+    EXISTS (SELECT 1 FROM public.products p WHERE p.id = l.property_id)
+    OR EXISTS (SELECT 1 FROM public.users u WHERE u.id = l.property_id)
+  );
@@ -0,0 +1,101 @@
+/*
+  # Funil de conversão da vitrine
+
+  1. Funções
+    - `get_storefront_funnel` - Sessões do vendedor em cada etapa do funil
+      (visita → produto visto → adição ao carrinho → pedido enviado) em um período
+      - Cada sessão conta em todas as etapas até a mais avançada que alcançou
+      - Agrupamento opcional por origem do tráfego (`source`) ou categoria do produto (`category`)
+      - A origem é a `utm_source` do primeiro evento da sessão, ou o domínio do referrer,
+        ou `direct`
+      - Na categoria, os pedidos contam pelos produtos enviados em `metadata.product_ids`
+
+  2. Segurança
+    - Cada vendedor consulta apenas o funil da própria vitrine
+*/
+
+-- 1. Funil de conversão
+CREATE OR REPLACE FUNCTION public.get_storefront_funnel(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_group_by text DEFAULT 'none'
+)
+RETURNS TABLE (group_key text, visits bigint, product_views bigint, cart_adds bigint, orders bigint) AS $$
+  WITH events AS (
+    SELECT e.session_id, e.event_type, e.product_id, e.metadata, e.utm_source, e.referrer, e.created_at
+    FROM public.storefront_events e
+    WHERE e.user_id = auth.uid()
+      AND e.created_at >= p_start
+      AND e.created_at < p_end
+  ),
+  session_sources AS (
+    SELECT DISTINCT ON (session_id)
+      session_id,
+      COALESCE(
+        NULLIF(lower(trim(utm_source)), ''),
+        regexp_replace(lower(substring(referrer from '^https?://([^/:?#]+)')), '^www\.', ''),
+        'direct'
+      ) AS source
+    FROM events
+    ORDER BY session_id, created_at
+  ),
+  event_products AS (
+    SELECT session_id, event_type, product_id
+    FROM events
+    WHERE event_type <> 'order_sent'
+    UNION ALL
+    SELECT e.session_id, e.event_type, item.product_id
+    FROM events e
+    LEFT JOIN LATERAL (
+      SELECT value::uuid AS product_id
+      FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(e.metadata->'product_ids') = 'array'
+          THEN e.metadata->'product_ids'
+          ELSE '[]'::jsonb
+        END
+      )
+      WHERE value ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    ) item ON true
+    WHERE e.event_type = 'order_sent'
+  ),
+  steps AS (
+    SELECT
+      ep.session_id,
+      CASE p_group_by
+        WHEN 'source' THEN s.source
+        WHEN 'category' THEN c.category
+      END AS group_key,
+      CASE ep.event_type
+        WHEN 'order_sent' THEN 3
+        WHEN 'add_to_cart' THEN 2
+        WHEN 'product_view' THEN 1
+        ELSE 0
+      END AS step
+    FROM event_products ep
+    JOIN session_sources s ON s.session_id = ep.session_id
+    LEFT JOIN public.products p ON p.id = ep.product_id
+    LEFT JOIN LATERAL unnest(
+      CASE WHEN p_group_by = 'category' AND cardinality(p.category) > 0
+        THEN p.category
+        ELSE ARRAY[NULL::text]
+      END
+    ) c(category) ON true
+    WHERE p_group_by <> 'category' OR ep.product_id IS NOT NULL
+  ),
+  session_steps AS (
+    SELECT session_id, group_key, max(step) AS step
+    FROM steps
+    GROUP BY session_id, group_key
+  )
+  SELECT
+    group_key,
+    count(*),
+    count(*) FILTER (WHERE step >= 1),
+    count(*) FILTER (WHERE step >= 2),
+    count(*) FILTER (WHERE step >= 3)
+  FROM session_steps
+  GROUP BY group_key
+  ORDER BY count(*) DESC, group_key;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_storefront_funnel(timestamptz, timestamptz, text) TO authenticated;
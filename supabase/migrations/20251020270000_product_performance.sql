@@ -0,0 +1,106 @@
+/*
+  # Desempenho dos produtos
+
+  1. Funções
+    - `get_product_performance` - Indicadores de cada produto do vendedor em um período,
+      calculados em uma única consulta a partir de `storefront_events`
+      - `views` / `unique_viewers` - Visualizações e navegadores distintos (product_view)
+      - `cart_adds` - Adições ao carrinho (add_to_cart)
+      - `whatsapp_clicks` - Cliques no WhatsApp da página do produto (whatsapp_click)
+      - `orders` - Pedidos enviados com o produto (order_sent, via `metadata.product_ids`)
+      - `daily_views` - Visualizações por dia do período, para o gráfico de tendência
+
+  2. Segurança
+    - Cada vendedor consulta apenas os próprios produtos
+*/
+
+-- 1. Desempenho dos produtos
+CREATE OR REPLACE FUNCTION public.get_product_performance(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_timezone text DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE (
+  product_id uuid,
+  title text,
+  featured_image_url text,
+  category text[],
+  views bigint,
+  unique_viewers bigint,
+  cart_adds bigint,
+  whatsapp_clicks bigint,
+  orders bigint,
+  daily_views bigint[]
+) AS $$
+  WITH days AS (
+    SELECT generate_series(
+      (p_start AT TIME ZONE p_timezone)::date,
+      ((p_end - interval '1 second') AT TIME ZONE p_timezone)::date,
+      interval '1 day'
+    )::date AS day
+  ),
+  events AS (
+    SELECT e.product_id, e.event_type, e.viewer_id, (e.created_at AT TIME ZONE p_timezone)::date AS day
+    FROM public.storefront_events e
+    WHERE e.user_id = auth.uid()
+      AND e.created_at >= p_start
+      AND e.created_at < p_end
+      AND e.product_id IS NOT NULL
+      AND e.event_type IN ('product_view', 'add_to_cart', 'whatsapp_click')
+  ),
+  product_stats AS (
+    SELECT
+      product_id,
+      count(*) FILTER (WHERE event_type = 'product_view') AS views,
+      count(DISTINCT viewer_id) FILTER (WHERE event_type = 'product_view') AS unique_viewers,
+      count(*) FILTER (WHERE event_type = 'add_to_cart') AS cart_adds,
+      count(*) FILTER (WHERE event_type = 'whatsapp_click') AS whatsapp_clicks
+    FROM events
+    GROUP BY product_id
+  ),
+  daily_stats AS (
+    SELECT product_id, day, count(*) AS views
+    FROM events
+    WHERE event_type = 'product_view'
+    GROUP BY product_id, day
+  ),
+  order_stats AS (
+    SELECT item.value::uuid AS product_id, count(*) AS orders
+    FROM public.storefront_events e
+    CROSS JOIN LATERAL jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(e.metadata->'product_ids') = 'array'
+        THEN e.metadata->'product_ids'
+        ELSE '[]'::jsonb
+      END
+    ) item
+    WHERE e.user_id = auth.uid()
+      AND e.event_type = 'order_sent'
+      AND e.created_at >= p_start
+      AND e.created_at < p_end
+      AND item.value ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    GROUP BY 1
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.featured_image_url,
+    p.category,
+    COALESCE(s.views, 0),
+    COALESCE(s.unique_viewers, 0),
+    COALESCE(s.cart_adds, 0),
+    COALESCE(s.whatsapp_clicks, 0),
+    COALESCE(o.orders, 0),
+    ARRAY(
+      SELECT COALESCE(d.views, 0)
+      FROM days
+      LEFT JOIN daily_stats d ON d.product_id = p.id AND d.day = days.day
+      ORDER BY days.day
+    )
+  FROM public.products p
+  LEFT JOIN product_stats s ON s.product_id = p.id
+  LEFT JOIN order_stats o ON o.product_id = p.id
+  WHERE p.user_id = auth.uid()
+  ORDER BY COALESCE(s.views, 0) DESC, p.title;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_product_performance(timestamptz, timestamptz, text) TO authenticated;
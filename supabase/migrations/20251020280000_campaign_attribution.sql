@@ -0,0 +1,207 @@
+/*
+  # Atribuição de campanhas
+
+  1. Alterações
+    - `storefront_events` ganha `fbclid` e `gclid` (ids de clique dos anúncios Meta e Google)
+    - `track_storefront_event` passa a gravar os ids de clique enviados em `p_utm`
+
+  2. Funções
+    - `get_campaign_report` - Sessões, produtos vistos, carrinhos, pedidos e receita de
+      cada origem, mídia, campanha e conteúdo (post ou anúncio) em um período
+      - A atribuição da sessão vem do seu primeiro evento; a vitrine repete a origem do
+        acesso em todos os eventos da sessão
+      - Sessões só com `fbclid` ou `gclid` contam como facebook / google, mídia `paid`
+      - Sessões sem origem de campanha ficam de fora
+      - Os pedidos cancelados não contam; a receita vem do total do pedido gravado
+
+  3. Segurança
+    - Cada vendedor consulta apenas as campanhas da própria vitrine
+*/
+
+-- 1. Ids de clique dos anúncios
+ALTER TABLE public.storefront_events
+  ADD COLUMN IF NOT EXISTS fbclid text,
+  ADD COLUMN IF NOT EXISTS gclid text;
+
+CREATE INDEX IF NOT EXISTS idx_storefront_events_user_campaign
+  ON public.storefront_events(user_id, utm_campaign)
+  WHERE utm_campaign IS NOT NULL;
+
+-- 2. Registrar evento com os ids de clique
+CREATE OR REPLACE FUNCTION public.track_storefront_event(
+  p_seller_id uuid,
+  p_event_type text,
+  p_session_id text,
+  p_viewer_id text,
+  p_product_id uuid DEFAULT NULL,
+  p_referrer text DEFAULT NULL,
+  p_utm jsonb DEFAULT '{}'::jsonb,
+  p_device_type text DEFAULT NULL,
+  p_search_query text DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void AS $$
+DECLARE
+  v_product_id uuid;
+  v_search_query text;
+BEGIN
+  IF p_session_id IS NULL OR length(p_session_id) = 0 OR length(p_session_id) > 64 THEN
+    RAISE EXCEPTION 'Sessão inválida';
+  END IF;
+
+  IF p_viewer_id IS NULL OR length(p_viewer_id) = 0 OR length(p_viewer_id) > 64 THEN
+    RAISE EXCEPTION 'Visitante inválido';
+  END IF;
+
+  IF p_metadata IS NOT NULL AND (jsonb_typeof(p_metadata) <> 'object' OR length(p_metadata::text) > 2000) THEN
+    RAISE EXCEPTION 'Detalhes do evento inválidos';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE id = p_seller_id
+      AND is_blocked = false
+  ) THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  -- Only products of the seller are linked to the event
+  SELECT id INTO v_product_id
+  FROM public.products
+  WHERE id = p_product_id
+    AND user_id = p_seller_id;
+
+  v_search_query := NULLIF(left(trim(p_search_query), 200), '');
+
+  IF p_event_type = 'search' AND v_search_query IS NULL THEN
+    RAISE EXCEPTION 'Busca inválida';
+  END IF;
+
+  INSERT INTO public.storefront_events (
+    user_id,
+    event_type,
+    product_id,
+    session_id,
+    viewer_id,
+    referrer,
+    utm_source,
+    utm_medium,
+    utm_campaign,
+    utm_term,
+    utm_content,
+    fbclid,
+    gclid,
+    device_type,
+    search_query,
+    metadata
+  )
+  VALUES (
+    p_seller_id,
+    p_event_type,
+    v_product_id,
+    p_session_id,
+    p_viewer_id,
+    NULLIF(left(trim(p_referrer), 500), ''),
+    NULLIF(left(trim(p_utm->>'utm_source'), 200), ''),
+    NULLIF(left(trim(p_utm->>'utm_medium'), 200), ''),
+    NULLIF(left(trim(p_utm->>'utm_campaign'), 200), ''),
+    NULLIF(left(trim(p_utm->>'utm_term'), 200), ''),
+    NULLIF(left(trim(p_utm->>'utm_content'), 200), ''),
+    NULLIF(left(trim(p_utm->>'fbclid'), 500), ''),
+    NULLIF(left(trim(p_utm->>'gclid'), 500), ''),
+    p_device_type,
+    CASE WHEN p_event_type = 'search' THEN v_search_query END,
+    COALESCE(p_metadata, '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.track_storefront_event(uuid, text, text, text, uuid, text, jsonb, text, text, jsonb) TO anon, authenticated;
+
+-- 3. Relatório de campanhas
+CREATE OR REPLACE FUNCTION public.get_campaign_report(
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS TABLE (
+  utm_source text,
+  utm_medium text,
+  utm_campaign text,
+  utm_content text,
+  sessions bigint,
+  product_views bigint,
+  cart_adds bigint,
+  orders bigint,
+  revenue decimal
+) AS $$
+  WITH events AS (
+    SELECT e.*
+    FROM public.storefront_events e
+    WHERE e.user_id = auth.uid()
+      AND e.created_at >= p_start
+      AND e.created_at < p_end
+  ),
+  session_campaigns AS (
+    SELECT DISTINCT ON (session_id)
+      session_id,
+      COALESCE(
+        NULLIF(lower(trim(utm_source)), ''),
+        CASE
+          WHEN fbclid IS NOT NULL THEN 'facebook'
+          WHEN gclid IS NOT NULL THEN 'google'
+        END
+      ) AS source,
+      COALESCE(
+        NULLIF(lower(trim(utm_medium)), ''),
+        CASE WHEN fbclid IS NOT NULL OR gclid IS NOT NULL THEN 'paid' END
+      ) AS medium,
+      NULLIF(trim(utm_campaign), '') AS campaign,
+      NULLIF(trim(utm_content), '') AS content
+    FROM events
+    ORDER BY session_id, created_at
+  ),
+  session_stats AS (
+    SELECT
+      e.session_id,
+      bool_or(e.event_type = 'product_view') AS viewed_product,
+      bool_or(e.event_type = 'add_to_cart') AS added_to_cart
+    FROM events e
+    GROUP BY e.session_id
+  ),
+  session_orders AS (
+    SELECT
+      e.session_id,
+      count(*) AS orders,
+      sum(COALESCE(
+        o.total,
+        CASE WHEN jsonb_typeof(e.metadata->'total') = 'number' THEN (e.metadata->>'total')::decimal END,
+        0
+      )) AS revenue
+    FROM events e
+    LEFT JOIN public.orders o
+      ON o.user_id = e.user_id
+      AND e.metadata->>'order_number' ~ '^[0-9]+$'
+      AND o.order_number = (e.metadata->>'order_number')::integer
+    WHERE e.event_type = 'order_sent'
+      AND (o.id IS NULL OR o.status <> 'cancelado')
+    GROUP BY e.session_id
+  )
+  SELECT
+    c.source,
+    c.medium,
+    c.campaign,
+    c.content,
+    count(*),
+    count(*) FILTER (WHERE s.viewed_product),
+    count(*) FILTER (WHERE s.added_to_cart),
+    COALESCE(sum(so.orders), 0)::bigint,
+    COALESCE(sum(so.revenue), 0)
+  FROM session_campaigns c
+  JOIN session_stats s ON s.session_id = c.session_id
+  LEFT JOIN session_orders so ON so.session_id = c.session_id
+  WHERE c.source IS NOT NULL
+  GROUP BY c.source, c.medium, c.campaign, c.content
+  ORDER BY COALESCE(sum(so.revenue), 0) DESC, count(*) DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_campaign_report(timestamptz, timestamptz) TO authenticated;
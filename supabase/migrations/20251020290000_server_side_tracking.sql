@@ -0,0 +1,24 @@
+/*
+  # Envio de eventos pelo servidor
+
+  1. Alterações
+    - `tracking_settings` ganha as credenciais do envio de eventos pelo servidor
+      - `server_side_enabled` (boolean) - Encaminha os eventos da vitrine pela função
+        `forward-storefront-event`
+      - `meta_access_token` (text) - Token da API de Conversões do Meta
+      - `meta_test_event_code` (text) - Código de teste do Events Manager, para validar o envio
+      - `ga_api_secret` (text) - Chave secreta da API Measurement Protocol do GA4
+
+  2. Segurança
+    - As credenciais seguem a política existente: apenas o dono lê e altera as próprias
+      configurações; a função de encaminhamento as lê com a chave de serviço
+    - A vitrine lê apenas `server_side_enabled`, junto com o pixel e o GA, para só chamar
+      a função de encaminhamento quando o envio pelo servidor está ligado
+*/
+
+-- 1. Credenciais do envio pelo servidor
+ALTER TABLE public.tracking_settings
+  ADD COLUMN IF NOT EXISTS server_side_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS meta_access_token text,
+  ADD COLUMN IF NOT EXISTS meta_test_event_code text,
+  ADD COLUMN IF NOT EXISTS ga_api_secret text;
@@ -0,0 +1,358 @@
+/*
+  # Frete e totais do pedido calculados no servidor
+
+  1. Funções
+    - `normalize_neighborhood` - Nome de bairro sem acentos e em minúsculas, para comparar
+    - `calculate_shipping_fee` - Frete de uma entrega pelas zonas de
+      `user_storefront_settings.settings->'shipping'`, na mesma ordem e com as mesmas
+      regras do carrinho (a primeira zona que atende o destino vale); NULL quando nenhuma
+      zona atende e 0 quando o frete não está ativado
+    - `create_storefront_order` passa a:
+      - Calcular o frete pelo destino em `p_checkout->'shipping_destination'`
+        (cep, neighborhood, latitude, longitude), sem aceitar o valor enviado pelo cliente
+      - Recusar entregas fora das zonas
+      - Retornar subtotal, desconto, frete, total e cupom aplicado, para a mensagem do
+        pedido mostrar os mesmos valores gravados
+
+  2. Observações
+    - O tipo de retorno muda, então a função é recriada
+*/
+
+-- 1. Normalizar nomes de bairros
+CREATE OR REPLACE FUNCTION public.normalize_neighborhood(p_name text)
+RETURNS text AS $$
+  SELECT lower(trim(translate(
+    COALESCE(p_name, ''),
+    'áàâãäéèêëíìîïóòôõöúùûüçñÁÀÂÃÄÉÈÊËÍÌÎÏÓÒÔÕÖÚÙÛÜÇÑ',
+    'aaaaaeeeeiiiiooooouuuucnAAAAAEEEEIIIIOOOOOUUUUCN'
+  )));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 2. Calcular o frete de uma entrega
+-- p_destination: { "cep": text, "neighborhood": text, "latitude": number, "longitude": number }
+-- Mesmas regras de `calculateShipping` em src/lib/shippingUtils.ts
+CREATE OR REPLACE FUNCTION public.calculate_shipping_fee(
+  p_seller_id uuid,
+  p_subtotal decimal,
+  p_destination jsonb
+)
+RETURNS decimal AS $$
+DECLARE
+  shipping_settings jsonb;
+  delivery_zone jsonb;
+  zone_matched boolean;
+  zone_fee decimal(12,2);
+  free_threshold decimal(12,2);
+  destination_cep text;
+  cep_start text;
+  cep_end text;
+  origin_latitude double precision;
+  origin_longitude double precision;
+  destination_latitude double precision;
+  destination_longitude double precision;
+  haversine double precision;
+BEGIN
+  SELECT s.settings->'shipping'
+  INTO shipping_settings
+  FROM public.user_storefront_settings s
+  WHERE s.user_id = p_seller_id;
+
+  IF shipping_settings IS NULL OR COALESCE((shipping_settings->>'enabled')::boolean, false) = false THEN
+    RETURN 0;
+  END IF;
+
+  destination_cep := left(regexp_replace(COALESCE(p_destination->>'cep', ''), '\D', '', 'g'), 8);
+
+  IF jsonb_typeof(p_destination->'latitude') = 'number' AND jsonb_typeof(p_destination->'longitude') = 'number' THEN
+    destination_latitude := (p_destination->>'latitude')::double precision;
+    destination_longitude := (p_destination->>'longitude')::double precision;
+  END IF;
+
+  IF jsonb_typeof(shipping_settings->'origin'->'latitude') = 'number'
+    AND jsonb_typeof(shipping_settings->'origin'->'longitude') = 'number' THEN
+    origin_latitude := (shipping_settings->'origin'->>'latitude')::double precision;
+    origin_longitude := (shipping_settings->'origin'->>'longitude')::double precision;
+  END IF;
+
+  FOR delivery_zone IN SELECT * FROM jsonb_array_elements(COALESCE(shipping_settings->'zones', '[]'::jsonb))
+  LOOP
+    zone_matched := false;
+
+    IF delivery_zone->>'type' = 'neighborhood' THEN
+      zone_matched := NULLIF(public.normalize_neighborhood(p_destination->>'neighborhood'), '') IS NOT NULL
+        AND EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements_text(COALESCE(delivery_zone->'neighborhoods', '[]'::jsonb)) n
+          WHERE public.normalize_neighborhood(n) = public.normalize_neighborhood(p_destination->>'neighborhood')
+        );
+    ELSIF delivery_zone->>'type' = 'cep_range' THEN
+      cep_start := left(regexp_replace(COALESCE(delivery_zone->>'cepStart', ''), '\D', '', 'g'), 8);
+      cep_end := left(regexp_replace(COALESCE(NULLIF(delivery_zone->>'cepEnd', ''), delivery_zone->>'cepStart', ''), '\D', '', 'g'), 8);
+
+      IF length(destination_cep) = 8 AND length(cep_start) = 8 AND length(cep_end) = 8 THEN
+        zone_matched := destination_cep::bigint BETWEEN cep_start::bigint AND cep_end::bigint;
+      END IF;
+    ELSIF delivery_zone->>'type' = 'radius' THEN
+      IF origin_latitude IS NOT NULL AND destination_latitude IS NOT NULL THEN
+        haversine := sin(radians(destination_latitude - origin_latitude) / 2) ^ 2
+          + cos(radians(origin_latitude)) * cos(radians(destination_latitude))
+          * sin(radians(destination_longitude - origin_longitude) / 2) ^ 2;
+
+        zone_matched := 6371 * 2 * atan2(sqrt(haversine), sqrt(1 - haversine))
+          <= COALESCE((delivery_zone->>'radiusKm')::double precision, 0);
+      END IF;
+    END IF;
+
+    IF zone_matched THEN
+      zone_fee := COALESCE((delivery_zone->>'fee')::decimal, 0);
+      free_threshold := COALESCE(
+        (delivery_zone->>'freeShippingThreshold')::decimal,
+        (shipping_settings->>'freeShippingThreshold')::decimal
+      );
+
+      IF zone_fee <= 0 OR (free_threshold > 0 AND p_subtotal >= free_threshold) THEN
+        RETURN 0;
+      END IF;
+
+      RETURN zone_fee;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 3. Recriar a função de pedidos com o frete do servidor e os totais no retorno
+-- p_items: [{ "product_id": uuid, "color": text, "size": text, "quantity": integer, "notes": text }]
+-- p_checkout: { "delivery_method": text, "delivery_address": jsonb, "shipping_destination": jsonb, "payment_method": text, "coupon_code": text }
+DROP FUNCTION IF EXISTS public.create_storefront_order(uuid, jsonb, text, text, text, text, jsonb);
+
+CREATE FUNCTION public.create_storefront_order(
+  p_seller_id uuid,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_currency text DEFAULT 'BRL',
+  p_language text DEFAULT 'pt-BR',
+  p_checkout jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  id uuid,
+  order_number integer,
+  subtotal decimal,
+  discount decimal,
+  shipping_fee decimal,
+  total decimal,
+  coupon_code text
+) AS $$
+DECLARE
+  new_order_id uuid;
+  new_order_number integer;
+  order_item jsonb;
+  product_record record;
+  variant_record record;
+  item_quantity integer;
+  item_unit_price decimal(12,2);
+  order_subtotal decimal(12,2) := 0;
+  order_shipping_fee decimal(12,2) := 0;
+  coupon_record public.coupons%ROWTYPE;
+  eligible_subtotal decimal(12,2) := 0;
+  order_discount decimal(12,2) := 0;
+  variant_count integer;
+  inventory_settings jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users u
+    WHERE u.id = p_seller_id AND NOT u.is_blocked
+  ) THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  PERFORM public.release_expired_reservations();
+
+  SELECT s.settings->'inventory'
+  INTO inventory_settings
+  FROM public.user_storefront_settings s
+  WHERE s.user_id = p_seller_id;
+
+  -- Cupom informado pelo cliente; cupons inválidos são ignorados
+  IF NULLIF(trim(p_checkout->>'coupon_code'), '') IS NOT NULL THEN
+    SELECT c.*
+    INTO coupon_record
+    FROM public.coupons c
+    WHERE c.user_id = p_seller_id
+      AND c.code = upper(trim(p_checkout->>'coupon_code'))
+      AND c.is_active = true
+      AND (c.expires_at IS NULL OR c.expires_at > now())
+      AND (c.usage_limit IS NULL OR c.usage_count < c.usage_limit)
+    FOR UPDATE;
+  END IF;
+
+  INSERT INTO public.orders (
+    user_id, order_number, customer_name, customer_phone, currency, language,
+    delivery_method, delivery_address, payment_method, shipping_fee, stock_deducted
+  )
+  VALUES (
+    p_seller_id,
+    0,
+    NULLIF(trim(p_customer_name), ''),
+    NULLIF(trim(p_customer_phone), ''),
+    p_currency,
+    p_language,
+    NULLIF(p_checkout->>'delivery_method', ''),
+    CASE WHEN p_checkout->>'delivery_method' = 'delivery' THEN p_checkout->'delivery_address' END,
+    NULLIF(p_checkout->>'payment_method', ''),
+    order_shipping_fee,
+    true
+  )
+  RETURNING orders.id, orders.order_number INTO new_order_id, new_order_number;
+
+  FOR order_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    SELECT p.id, p.title, p.price, p.discounted_price, p.category, p.status
+    INTO product_record
+    FROM public.products p
+    WHERE p.id = (order_item->>'product_id')::uuid
+      AND p.user_id = p_seller_id
+      AND p.is_visible_on_storefront = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Produto indisponível: %', order_item->>'product_id';
+    END IF;
+
+    IF product_record.status = 'vendido' THEN
+      RAISE EXCEPTION 'Produto esgotado: %', product_record.title;
+    END IF;
+
+    item_quantity := GREATEST(COALESCE((order_item->>'quantity')::integer, 1), 1);
+
+    SELECT COUNT(*)
+    INTO variant_count
+    FROM public.product_variants v
+    WHERE v.product_id = product_record.id;
+
+    SELECT v.id, v.price, v.stock_quantity
+    INTO variant_record
+    FROM public.product_variants v
+    WHERE v.product_id = product_record.id
+      AND v.color = COALESCE(order_item->>'color', '')
+      AND v.size = COALESCE(order_item->>'size', '')
+    FOR UPDATE;
+
+    -- Produtos com controle de estoque: a variação precisa ter as unidades do pedido
+    IF variant_count > 0 THEN
+      IF variant_record.id IS NULL OR variant_record.stock_quantity < item_quantity THEN
+        RAISE EXCEPTION 'Estoque insuficiente: %', product_record.title;
+      END IF;
+
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity - item_quantity
+      WHERE product_variants.id = variant_record.id;
+    END IF;
+    -- O menor preço entre o desconto do produto e as promoções em andamento
+    item_unit_price := COALESCE(
+      NULLIF(variant_record.price, 0),
+      LEAST(
+        NULLIF(product_record.discounted_price, 0),
+        public.get_promotional_price(product_record.id)
+      ),
+      product_record.price,
+      0
+    );
+
+    INSERT INTO public.order_items (
+      order_id, product_id, product_variant_id, title, color, size, notes,
+      quantity, unit_price, total_price
+    )
+    VALUES (
+      new_order_id,
+      product_record.id,
+      variant_record.id,
+      product_record.title,
+      NULLIF(order_item->>'color', ''),
+      NULLIF(order_item->>'size', ''),
+      NULLIF(trim(order_item->>'notes'), ''),
+      item_quantity,
+      item_unit_price,
+      item_unit_price * item_quantity
+    );
+
+    order_subtotal := order_subtotal + item_unit_price * item_quantity;
+
+    -- Cupons restritos a categorias só descontam os itens dessas categorias
+    IF coupon_record.id IS NOT NULL AND (
+      COALESCE(array_length(coupon_record.categories, 1), 0) = 0
+      OR product_record.category && coupon_record.categories
+    ) THEN
+      eligible_subtotal := eligible_subtotal + item_unit_price * item_quantity;
+    END IF;
+  END LOOP;
+
+  -- Frete das zonas de entrega do vendedor, só nas entregas
+  IF p_checkout->>'delivery_method' = 'delivery' THEN
+    order_shipping_fee := public.calculate_shipping_fee(
+      p_seller_id,
+      order_subtotal,
+      COALESCE(p_checkout->'shipping_destination', p_checkout->'delivery_address', '{}'::jsonb)
+    );
+
+    IF order_shipping_fee IS NULL THEN
+      RAISE EXCEPTION 'Não entregamos neste endereço';
+    END IF;
+  END IF;
+
+  IF coupon_record.id IS NOT NULL
+    AND order_subtotal >= coupon_record.min_cart_value
+    AND eligible_subtotal > 0
+  THEN
+    order_discount := CASE coupon_record.discount_type
+      WHEN 'percentage' THEN round(eligible_subtotal * LEAST(coupon_record.discount_value, 100) / 100, 2)
+      ELSE LEAST(coupon_record.discount_value, eligible_subtotal)
+    END;
+
+    UPDATE public.coupons
+    SET usage_count = usage_count + 1
+    WHERE coupons.id = coupon_record.id;
+  END IF;
+
+  UPDATE public.orders
+  SET subtotal = order_subtotal,
+      discount = order_discount,
+      coupon_id = CASE WHEN order_discount > 0 THEN coupon_record.id END,
+      coupon_code = CASE WHEN order_discount > 0 THEN coupon_record.code END,
+      shipping_fee = order_shipping_fee,
+      total = order_subtotal - order_discount + order_shipping_fee
+  WHERE orders.id = new_order_id;
+
+  -- Reserva dos produtos sem controle de estoque, quando o vendedor ativou
+  IF COALESCE((inventory_settings->>'reserveOnOrder')::boolean, false) THEN
+    UPDATE public.products p
+    SET status = 'reservado',
+        reserved_until = now() + make_interval(
+          hours => GREATEST(COALESCE((inventory_settings->>'reservationHours')::integer, 24), 1)
+        )
+    WHERE p.id IN (
+        SELECT oi.product_id FROM public.order_items oi WHERE oi.order_id = new_order_id
+      )
+      AND p.status = 'disponivel'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.product_variants v WHERE v.product_id = p.id
+      );
+  END IF;
+
+  RETURN QUERY SELECT
+    new_order_id,
+    new_order_number,
+    order_subtotal,
+    order_discount,
+    order_shipping_fee,
+    order_subtotal - order_discount + order_shipping_fee,
+    CASE WHEN order_discount > 0 THEN coupon_record.code END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_storefront_order(uuid, jsonb, text, text, text, text, jsonb) TO anon, authenticated;
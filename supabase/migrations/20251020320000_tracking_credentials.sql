@@ -0,0 +1,78 @@
+/*
+  # Credenciais do envio de eventos pelo servidor em tabela própria
+
+  A vitrine lê `tracking_settings` para injetar o pixel e o GA, e o RLS filtra linhas,
+  não colunas: as credenciais nessa tabela ficariam legíveis pela API pública.
+
+  1. Nova Tabela
+    - `tracking_credentials`
+      - `user_id` (uuid, chave primária) - Vendedor
+      - `server_side_enabled` (boolean) - Encaminha os eventos da vitrine pela função
+        `forward-storefront-event`
+      - `meta_access_token` (text) - Token da API de Conversões do Meta
+      - `meta_test_event_code` (text) - Código de teste do Events Manager
+      - `ga_api_secret` (text) - Chave secreta da API Measurement Protocol do GA4
+
+  2. Modificações
+    - As credenciais existentes são copiadas e as colunas saem de `tracking_settings`
+
+  3. Segurança
+    - RLS habilitado, apenas o dono lê e altera as próprias credenciais
+    - Sem acesso anônimo; a função de encaminhamento lê com a chave de serviço
+*/
+
+-- 1. Criar tabela de credenciais
+CREATE TABLE IF NOT EXISTS public.tracking_credentials (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  server_side_enabled boolean NOT NULL DEFAULT false,
+  meta_access_token text,
+  meta_test_event_code text,
+  ga_api_secret text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- 2. Habilitar RLS
+ALTER TABLE public.tracking_credentials ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.tracking_credentials FROM anon;
+
+-- 3. Políticas de segurança
+CREATE POLICY "Users can manage own tracking credentials"
+  ON public.tracking_credentials
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- 4. Trigger de updated_at
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_tracking_credentials_updated_at'
+  ) THEN
+    CREATE TRIGGER update_tracking_credentials_updated_at
+      BEFORE UPDATE ON public.tracking_credentials
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+-- 5. Copiar as credenciais da configuração ativa de cada vendedor
+INSERT INTO public.tracking_credentials (
+  user_id, server_side_enabled, meta_access_token, meta_test_event_code, ga_api_secret
+)
+SELECT DISTINCT ON (ts.user_id)
+  ts.user_id, ts.server_side_enabled, ts.meta_access_token, ts.meta_test_event_code, ts.ga_api_secret
+FROM public.tracking_settings ts
+WHERE (ts.server_side_enabled OR ts.meta_access_token IS NOT NULL OR ts.ga_api_secret IS NOT NULL)
+ORDER BY ts.user_id, ts.is_active DESC, ts.updated_at DESC NULLS LAST
+ON CONFLICT (user_id) DO NOTHING;
+
+-- 6. Remover as credenciais de tracking_settings
+ALTER TABLE public.tracking_settings
+  DROP COLUMN IF EXISTS server_side_enabled,
+  DROP COLUMN IF EXISTS meta_access_token,
+  DROP COLUMN IF EXISTS meta_test_event_code,
+  DROP COLUMN IF EXISTS ga_api_secret;
@@ -0,0 +1,137 @@
+/*
+  # Vetor de busca gravado diretamente e busca sem limite de resultados
+
+  1. Funções
+    - `build_product_search_vector` - Monta o vetor de busca a partir dos textos do produto,
+      usado pelo gatilho, pela reindexação e pelo preenchimento
+    - `update_product_search_vector` - Passa a usar `build_product_search_vector`
+    - `reindex_user_products_search` - Grava só `search_vector`, sem `SET title = title`,
+      para não disparar os demais gatilhos de alteração do produto
+    - `search_storefront_products` - Retorna todos os produtos encontrados, sem o limite de 60
+
+  2. Dados
+    - O vetor dos produtos existentes é recalculado com a expressão explícita
+*/
+
+-- 1. Vetor de busca de um produto
+-- Os textos são indexados sem acento; a busca remove os acentos da consulta da mesma forma
+CREATE OR REPLACE FUNCTION public.build_product_search_vector(
+  config regconfig,
+  p_title text,
+  p_brand text,
+  p_model text,
+  p_category text[],
+  p_short_description text,
+  p_description text
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector(config, public.immutable_unaccent(COALESCE(p_title, ''))), 'A') ||
+    setweight(to_tsvector(config, public.immutable_unaccent(
+      concat_ws(' ', p_brand, p_model, array_to_string(p_category, ' '))
+    )), 'B') ||
+    setweight(to_tsvector(config, public.immutable_unaccent(COALESCE(p_short_description, ''))), 'C') ||
+    setweight(to_tsvector(config, public.immutable_unaccent(
+      regexp_replace(COALESCE(p_description, ''), '<[^>]*>', ' ', 'g')
+    )), 'D');
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- 2. Gatilho que mantém o vetor atualizado
+CREATE OR REPLACE FUNCTION public.update_product_search_vector()
+RETURNS TRIGGER AS $$
+DECLARE
+  config regconfig;
+BEGIN
+  SELECT public.get_search_config(u.language)
+  INTO config
+  FROM public.users u
+  WHERE u.id = NEW.user_id;
+
+  NEW.search_vector := public.build_product_search_vector(
+    COALESCE(config, 'portuguese'::regconfig),
+    NEW.title, NEW.brand, NEW.model, NEW.category, NEW.short_description, NEW.description
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3. Reindexar os produtos quando o vendedor muda o idioma da vitrine
+CREATE OR REPLACE FUNCTION public.reindex_user_products_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.language IS DISTINCT FROM OLD.language THEN
+    UPDATE public.products
+    SET search_vector = public.build_product_search_vector(
+      public.get_search_config(NEW.language),
+      title, brand, model, category, short_description, description
+    )
+    WHERE user_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Recalcular o vetor dos produtos existentes
+UPDATE public.products p
+SET search_vector = public.build_product_search_vector(
+  COALESCE(public.get_search_config(u.language), 'portuguese'::regconfig),
+  p.title, p.brand, p.model, p.category, p.short_description, p.description
+)
+FROM public.users u
+WHERE u.id = p.user_id;
+
+-- 5. Busca sem limite: a vitrine aplica os demais filtros sobre todos os produtos encontrados
+DROP FUNCTION IF EXISTS public.search_storefront_products(uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION public.search_storefront_products(
+  p_user_id uuid,
+  p_query text
+)
+RETURNS TABLE (product_id uuid, rank real) AS $$
+DECLARE
+  config regconfig;
+  normalized_query text;
+  prefix_query tsquery;
+BEGIN
+  normalized_query := lower(public.immutable_unaccent(trim(COALESCE(p_query, ''))));
+
+  IF char_length(normalized_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  SELECT public.get_search_config(u.language)
+  INTO config
+  FROM public.users u
+  WHERE u.id = p_user_id;
+
+  config := COALESCE(config, 'portuguese'::regconfig);
+
+  SELECT to_tsquery(config, string_agg(word || ':*', ' & '))
+  INTO prefix_query
+  FROM regexp_split_to_table(regexp_replace(normalized_query, '[^a-z0-9]+', ' ', 'g'), ' ') AS word
+  WHERE word <> '';
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    (
+      COALESCE(ts_rank(p.search_vector, prefix_query), 0) * 2 +
+      extensions.word_similarity(normalized_query, lower(public.immutable_unaccent(p.title)))
+    )::real AS rank
+  FROM public.products p
+  WHERE p.user_id = p_user_id
+    AND p.is_visible_on_storefront = true
+    AND (
+      (prefix_query IS NOT NULL AND p.search_vector @@ prefix_query)
+      OR extensions.word_similarity(
+        normalized_query,
+        lower(public.immutable_unaccent(concat_ws(' ', p.title, p.brand, p.model)))
+      ) >= 0.4
+    )
+  ORDER BY rank DESC, p.display_order ASC NULLS LAST;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_storefront_products(uuid, text) TO anon, authenticated;
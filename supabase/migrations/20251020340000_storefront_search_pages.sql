@@ -0,0 +1,71 @@
+/*
+  # Busca da vitrine paginada
+
+  A vitrine carregava o catálogo inteiro para cruzar com os ids encontrados. Agora cada
+  página de resultados é buscada no servidor e só os produtos dela são carregados.
+
+  1. Funções
+    - `search_storefront_products` - Recebe `p_limit` e `p_offset` e retorna uma página dos
+      produtos encontrados, do mais relevante ao menos relevante, com o total de resultados
+*/
+
+DROP FUNCTION IF EXISTS public.search_storefront_products(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.search_storefront_products(
+  p_user_id uuid,
+  p_query text,
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (product_id uuid, rank real, total_count bigint) AS $$
+DECLARE
+  config regconfig;
+  normalized_query text;
+  prefix_query tsquery;
+BEGIN
+  normalized_query := lower(public.immutable_unaccent(trim(COALESCE(p_query, ''))));
+
+  IF char_length(normalized_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  SELECT public.get_search_config(u.language)
+  INTO config
+  FROM public.users u
+  WHERE u.id = p_user_id;
+
+  config := COALESCE(config, 'portuguese'::regconfig);
+
+  SELECT to_tsquery(config, string_agg(word || ':*', ' & '))
+  INTO prefix_query
+  FROM regexp_split_to_table(regexp_replace(normalized_query, '[^a-z0-9]+', ' ', 'g'), ' ') AS word
+  WHERE word <> '';
+
+  RETURN QUERY
+  SELECT matches.id, matches.rank, count(*) OVER () AS total_count
+  FROM (
+    SELECT
+      p.id,
+      p.display_order,
+      (
+        COALESCE(ts_rank(p.search_vector, prefix_query), 0) * 2 +
+        extensions.word_similarity(normalized_query, lower(public.immutable_unaccent(p.title)))
+      )::real AS rank
+    FROM public.products p
+    WHERE p.user_id = p_user_id
+      AND p.is_visible_on_storefront = true
+      AND (
+        (prefix_query IS NOT NULL AND p.search_vector @@ prefix_query)
+        OR extensions.word_similarity(
+          normalized_query,
+          lower(public.immutable_unaccent(concat_ws(' ', p.title, p.brand, p.model)))
+        ) >= 0.4
+      )
+  ) AS matches
+  ORDER BY matches.rank DESC, matches.display_order ASC NULLS LAST, matches.id DESC
+  LIMIT GREATEST(LEAST(p_limit, 100), 1)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_storefront_products(uuid, text, integer, integer) TO anon, authenticated;
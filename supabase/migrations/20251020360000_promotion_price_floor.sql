@@ -0,0 +1,94 @@
+/*
+  # Promoções não zeram o preço dos produtos
+
+  Um desconto fixo maior ou igual ao preço, ou de 100%, fazia `get_promotional_price`
+  retornar 0 e o pedido sair de graça, enquanto o carrinho mostrava o preço cheio.
+
+  1. Funções
+    - `validate_promotion_discount` - Recusa ao salvar promoções ativas com porcentagem de 100%
+      ou desconto fixo maior ou igual ao preço de algum produto da promoção
+    - `get_promotional_price` - Ignora as promoções que deixariam o produto sem preço, por
+      exemplo quando o preço do produto baixa depois da promoção criada
+*/
+
+-- 1. Validar o desconto ao salvar a promoção
+CREATE OR REPLACE FUNCTION public.validate_promotion_discount()
+RETURNS TRIGGER AS $$
+DECLARE
+  zeroed_product text;
+BEGIN
+  -- Promoções desativadas podem ser salvas, por exemplo para encerrar uma promoção antiga
+  IF NOT NEW.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.discount_type = 'percentage' AND NEW.discount_value >= 100 THEN
+    RAISE EXCEPTION 'A porcentagem da promoção deve ser menor que 100%%';
+  END IF;
+
+  IF NEW.discount_type = 'fixed' THEN
+    SELECT p.title
+    INTO zeroed_product
+    FROM public.products p
+    WHERE p.user_id = NEW.user_id
+      AND COALESCE(p.price, 0) > 0
+      AND p.price <= NEW.discount_value
+      AND (
+        NEW.target_type = 'all'
+        OR (NEW.target_type = 'products' AND p.id = ANY(NEW.product_ids))
+        OR (NEW.target_type = 'categories' AND p.category && NEW.categories)
+      )
+    ORDER BY p.price ASC
+    LIMIT 1;
+
+    IF zeroed_product IS NOT NULL THEN
+      RAISE EXCEPTION 'O desconto da promoção deve ser menor que o preço de %', zeroed_product;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_promotion_discount ON public.promotions;
+
+CREATE TRIGGER validate_promotion_discount
+  BEFORE INSERT OR UPDATE ON public.promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_promotion_discount();
+
+-- 2. Menor preço promocional de um produto, sem as promoções que zerariam o preço
+-- Retorna NULL quando nenhuma promoção em andamento se aplica ao produto
+CREATE OR REPLACE FUNCTION public.get_promotional_price(p_product_id uuid)
+RETURNS decimal AS $$
+DECLARE
+  promotional_price decimal(12,2);
+BEGIN
+  SELECT MIN(prices.price)
+  INTO promotional_price
+  FROM (
+    SELECT
+      CASE pr.discount_type
+        WHEN 'percentage' THEN round(p.price * (100 - LEAST(pr.discount_value, 100)) / 100, 2)
+        ELSE p.price - pr.discount_value
+      END AS price
+    FROM public.products p
+    JOIN public.promotions pr ON pr.user_id = p.user_id
+    WHERE p.id = p_product_id
+      AND COALESCE(p.price, 0) > 0
+      AND pr.is_active = true
+      AND pr.starts_at <= now()
+      AND pr.ends_at > now()
+      AND (
+        pr.target_type = 'all'
+        OR (pr.target_type = 'products' AND p.id = ANY(pr.product_ids))
+        OR (pr.target_type = 'categories' AND p.category && pr.categories)
+      )
+  ) AS prices
+  WHERE prices.price > 0;
+
+  RETURN promotional_price;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_promotional_price(uuid) TO anon, authenticated;
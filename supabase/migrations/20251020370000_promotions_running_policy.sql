@@ -0,0 +1,17 @@
+/*
+  # Vitrine lê só as promoções em andamento
+
+  A política pública listava também as promoções agendadas, expondo campanhas antes do início.
+
+  1. Segurança
+    - "Public can view active promotions" é substituída por "Public can view running promotions",
+      que só retorna promoções ativas com o período em andamento
+*/
+
+DROP POLICY IF EXISTS "Public can view active promotions" ON public.promotions;
+
+CREATE POLICY "Public can view running promotions"
+  ON public.promotions
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = true AND starts_at <= now() AND ends_at > now());